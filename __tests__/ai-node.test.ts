@@ -0,0 +1,88 @@
+/**
+ * Unit Tests for lib/automations/ai-node.ts
+ */
+
+import {
+    DEFAULT_AI_CATEGORIES,
+    buildAiSystemPrompt,
+    buildContactFieldUpdate,
+    fillPromptTemplate,
+    getAiCategories,
+    getAiTargetField,
+    getAiVariableName,
+    matchAiCategory,
+} from '../lib/automations/ai-node';
+
+const categories = [
+    { id: 'b2b', label: 'B2B' },
+    { id: 'b2c', label: 'B2C' },
+];
+
+describe('fillPromptTemplate', () => {
+    it('should fill contact, deal, variable and activity placeholders', () => {
+        const prompt = fillPromptTemplate(
+            'Is {{contact.company}} ({{ contact.custom_fields.plan }}) with deal {{deal.name}} B2B? {{vars.summary}}\n{{activities}} {{unknown.value}}',
+            {
+                trigger: {},
+                contact: { company: 'Acme', custom_fields: { plan: 'Pro' } },
+                deal: { name: 'Renewal' },
+                activities: [{ type: 'call', title: 'Intro call', created_at: '2026-10-18T10:00:00Z' }],
+                vars: { summary: 'Wants a demo' },
+            }
+        );
+        expect(prompt).toBe('Is Acme (Pro) with deal Renewal B2B? Wants a demo\n- 2026-10-18 call - Intro call ');
+    });
+
+    it('should leave placeholders empty when there is no deal', () => {
+        expect(fillPromptTemplate('[{{deal.stage}}]', { trigger: {}, contact: {}, deal: null, activities: [], vars: {} })).toBe('[]');
+    });
+});
+
+describe('matchAiCategory', () => {
+    it('should match the answer to a single category', () => {
+        expect(matchAiCategory('B2B', categories)?.id).toBe('b2b');
+        expect(matchAiCategory('  "b2c."', categories)?.id).toBe('b2c');
+        expect(matchAiCategory('This is a B2B company.', categories)?.id).toBe('b2b');
+    });
+
+    it('should not guess between several or no categories', () => {
+        expect(matchAiCategory('B2B or B2C', categories)).toBeNull();
+        expect(matchAiCategory('Not sure', categories)).toBeNull();
+    });
+});
+
+describe('node settings', () => {
+    it('should fall back to Yes/No categories', () => {
+        expect(getAiCategories({})).toEqual(DEFAULT_AI_CATEGORIES);
+        expect(getAiCategories({ categories })).toEqual(categories);
+    });
+
+    it('should sanitize the variable name', () => {
+        expect(getAiVariableName({ outputVariable: 'Lead Summary!' })).toBe('lead_summary');
+        expect(getAiVariableName({})).toBe('ai_output');
+    });
+
+    it('should only accept known target fields', () => {
+        expect(getAiTargetField({ writeToField: 'job_title' })).toBe('job_title');
+        expect(getAiTargetField({ writeToField: 'custom_fields.segment' })).toBe('custom_fields.segment');
+        expect(getAiTargetField({ writeToField: 'organization_id' })).toBeNull();
+        expect(getAiTargetField({ writeToField: 'status' })).toBeNull();
+        expect(getAiTargetField({ writeToField: 'custom_fields.' })).toBeNull();
+    });
+
+    it('should ask for exactly one category when classifying', () => {
+        expect(buildAiSystemPrompt({ mode: 'classify', categories })).toContain('exactly one of the following answers and nothing else: B2B, B2C.');
+        expect(buildAiSystemPrompt({})).not.toContain('exactly one');
+    });
+});
+
+describe('buildContactFieldUpdate', () => {
+    it('should merge nested custom fields', () => {
+        const contact = { custom_fields: { plan: 'Pro', ai: { tone: 'formal' } } };
+        expect(buildContactFieldUpdate(contact, 'custom_fields.ai.segment', 'B2B')).toEqual({
+            custom_fields: { plan: 'Pro', ai: { tone: 'formal', segment: 'B2B' } },
+        });
+        expect(contact.custom_fields.ai).toEqual({ tone: 'formal' });
+        expect(buildContactFieldUpdate(contact, 'job_title', 'CTO')).toEqual({ job_title: 'CTO' });
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * Unit Tests for lib/attachment-policy.ts
+ */
+
+import {
+    MAX_ATTACHMENT_BYTES,
+    MAX_ATTACHMENTS,
+    buildAttachmentPath,
+    checkAttachment,
+    checkAttachmentSet,
+    formatBytes,
+    isAllowedContentType,
+    sanitizeFileName,
+} from '../lib/attachment-policy';
+
+describe('sanitizeFileName', () => {
+    it('should strip directories and unsafe characters', () => {
+        expect(sanitizeFileName('../../etc/passwd')).toBe('passwd');
+        expect(sanitizeFileName('C:\\Users\\me\\Q3 "report".pdf')).toBe('Q3 report.pdf');
+        expect(sanitizeFileName('')).toBe('attachment');
+    });
+
+    it('should keep the extension when truncating', () => {
+        const name = sanitizeFileName(`${'a'.repeat(200)}.pdf`);
+        expect(name).toHaveLength(120);
+        expect(name.endsWith('.pdf')).toBe(true);
+    });
+});
+
+describe('isAllowedContentType', () => {
+    it('should allow documents and images', () => {
+        expect(isAllowedContentType('application/pdf', 'quote.pdf')).toBe(true);
+        expect(isAllowedContentType('image/png; name=x.png', 'x.png')).toBe(true);
+    });
+
+    it('should refuse executables whatever their type', () => {
+        expect(isAllowedContentType('application/pdf', 'invoice.pdf.exe')).toBe(false);
+        expect(isAllowedContentType('application/x-msdownload', 'setup.bin')).toBe(false);
+        expect(isAllowedContentType('image/svg+xml', 'logo.svg')).toBe(false);
+    });
+});
+
+describe('checkAttachment', () => {
+    it('should enforce size and type', () => {
+        expect(checkAttachment({ name: 'a.pdf', size: 1000, contentType: 'application/pdf' })).toBeNull();
+        expect(checkAttachment({ name: 'a.pdf', size: 0, contentType: 'application/pdf' })).toMatch(/empty/);
+        expect(checkAttachment({ name: 'a.pdf', size: MAX_ATTACHMENT_BYTES + 1, contentType: 'application/pdf' })).toMatch(/larger than 10 MB/);
+        expect(checkAttachment({ name: 'run.sh', size: 10, contentType: 'text/plain' })).toMatch(/not an allowed/);
+    });
+});
+
+describe('checkAttachmentSet', () => {
+    const pdf = (size: number) => ({ name: 'a.pdf', size, contentType: 'application/pdf' });
+
+    it('should limit the count and the total size', () => {
+        expect(checkAttachmentSet([pdf(1000), pdf(2000)])).toBeNull();
+        expect(checkAttachmentSet(Array.from({ length: MAX_ATTACHMENTS + 1 }, () => pdf(10)))).toMatch(/At most/);
+        expect(checkAttachmentSet([pdf(MAX_ATTACHMENT_BYTES), pdf(MAX_ATTACHMENT_BYTES)])).toMatch(/total more than/);
+    });
+});
+
+describe('helpers', () => {
+    it('should format sizes and build storage paths', () => {
+        expect(formatBytes(512)).toBe('512 B');
+        expect(formatBytes(2048)).toBe('2 KB');
+        expect(formatBytes(1.5 * 1024 * 1024)).toBe('1.5 MB');
+        expect(buildAttachmentPath('org', 'file', 'a/b.pdf')).toBe('org/file/b.pdf');
+    });
+});
@@ -0,0 +1,46 @@
+/**
+ * Unit Tests for lib/automations/bulk-enroll.ts
+ */
+
+import {
+    describeEnrollmentJob,
+    getEnrollmentProgress,
+    hasManualTrigger,
+    isEnrollmentJobActive,
+} from '../lib/automations/bulk-enroll';
+
+describe('hasManualTrigger', () => {
+    it('should only accept a manual trigger node', () => {
+        expect(hasManualTrigger([{ type: 'trigger', data: { triggerType: 'manual' } }, { type: 'email', data: {} }])).toBe(true);
+        expect(hasManualTrigger([{ type: 'trigger', data: { triggerType: 'contact_created' } }])).toBe(false);
+        expect(hasManualTrigger([{ type: 'action', data: { triggerType: 'manual' } }])).toBe(false);
+        expect(hasManualTrigger(null)).toBe(false);
+    });
+});
+
+describe('isEnrollmentJobActive', () => {
+    it('should treat queued and running jobs as active', () => {
+        expect(isEnrollmentJobActive({ status: 'queued' })).toBe(true);
+        expect(isEnrollmentJobActive({ status: 'running' })).toBe(true);
+        expect(isEnrollmentJobActive({ status: 'cancelled' })).toBe(false);
+        expect(isEnrollmentJobActive({ status: 'completed' })).toBe(false);
+    });
+});
+
+describe('getEnrollmentProgress', () => {
+    it('should round down to whole percent', () => {
+        expect(getEnrollmentProgress({ processed: 0, total: 250 })).toBe(0);
+        expect(getEnrollmentProgress({ processed: 100, total: 300 })).toBe(33);
+        expect(getEnrollmentProgress({ processed: 300, total: 300 })).toBe(100);
+        expect(getEnrollmentProgress({ processed: 0, total: 0 })).toBe(100);
+    });
+});
+
+describe('describeEnrollmentJob', () => {
+    it('should summarise the counters', () => {
+        expect(describeEnrollmentJob({ status: 'running', total: 1, enrolled: 0, skipped: 0, failed: 0 }))
+            .toBe('Enrolled 0 of 1 contact');
+        expect(describeEnrollmentJob({ status: 'cancelled', total: 500, enrolled: 120, skipped: 3, failed: 1 }))
+            .toBe('Enrolled 120 of 500 contacts, 3 skipped by re-entry rules, 1 failed, cancelled');
+    });
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit Tests for lib/automations/conditions.ts
+ */
+
+import {
+    evaluateConditionGroup,
+    evaluateRule,
+    getNodeConditions,
+    collectConditionFields,
+    mapConditionValues,
+    ConditionFacts,
+    ConditionGroup,
+} from '../lib/automations/conditions';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const facts: ConditionFacts = {
+    contact: {
+        email: 'ana@example.com',
+        lead_score: 72,
+        tags: ['VIP', 'Newsletter'],
+        created_at: '2026-10-01T00:00:00Z',
+        custom_fields: { plan: { tier: 'Pro' }, renewal: '2026-11-01' },
+    },
+    related: {
+        open_deal_pipelines: ['pipeline-1'],
+        last_call_outcome: 'Interested',
+        email_opened_in_run: false,
+    },
+    vars: { ai_segment: 'B2B' },
+    trigger: { budget: '15000' },
+};
+
+describe('evaluateRule', () => {
+    it('should read nested custom field paths', () => {
+        expect(evaluateRule({ id: '1', field: 'custom_fields.plan.tier', operator: 'equals', value: 'pro' }, facts)).toBe(true);
+        expect(evaluateRule({ id: '1', field: 'custom_fields.plan.seats', operator: 'exists' }, facts)).toBe(false);
+    });
+
+    it('should match tags case-insensitively', () => {
+        expect(evaluateRule({ id: '1', field: 'tags', operator: 'has_tag', value: 'vip' }, facts)).toBe(true);
+        expect(evaluateRule({ id: '1', field: 'tags', operator: 'not_has_tag', value: 'Churned' }, facts)).toBe(true);
+    });
+
+    it('should compare score ranges inclusively with open bounds', () => {
+        expect(evaluateRule({ id: '1', field: 'lead_score', operator: 'between', value: '50', value2: '72' }, facts)).toBe(true);
+        expect(evaluateRule({ id: '1', field: 'lead_score', operator: 'between', value: '80', value2: '' }, facts)).toBe(false);
+    });
+
+    it('should compare dates relative to now', () => {
+        expect(evaluateRule({ id: '1', field: 'created_at', operator: 'older_than_days', value: '7' }, facts, now)).toBe(true);
+        expect(evaluateRule({ id: '1', field: 'created_at', operator: 'within_last_days', value: '7' }, facts, now)).toBe(false);
+        expect(evaluateRule({ id: '1', field: 'custom_fields.renewal', operator: 'after', value: '2026-10-19' }, facts)).toBe(true);
+    });
+
+    it('should evaluate related facts', () => {
+        expect(evaluateRule({ id: '1', field: 'related.open_deal_pipelines', operator: 'contains', value: 'pipeline-1' }, facts)).toBe(true);
+        expect(evaluateRule({ id: '1', field: 'related.open_deal_pipelines', operator: 'contains', value: 'any' }, facts)).toBe(true);
+        expect(evaluateRule({ id: '1', field: 'related.last_call_outcome', operator: 'equals', value: 'interested' }, facts)).toBe(true);
+        expect(evaluateRule({ id: '1', field: 'related.email_opened_in_run', operator: 'is_false' }, facts)).toBe(true);
+    });
+
+    it('should read run variables', () => {
+        expect(evaluateRule({ id: '1', field: 'vars.ai_segment', operator: 'equals', value: 'b2b' }, facts)).toBe(true);
+        expect(evaluateRule({ id: '1', field: 'vars.missing', operator: 'not_exists' }, facts)).toBe(true);
+        expect(evaluateRule({ id: '1', field: 'trigger.budget', operator: 'greater_than', value: '10000' }, facts)).toBe(true);
+    });
+});
+
+describe('evaluateConditionGroup', () => {
+    it('should combine nested AND/OR groups', () => {
+        const group: ConditionGroup = {
+            id: 'root',
+            combinator: 'and',
+            conditions: [
+                { id: '1', field: 'tags', operator: 'has_tag', value: 'VIP' },
+                {
+                    id: 'g',
+                    combinator: 'or',
+                    conditions: [
+                        { id: '2', field: 'lead_score', operator: 'greater_than', value: '90' },
+                        { id: '3', field: 'email', operator: 'contains', value: '@example.com' },
+                    ],
+                },
+            ],
+        };
+
+        expect(evaluateConditionGroup(group, facts)).toBe(true);
+        expect(evaluateConditionGroup({ ...group, combinator: 'and', conditions: [group.conditions[1], { id: '4', field: 'tags', operator: 'has_tag', value: 'Lost' }] }, facts)).toBe(false);
+    });
+
+    it('should treat an empty group as true', () => {
+        expect(evaluateConditionGroup({ id: 'root', combinator: 'or', conditions: [] }, facts)).toBe(true);
+    });
+});
+
+describe('getNodeConditions', () => {
+    it('should wrap a legacy single condition into a group', () => {
+        const group = getNodeConditions({ field: 'lead_score', operator: 'greater_than', value: '50' });
+
+        expect(group.combinator).toBe('and');
+        expect(collectConditionFields(group)).toEqual(['lead_score']);
+        expect(evaluateConditionGroup(group, facts)).toBe(true);
+    });
+});
+
+describe('mapConditionValues', () => {
+    it('should fill values in nested groups', () => {
+        const group: ConditionGroup = {
+            id: 'root',
+            combinator: 'and',
+            conditions: [
+                { id: '1', field: 'lead_score', operator: 'between', value: '{{min}}', value2: '90' },
+                { id: 'g', combinator: 'or', conditions: [{ id: '2', field: 'email', operator: 'exists' }] },
+            ],
+        };
+        const mapped = mapConditionValues(group, value => value.replace('{{min}}', '50'));
+        expect(mapped.conditions[0]).toMatchObject({ value: '50', value2: '90' });
+        expect(evaluateConditionGroup(mapped, facts)).toBe(true);
+    });
+});
@@ -0,0 +1,78 @@
+/**
+ * Unit Tests for lib/email-threading.ts
+ */
+
+import {
+    buildMessageId,
+    buildReplyHeaders,
+    getReplyRecipients,
+    getReplyReferences,
+    isAutomaticReply,
+    normalizeSubject,
+    parseMessageIds,
+    prefixSubject,
+} from '../lib/email-threading';
+
+describe('buildMessageId', () => {
+    it('should use the sender domain', () => {
+        expect(buildMessageId('e1', 'Sales@Acme.com')).toBe('<e1@acme.com>');
+        expect(buildMessageId('e1', null)).toBe('<e1@localhost>');
+    });
+});
+
+describe('parseMessageIds', () => {
+    it('should extract bracketed and bare ids', () => {
+        expect(parseMessageIds('<a@x.com> <b@x.com>')).toEqual(['<a@x.com>', '<b@x.com>']);
+        expect(parseMessageIds(['<a@x.com>', 'b@x.com'])).toEqual(['<a@x.com>', '<b@x.com>']);
+        expect(parseMessageIds(undefined)).toEqual([]);
+    });
+});
+
+describe('getReplyReferences', () => {
+    it('should put In-Reply-To first and the newest references next', () => {
+        expect(getReplyReferences('<c@x.com>', '<a@x.com> <b@x.com> <c@x.com>'))
+            .toEqual(['<c@x.com>', '<b@x.com>', '<a@x.com>']);
+    });
+});
+
+describe('isAutomaticReply', () => {
+    it('should recognise auto-responders', () => {
+        expect(isAutomaticReply({ 'auto-submitted': 'auto-replied' })).toBe(true);
+        expect(isAutomaticReply({ 'auto-submitted': 'no' }, 'Re: Pricing')).toBe(false);
+        expect(isAutomaticReply({ precedence: 'bulk' })).toBe(true);
+        expect(isAutomaticReply({}, 'Out of Office: back Monday')).toBe(true);
+        expect(isAutomaticReply({}, 'Re: Quick question')).toBe(false);
+    });
+});
+
+describe('prefixSubject', () => {
+    it('should not stack prefixes', () => {
+        expect(normalizeSubject('Re: RE: Fwd: Pricing')).toBe('Pricing');
+        expect(prefixSubject('Re: Pricing', 'reply')).toBe('Re: Pricing');
+        expect(prefixSubject('Re: Pricing', 'forward')).toBe('Fwd: Pricing');
+        expect(prefixSubject('', 'reply')).toBe('Re: (No Subject)');
+    });
+});
+
+describe('buildReplyHeaders', () => {
+    it('should reply to the message and extend its references', () => {
+        expect(buildReplyHeaders({ message_id: '<b@x.com>', reference_ids: ['<a@x.com>'] }, 'reply'))
+            .toEqual({ inReplyTo: '<b@x.com>', references: ['<a@x.com>', '<b@x.com>'] });
+        expect(buildReplyHeaders({ message_id: '<b@x.com>', reference_ids: null }, 'forward').inReplyTo).toBeNull();
+    });
+});
+
+describe('getReplyRecipients', () => {
+    const own = ['me@acme.com'];
+
+    it('should answer the other party', () => {
+        expect(getReplyRecipients({ from_addr: 'jane@x.com', to_addr: 'me@acme.com' }, 'reply', own)).toEqual(['jane@x.com']);
+        expect(getReplyRecipients({ from_addr: 'Me@acme.com', to_addr: 'jane@x.com, bob@x.com' }, 'reply', own)).toEqual(['jane@x.com']);
+    });
+
+    it('should include everyone but us on reply all', () => {
+        expect(getReplyRecipients({ from_addr: 'jane@x.com', to_addr: 'me@acme.com, bob@x.com' }, 'reply_all', own))
+            .toEqual(['jane@x.com', 'bob@x.com']);
+        expect(getReplyRecipients({ from_addr: 'jane@x.com', to_addr: 'me@acme.com' }, 'forward', own)).toEqual([]);
+    });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit Tests for lib/automations/retry-policy.ts
+ */
+
+import {
+    DEFAULT_RETRY_POLICY,
+    MAX_RETRIES,
+    getRetryDelaySeconds,
+    getRetryPolicy,
+    isTransientError,
+    shouldRetry,
+} from '../lib/automations/retry-policy';
+
+describe('getRetryPolicy', () => {
+    it('should fall back to the defaults', () => {
+        expect(getRetryPolicy({})).toEqual(DEFAULT_RETRY_POLICY);
+    });
+
+    it('should read and clamp the node settings', () => {
+        expect(getRetryPolicy({ retryCount: '4', retryDelayMinutes: '5', retryBackoff: 'fixed', retryOn: 'any' }))
+            .toEqual({ retries: 4, backoff: 'fixed', delaySeconds: 300, retryOn: 'any' });
+        expect(getRetryPolicy({ retryCount: '0' }).retries).toBe(0);
+        expect(getRetryPolicy({ retryCount: '99' }).retries).toBe(MAX_RETRIES);
+        expect(getRetryPolicy({ retryCount: '-3' }).retries).toBe(0);
+    });
+});
+
+describe('isTransientError', () => {
+    it('should recognise network errors and temporary status codes', () => {
+        expect(isTransientError(Object.assign(new Error('connect failed'), { code: 'ETIMEDOUT' }))).toBe(true);
+        expect(isTransientError({ message: 'Mailbox busy', responseCode: 421 })).toBe(true);
+        expect(isTransientError({ message: 'Overloaded', status: 503 })).toBe(true);
+        expect(isTransientError(new Error('AI provider responded with HTTP 529'))).toBe(true);
+        expect(isTransientError(new Error('Connection timeout'))).toBe(true);
+    });
+
+    it('should treat other errors as permanent', () => {
+        expect(isTransientError({ message: 'Mailbox unavailable', responseCode: 550 })).toBe(false);
+        expect(isTransientError(new Error('Template not found'))).toBe(false);
+        expect(isTransientError(new Error('AI provider responded with HTTP 401'))).toBe(false);
+        expect(isTransientError('timeout')).toBe(false);
+    });
+});
+
+describe('shouldRetry', () => {
+    it('should stop once the retries are used up', () => {
+        const timeout = new Error('Connection timeout');
+        expect(shouldRetry(DEFAULT_RETRY_POLICY, 1, timeout)).toBe(true);
+        expect(shouldRetry(DEFAULT_RETRY_POLICY, 2, timeout)).toBe(true);
+        expect(shouldRetry(DEFAULT_RETRY_POLICY, 3, timeout)).toBe(false);
+    });
+
+    it('should only retry permanent errors when the node asks for it', () => {
+        const error = new Error('Template not found');
+        expect(shouldRetry(DEFAULT_RETRY_POLICY, 1, error)).toBe(false);
+        expect(shouldRetry({ ...DEFAULT_RETRY_POLICY, retryOn: 'any' }, 1, error)).toBe(true);
+    });
+});
+
+describe('getRetryDelaySeconds', () => {
+    it('should back off exponentially up to the cap', () => {
+        expect(getRetryDelaySeconds(DEFAULT_RETRY_POLICY, 1)).toBe(60);
+        expect(getRetryDelaySeconds(DEFAULT_RETRY_POLICY, 2)).toBe(300);
+        expect(getRetryDelaySeconds(DEFAULT_RETRY_POLICY, 10)).toBe(6 * 60 * 60);
+    });
+
+    it('should keep a fixed delay', () => {
+        expect(getRetryDelaySeconds({ ...DEFAULT_RETRY_POLICY, backoff: 'fixed' }, 3)).toBe(60);
+    });
+});
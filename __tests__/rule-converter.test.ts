@@ -0,0 +1,63 @@
+/**
+ * Unit Tests for lib/automations/rule-converter.ts
+ */
+
+import { convertRuleToWorkflow } from '../lib/automations/rule-converter';
+import type { AutomationRule } from '../types';
+
+const baseRule: AutomationRule = {
+    id: 'rule-1',
+    organization_id: 'org-1',
+    name: 'Welcome new leads',
+    trigger_type: 'lead_created',
+    trigger_config: { form_id: 'form-1' },
+    actions: [],
+    is_active: true,
+    created_at: '2025-10-01T00:00:00Z',
+};
+
+describe('convertRuleToWorkflow', () => {
+    it('should chain actions in order after the trigger', () => {
+        const { nodes, edges, warnings } = convertRuleToWorkflow({
+            ...baseRule,
+            actions: [
+                { id: 'a2', type: 'send_email', config: { template_id: 'tpl-1' }, order: 2 },
+                { id: 'a1', type: 'add_tag', config: { tag: 'New Lead' }, order: 1 },
+                { id: 'a3', type: 'wait', config: { days: 2 }, order: 3 },
+            ],
+        });
+
+        expect(warnings).toEqual([]);
+        expect(nodes.map(n => n.type)).toEqual(['trigger', 'action', 'email', 'delay']);
+        expect(nodes[0].data).toMatchObject({ triggerType: 'lead_created', formId: 'form-1' });
+        expect(nodes[1].data).toMatchObject({ actionType: 'add_tag', tag: 'New Lead' });
+        expect(nodes[2].data).toMatchObject({ templateId: 'tpl-1' });
+        expect(nodes[3].data).toMatchObject({ duration: '2', unit: 'days' });
+        expect(edges.map(e => [e.source, e.target])).toEqual([
+            ['trigger', nodes[1].id],
+            [nodes[1].id, nodes[2].id],
+            [nodes[2].id, nodes[3].id],
+        ]);
+    });
+
+    it('should map trigger aliases and filters', () => {
+        const { nodes } = convertRuleToWorkflow({ ...baseRule, trigger_type: 'stage_changed', trigger_config: { stage: 'won' } });
+
+        expect(nodes[0].data).toMatchObject({ triggerType: 'deal_stage_changed', toStage: 'won' });
+    });
+
+    it('should report unsupported triggers and actions instead of guessing', () => {
+        const { nodes, edges, warnings } = convertRuleToWorkflow({
+            ...baseRule,
+            trigger_type: 'call_missed',
+            actions: [
+                { id: 'a1', type: 'send_sms', config: {}, order: 1 },
+                { id: 'a2', type: 'add_tag', config: { tag: 'Missed' }, order: 2 },
+            ],
+        });
+
+        expect(warnings).toHaveLength(2);
+        expect(nodes).toHaveLength(2);
+        expect(edges).toEqual([{ id: `e-trigger-${nodes[1].id}`, source: 'trigger', target: nodes[1].id }]);
+    });
+});
@@ -0,0 +1,58 @@
+/**
+ * Unit Tests for lib/automations/run-context.ts
+ */
+
+import {
+    getRunVariables,
+    hasPlaceholders,
+    renderTemplate,
+    sanitizeVariableName,
+    withRunVariables,
+} from '../lib/automations/run-context';
+
+const context = {
+    trigger: { formId: 'form-1', budget: 12000, message: '<b>Call me</b>' },
+    contact: { first_name: 'Ana', company: 'Acme', tags: ['VIP', 'Trial'], custom_fields: { plan: { tier: 'Pro' } } },
+    deal: null,
+    vars: { segment: 'B2B' },
+};
+
+describe('renderTemplate', () => {
+    it('should fill nested paths from every root', () => {
+        expect(renderTemplate(
+            'Hi {{contact.first_name}} ({{ contact.custom_fields.plan.tier }}), budget {{trigger.budget}}, {{vars.segment}}, tags {{contact.tags}}',
+            context
+        )).toBe('Hi Ana (Pro), budget 12000, B2B, tags VIP, Trial');
+    });
+
+    it('should blank missing values', () => {
+        expect(renderTemplate('[{{deal.name}}][{{vars.unknown}}][{{nothing}}]', context)).toBe('[][][]');
+    });
+
+    it('should escape HTML when asked', () => {
+        expect(renderTemplate('{{trigger.message}}', context)).toBe('<b>Call me</b>');
+        expect(renderTemplate('{{trigger.message}}', context, { escapeHtml: true })).toBe('&lt;b&gt;Call me&lt;/b&gt;');
+    });
+});
+
+describe('run variables', () => {
+    it('should add variables without touching the rest of the metadata', () => {
+        const metadata = { trigger_payload: { contactId: 'c1' }, variables: { a: '1' } };
+        const updated = withRunVariables(metadata, { b: '2' });
+        expect(updated).toEqual({ trigger_payload: { contactId: 'c1' }, variables: { a: '1', b: '2' } });
+        expect(getRunVariables(metadata)).toEqual({ a: '1' });
+        expect(getRunVariables(null)).toEqual({});
+    });
+
+    it('should sanitize variable names', () => {
+        expect(sanitizeVariableName(' Deal Budget! ')).toBe('deal_budget');
+        expect(sanitizeVariableName('---')).toBe('');
+    });
+});
+
+describe('hasPlaceholders', () => {
+    it('should detect placeholders in any of the texts', () => {
+        expect(hasPlaceholders('plain', '{{vars.a}}')).toBe(true);
+        expect(hasPlaceholders('plain', undefined, '{ "a": 1 }')).toBe(false);
+    });
+});
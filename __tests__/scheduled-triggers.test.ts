@@ -0,0 +1,44 @@
+/**
+ * Unit Tests for lib/automations/scheduled-triggers.ts
+ */
+
+import {
+    describeScheduledTrigger,
+    getCustomFieldPath,
+    getDateTriggerWindow,
+    isScheduledTrigger,
+} from '../lib/automations/scheduled-triggers';
+
+const now = new Date('2026-10-19T23:30:00Z');
+
+describe('getDateTriggerWindow', () => {
+    it('should look ahead for triggers before the date', () => {
+        expect(getDateTriggerWindow({ offsetDays: '7', offsetDirection: 'before' }, now)).toEqual({ from: '2026-10-25', to: '2026-10-26' });
+    });
+
+    it('should look back for triggers after the date', () => {
+        expect(getDateTriggerWindow({ offsetDays: 3, offsetDirection: 'after' }, now)).toEqual({ from: '2026-10-15', to: '2026-10-16' });
+    });
+
+    it('should fire on the date itself with no offset', () => {
+        expect(getDateTriggerWindow({}, now)).toEqual({ from: '2026-10-18', to: '2026-10-19' });
+    });
+});
+
+describe('getCustomFieldPath', () => {
+    it('should split nested paths and drop the custom_fields prefix', () => {
+        expect(getCustomFieldPath({ customField: 'custom_fields.contract.renewal_date' })).toEqual(['contract', 'renewal_date']);
+        expect(getCustomFieldPath({ customField: '' })).toEqual([]);
+    });
+});
+
+describe('describeScheduledTrigger', () => {
+    it('should describe date and inactivity triggers', () => {
+        expect(isScheduledTrigger('inactivity')).toBe(true);
+        expect(isScheduledTrigger('tag_added')).toBe(false);
+        expect(describeScheduledTrigger({ triggerType: 'inactivity', inactiveDays: '45' })).toBe('No activity for 45 days');
+        expect(describeScheduledTrigger({ triggerType: 'date_based', dateSource: 'deal_close_date', offsetDays: 1, offsetDirection: 'before' }))
+            .toBe('1 day before Deal Expected Close Date');
+        expect(describeScheduledTrigger({ triggerType: 'date_based', dateSource: 'custom_field', customField: 'renewal' })).toBe('On renewal');
+    });
+});
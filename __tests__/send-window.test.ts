@@ -0,0 +1,95 @@
+/**
+ * Unit Tests for lib/automations/send-window.ts
+ */
+
+import {
+    DEFAULT_SEND_WINDOW,
+    SendWindowSettings,
+    addDuration,
+    calculateDelayUntil,
+    isQuietTime,
+    nextSendTime,
+    nextTimeOfDay,
+    parseTimeOfDay,
+    resolveTimeZone,
+} from '../lib/automations/send-window';
+
+const quiet: SendWindowSettings = {
+    ...DEFAULT_SEND_WINDOW,
+    quiet_hours_enabled: true,
+    quiet_hours_start: '20:00',
+    quiet_hours_end: '08:00',
+    skip_weekends: true,
+};
+
+describe('parseTimeOfDay', () => {
+    it('should parse HH:MM and reject malformed values', () => {
+        expect(parseTimeOfDay('09:30')).toBe(570);
+        expect(parseTimeOfDay('24:00')).toBeNull();
+        expect(parseTimeOfDay('9am')).toBeNull();
+    });
+});
+
+describe('resolveTimeZone', () => {
+    it('should prefer a valid contact timezone, then the organization default', () => {
+        expect(resolveTimeZone('America/New_York', DEFAULT_SEND_WINDOW)).toBe('America/New_York');
+        expect(resolveTimeZone('Not/AZone', { ...DEFAULT_SEND_WINDOW, timezone: 'Europe/Paris' })).toBe('Europe/Paris');
+        expect(resolveTimeZone(null, { ...DEFAULT_SEND_WINDOW, timezone: '' })).toBe('UTC');
+    });
+});
+
+describe('quiet hours', () => {
+    it('should treat an overnight window in the contact timezone as quiet', () => {
+        // 07:00 UTC on a Wednesday is 03:00 in New York
+        const date = new Date('2026-10-21T07:00:00Z');
+        expect(isQuietTime(date, quiet, 'America/New_York')).toBe(true);
+        expect(isQuietTime(date, quiet, 'Europe/Berlin')).toBe(false);
+    });
+
+    it('should hold until quiet hours end that morning', () => {
+        const release = nextSendTime(new Date('2026-10-21T07:00:00Z'), quiet, 'America/New_York');
+        expect(release.toISOString()).toBe('2026-10-21T12:00:00.000Z'); // 08:00 EDT
+    });
+
+    it('should skip the weekend', () => {
+        // Friday 21:00 in New York
+        const release = nextSendTime(new Date('2026-10-24T01:00:00Z'), quiet, 'America/New_York');
+        expect(release.toISOString()).toBe('2026-10-26T12:00:00.000Z'); // Monday 08:00 EDT
+    });
+
+    it('should leave allowed times alone', () => {
+        const date = new Date('2026-10-21T15:00:00Z');
+        expect(nextSendTime(date, quiet, 'America/New_York')).toBe(date);
+    });
+});
+
+describe('nextTimeOfDay', () => {
+    it('should find the next business day at the local time', () => {
+        // Friday 10:00 in London
+        const next = nextTimeOfDay(new Date('2026-10-23T09:00:00Z'), 9 * 60, 'Europe/London', true);
+        expect(next.toISOString()).toBe('2026-10-26T09:00:00.000Z'); // Monday 09:00 GMT, after the DST change
+    });
+
+    it('should use today when the time is still ahead', () => {
+        const next = nextTimeOfDay(new Date('2026-10-21T05:00:00Z'), 9 * 60, 'Europe/London', false);
+        expect(next.toISOString()).toBe('2026-10-21T08:00:00.000Z');
+    });
+});
+
+describe('addDuration', () => {
+    it('should keep the local time of day across a DST change', () => {
+        const result = addDuration(new Date('2026-10-24T08:00:00Z'), { duration: '2', unit: 'days' }, 'Europe/London');
+        expect(result.toISOString()).toBe('2026-10-26T09:00:00.000Z'); // 09:00 BST -> 09:00 GMT
+    });
+});
+
+describe('calculateDelayUntil', () => {
+    it('should push a delay out of quiet hours when the node asks for it', () => {
+        const from = new Date('2026-10-21T20:00:00Z'); // 16:00 in New York
+        const data = { duration: '6', unit: 'hours' };
+
+        expect(calculateDelayUntil(data, from, 'America/New_York', quiet).toISOString()).toBe('2026-10-22T02:00:00.000Z');
+        expect(calculateDelayUntil({ ...data, respectQuietHours: true }, from, 'America/New_York', quiet).toISOString())
+            .toBe('2026-10-22T12:00:00.000Z');
+    });
+});
@@ -0,0 +1,63 @@
+/**
+ * Unit Tests for lib/automations/split.ts
+ */
+
+import {
+    DEFAULT_SPLIT_BRANCHES,
+    createSplitBranch,
+    getSplitBranches,
+    getSplitPercentages,
+    pickSplitBranch,
+} from '../lib/automations/split';
+
+const branches = [
+    { id: 'a', label: 'A', weight: 70 },
+    { id: 'b', label: 'B', weight: 20 },
+    { id: 'c', label: 'C', weight: 10 },
+];
+
+describe('getSplitBranches', () => {
+    it('should fall back to an even A/B split when not configured', () => {
+        expect(getSplitBranches({})).toEqual(DEFAULT_SPLIT_BRANCHES);
+        expect(getSplitBranches({ branches: [{ id: 'a', weight: 100 }] })).toEqual(DEFAULT_SPLIT_BRANCHES);
+    });
+
+    it('should clean up labels and weights', () => {
+        expect(getSplitBranches({ branches: [{ id: 'a', weight: '60' }, { id: 'b', label: 'Short', weight: -5 }] })).toEqual([
+            { id: 'a', label: 'A', weight: 60 },
+            { id: 'b', label: 'Short', weight: 0 },
+        ]);
+    });
+});
+
+describe('pickSplitBranch', () => {
+    it('should pick branches in proportion to their weights', () => {
+        expect(pickSplitBranch(branches, 0).id).toBe('a');
+        expect(pickSplitBranch(branches, 0.69).id).toBe('a');
+        expect(pickSplitBranch(branches, 0.7).id).toBe('b');
+        expect(pickSplitBranch(branches, 0.95).id).toBe('c');
+        expect(pickSplitBranch(branches, 0.9999).id).toBe('c');
+    });
+
+    it('should never pick a branch with no weight', () => {
+        const withZero = [{ id: 'a', label: 'A', weight: 0 }, { id: 'b', label: 'B', weight: 5 }];
+        expect(pickSplitBranch(withZero, 0).id).toBe('b');
+    });
+
+    it('should split evenly when every weight is zero', () => {
+        const zero = branches.map(b => ({ ...b, weight: 0 }));
+        expect(pickSplitBranch(zero, 0.5).id).toBe('b');
+    });
+});
+
+describe('getSplitPercentages', () => {
+    it('should normalise weights to percentages', () => {
+        expect(getSplitPercentages([{ id: 'a', label: 'A', weight: 1 }, { id: 'b', label: 'B', weight: 3 }])).toEqual({ a: 25, b: 75 });
+    });
+});
+
+describe('createSplitBranch', () => {
+    it('should use the next free letter', () => {
+        expect(createSplitBranch(DEFAULT_SPLIT_BRANCHES)).toEqual({ id: 'c', label: 'C', weight: 33 });
+    });
+});
@@ -0,0 +1,73 @@
+/**
+ * Unit Tests for lib/template-engine.ts
+ */
+
+import {
+    buildTemplateContext,
+    hasPlaceholders,
+    renderTemplate,
+    validateTemplate,
+} from '../lib/template-engine';
+
+const context = buildTemplateContext({
+    contact: {
+        first_name: 'Ana',
+        last_name: '',
+        company: 'Acme & Co',
+        tags: ['VIP', 'Trial'],
+        custom_fields: { plan: 'Pro' },
+    },
+    owner: { full_name: 'Sam Lee' },
+    deal: null,
+    deals: [{ name: 'Renewal', value: 1200 }, { name: 'Upsell', value: 300 }],
+});
+
+describe('renderTemplate', () => {
+    it('should fill nested paths and the top-level contact aliases', () => {
+        expect(renderTemplate('Hi {{first_name}} from {{ contact.company }} ({{contact.custom_fields.plan}}), {{owner.full_name}}', context))
+            .toBe('Hi Ana from Acme & Co (Pro), Sam Lee');
+    });
+
+    it('should use the fallback only for empty values', () => {
+        expect(renderTemplate('{{last_name|friend}} {{first_name|there}} {{deal.name | "your deal"}}', context))
+            .toBe('friend Ana your deal');
+    });
+
+    it('should render conditionals', () => {
+        expect(renderTemplate('{{#if deal}}Deal{{else}}No deal{{/if}}', context)).toBe('No deal');
+        expect(renderTemplate('{{#if contact.tags}}Tagged{{/if}}', context)).toBe('Tagged');
+        expect(renderTemplate('{{#unless owner}}Unassigned{{else}}{{owner.full_name}}{{/unless}}', context)).toBe('Sam Lee');
+    });
+
+    it('should render loops with item fields and the index', () => {
+        expect(renderTemplate('{{#each contact.tags}}[{{@index}}:{{this}}]{{/each}}', context)).toBe('[0:VIP][1:Trial]');
+        expect(renderTemplate('{{#each deals}}{{name}} {{value}} for {{first_name}}; {{/each}}', context))
+            .toBe('Renewal 1200 for Ana; Upsell 300 for Ana; ');
+        expect(renderTemplate('{{#each contact.missing}}x{{else}}none{{/each}}', context)).toBe('none');
+    });
+
+    it('should escape values but not the template when asked', () => {
+        expect(renderTemplate('<b>{{contact.company}}</b>', context, { escapeHtml: true })).toBe('<b>Acme &amp; Co</b>');
+    });
+
+    it('should report placeholders left empty', () => {
+        const missing: string[] = [];
+        renderTemplate('{{contact.phone}} {{last_name|x}} {{first_name}}', context, { onMissing: path => missing.push(path) });
+        expect(missing).toEqual(['contact.phone']);
+    });
+});
+
+describe('validateTemplate', () => {
+    it('should report unbalanced blocks', () => {
+        expect(validateTemplate('{{#if deal}}{{/if}}')).toEqual([]);
+        expect(validateTemplate('{{#if deal}}open')).toHaveLength(1);
+        expect(validateTemplate('{{/each}}')).toHaveLength(1);
+    });
+});
+
+describe('hasPlaceholders', () => {
+    it('should detect any tag', () => {
+        expect(hasPlaceholders('Hi {{first_name|there}}')).toBe(true);
+        expect(hasPlaceholders('Hi there', undefined)).toBe(false);
+    });
+});
@@ -0,0 +1,124 @@
+/**
+ * Unit Tests for lib/unsubscribe.ts and lib/email-address.ts
+ */
+
+import {
+    appendUnsubscribeFooter,
+    buildUnsubscribeHeaders,
+    buildUnsubscribeUrls,
+    createUnsubscribeToken,
+    verifyUnsubscribeToken,
+    withUnsubscribe,
+} from '../lib/unsubscribe';
+import { isValidEmailAddress, parseSuppressionCsv } from '../lib/email-address';
+
+const SECRET = 'test-secret';
+const target = { organizationId: 'org-1', email: 'Jane.Doe@Example.com ' };
+
+describe('unsubscribe tokens', () => {
+    it('should round-trip the organization and the normalized address', () => {
+        const token = createUnsubscribeToken(target, SECRET);
+        expect(verifyUnsubscribeToken(token, SECRET)).toEqual({ organizationId: 'org-1', email: 'jane.doe@example.com' });
+    });
+
+    it('should be URL safe', () => {
+        expect(createUnsubscribeToken(target, SECRET)).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+    });
+
+    it('should reject tampered or foreign tokens', () => {
+        const token = createUnsubscribeToken(target, SECRET);
+        const [, signature] = token.split('.');
+        const forged = `${Buffer.from('org-1:someone@else.com').toString('base64url')}.${signature}`;
+
+        expect(verifyUnsubscribeToken(forged, SECRET)).toBeNull();
+        expect(verifyUnsubscribeToken(token, 'other-secret')).toBeNull();
+        expect(verifyUnsubscribeToken(`${token}x`, SECRET)).toBeNull();
+    });
+
+    it('should reject malformed tokens', () => {
+        expect(verifyUnsubscribeToken('', SECRET)).toBeNull();
+        expect(verifyUnsubscribeToken(null, SECRET)).toBeNull();
+        expect(verifyUnsubscribeToken('abc', SECRET)).toBeNull();
+        expect(verifyUnsubscribeToken('a.b.c', SECRET)).toBeNull();
+    });
+});
+
+describe('unsubscribe links and headers', () => {
+    it('should build the page and one-click URLs', () => {
+        expect(buildUnsubscribeUrls('https://crm.example.com/', 'tok')).toEqual({
+            pageUrl: 'https://crm.example.com/unsubscribe/tok',
+            oneClickUrl: 'https://crm.example.com/api/public/unsubscribe/tok',
+        });
+    });
+
+    it('should build RFC 8058 headers', () => {
+        expect(buildUnsubscribeHeaders('https://x.test/u')).toEqual({
+            'List-Unsubscribe': '<https://x.test/u>',
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        });
+    });
+
+    it('should put the footer inside the body', () => {
+        const html = appendUnsubscribeFooter('<html><body><p>Hi</p></body></html>', 'https://x.test/p');
+        expect(html).toMatch(/Unsubscribe<\/a><\/p><\/body><\/html>$/);
+        expect(appendUnsubscribeFooter('<p>Hi</p>', 'https://x.test/p')).toContain('href="https://x.test/p"');
+    });
+
+    describe('with a configured secret', () => {
+        beforeEach(() => { process.env.UNSUBSCRIBE_SECRET = SECRET; });
+        afterEach(() => { delete process.env.UNSUBSCRIBE_SECRET; });
+
+        it('should link the footer and headers to the same recipient', () => {
+            const { html, headers } = withUnsubscribe('<p>Hi</p>', target, 'https://crm.example.com');
+            const token = headers!['List-Unsubscribe'].match(/unsubscribe\/([^>]+)>/)![1];
+            expect(html).toContain(`https://crm.example.com/unsubscribe/${token}`);
+            expect(verifyUnsubscribeToken(token)?.email).toBe('jane.doe@example.com');
+        });
+    });
+
+    describe('without a secret', () => {
+        const saved = { unsubscribe: process.env.UNSUBSCRIBE_SECRET, encryption: process.env.EMAIL_ENCRYPTION_KEY };
+        beforeEach(() => {
+            delete process.env.UNSUBSCRIBE_SECRET;
+            delete process.env.EMAIL_ENCRYPTION_KEY;
+            jest.spyOn(console, 'warn').mockImplementation(() => {});
+        });
+        afterEach(() => {
+            if (saved.unsubscribe) process.env.UNSUBSCRIBE_SECRET = saved.unsubscribe;
+            if (saved.encryption) process.env.EMAIL_ENCRYPTION_KEY = saved.encryption;
+            jest.restoreAllMocks();
+        });
+
+        it('should neither issue nor accept tokens', () => {
+            expect(() => createUnsubscribeToken(target)).toThrow('UNSUBSCRIBE_SECRET');
+            expect(verifyUnsubscribeToken(createUnsubscribeToken(target, SECRET))).toBeNull();
+            expect(withUnsubscribe('<p>Hi</p>', target, 'https://crm.example.com')).toEqual({ html: '<p>Hi</p>' });
+        });
+    });
+});
+
+describe('parseSuppressionCsv', () => {
+    it('should read the email column of an export', () => {
+        const csv = 'Name,Email,Company\nJane,Jane@Example.com,Acme\n"Bob","bob@example.com","Bits"\n';
+        expect(parseSuppressionCsv(csv)).toEqual({ emails: ['jane@example.com', 'bob@example.com'], invalid: 0 });
+    });
+
+    it('should read a plain list and skip duplicates', () => {
+        expect(parseSuppressionCsv('a@example.com\r\nA@example.com\n\nb@example.com; c@example.com')).toEqual({
+            emails: ['a@example.com', 'b@example.com', 'c@example.com'],
+            invalid: 0,
+        });
+    });
+
+    it('should count invalid addresses', () => {
+        expect(parseSuppressionCsv('email\nnot-an-address\nok@example.com\n')).toEqual({ emails: ['ok@example.com'], invalid: 1 });
+    });
+});
+
+describe('isValidEmailAddress', () => {
+    it('should accept plain addresses only', () => {
+        expect(isValidEmailAddress('jane@example.com')).toBe(true);
+        expect(isValidEmailAddress('jane@localhost')).toBe(false);
+        expect(isValidEmailAddress('Jane <jane@example.com>')).toBe(false);
+    });
+});
@@ -2,7 +2,7 @@
  * Unit Tests for lib/utils.ts
  */
 
-import { cn, formatCurrency, formatDate, formatDateTime, generateId, truncate, sleep, debounce } from '../lib/utils';
+import { cn, formatCurrency, formatDate, formatDateTime, generateId, truncate, sleep, debounce, contactSearchFilter } from '../lib/utils';
 
 describe('cn (classnames utility)', () => {
     it('should merge class names', () => {
@@ -149,3 +149,21 @@ describe('debounce', () => {
         jest.useRealTimers();
     });
 });
+
+describe('contactSearchFilter', () => {
+    it('should match the search in every searched column', () => {
+        expect(contactSearchFilter('jane')).toBe(
+            'first_name.ilike."%jane%",last_name.ilike."%jane%",email.ilike."%jane%",company.ilike."%jane%"'
+        );
+    });
+
+    it('should keep commas and parentheses inside the value', () => {
+        expect(contactSearchFilter('a,status.eq.x)')).toBe(
+            'first_name.ilike."%a,status.eq.x)%",last_name.ilike."%a,status.eq.x)%",email.ilike."%a,status.eq.x)%",company.ilike."%a,status.eq.x)%"'
+        );
+    });
+
+    it('should escape quotes and backslashes', () => {
+        expect(contactSearchFilter('say "hi"\\')).toContain('first_name.ilike."%say \\"hi\\"\\\\%"');
+    });
+});
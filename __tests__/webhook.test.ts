@@ -0,0 +1,71 @@
+/**
+ * Unit Tests for lib/automations/webhook.ts
+ */
+
+import { createHmac } from 'crypto';
+import { renderJsonTemplate, parseHeaderLines, signPayload, isPrivateAddress } from '../lib/automations/webhook';
+
+describe('renderJsonTemplate', () => {
+    const context = {
+        contact: { first_name: 'Ana "AJ"', lead_score: 72, tags: ['VIP'] },
+        deal: null,
+    };
+
+    it('should fill nested paths with JSON-safe values', () => {
+        const rendered = renderJsonTemplate(
+            '{"name": "{{contact.first_name}}", "score": {{contact.lead_score}}, "tags": {{ contact.tags }}}',
+            context
+        );
+
+        expect(JSON.parse(rendered)).toEqual({ name: 'Ana "AJ"', score: 72, tags: ['VIP'] });
+    });
+
+    it('should render missing values as empty', () => {
+        expect(renderJsonTemplate('{"value": "{{deal.value}}"}', context)).toBe('{"value": ""}');
+    });
+});
+
+describe('parseHeaderLines', () => {
+    it('should parse one header per line', () => {
+        expect(parseHeaderLines('Authorization: Bearer abc:123\nX-Source: crm')).toEqual({
+            Authorization: 'Bearer abc:123',
+            'X-Source': 'crm',
+        });
+    });
+
+    it('should skip blank and malformed lines', () => {
+        expect(parseHeaderLines('\nnot a header\n: empty name')).toEqual({});
+        expect(parseHeaderLines(undefined)).toEqual({});
+    });
+});
+
+describe('signPayload', () => {
+    it('should sign the timestamp and body with HMAC-SHA256', () => {
+        const expected = createHmac('sha256', 'secret').update('1700000000.{"a":1}').digest('hex');
+        expect(signPayload('secret', '1700000000', '{"a":1}')).toBe(expected);
+    });
+});
+
+describe('isPrivateAddress', () => {
+    it('should refuse loopback, private, link-local and reserved IPv4', () => {
+        for (const ip of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '224.0.0.1']) {
+            expect(isPrivateAddress(ip)).toBe(true);
+        }
+    });
+
+    it('should refuse local IPv6, including mapped IPv4', () => {
+        for (const ip of ['::1', '::', 'fd00::1', 'fe80::1%eth0', '[::1]', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe']) {
+            expect(isPrivateAddress(ip)).toBe(true);
+        }
+    });
+
+    it('should allow public addresses', () => {
+        for (const ip of ['8.8.8.8', '172.32.0.1', '93.184.216.34', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+            expect(isPrivateAddress(ip)).toBe(false);
+        }
+    });
+
+    it('should refuse anything that is not an address', () => {
+        expect(isPrivateAddress('localhost')).toBe(true);
+    });
+});
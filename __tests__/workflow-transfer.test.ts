@@ -0,0 +1,101 @@
+/**
+ * Unit Tests for lib/automations/workflow-transfer.ts
+ */
+
+import {
+    PortableNode,
+    applyReferenceMapping,
+    collectAttachmentReferences,
+    collectReferences,
+    mapTemplateAttachments,
+    stripSecrets,
+    suggestReferenceMapping,
+} from '../lib/automations/workflow-transfer';
+import type { ConditionGroup } from '../lib/automations/conditions';
+
+const nodes: PortableNode[] = [
+    { id: 'trigger', type: 'trigger', position: { x: 0, y: 0 }, data: { triggerType: 'deal_stage_changed', toStage: 'stage-won', fromStage: 'any' } },
+    { id: 'email', type: 'email', position: { x: 0, y: 150 }, data: { templateId: 'tpl-1' } },
+    { id: 'task', type: 'action', position: { x: 0, y: 300 }, data: { actionType: 'create_task', assignee: 'contact_owner' } },
+    {
+        id: 'hook',
+        type: 'action',
+        position: { x: 0, y: 450 },
+        data: { actionType: 'send_webhook', url: 'https://example.com', secret: 's3cret', headers: { Authorization: 'Bearer x' } },
+    },
+];
+
+const goal: ConditionGroup = {
+    id: 'goal',
+    combinator: 'and',
+    conditions: [{ id: 'r1', field: 'related.open_deal_pipelines', operator: 'contains', value: 'pipe-1' }],
+};
+
+describe('collectReferences', () => {
+    it('should list each referenced record once and skip placeholder values', () => {
+        const references = collectReferences([...nodes, nodes[1]], goal);
+
+        expect(references).toEqual([
+            { kind: 'stage', id: 'stage-won' },
+            { kind: 'email_template', id: 'tpl-1' },
+            { kind: 'pipeline', id: 'pipe-1' },
+        ]);
+    });
+});
+
+describe('template attachments', () => {
+    const template = { id: 'tpl-1', name: 'Welcome', subject: 'Hi', body_html: '<p>Hi</p>', attachment_ids: ['file-1', 'file-2'] };
+
+    it('should reference each attached file once', () => {
+        expect(collectAttachmentReferences([template, { ...template, id: 'tpl-2', attachment_ids: ['file-2'] }])).toEqual([
+            { kind: 'file', id: 'file-1' },
+            { kind: 'file', id: 'file-2' },
+        ]);
+    });
+
+    it('should keep mapped files and count the dropped ones', () => {
+        expect(mapTemplateAttachments(template, { 'file:file-1': 'file-9', 'file:file-2': null })).toEqual({ ids: ['file-9'], dropped: 1 });
+        expect(mapTemplateAttachments({ ...template, attachment_ids: undefined }, {})).toEqual({ ids: [], dropped: 0 });
+    });
+});
+
+describe('stripSecrets', () => {
+    it('should remove webhook secrets and headers', () => {
+        const stripped = stripSecrets(nodes);
+
+        expect(stripped[3].data).toEqual({ actionType: 'send_webhook', url: 'https://example.com' });
+        expect(nodes[3].data.secret).toBe('s3cret');
+    });
+});
+
+describe('applyReferenceMapping', () => {
+    it('should swap mapped ids and clear unmapped ones', () => {
+        const result = applyReferenceMapping(nodes, goal, {
+            'email_template:tpl-1': 'tpl-new',
+            'stage:stage-won': null,
+        });
+
+        expect(result.nodes[0].data).toEqual({ triggerType: 'deal_stage_changed', fromStage: 'any' });
+        expect(result.nodes[1].data.templateId).toBe('tpl-new');
+        expect(result.nodes[2].data.assignee).toBe('contact_owner');
+        expect(result.goal?.conditions[0]).toMatchObject({ value: '' });
+    });
+});
+
+describe('suggestReferenceMapping', () => {
+    it('should match by id first, then by name', () => {
+        const mapping = suggestReferenceMapping(
+            [
+                { kind: 'stage', id: 'demo', label: 'Demo' },
+                { kind: 'user', id: 'user-1', label: 'Ana' },
+                { kind: 'email_template', id: 'tpl-9', label: 'Missing' },
+            ],
+            {
+                stage: [{ id: 'stage-7', label: ' demo ' }],
+                user: [{ id: 'user-2', label: 'Ana' }, { id: 'user-1', label: 'Someone else' }],
+            }
+        );
+
+        expect(mapping).toEqual({ 'stage:demo': 'stage-7', 'user:user-1': 'user-1' });
+    });
+});
@@ -1,15 +1,9 @@
-import { createClient } from '@supabase/supabase-js';
 import { NextResponse } from 'next/server';
-import { processWorkflowRun } from '@/lib/automations/engine';
+import { processDueRuns } from '@/lib/automations/engine';
 
 export const dynamic = 'force-dynamic';
 
 export async function POST(req: Request) {
-    const supabaseAdmin = createClient(
-        process.env.NEXT_PUBLIC_SUPABASE_URL || '',
-        process.env.SUPABASE_SERVICE_ROLE_KEY || '',
-        { auth: { persistSession: false } }
-    );
     // Secret key check (optional but recommended for cron)
     const authHeader = req.headers.get('authorization');
     if (process.env.CRON_SECRET && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
@@ -17,37 +11,17 @@ export async function POST(req: Request) {
     }
 
     try {
-        // 1. Fetch runs due for processing
-        const { data: runs, error: runsError } = await supabaseAdmin
-            .from('workflow_runs')
-            .select('id')
-            .in('status', ['running', 'waiting'])
-            .or(`next_execution_at.lte.${new Date().toISOString()},next_execution_at.is.null`)
-            .limit(20);
+        // Runs are leased while they execute, so this can overlap with /api/cron/process-workflows
+        const { claimed, processed } = await processDueRuns(20, 50_000);
 
-        if (runsError) throw runsError;
-        if (!runs || runs.length === 0) {
+        if (claimed === 0) {
             return NextResponse.json({ success: true, message: 'No runs to process' });
         }
 
-        const results = [];
-
-        for (const run of runs) {
-            try {
-                await processWorkflowRun(run.id);
-                results.push({ id: run.id, status: 'processed' });
-            } catch (err: unknown) {
-                const message = err instanceof Error ? err.message : String(err);
-                console.error(`Error processing run ${run.id}:`, message);
-                results.push({ id: run.id, status: 'error', message });
-            }
-        }
-
-        return NextResponse.json({ success: true, processed: results.length, details: results });
+        return NextResponse.json({ success: true, claimed, processed });
     } catch (error: unknown) {
         const message = error instanceof Error ? error.message : String(error);
         console.error('Workflow processing failed:', message);
         return NextResponse.json({ error: message }, { status: 500 });
     }
 }
-
@@ -0,0 +1,113 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { convertRuleToWorkflow } from "@/lib/automations/rule-converter";
+import type { AutomationRule } from "@/types";
+
+export const dynamic = 'force-dynamic';
+
+const CONVERT_SCHEMA = z.object({
+    // Defaults to every rule in the organization that has not been converted yet
+    ruleIds: z.array(z.string().uuid()).optional(),
+});
+
+interface ConversionResult {
+    ruleId: string;
+    name: string;
+    workflowId: string | null;
+    activated: boolean;
+    warnings: string[];
+    error?: string;
+}
+
+/**
+ * Converts legacy automation rules into published workflows. A workflow is only
+ * activated when its rule was active and converted without warnings; the rule itself
+ * is switched off so the two never both exist as live automations.
+ */
+export async function POST(request: Request) {
+    try {
+        const supabase = await createClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { data: profile } = await supabase
+            .from("profiles")
+            .select("organization_id, role")
+            .eq("user_id", user.id)
+            .single();
+
+        if (!profile || !["admin", "manager"].includes(profile.role)) {
+            return NextResponse.json({ error: "Forbidden: Admins only" }, { status: 403 });
+        }
+
+        const { ruleIds } = CONVERT_SCHEMA.parse(await request.json().catch(() => ({})));
+
+        // RLS scopes the rules to the caller's organization
+        let query = supabase
+            .from("automation_rules")
+            .select("*")
+            .is("converted_workflow_id", null)
+            .order("created_at", { ascending: true });
+        if (ruleIds) query = query.in("id", ruleIds);
+
+        const { data: rules, error: rulesError } = await query;
+        if (rulesError) throw rulesError;
+
+        const results: ConversionResult[] = [];
+
+        for (const rule of (rules || []) as AutomationRule[]) {
+            const { nodes, edges, warnings } = convertRuleToWorkflow(rule);
+            const result: ConversionResult = { ruleId: rule.id, name: rule.name, workflowId: null, activated: false, warnings };
+
+            const { data: workflow, error: insertError } = await supabase
+                .from("workflows")
+                .insert({
+                    organization_id: rule.organization_id,
+                    name: rule.name,
+                    description: `Converted from automation rule "${rule.name}"`,
+                    nodes,
+                    edges,
+                    is_active: false,
+                })
+                .select("id")
+                .single();
+
+            if (insertError) {
+                results.push({ ...result, error: insertError.message });
+                continue;
+            }
+            result.workflowId = workflow.id;
+
+            const { error: publishError } = await supabase.rpc("publish_workflow", { p_workflow_id: workflow.id });
+            if (publishError) {
+                result.error = `Converted but not published: ${publishError.message}`;
+            } else if (rule.is_active && warnings.length === 0) {
+                const { error: activateError } = await supabase
+                    .from("workflows")
+                    .update({ is_active: true })
+                    .eq("id", workflow.id);
+                result.activated = !activateError;
+            }
+
+            await supabase
+                .from("automation_rules")
+                .update({ converted_workflow_id: workflow.id, converted_at: new Date().toISOString(), is_active: false })
+                .eq("id", rule.id);
+
+            results.push(result);
+        }
+
+        return NextResponse.json({ results });
+    } catch (e: unknown) {
+        if (e instanceof z.ZodError) {
+            return NextResponse.json({ error: e.issues }, { status: 400 });
+        }
+        const message = e instanceof Error ? e.message : String(e);
+        console.error("Automation rule conversion failed:", e);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,63 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { retryFailedRun } from "@/lib/automations/engine";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Retries a failed workflow run from the node it failed on.
+ */
+export async function POST(
+    _request: Request,
+    context: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await context.params;
+        const supabase = await createClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { data: profile } = await supabase
+            .from("profiles")
+            .select("role")
+            .eq("user_id", user.id)
+            .single();
+
+        if (!profile || !["admin", "manager"].includes(profile.role)) {
+            return NextResponse.json({ error: "Forbidden: Admins only" }, { status: 403 });
+        }
+
+        // RLS scopes this lookup to the caller's organization
+        const { data: run } = await supabase
+            .from("workflow_runs")
+            .select("id, status")
+            .eq("id", id)
+            .maybeSingle();
+
+        if (!run) {
+            return NextResponse.json({ error: "Run not found" }, { status: 404 });
+        }
+        if (run.status !== "failed") {
+            return NextResponse.json({ error: "Only failed runs can be retried" }, { status: 409 });
+        }
+
+        const retried = await retryFailedRun(id);
+        if (!retried) {
+            return NextResponse.json({ error: "The run is no longer failed" }, { status: 409 });
+        }
+
+        const { data: updated } = await supabase
+            .from("workflow_runs")
+            .select("id, status, current_node_id, last_error")
+            .eq("id", id)
+            .single();
+
+        return NextResponse.json({ run: updated });
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : "Internal Error";
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
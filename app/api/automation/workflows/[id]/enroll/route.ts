@@ -0,0 +1,148 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { processEnrollmentJobs } from "@/lib/automations/engine";
+import { MAX_BULK_ENROLL_CONTACTS, hasManualTrigger } from "@/lib/automations/bulk-enroll";
+import { contactSearchFilter } from "@/lib/utils";
+
+export const dynamic = 'force-dynamic';
+
+// Same selection model as bulk email: explicit ids, or everything matching the list filters
+const ENROLL_SCHEMA = z.object({
+    contactIds: z.array(z.string().uuid()).optional(),
+    isSelectAllMatching: z.boolean().default(false),
+    filters: z.object({
+        search: z.string().optional(),
+        status: z.string().optional(),
+        ownerId: z.string().optional(),
+    }).optional(),
+});
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Starts a manually triggered workflow for a selection of contacts. The first batch
+ * is enrolled right away, the rest by the workflow cron.
+ */
+export async function POST(
+    request: Request,
+    context: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await context.params;
+        const supabase = await createClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { data: profile } = await supabase
+            .from("profiles")
+            .select("id, organization_id, role")
+            .eq("user_id", user.id)
+            .single();
+
+        if (!profile || !["admin", "manager"].includes(profile.role)) {
+            return NextResponse.json({ error: "Forbidden: Admins only" }, { status: 403 });
+        }
+
+        const { contactIds, isSelectAllMatching, filters } = ENROLL_SCHEMA.parse(await request.json());
+
+        // RLS scopes every lookup below to the caller's organization
+        const { data: workflow } = await supabase
+            .from("workflows")
+            .select("id, organization_id, is_active, published_version:workflow_versions!published_version_id(nodes)")
+            .eq("id", id)
+            .maybeSingle();
+
+        if (!workflow) {
+            return NextResponse.json({ error: "Workflow not found" }, { status: 404 });
+        }
+
+        const published = workflow.published_version as unknown as { nodes: unknown[] } | null;
+        if (!published || !hasManualTrigger(published.nodes)) {
+            return NextResponse.json({ error: "Only published workflows with a manual trigger can be started for contacts" }, { status: 400 });
+        }
+        if (!workflow.is_active) {
+            return NextResponse.json({ error: "Activate the workflow before enrolling contacts" }, { status: 409 });
+        }
+
+        let ids: string[] = [];
+
+        if (isSelectAllMatching) {
+            // Page through the matches; PostgREST caps a single response
+            for (let from = 0; ids.length <= MAX_BULK_ENROLL_CONTACTS; from += PAGE_SIZE) {
+                let query = supabase
+                    .from("contacts")
+                    .select("id")
+                    .order("created_at", { ascending: true })
+                    .range(from, from + PAGE_SIZE - 1);
+                if (filters?.search) {
+                    query = query.or(contactSearchFilter(filters.search));
+                }
+                if (filters?.status && filters.status !== "all") {
+                    query = query.eq("status", filters.status);
+                }
+                if (filters?.ownerId && filters.ownerId !== "all") {
+                    query = query.eq("owner_id", filters.ownerId);
+                }
+
+                const { data, error } = await query;
+                if (error) throw error;
+                ids.push(...(data || []).map(c => c.id));
+                if (!data || data.length < PAGE_SIZE) break;
+            }
+        } else {
+            if (!contactIds || contactIds.length === 0) {
+                return NextResponse.json({ error: "No contacts specified" }, { status: 400 });
+            }
+            const { data, error } = await supabase
+                .from("contacts")
+                .select("id")
+                .in("id", contactIds);
+
+            if (error) throw error;
+            ids = (data || []).map(c => c.id);
+        }
+
+        if (ids.length === 0) {
+            return NextResponse.json({ error: "No matching contacts found" }, { status: 400 });
+        }
+        if (ids.length > MAX_BULK_ENROLL_CONTACTS) {
+            return NextResponse.json({ error: `A workflow can be started for at most ${MAX_BULK_ENROLL_CONTACTS} contacts at once` }, { status: 400 });
+        }
+
+        const { data: job, error: insertError } = await supabase
+            .from("workflow_enrollment_jobs")
+            .insert({
+                organization_id: workflow.organization_id,
+                workflow_id: workflow.id,
+                created_by: profile.id,
+                contact_ids: ids,
+                total: ids.length,
+            })
+            .select("id")
+            .single();
+
+        if (insertError) throw insertError;
+
+        // Enroll the first batch now so small selections finish without waiting for the cron
+        await processEnrollmentJobs(20_000, job.id);
+
+        const { data: updated } = await supabase
+            .from("workflow_enrollment_jobs")
+            .select("id, organization_id, workflow_id, created_by, status, total, processed, enrolled, skipped, failed, last_error, next_batch_at, created_at, updated_at, completed_at")
+            .eq("id", job.id)
+            .single();
+
+        return NextResponse.json({ job: updated });
+
+    } catch (e: unknown) {
+        if (e instanceof z.ZodError) {
+            return NextResponse.json({ error: e.issues }, { status: 400 });
+        }
+        const message = e instanceof Error ? e.message : "Internal Error";
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,112 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import {
+    WORKFLOW_EXPORT_FORMAT,
+    WORKFLOW_EXPORT_VERSION,
+    PortableEmailTemplate,
+    PortableNode,
+    PortableWorkflow,
+    collectAttachmentReferences,
+    collectReferences,
+    stripSecrets,
+} from "@/lib/automations/workflow-transfer";
+import type { ConditionGroup } from "@/lib/automations/conditions";
+import type { Pipeline } from "@/types";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Exports the saved draft of a workflow as a portable JSON file, with the names of
+ * the records it refers to and copies of its email templates.
+ */
+export async function GET(
+    _request: Request,
+    context: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await context.params;
+        const supabase = await createClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        // RLS scopes every lookup below to the caller's organization
+        const { data: workflow } = await supabase
+            .from("workflows")
+            .select("*")
+            .eq("id", id)
+            .maybeSingle();
+
+        if (!workflow) {
+            return NextResponse.json({ error: "Workflow not found" }, { status: 404 });
+        }
+
+        const nodes = stripSecrets((workflow.nodes || []) as PortableNode[]);
+        const goal = (workflow.goal || null) as ConditionGroup | null;
+        const references = collectReferences(nodes, goal);
+        const idsOf = (kind: string) => references.filter(r => r.kind === kind).map(r => r.id);
+
+        const [templates, profiles, pipelines, sequences, forms] = await Promise.all([
+            supabase.from("email_templates").select("id, name, subject, body_html, body_text, attachment_ids").in("id", idsOf("email_template")),
+            supabase.from("profiles").select("id, full_name, email").in("id", idsOf("user")),
+            supabase.from("pipelines").select("id, name, stages"),
+            supabase.from("email_sequences").select("id, name").in("id", idsOf("sequence")),
+            supabase.from("web_forms").select("id, name").in("id", idsOf("form")),
+        ]);
+
+        // Files attached to the exported templates are mapped on import like other records
+        const emailTemplates: PortableEmailTemplate[] = (templates.data || []).map(t => ({ ...t, attachment_ids: t.attachment_ids || [] }));
+        const attachmentReferences = collectAttachmentReferences(emailTemplates);
+        references.push(...attachmentReferences);
+        const { data: files } = attachmentReferences.length > 0
+            ? await supabase.from("files").select("id, name").in("id", attachmentReferences.map(r => r.id))
+            : { data: [] };
+
+        const stageNames = new Map<string, string>();
+        for (const pipeline of (pipelines.data || []) as Pipeline[]) {
+            for (const stage of pipeline.stages || []) stageNames.set(stage.id, stage.name);
+        }
+
+        const labels: Record<string, Map<string, string>> = {
+            email_template: new Map((templates.data || []).map(t => [t.id, t.name])),
+            user: new Map((profiles.data || []).map(p => [p.id, p.full_name || p.email])),
+            pipeline: new Map((pipelines.data || []).map(p => [p.id, p.name])),
+            stage: stageNames,
+            sequence: new Map((sequences.data || []).map(s => [s.id, s.name])),
+            form: new Map((forms.data || []).map(f => [f.id, f.name])),
+            file: new Map((files || []).map(f => [f.id, f.name])),
+        };
+
+        const file: PortableWorkflow = {
+            format: WORKFLOW_EXPORT_FORMAT,
+            version: WORKFLOW_EXPORT_VERSION,
+            exported_at: new Date().toISOString(),
+            name: workflow.name,
+            description: workflow.description,
+            nodes,
+            edges: workflow.edges || [],
+            settings: {
+                enrollment_policy: workflow.enrollment_policy,
+                reentry_days: workflow.reentry_days,
+                goal,
+            },
+            references: references.map(r => ({ ...r, label: labels[r.kind]?.get(r.id) })),
+            email_templates: emailTemplates,
+        };
+
+        const filename = `${workflow.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workflow'}.json`;
+
+        return new NextResponse(JSON.stringify(file, null, 2), {
+            headers: {
+                "Content-Type": "application/json",
+                "Content-Disposition": `attachment; filename="${filename}"`,
+            },
+        });
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : String(e);
+        console.error("Workflow export failed:", e);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
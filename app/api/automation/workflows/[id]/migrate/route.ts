@@ -0,0 +1,238 @@
+import { createClient } from "@/lib/supabase/server";
+import { createClient as createAdminClient } from "@supabase/supabase-js";
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import { Node } from "reactflow";
+import { z } from "zod";
+
+export const dynamic = 'force-dynamic';
+
+const getSupabaseAdmin = () => createAdminClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { persistSession: false } }
+);
+
+// Long enough to move one run; the lease is released right after
+const MIGRATION_LEASE_SECONDS = 60;
+
+const MIGRATE_SCHEMA = z.object({
+    toVersionId: z.string().uuid(),
+    // Current node id (in the run's version) -> node id in the target version
+    nodeMapping: z.record(z.string(), z.string()).default({}),
+});
+
+interface ActiveRun {
+    id: string;
+    status: 'running' | 'waiting';
+    current_node_id: string | null;
+    workflow_version_id: string | null;
+    metadata: Record<string, unknown> | null;
+    workflow_version: { version: number } | null;
+}
+
+/**
+ * Resolves the caller and checks they may manage this workflow's runs.
+ */
+async function authorize(workflowId: string) {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+        return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+    }
+
+    const { data: profile } = await supabase
+        .from("profiles")
+        .select("organization_id, role")
+        .eq("user_id", user.id)
+        .single();
+
+    if (!profile || !["admin", "manager"].includes(profile.role)) {
+        return { error: NextResponse.json({ error: "Forbidden: Admins only" }, { status: 403 }) };
+    }
+
+    // RLS scopes this lookup to the caller's organization
+    const { data: workflow } = await supabase
+        .from("workflows")
+        .select("id, organization_id")
+        .eq("id", workflowId)
+        .maybeSingle();
+
+    if (!workflow) {
+        return { error: NextResponse.json({ error: "Workflow not found" }, { status: 404 }) };
+    }
+
+    return { workflow };
+}
+
+const ACTIVE_RUN_COLUMNS = "id, status, current_node_id, workflow_version_id, metadata, workflow_version:workflow_versions(version)";
+
+async function fetchActiveRuns(workflowId: string): Promise<ActiveRun[]> {
+    const { data, error } = await getSupabaseAdmin()
+        .from("workflow_runs")
+        .select(ACTIVE_RUN_COLUMNS)
+        .eq("workflow_id", workflowId)
+        .in("status", ["running", "waiting"]);
+
+    if (error) throw error;
+    return (data || []) as unknown as ActiveRun[];
+}
+
+/**
+ * Active runs grouped by version and current node, so the builder can ask for a
+ * mapping of nodes that no longer exist in the target version.
+ */
+export async function GET(
+    _request: Request,
+    context: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await context.params;
+        const { error } = await authorize(id);
+        if (error) return error;
+
+        const groups = new Map<string, { versionId: string | null; version: number | null; nodeId: string | null; count: number }>();
+
+        for (const run of await fetchActiveRuns(id)) {
+            const key = `${run.workflow_version_id}:${run.current_node_id}`;
+            const group = groups.get(key) || {
+                versionId: run.workflow_version_id,
+                version: run.workflow_version?.version ?? null,
+                nodeId: run.current_node_id,
+                count: 0,
+            };
+            group.count++;
+            groups.set(key, group);
+        }
+
+        return NextResponse.json({ groups: Array.from(groups.values()) });
+
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : "Internal Error";
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
+
+/**
+ * Moves in-flight runs onto another published version.
+ *
+ * A run stays on its current node when that node id exists in the target version.
+ * Otherwise it moves to the mapped node and executes it next; runs with no mapping
+ * are left on their version and reported as skipped. Each run is leased like a worker
+ * would, so a run mid-step is skipped rather than moved under the worker executing it.
+ */
+export async function POST(
+    request: Request,
+    context: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await context.params;
+        const { workflow, error } = await authorize(id);
+        if (error) return error;
+
+        const { toVersionId, nodeMapping } = MIGRATE_SCHEMA.parse(await request.json());
+
+        const supabaseAdmin = getSupabaseAdmin();
+        const { data: target } = await supabaseAdmin
+            .from("workflow_versions")
+            .select("id, version, nodes")
+            .eq("id", toVersionId)
+            .eq("workflow_id", id)
+            .maybeSingle();
+
+        if (!target) {
+            return NextResponse.json({ error: "Version not found" }, { status: 404 });
+        }
+
+        const targetNodeIds = new Set((target.nodes as Node[]).map(n => n.id));
+        let migrated = 0;
+        let skipped = 0;
+
+        const worker = `migrate:${randomUUID()}`;
+
+        for (const listed of await fetchActiveRuns(id)) {
+            if (listed.workflow_version_id === target.id) continue;
+
+            const { data: leased } = await supabaseAdmin.rpc('claim_workflow_run', {
+                p_run_id: listed.id,
+                p_worker: worker,
+                p_lease_seconds: MIGRATION_LEASE_SECONDS
+            });
+            if (!leased) {
+                // A worker is executing the run; it can be migrated once the step is done
+                skipped++;
+                continue;
+            }
+
+            try {
+                // Re-read under the lease: the run may have moved on since it was listed
+                const { data: run } = await supabaseAdmin
+                    .from("workflow_runs")
+                    .select(ACTIVE_RUN_COLUMNS)
+                    .eq("id", listed.id)
+                    .in("status", ["running", "waiting"])
+                    .maybeSingle<ActiveRun>();
+                if (!run || run.workflow_version_id === target.id) continue;
+
+                const updates: Record<string, unknown> = { workflow_version_id: target.id };
+
+                if (run.current_node_id && !targetNodeIds.has(run.current_node_id)) {
+                    const mappedNodeId = nodeMapping[run.current_node_id];
+                    if (!mappedNodeId || !targetNodeIds.has(mappedNodeId)) {
+                        skipped++;
+                        continue;
+                    }
+
+                    // The mapped node has not executed yet for this run: drop any wait state
+                    // and let the processor pick it up on its next pass.
+                    const metadata = { ...(run.metadata || {}) };
+                    delete metadata.waiting_for;
+                    delete metadata.wait_outcome;
+
+                    updates.current_node_id = mappedNodeId;
+                    updates.status = 'running';
+                    updates.next_execution_at = new Date().toISOString();
+                    updates.metadata = metadata;
+                }
+
+                const { error: updateError } = await supabaseAdmin
+                    .from("workflow_runs")
+                    .update(updates)
+                    .eq("id", run.id)
+                    .eq("locked_by", worker)
+                    .in("status", ["running", "waiting"]);
+
+                if (updateError) {
+                    skipped++;
+                    continue;
+                }
+
+                await supabaseAdmin.from("workflow_logs").insert({
+                    organization_id: workflow.organization_id,
+                    workflow_id: id,
+                    run_id: run.id,
+                    node_id: (updates.current_node_id as string | undefined) ?? run.current_node_id,
+                    level: 'info',
+                    message: `Migrated from version ${run.workflow_version?.version ?? 'draft'} to version ${target.version}`,
+                    data: { from_node_id: run.current_node_id }
+                });
+                migrated++;
+            } finally {
+                await supabaseAdmin.from("workflow_runs")
+                    .update({ locked_by: null, locked_until: null })
+                    .eq("id", listed.id)
+                    .eq("locked_by", worker);
+            }
+        }
+
+        return NextResponse.json({ migrated, skipped });
+
+    } catch (e: unknown) {
+        if (e instanceof z.ZodError) {
+            return NextResponse.json({ error: e.issues }, { status: 400 });
+        }
+        const message = e instanceof Error ? e.message : "Internal Error";
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,78 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { Node, Edge } from "reactflow";
+import { z } from "zod";
+import { simulateWorkflow } from "@/lib/automations/simulator";
+import type { Contact } from "@/types";
+
+export const dynamic = 'force-dynamic';
+
+const TEST_RUN_SCHEMA = z.object({
+    contactId: z.string().uuid(),
+    // The builder sends its canvas so unsaved changes can be tested
+    nodes: z.array(z.any()).optional(),
+    edges: z.array(z.any()).optional(),
+    waitOutcome: z.enum(['event', 'timeout']).default('timeout'),
+    // Sample event data for {{trigger.*}} placeholders, e.g. form fields
+    triggerPayload: z.record(z.string(), z.unknown()).optional(),
+});
+
+/**
+ * Dry-runs a workflow against one contact. Nothing is sent or written.
+ */
+export async function POST(
+    request: Request,
+    context: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await context.params;
+        const supabase = await createClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { contactId, nodes, edges, waitOutcome, triggerPayload } = TEST_RUN_SCHEMA.parse(await request.json());
+
+        // RLS scopes both lookups to the caller's organization
+        const { data: workflow } = await supabase
+            .from("workflows")
+            .select("id, organization_id, nodes, edges")
+            .eq("id", id)
+            .maybeSingle();
+
+        if (!workflow) {
+            return NextResponse.json({ error: "Workflow not found" }, { status: 404 });
+        }
+
+        const { data: contact } = await supabase
+            .from("contacts")
+            .select("*")
+            .eq("id", contactId)
+            .maybeSingle();
+
+        if (!contact) {
+            return NextResponse.json({ error: "Contact not found" }, { status: 404 });
+        }
+
+        const result = await simulateWorkflow({
+            organizationId: workflow.organization_id,
+            workflowId: workflow.id,
+            nodes: (nodes || workflow.nodes) as Node[],
+            edges: (edges || workflow.edges) as Edge[],
+            contact: contact as Contact,
+            waitOutcome,
+            triggerPayload,
+        });
+
+        return NextResponse.json(result);
+
+    } catch (e: unknown) {
+        if (e instanceof z.ZodError) {
+            return NextResponse.json({ error: e.issues }, { status: 400 });
+        }
+        const message = e instanceof Error ? e.message : "Internal Error";
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
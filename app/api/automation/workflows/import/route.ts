@@ -0,0 +1,150 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+    CREATE_FROM_FILE,
+    WORKFLOW_EXPORT_FORMAT,
+    WORKFLOW_EXPORT_VERSION,
+    PortableNode,
+    applyReferenceMapping,
+    mapTemplateAttachments,
+    referenceKey,
+} from "@/lib/automations/workflow-transfer";
+import type { ConditionGroup } from "@/lib/automations/conditions";
+
+export const dynamic = 'force-dynamic';
+
+const PORTABLE_WORKFLOW_SCHEMA = z.object({
+    format: z.literal(WORKFLOW_EXPORT_FORMAT),
+    version: z.number().int().max(WORKFLOW_EXPORT_VERSION, "This file was exported by a newer version"),
+    name: z.string().min(1),
+    description: z.string().nullish(),
+    nodes: z.array(z.object({
+        id: z.string(),
+        type: z.string().optional(),
+        position: z.object({ x: z.number(), y: z.number() }),
+        data: z.record(z.string(), z.unknown()).default({}),
+    })),
+    edges: z.array(z.any()),
+    settings: z.object({
+        enrollment_policy: z.enum(["multiple", "once", "one_at_a_time", "after_days"]).optional(),
+        reentry_days: z.number().int().positive().nullish(),
+        goal: z.any().nullish(),
+    }).default({}),
+    references: z.array(z.object({
+        kind: z.enum(["email_template", "user", "pipeline", "stage", "sequence", "form", "file"]),
+        id: z.string(),
+        label: z.string().optional(),
+    })).default([]),
+    email_templates: z.array(z.object({
+        id: z.string(),
+        name: z.string(),
+        subject: z.string(),
+        body_html: z.string(),
+        body_text: z.string().nullish(),
+        attachment_ids: z.array(z.string()).optional(),
+    })).default([]),
+});
+
+const IMPORT_SCHEMA = z.object({
+    workflow: PORTABLE_WORKFLOW_SCHEMA,
+    name: z.string().min(1).optional(),
+    // referenceKey(kind, id) -> id in this organization, CREATE_FROM_FILE for email templates, or null to leave unset
+    mapping: z.record(z.string(), z.string().nullable()).default({}),
+});
+
+/**
+ * Imports a portable workflow file (an export or a gallery template) as a new,
+ * inactive draft in the caller's organization.
+ */
+export async function POST(request: Request) {
+    try {
+        const supabase = await createClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { data: profile } = await supabase
+            .from("profiles")
+            .select("organization_id")
+            .eq("user_id", user.id)
+            .single();
+
+        if (!profile?.organization_id) {
+            return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+        }
+
+        const { workflow: file, name, mapping: requested } = IMPORT_SCHEMA.parse(await request.json());
+        const mapping = { ...requested };
+
+        // Email templates chosen to be created from the copies in the file
+        let createdTemplates = 0;
+        let droppedAttachments = 0;
+        for (const reference of file.references.filter(r => r.kind === "email_template")) {
+            const key = referenceKey(reference.kind, reference.id);
+            if (mapping[key] !== CREATE_FROM_FILE) continue;
+
+            const template = file.email_templates.find(t => t.id === reference.id);
+            if (!template) {
+                mapping[key] = null;
+                continue;
+            }
+
+            // Attachments without a matching file here are left off, and reported
+            const attachments = mapTemplateAttachments(template, mapping);
+            droppedAttachments += attachments.dropped;
+
+            const { data: created, error: templateError } = await supabase
+                .from("email_templates")
+                .insert({
+                    organization_id: profile.organization_id,
+                    name: template.name,
+                    subject: template.subject,
+                    body_html: template.body_html,
+                    body_text: template.body_text || null,
+                    attachment_ids: attachments.ids,
+                })
+                .select("id")
+                .single();
+
+            if (templateError) throw templateError;
+            mapping[key] = created.id;
+            createdTemplates++;
+        }
+
+        const { nodes, goal } = applyReferenceMapping(
+            file.nodes as PortableNode[],
+            (file.settings.goal || null) as ConditionGroup | null,
+            mapping
+        );
+
+        const { data: workflow, error: insertError } = await supabase
+            .from("workflows")
+            .insert({
+                organization_id: profile.organization_id,
+                name: name || file.name,
+                description: file.description || null,
+                nodes,
+                edges: file.edges,
+                is_active: false,
+                enrollment_policy: file.settings.enrollment_policy || "multiple",
+                reentry_days: file.settings.reentry_days ?? null,
+                goal,
+            })
+            .select("id")
+            .single();
+
+        if (insertError) throw insertError;
+
+        return NextResponse.json({ id: workflow.id, createdTemplates, droppedAttachments });
+    } catch (e: unknown) {
+        if (e instanceof z.ZodError) {
+            return NextResponse.json({ error: e.issues }, { status: 400 });
+        }
+        const message = e instanceof Error ? e.message : String(e);
+        console.error("Workflow import failed:", e);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -1,6 +1,5 @@
 import { NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-import { processWorkflowRun } from '@/lib/automations/engine';
+import { processDueRuns, evaluateScheduledTriggers, processEnrollmentJobs } from '@/lib/automations/engine';
 
 export const dynamic = 'force-dynamic';
 
@@ -12,45 +11,31 @@ export async function GET(request: Request) {
     }
 
     try {
-        const supabaseAdmin = createClient(
-            process.env.NEXT_PUBLIC_SUPABASE_URL!,
-            process.env.SUPABASE_SERVICE_ROLE_KEY!,
-            { auth: { persistSession: false } }
-        );
-
-        // 1. Find all workflow runs that are 'waiting' (paused on a delay node)
-        // AND whose resume timestamp has tipped into the past
-        const { data: pendingRuns, error } = await supabaseAdmin
-            .from('workflow_runs')
-            .select('id')
-            .eq('status', 'waiting')
-            .lte('next_execution_at', new Date().toISOString())
-            .order('next_execution_at', { ascending: true })
-            .limit(50); // Batch limit to prevent Vercel Function timeouts
-
-        if (error) {
-             console.error('Error fetching pending workflows:', error);
-             return NextResponse.json({ error: error.message }, { status: 500 });
-        }
+        // 1. Start runs for date-based and inactivity triggers that are due today
+        const triggered = await evaluateScheduledTriggers();
 
-        if (!pendingRuns || pendingRuns.length === 0) {
-            return NextResponse.json({ message: 'No pending workflows to process' });
-        }
+        // 2. Enroll the next batch of each bulk enrollment started from the contacts page
+        const enrolled = await processEnrollmentJobs(10_000);
 
-        // 2. Fire them up concurrently
-        const runPromises = pendingRuns.map(run => processWorkflowRun(run.id, 0));
-        
-        // Wait for all to finish (engine.ts recursively calls itself sequentially per node, 
-        // so this awaits the entire remainder of the drip campaign for each contact, assuming it doesn't hit another delay)
-        await Promise.allSettled(runPromises);
+        // 3. Lease due runs (delays elapsed, retries due, runs interrupted mid-chain, new scheduled runs)
+        // 4. Execute each until it pauses again; stop starting new ones before the function times out
+        const { claimed, processed } = await processDueRuns(50, 40_000);
 
-        return NextResponse.json({ 
-            message: `Successfully processed ${pendingRuns.length} workflows`,
-            processedCount: pendingRuns.length
+        if (claimed === 0) {
+            return NextResponse.json({ message: 'No pending workflows to process', triggeredCount: triggered, enrolledCount: enrolled });
+        }
+
+        return NextResponse.json({
+            message: `Successfully processed ${processed} workflows`,
+            processedCount: processed,
+            claimedCount: claimed,
+            triggeredCount: triggered,
+            enrolledCount: enrolled
         });
-        
-    } catch (error: any) {
+
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
         console.error('Cron process-workflows failed:', error);
-        return NextResponse.json({ error: error.message }, { status: 500 });
+        return NextResponse.json({ error: message }, { status: 500 });
     }
 }
@@ -0,0 +1,65 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { emitDealStageChanged } from "@/lib/automations/engine";
+
+export const dynamic = 'force-dynamic';
+
+// Set by the database or fixed for the life of the deal
+const READ_ONLY_FIELDS = ['id', 'organization_id', 'created_at', 'updated_at'];
+
+/**
+ * Updates a deal and, when its stage changed, fires the deal_stage_changed workflows
+ * with the stage it actually moved from.
+ */
+export async function PATCH(
+    request: Request,
+    context: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await context.params;
+        const supabase = await createClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const updates = await request.json();
+        for (const field of READ_ONLY_FIELDS) delete updates[field];
+
+        // RLS scopes both the lookup and the update to the caller's organization
+        const { data: current } = await supabase
+            .from("deals")
+            .select("stage")
+            .eq("id", id)
+            .maybeSingle();
+
+        if (!current) {
+            return NextResponse.json({ error: "Deal not found" }, { status: 404 });
+        }
+
+        const { data: deal, error } = await supabase
+            .from("deals")
+            .update(updates)
+            .eq("id", id)
+            .select()
+            .single();
+
+        if (error) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+
+        // A failed trigger evaluation must never fail the user's edit
+        try {
+            await emitDealStageChanged(deal.organization_id, deal, current.stage);
+        } catch (err) {
+            console.error('[Workflows] Failed to evaluate deal_stage_changed:', err);
+        }
+
+        return NextResponse.json(deal);
+
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : "Internal Error";
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
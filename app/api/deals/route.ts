@@ -0,0 +1,50 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { emitDealStageChanged } from "@/lib/automations/engine";
+
+export const dynamic = 'force-dynamic';
+
+// Set by the database
+const READ_ONLY_FIELDS = ['id', 'created_at', 'updated_at'];
+
+/**
+ * Creates a deal. Entering its first stage fires the deal_stage_changed workflows
+ * (from no stage), as moving an existing deal does.
+ */
+export async function POST(request: Request) {
+    try {
+        const supabase = await createClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const fields = await request.json();
+        for (const field of READ_ONLY_FIELDS) delete fields[field];
+
+        // RLS only lets the caller insert into their own organization
+        const { data: deal, error } = await supabase
+            .from("deals")
+            .insert(fields)
+            .select()
+            .single();
+
+        if (error) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+
+        // A failed trigger evaluation must never fail creating the deal
+        try {
+            await emitDealStageChanged(deal.organization_id, deal, null);
+        } catch (err) {
+            console.error('[Workflows] Failed to evaluate deal_stage_changed:', err);
+        }
+
+        return NextResponse.json(deal, { status: 201 });
+
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : "Internal Error";
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
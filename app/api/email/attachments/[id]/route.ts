@@ -0,0 +1,55 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { createFileDownloadUrl } from "@/lib/email-attachments";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Downloads a file the caller can see, either directly or as an attachment of an email
+ * in their organization, through a short-lived signed link.
+ */
+export async function GET(
+    request: Request,
+    context: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await context.params;
+        const supabase = await createClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { data: profile } = await supabase
+            .from("profiles")
+            .select("organization_id")
+            .eq("user_id", user.id)
+            .single();
+
+        if (!profile) {
+            return NextResponse.json({ error: "Profile/Organization not found" }, { status: 404 });
+        }
+
+        // RLS decides visibility of both
+        const [{ data: file }, { data: links }] = await Promise.all([
+            supabase.from("files").select("id").eq("id", id).maybeSingle(),
+            supabase.from("email_attachments").select("id").eq("file_id", id).limit(1),
+        ]);
+
+        if (!file && (!links || links.length === 0)) {
+            return NextResponse.json({ error: "File not found" }, { status: 404 });
+        }
+
+        const url = await createFileDownloadUrl(profile.organization_id, id);
+        if (!url) {
+            return NextResponse.json({ error: "File not found" }, { status: 404 });
+        }
+
+        return NextResponse.redirect(url);
+
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : "Internal Error";
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,75 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { MAX_ATTACHMENT_BYTES, formatBytes } from "@/lib/attachment-policy";
+import { storeFile } from "@/lib/email-attachments";
+
+export const dynamic = 'force-dynamic';
+
+// Room for the multipart envelope around the file
+const MAX_REQUEST_BYTES = MAX_ATTACHMENT_BYTES + 64 * 1024;
+
+/**
+ * Uploads a file to attach to emails or templates (multipart: `file`, optional
+ * `contactId`). The file is also kept among the contact's files.
+ */
+export async function POST(request: Request) {
+    try {
+        const supabase = await createClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { data: profile } = await supabase
+            .from("profiles")
+            .select("id, organization_id")
+            .eq("user_id", user.id)
+            .single();
+
+        if (!profile) {
+            return NextResponse.json({ error: "Profile/Organization not found" }, { status: 404 });
+        }
+
+        // Refuse oversized uploads before reading them
+        const length = Number(request.headers.get("content-length") || 0);
+        if (length > MAX_REQUEST_BYTES) {
+            return NextResponse.json({ error: `Attachments can be at most ${formatBytes(MAX_ATTACHMENT_BYTES)}` }, { status: 413 });
+        }
+
+        const form = await request.formData();
+        const file = form.get("file");
+        const contactId = form.get("contactId");
+
+        if (!(file instanceof File)) {
+            return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
+        }
+
+        // RLS scopes the contact to the caller's organization
+        if (typeof contactId === "string" && contactId) {
+            const { data: contact } = await supabase.from("contacts").select("id").eq("id", contactId).maybeSingle();
+            if (!contact) {
+                return NextResponse.json({ error: "Contact not found" }, { status: 404 });
+            }
+        }
+
+        try {
+            const stored = await storeFile({
+                organizationId: profile.organization_id,
+                contactId: typeof contactId === "string" && contactId ? contactId : null,
+                uploadedBy: profile.id,
+                name: file.name,
+                contentType: file.type,
+                content: Buffer.from(await file.arrayBuffer()),
+            });
+            return NextResponse.json({ file: stored });
+        } catch (e: unknown) {
+            // Size and type violations
+            return NextResponse.json({ error: e instanceof Error ? e.message : "Invalid file" }, { status: 400 });
+        }
+
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : "Internal Error";
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -21,16 +21,29 @@ export async function POST(request: Request) {
         if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
         const body = await request.json();
-        const { emailIds, action, destination } = body;
-
-        if (!emailIds || !Array.isArray(emailIds) || emailIds.length === 0) {
-            return NextResponse.json({ error: 'Invalid email IDs' }, { status: 400 });
-        }
+        const { action, destination, threadIds } = body;
+        let { emailIds } = body;
 
         if (!action) {
             return NextResponse.json({ error: 'Action required' }, { status: 400 });
         }
 
+        // Whole conversations: act on every message in the threads. Moving a thread
+        // leaves our sent messages in Sent, unless it is going to the trash.
+        if (Array.isArray(threadIds) && threadIds.length > 0) {
+            let threadQuery = supabase.from('emails').select('id').in('thread_id', threadIds);
+            if (action === 'move' && destination !== 'trash') threadQuery = threadQuery.neq('folder', 'sent');
+
+            const { data: threadEmails, error: threadError } = await threadQuery;
+            if (threadError) throw threadError;
+            emailIds = (threadEmails || []).map(e => e.id);
+            if (emailIds.length === 0) return NextResponse.json({ success: true });
+        }
+
+        if (!emailIds || !Array.isArray(emailIds) || emailIds.length === 0) {
+            return NextResponse.json({ error: 'Invalid email IDs' }, { status: 400 });
+        }
+
         let error;
 
         if (action === 'delete') {
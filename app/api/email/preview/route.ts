@@ -0,0 +1,102 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { loadTemplateContext } from "@/lib/email-service";
+import { buildTemplateContext, renderTemplate, validateTemplate } from "@/lib/template-engine";
+
+export const dynamic = 'force-dynamic';
+
+const PREVIEW_SCHEMA = z.object({
+    // A saved template, or the subject and body being edited
+    templateId: z.string().uuid().optional(),
+    subject: z.string().optional(),
+    body: z.string().optional(),
+    // The contact to render for, by id or by email address
+    contactId: z.string().uuid().optional(),
+    email: z.string().email().optional(),
+});
+
+/**
+ * Renders a template for a real contact, exactly as it would be sent. Nothing is sent.
+ */
+export async function POST(request: Request) {
+    try {
+        const supabase = await createClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { data: profile } = await supabase
+            .from("profiles")
+            .select("organization_id")
+            .eq("user_id", user.id)
+            .single();
+
+        if (!profile) {
+            return NextResponse.json({ error: "Profile/Organization not found" }, { status: 404 });
+        }
+
+        const input = PREVIEW_SCHEMA.parse(await request.json());
+        let subject = input.subject ?? "";
+        let body = input.body ?? "";
+
+        // RLS scopes both lookups to the caller's organization
+        if (input.templateId) {
+            const { data: template } = await supabase
+                .from("email_templates")
+                .select("subject, body_html")
+                .eq("id", input.templateId)
+                .maybeSingle();
+
+            if (!template) {
+                return NextResponse.json({ error: "Template not found" }, { status: 404 });
+            }
+            subject = input.subject ?? template.subject ?? "";
+            body = input.body ?? template.body_html ?? "";
+        }
+
+        let contactId = input.contactId || null;
+        if (!contactId && input.email) {
+            const { data: contact } = await supabase
+                .from("contacts")
+                .select("id")
+                .eq("email", input.email)
+                .limit(1)
+                .maybeSingle();
+            contactId = contact?.id || null;
+        } else if (contactId) {
+            const { data: contact } = await supabase
+                .from("contacts")
+                .select("id")
+                .eq("id", contactId)
+                .maybeSingle();
+            if (!contact) {
+                return NextResponse.json({ error: "Contact not found" }, { status: 404 });
+            }
+        }
+
+        const context = contactId
+            ? await loadTemplateContext(profile.organization_id, contactId)
+            : buildTemplateContext({});
+
+        const missing = new Set<string>();
+        const onMissing = (path: string) => missing.add(path);
+
+        return NextResponse.json({
+            subject: renderTemplate(subject, context, { onMissing }),
+            body: renderTemplate(body, context, { escapeHtml: true, onMissing }),
+            contactId,
+            missing: [...missing], // Placeholders that rendered empty without a fallback
+            errors: [...validateTemplate(subject), ...validateTemplate(body)],
+        });
+
+    } catch (e: unknown) {
+        if (e instanceof z.ZodError) {
+            return NextResponse.json({ error: e.issues }, { status: 400 });
+        }
+        const message = e instanceof Error ? e.message : "Internal Error";
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -3,7 +3,12 @@ import { cookies } from 'next/headers';
 import { NextResponse } from 'next/server';
 import nodemailer from 'nodemailer';
 import { decrypt } from '@/lib/crypto';
+import { attachFilesToEmail, loadOutgoingAttachments, type OutgoingAttachment } from '@/lib/email-attachments';
 import { injectTracking } from '@/lib/email-tracking';
+import { loadTemplateContext } from '@/lib/email-service';
+import { buildMessageId, buildReplyHeaders, type ReplyMode } from '@/lib/email-threading';
+import { getSuppressedEmails } from '@/lib/suppressions';
+import { buildTemplateContext, renderTemplate } from '@/lib/template-engine';
 
 export async function POST(request: Request) {
   const cookieStore = await cookies();
@@ -26,12 +31,28 @@ export async function POST(request: Request) {
   }
 
   try {
-    const { to, subject, body_html, account_id } = await request.json();
+    const { to, subject: rawSubject, body_html: rawBody, account_id, contact_id, reply_to_email_id, mode, attachment_ids } = await request.json();
 
-    if (!to || !subject || !body_html || !account_id) {
+    if (!to || !rawSubject || !rawBody || !account_id) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
     }
 
+    // Replies and forwards carry the headers that keep them in the conversation
+    let original: { thread_id: string | null; message_id: string | null; reference_ids: string[] | null; contact_id: string | null } | null = null;
+    if (reply_to_email_id) {
+      const { data } = await supabase
+        .from('emails')
+        .select('thread_id, message_id, reference_ids, contact_id')
+        .eq('id', reply_to_email_id)
+        .maybeSingle();
+      if (!data) {
+        return NextResponse.json({ error: 'Original email not found' }, { status: 404 });
+      }
+      original = data;
+    }
+    const replyMode: ReplyMode = mode === 'forward' || mode === 'reply_all' ? mode : 'reply';
+    const replyHeaders = original ? buildReplyHeaders(original, replyMode) : null;
+
     // Fetch account details
     const { data: account, error: accountError } = await supabase
       .from('smtp_configs')
@@ -43,6 +64,50 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Account not found' }, { status: 404 });
     }
 
+    // Opted-out addresses are never emailed
+    const suppressed = await getSuppressedEmails(account.organization_id, String(to).split(','));
+    if (suppressed.size > 0) {
+      return NextResponse.json({ error: `${Array.from(suppressed).join(', ')} unsubscribed or is on the suppression list` }, { status: 409 });
+    }
+
+    // Fill placeholders from the recipient's contact record, if there is one
+    let contactId: string | null = contact_id || (original && replyMode !== 'forward' ? original.contact_id : null);
+    if (!contactId) {
+      const { data: contact } = await supabase
+        .from('contacts')
+        .select('id')
+        .eq('email', to)
+        .limit(1)
+        .maybeSingle();
+      contactId = contact?.id || null;
+    }
+    const templateContext = contactId
+      ? await loadTemplateContext(account.organization_id, contactId)
+      : buildTemplateContext({});
+    const subject = renderTemplate(rawSubject, templateContext);
+    const body_html = renderTemplate(rawBody, templateContext, { escapeHtml: true });
+
+    // Only files the sender can see: their own or their organization's, or attachments
+    // of emails in the organization (forwarding)
+    const attachmentIds: string[] = Array.isArray(attachment_ids) ? Array.from(new Set(attachment_ids.filter((id: unknown) => typeof id === 'string'))) : [];
+    if (attachmentIds.length > 0) {
+      const [{ data: visibleFiles }, { data: linkedFiles }] = await Promise.all([
+        supabase.from('files').select('id').in('id', attachmentIds),
+        supabase.from('email_attachments').select('file_id').in('file_id', attachmentIds),
+      ]);
+      const visible = new Set([...(visibleFiles || []).map(f => f.id), ...(linkedFiles || []).map(l => l.file_id)]);
+      if (attachmentIds.some(id => !visible.has(id))) {
+        return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+      }
+    }
+
+    let attachments: OutgoingAttachment[];
+    try {
+      attachments = await loadOutgoingAttachments(account.organization_id, attachmentIds);
+    } catch (attachmentError) {
+      return NextResponse.json({ error: attachmentError instanceof Error ? attachmentError.message : 'Invalid attachments' }, { status: 400 });
+    }
+
     // Decrypt credentials
     const password = decrypt(account.smtp_pass_encrypted);
 
@@ -52,12 +117,18 @@ export async function POST(request: Request) {
       .insert({
         account_id: account.id,
         organization_id: account.organization_id,
+        contact_id: contactId,
         from_addr: account.email_addr,
         to_addr: to,
         subject,
         body_html,
+        in_reply_to: replyHeaders?.inReplyTo || null,
+        reference_ids: replyHeaders?.references.length ? replyHeaders.references : null,
+        // Forwards start a conversation of their own
+        thread_id: original && replyMode !== 'forward' ? original.thread_id : null,
         folder: 'sent',
         is_read: true,
+        has_attachment: attachments.length > 0,
         received_at: new Date().toISOString()
       })
       .select()
@@ -68,12 +139,15 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Failed to initialize email tracking' }, { status: 500 });
     }
 
+    await attachFilesToEmail(account.organization_id, emailRecord.id, attachmentIds);
+
     // 2. Inject Tracking
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
     const trackedBody = injectTracking(body_html, emailRecord.id, baseUrl);
+    const messageId = buildMessageId(emailRecord.id, account.email_addr);
 
     // Update the record with tracked body
-    await supabase.from('emails').update({ body_html: trackedBody }).eq('id', emailRecord.id);
+    await supabase.from('emails').update({ body_html: trackedBody, message_id: messageId }).eq('id', emailRecord.id);
 
     // 3. Configure Nodemailer
     const transporter = nodemailer.createTransport({
@@ -95,11 +169,16 @@ export async function POST(request: Request) {
       to,
       subject,
       html: trackedBody,
+      messageId,
+      inReplyTo: replyHeaders?.inReplyTo || undefined,
+      references: replyHeaders?.references.length ? replyHeaders.references : undefined,
+      attachments,
     });
 
     // Also Log Activity
     await supabase.from('activities').insert({
       organization_id: account.organization_id,
+      contact_id: contactId,
       type: 'email',
       title: `Sent Email: ${subject}`,
       description: `Sent to ${to}`,
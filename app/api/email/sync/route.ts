@@ -4,6 +4,10 @@ import { NextResponse } from 'next/server';
 import { ImapFlow } from 'imapflow';
 import { simpleParser } from 'mailparser';
 import { decrypt } from '@/lib/crypto';
+import { handleInboundEmail } from '@/lib/automations/engine';
+import { storeInboundAttachments } from '@/lib/email-attachments';
+import { isAutomaticReply, parseMessageIds } from '@/lib/email-threading';
+import { detectSequenceReply } from '@/lib/sequence-replies';
 
 export async function POST(request: Request) {
     const cookieStore = await cookies();
@@ -95,22 +99,60 @@ export async function POST(request: Request) {
                                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
                                 const parsed: any = await simpleParser(message.source);
 
+                                const fromAddr = parsed.from?.value[0]?.address || '';
+                                const receivedAt = parsed.date?.toISOString() || new Date().toISOString();
+
+                                const inReplyTo = parseMessageIds(parsed.inReplyTo)[0] || null;
+                                const referenceIds = parseMessageIds(parsed.references);
+
                                 // Upsert into Supabase
-                                await supabase.from('emails').upsert({
+                                const { data: stored } = await supabase.from('emails').upsert({
                                     account_id: account.id,
                                     organization_id: account.organization_id,
                                     message_id: parsed.messageId || `${account.id}-${uid}`,
                                     uid: uid,
                                     from_name: parsed.from?.value[0]?.name || '',
-                                    from_addr: parsed.from?.value[0]?.address || '',
+                                    from_addr: fromAddr,
                                     // eslint-disable-next-line @typescript-eslint/no-explicit-any
                                     to_addr: parsed.to ? (Array.isArray(parsed.to) ? (parsed.to[0] as any).value[0].address : (parsed.to as any).value[0].address) : '',
                                     subject: parsed.subject,
                                     body_html: parsed.html || '',
                                     body_text: parsed.text || '',
                                     folder: folderMapping.local,
-                                    received_at: parsed.date?.toISOString() || new Date().toISOString()
-                                }, { onConflict: 'account_id, message_id' });
+                                    in_reply_to: inReplyTo,
+                                    reference_ids: referenceIds,
+                                    received_at: receivedAt
+                                }, { onConflict: 'account_id, message_id' }).select('id, contact_id').maybeSingle();
+
+                                // Keep attachments as files of the email and its contact
+                                if (stored && parsed.attachments?.length) {
+                                    try {
+                                        await storeInboundAttachments({
+                                            organizationId: account.organization_id,
+                                            emailId: stored.id,
+                                            contactId: stored.contact_id,
+                                            uploadedBy: account.user_id,
+                                            attachments: parsed.attachments
+                                        });
+                                    } catch (attachmentErr) {
+                                        console.warn(`Failed to store attachments of ${parsed.messageId}:`, attachmentErr);
+                                    }
+                                }
+
+                                // Replies resume workflow runs waiting on email_replied and stop sequences.
+                                // Out-of-office and bounce messages are not replies.
+                                if (folderMapping.local === 'inbox' && !isAutomaticReply(Object.fromEntries(parsed.headers || []), parsed.subject)) {
+                                    await handleInboundEmail(account.organization_id, fromAddr, receivedAt);
+                                    await detectSequenceReply({
+                                        organizationId: account.organization_id,
+                                        emailId: stored?.id || null,
+                                        fromAddress: fromAddr,
+                                        subject: parsed.subject,
+                                        inReplyTo,
+                                        references: referenceIds,
+                                        receivedAt
+                                    });
+                                }
                             }
                         } finally {
                             lock.release();
@@ -0,0 +1,58 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { listEmailAttachments } from "@/lib/email-attachments";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * All messages of a thread, sent and received, oldest first, with the contact the
+ * conversation is with.
+ */
+export async function GET(
+    request: Request,
+    context: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await context.params;
+        const supabase = await createClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const includeTrash = searchParams.get("includeTrash") === "true";
+
+        // RLS scopes the messages to the caller's organization
+        let query = supabase
+            .from("emails")
+            .select("*")
+            .eq("thread_id", id)
+            .order("received_at", { ascending: true });
+        if (!includeTrash) query = query.neq("folder", "trash");
+
+        const { data: messages, error } = await query;
+        if (error) throw error;
+
+        if (!messages || messages.length === 0) {
+            return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+        }
+
+        const attachments = await listEmailAttachments(messages[0].organization_id, messages.filter(m => m.has_attachment).map(m => m.id));
+        for (const message of messages) {
+            message.attachments = attachments[message.id] || [];
+        }
+
+        const contactId = [...messages].reverse().find(m => m.contact_id)?.contact_id || null;
+        const { data: contact } = contactId
+            ? await supabase.from("contacts").select("id, first_name, last_name, email, company").eq("id", contactId).maybeSingle()
+            : { data: null };
+
+        return NextResponse.json({ messages, contact });
+
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : "Internal Error";
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
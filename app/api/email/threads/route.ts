@@ -0,0 +1,52 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import type { EmailThread } from "@/types";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Conversations with mail in a folder, most recent first.
+ */
+export async function GET(request: Request) {
+    try {
+        const supabase = await createClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const folder = searchParams.get("folder") || "inbox";
+        const page = Math.max(1, parseInt(searchParams.get("page") || "1"));
+        const limit = Math.min(100, Math.max(1, parseInt(searchParams.get("limit") || "20")));
+
+        // RLS scopes the threads to the caller's organization
+        const { data, error } = await supabase.rpc("get_email_threads", {
+            p_folder: folder,
+            p_limit: limit,
+            p_offset: (page - 1) * limit,
+        });
+
+        if (error) throw error;
+
+        // Every row carries the total number of threads in the folder
+        const rows = (data || []) as (EmailThread & { total_count?: number })[];
+        const total = rows[0]?.total_count || 0;
+        rows.forEach(row => delete row.total_count);
+
+        return NextResponse.json({
+            data: rows as EmailThread[],
+            meta: {
+                page,
+                limit,
+                total,
+                folder
+            }
+        });
+
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : "Internal Error";
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { evaluateTriggers } from '@/lib/automations/engine';
 
 // Base64 encoded transparent 1x1 pixel GIF
 const PIXEL_BASE64 = 'R0lGODlhAQABAIAAAP///wAAACH5BAEAAAAALAAAAAABAAEAAAICRAEAOw==';
@@ -11,12 +12,15 @@ export async function GET(
 ) {
     const { emailId } = await context.params;
 
-    // We do not await this immediately to keep the pixel response extremely fast.
-    trackEmailOpen(request, emailId).catch(err => {
+    // Awaited: serverless hosts may freeze the function once the response is sent,
+    // before the email_opened workflows have started. Failures still return the pixel.
+    try {
+        await trackEmailOpen(request, emailId);
+    } catch (err) {
         console.error('Failed to track email open:', err);
-    });
+    }
 
-    // Return the transparent 1x1 pixel GIF immediately
+    // Return the transparent 1x1 pixel GIF
     return new NextResponse(PIXEL_BUFFER, {
         status: 200,
         headers: {
@@ -29,7 +33,6 @@ export async function GET(
     });
 }
 
-// Fire-and-forget background tracking
 async function trackEmailOpen(request: Request, emailId: string) {
     // 1. Initialize Supabase Admin strictly for backend event tracking
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -70,7 +73,7 @@ async function trackEmailOpen(request: Request, emailId: string) {
     // For now, updating timestamp and grabbing current state is fine for MVP.
     const { data: emailData } = await supabaseAdmin
         .from('emails')
-        .select('open_count')
+        .select('open_count, organization_id, contact_id, workflow_run_id')
         .eq('id', emailId)
         .single();
 
@@ -82,5 +85,15 @@ async function trackEmailOpen(request: Request, emailId: string) {
                 open_count: (emailData.open_count || 0) + 1
             })
             .eq('id', emailId);
+
+        // 5. Fire email_opened workflows on the first open only, so image reloads
+        // and mail client prefetches don't enroll the contact again and again.
+        if (emailData.contact_id && !emailData.open_count) {
+            await evaluateTriggers('email_opened', emailData.organization_id, {
+                contactId: emailData.contact_id,
+                emailId,
+                workflowRunId: emailData.workflow_run_id
+            });
+        }
     }
 }
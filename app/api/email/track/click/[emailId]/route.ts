@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { evaluateTriggers } from '@/lib/automations/engine';
 
 export async function GET(
     request: Request,
@@ -13,10 +14,13 @@ export async function GET(
         return NextResponse.json({ error: 'Missing destination URL' }, { status: 400 });
     }
 
-    // Fire and forget tracking logic
-    trackEmailClick(request, emailId, destinationUrl).catch(err => {
+    // Awaited: serverless hosts may freeze the function once the response is sent,
+    // before the email_clicked workflows have started. Failures still redirect.
+    try {
+        await trackEmailClick(request, emailId, destinationUrl);
+    } catch (err) {
         console.error('Failed to track email click:', err);
-    });
+    }
 
     // Determine fallback
     let decodedUrl = '';
@@ -30,11 +34,10 @@ export async function GET(
         decodedUrl = process.env.NEXT_PUBLIC_APP_URL || '/';
     }
 
-    // Redirect the user immediately
+    // Redirect the user
     return NextResponse.redirect(decodedUrl, 302);
 }
 
-// Async background tracking function
 async function trackEmailClick(request: Request, emailId: string, destinationUrl: string) {
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
     const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -49,6 +52,14 @@ async function trackEmailClick(request: Request, emailId: string, destinationUrl
     const forwardedFor = request.headers.get('x-forwarded-for');
     const ipAddress = forwardedFor ? forwardedFor.split(',')[0].trim() : 'unknown';
 
+    // Repeat clicks on a link are still counted but start no workflows, like repeat opens
+    const { count: previousClicks } = await supabaseAdmin
+        .from('email_tracking_events')
+        .select('id', { count: 'exact', head: true })
+        .eq('email_id', emailId)
+        .eq('event_type', 'click')
+        .eq('link_url', destinationUrl);
+
     // Log the click event
     const { error: eventError } = await supabaseAdmin
         .from('email_tracking_events')
@@ -68,7 +79,7 @@ async function trackEmailClick(request: Request, emailId: string, destinationUrl
     // Update email click counters
     const { data: emailData } = await supabaseAdmin
         .from('emails')
-        .select('click_count')
+        .select('click_count, organization_id, contact_id')
         .eq('id', emailId)
         .single();
 
@@ -80,5 +91,15 @@ async function trackEmailClick(request: Request, emailId: string, destinationUrl
                 click_count: (emailData.click_count || 0) + 1
             })
             .eq('id', emailId);
+
+        // Fire email_clicked workflows on the first click of each link (trigger nodes
+        // may filter on the link URL)
+        if (emailData.contact_id && !previousClicks) {
+            await evaluateTriggers('email_clicked', emailData.organization_id, {
+                contactId: emailData.contact_id,
+                emailId,
+                linkUrl: decodeURIComponent(destinationUrl)
+            });
+        }
     }
 }
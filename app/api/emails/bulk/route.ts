@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
 import { sendEmail } from '@/lib/email-service';
+import { contactSearchFilter } from '@/lib/utils';
 
 export async function POST(request: Request) {
     try {
@@ -53,7 +54,7 @@ export async function POST(request: Request) {
                 .select('id, email, first_name, last_name, organization_id')
                 .eq('organization_id', orgId);
             if (filters?.search) {
-                query = query.or(`first_name.ilike.%${filters.search}%,last_name.ilike.%${filters.search}%,email.ilike.%${filters.search}%,company.ilike.%${filters.search}%`);
+                query = query.or(contactSearchFilter(filters.search));
             }
             if (filters?.status && filters.status !== "all") {
                 query = query.eq('status', filters.status);
@@ -86,28 +87,35 @@ export async function POST(request: Request) {
         }
 
         let queuedCount = 0;
+        let suppressedCount = 0;
 
         for (const contact of contacts) {
             try {
-                // Pass the subject and the HTML body directly
-                // We use the `variables` argument for dynamic mapping so we don't need manual regexes
-                await sendEmail({
+                // Pass the subject and the HTML body directly; placeholders are filled from the contact.
+                // Bulk templates have always greeted contacts without a first name as "there".
+                const result = await sendEmail({
                     to: contact.email,
                     subject: subject,
                     bodyHtml: body,
                     organizationId: contact.organization_id,
+                    contactId: contact.id,
                     variables: {
                         first_name: contact.first_name || 'there',
                         last_name: contact.last_name || ''
-                    }
+                    },
+                    marketing: true
                 });
+                if (result.suppressed) {
+                    suppressedCount++;
+                    continue;
+                }
                 queuedCount++;
             } catch (sendErr) {
                 console.error('Failed to send email to', contact.email, sendErr);
             }
         }
 
-        return NextResponse.json({ success: true, queuedCount });
+        return NextResponse.json({ success: true, queuedCount, suppressedCount });
     } catch (error) {
         console.error('Bulk email error:', error);
         return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
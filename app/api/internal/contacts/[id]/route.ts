@@ -0,0 +1,65 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { emitContactUpdated } from "@/lib/automations/engine";
+
+export const dynamic = 'force-dynamic';
+
+// Set by the database or fixed for the life of the contact
+const READ_ONLY_FIELDS = ['id', 'organization_id', 'created_at', 'updated_at'];
+
+/**
+ * Updates a contact and fires tag_added for each tag it did not have before
+ * (other changes re-check the goals of the contact's running workflows).
+ */
+export async function PATCH(
+    request: Request,
+    context: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await context.params;
+        const supabase = await createClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const updates = await request.json();
+        for (const field of READ_ONLY_FIELDS) delete updates[field];
+
+        // RLS scopes both the lookup and the update to the caller's organization
+        const { data: current } = await supabase
+            .from("contacts")
+            .select("tags")
+            .eq("id", id)
+            .maybeSingle();
+
+        if (!current) {
+            return NextResponse.json({ error: "Contact not found" }, { status: 404 });
+        }
+
+        const { data: contact, error } = await supabase
+            .from("contacts")
+            .update(updates)
+            .eq("id", id)
+            .select()
+            .single();
+
+        if (error) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+
+        // A failed trigger evaluation must never fail the user's edit
+        try {
+            await emitContactUpdated(contact.organization_id, contact.id, current.tags || [], contact.tags || []);
+        } catch (err) {
+            console.error('[Workflows] Failed to evaluate contact update triggers:', err);
+        }
+
+        return NextResponse.json(contact);
+
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : "Internal Error";
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
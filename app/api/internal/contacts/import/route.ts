@@ -0,0 +1,56 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { evaluateTriggers } from "@/lib/automations/engine";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Creates the contacts of a CSV import and enrolls them in contact_created workflows.
+ * The runs are left due for the workflow queue rather than executed in this request.
+ */
+export async function POST(request: Request) {
+    try {
+        const supabase = await createClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const contacts = await request.json();
+        if (!Array.isArray(contacts)) {
+            return NextResponse.json({ error: "Expected a list of contacts" }, { status: 400 });
+        }
+        if (contacts.length === 0) {
+            return NextResponse.json([]);
+        }
+
+        // RLS only lets the caller insert into their own organization
+        const { data, error } = await supabase
+            .from("contacts")
+            .insert(contacts)
+            .select();
+
+        if (error) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+
+        // A failed trigger evaluation must never fail the import
+        for (const contact of data) {
+            try {
+                await evaluateTriggers('contact_created', contact.organization_id, {
+                    contactId: contact.id,
+                    source: 'import'
+                }, { processRuns: false });
+            } catch (err) {
+                console.error('[Workflows] Failed to evaluate contact_created:', err);
+            }
+        }
+
+        return NextResponse.json(data, { status: 201 });
+
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : "Internal Error";
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextResponse } from 'next/server';
+import { evaluateTriggers } from '@/lib/automations/engine';
 
 export async function POST(
     request: Request,
@@ -76,6 +77,16 @@ export async function POST(
 
             if (createError) throw createError;
             contactId = newContact.id;
+
+            try {
+                await evaluateTriggers('contact_created', form.organization_id, {
+                    contactId,
+                    source: 'web_form',
+                    formId: form.id
+                });
+            } catch (autoError) {
+                console.error('Failed to trigger automation:', autoError);
+            }
         }
 
         // Log the activity
@@ -135,6 +135,12 @@ export async function POST(request: Request) {
                 formId: form.id,
                 ...body
             });
+
+            await evaluateTriggers("contact_created", form.organization_id, {
+                contactId: contact.id,
+                source: "web_form",
+                formId: form.id
+            });
         } catch (autoError) {
             console.error("Failed to trigger automation:", autoError);
         }
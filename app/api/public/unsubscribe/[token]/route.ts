@@ -0,0 +1,77 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { verifyUnsubscribeToken } from '@/lib/unsubscribe';
+import { isEmailSuppressed, resubscribeEmail, unsubscribeEmail } from '@/lib/suppressions';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * The recipient's subscription, for the preference page. Reading never unsubscribes,
+ * so link scanners that follow the URL change nothing.
+ */
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ token: string }> }
+) {
+    const { token } = await params;
+    const target = verifyUnsubscribeToken(token);
+    if (!target) {
+        return NextResponse.json({ error: 'Invalid unsubscribe link' }, { status: 400 });
+    }
+
+    try {
+        const supabase = createClient(
+            process.env.NEXT_PUBLIC_SUPABASE_URL!,
+            process.env.SUPABASE_SERVICE_ROLE_KEY!,
+            { auth: { persistSession: false } }
+        );
+        const { data: organization } = await supabase
+            .from('organizations')
+            .select('name')
+            .eq('id', target.organizationId)
+            .single();
+
+        return NextResponse.json({
+            email: target.email,
+            organization: organization?.name || null,
+            subscribed: !(await isEmailSuppressed(target.organizationId, target.email))
+        });
+    } catch (err) {
+        console.error('Unsubscribe lookup error:', err);
+        return NextResponse.json({ error: 'Failed to load subscription' }, { status: 500 });
+    }
+}
+
+/**
+ * Unsubscribes the recipient. Mail clients post the RFC 8058 one-click form
+ * ("List-Unsubscribe=One-Click"); the preference page posts JSON and may resubscribe.
+ */
+export async function POST(
+    request: Request,
+    { params }: { params: Promise<{ token: string }> }
+) {
+    const { token } = await params;
+    const target = verifyUnsubscribeToken(token);
+    if (!target) {
+        return NextResponse.json({ error: 'Invalid unsubscribe link' }, { status: 400 });
+    }
+
+    let action = 'unsubscribe';
+    if (request.headers.get('content-type')?.includes('application/json')) {
+        const body = await request.json().catch(() => ({}));
+        if (body.action === 'resubscribe') action = 'resubscribe';
+    }
+
+    try {
+        if (action === 'resubscribe') {
+            const subscribed = await resubscribeEmail(target.organizationId, target.email);
+            return NextResponse.json({ success: true, subscribed });
+        }
+
+        await unsubscribeEmail(target.organizationId, target.email);
+        return NextResponse.json({ success: true, subscribed: false });
+    } catch (err) {
+        console.error('Unsubscribe error:', err);
+        return NextResponse.json({ error: 'Failed to update subscription' }, { status: 500 });
+    }
+}
@@ -5,6 +5,12 @@ import { NextResponse } from 'next/server';
 import nodemailer from 'nodemailer';
 import { decrypt } from '@/lib/crypto';
 import { injectTracking } from '@/lib/email-tracking';
+import { attachFilesToEmail, loadOutgoingAttachments, type OutgoingAttachment } from '@/lib/email-attachments';
+import { loadTemplateContext } from '@/lib/email-service';
+import { buildMessageId } from '@/lib/email-threading';
+import { isEmailSuppressed } from '@/lib/suppressions';
+import { renderTemplate } from '@/lib/template-engine';
+import { withUnsubscribe } from '@/lib/unsubscribe';
 import type { EmailSequenceStep, EmailSequence, Contact, SMTPConfig } from '@/types';
 import type { SupabaseClient } from '@supabase/supabase-js';
 
@@ -14,7 +20,7 @@ interface EnrollmentWithRelations {
     sequence_id: string;
     contact_id: string;
     current_step: number;
-    status: 'active' | 'paused' | 'completed' | 'replied';
+    status: 'active' | 'paused' | 'completed' | 'replied' | 'unsubscribed';
     next_send_at: string | null;
     contact: Contact;
     sequence: EmailSequence;
@@ -51,6 +57,19 @@ async function processEnrollment(
             return { id: enrollment.id, status: 'error', message: 'Enrollment has no valid contact or email' };
         }
 
+        // Opted-out contacts leave the sequence instead of being emailed
+        if (await isEmailSuppressed(sequence.organization_id, contact.email)) {
+            const now = new Date().toISOString();
+            const { error: stopError } = await supabase
+                .from('sequence_enrollments')
+                .update({ status: 'unsubscribed', next_send_at: null, unsubscribed_at: now, updated_at: now })
+                .eq('id', enrollment.id);
+            if (stopError) {
+                return { id: enrollment.id, status: 'error', message: `Failed to stop enrollment of unsubscribed contact: ${stopError.message}` };
+            }
+            return { id: enrollment.id, status: 'success', message: 'Contact has unsubscribed; sequence stopped' };
+        }
+
         const steps = sequence.steps as EmailSequenceStep[];
         const currentStepIndex = enrollment.current_step;
 
@@ -131,13 +150,18 @@ async function processEnrollment(
         // Generate a unique ID for the email log first or use a placeholder if we want to update after send
         // Better: insert the email log, get ID, then send with pixel.
 
-        const subject = step.subject_override || template.subject || '(No Subject)';
-        let body = template.body_html || template.body_text || '';
-
-        // Variable replacement
-        body = body.replace(/{{first_name}}/g, contact.first_name || '');
-        body = body.replace(/{{last_name}}/g, contact.last_name || '');
-        body = body.replace(/{{email}}/g, contact.email || '');
+        // Fill placeholders from the contact, its owner and latest deal
+        const templateContext = await loadTemplateContext(account.organization_id, contact.id);
+        const subject = renderTemplate(step.subject_override || template.subject || '(No Subject)', templateContext);
+        const body = renderTemplate(template.body_html || template.body_text || '', templateContext, { escapeHtml: true });
+
+        const attachmentIds: string[] = template.attachment_ids || [];
+        let attachments: OutgoingAttachment[];
+        try {
+            attachments = await loadOutgoingAttachments(account.organization_id, attachmentIds);
+        } catch (attachmentErr) {
+            return { id: enrollment.id, status: 'error', message: `Attachments failed: ${attachmentErr instanceof Error ? attachmentErr.message : 'unknown error'}` };
+        }
 
         // 4. Create Email Record (to get ID for tracking)
         const { data: emailRecord, error: emailError } = await supabase
@@ -145,6 +169,7 @@ async function processEnrollment(
             .insert({
                 account_id: account.id,
                 organization_id: account.organization_id,
+                contact_id: contact.id,
                 from_addr: account.email_addr,
                 to_addr: contact.email,
                 subject,
@@ -152,7 +177,8 @@ async function processEnrollment(
                 folder: 'sent',
                 is_read: true,
                 received_at: new Date().toISOString(),
-                enrollment_id: enrollment.id
+                enrollment_id: enrollment.id,
+                has_attachment: attachments.length > 0
             })
             .select()
             .single();
@@ -162,13 +188,23 @@ async function processEnrollment(
             return { id: enrollment.id, status: 'error', message: `Failed to create email log: ${emailError.message}` };
         }
 
-        // 5. Inject Tracking
-        const trackedBody = injectTracking(body, emailRecord.id, baseUrl);
+        await attachFilesToEmail(account.organization_id, emailRecord.id, attachmentIds);
+
+        // 5. Inject Tracking, then the unsubscribe link (so it is not rewritten)
+        const unsubscribe = withUnsubscribe(
+            injectTracking(body, emailRecord.id, baseUrl),
+            { organizationId: account.organization_id, email: contact.email },
+            baseUrl
+        );
+        const trackedBody = unsubscribe.html;
+
+        // A stable Message-ID lets replies be matched back to this enrollment
+        const messageId = buildMessageId(emailRecord.id, account.email_addr);
 
         // Update record with tracked body
         await supabase
             .from('emails')
-            .update({ body_html: trackedBody })
+            .update({ body_html: trackedBody, message_id: messageId })
             .eq('id', emailRecord.id);
 
         // 6. Send Email
@@ -177,6 +213,9 @@ async function processEnrollment(
             to: contact.email,
             subject,
             html: trackedBody,
+            messageId,
+            attachments,
+            headers: unsubscribe.headers,
         });
 
         // 7. Log activity
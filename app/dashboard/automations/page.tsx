@@ -1,6 +1,7 @@
 "use client";
 
-import { Plus, Workflow as WorkflowIcon, MoreVertical, Play, Pause, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { Plus, Workflow as WorkflowIcon, MoreVertical, Play, Pause, Trash2, FileUp, LayoutTemplate } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -18,6 +19,8 @@ import { toast } from "sonner";
 
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ExecutionLogs } from "@/components/automations/execution-logs";
+import { LegacyRulesBanner } from "@/components/automations/legacy-rules-banner";
+import { ImportWorkflowDialog } from "@/components/automation/import-workflow-dialog";
 
 export default function AutomationPage() {
     const { data: profile } = useActiveProfile();
@@ -25,6 +28,7 @@ export default function AutomationPage() {
     const { trigger: deleteWorkflow } = useDeleteWorkflow();
     const { trigger: updateWorkflow } = useUpdateWorkflow();
     const { trigger: createWorkflow } = useCreateWorkflow();
+    const [importSource, setImportSource] = useState<"file" | "gallery" | null>(null);
 
     const handleCreate = async () => {
         if (!profile?.organization_id) {
@@ -74,19 +78,36 @@ export default function AutomationPage() {
                     <h1 className="text-3xl font-bold tracking-tight">Workflows & Automation</h1>
                     <p className="text-muted-foreground">Design and manage visual automation sequences.</p>
                 </div>
-                <Button onClick={handleCreate} className="gap-2">
-                    <Plus className="w-4 h-4" />
-                    New Workflow
-                </Button>
+                <div className="flex gap-2">
+                    <Button variant="outline" onClick={() => setImportSource("gallery")} className="gap-2">
+                        <LayoutTemplate className="w-4 h-4" />
+                        Templates
+                    </Button>
+                    <Button variant="outline" onClick={() => setImportSource("file")} className="gap-2">
+                        <FileUp className="w-4 h-4" />
+                        Import
+                    </Button>
+                    <Button onClick={handleCreate} className="gap-2">
+                        <Plus className="w-4 h-4" />
+                        New Workflow
+                    </Button>
+                </div>
             </div>
 
+            <ImportWorkflowDialog
+                source={importSource || "file"}
+                open={importSource !== null}
+                onOpenChange={(open) => !open && setImportSource(null)}
+            />
+
             <Tabs defaultValue="workflows" className="space-y-4">
                 <TabsList>
                     <TabsTrigger value="workflows">Workflows</TabsTrigger>
                     <TabsTrigger value="logs">Execution Logs</TabsTrigger>
                 </TabsList>
 
-                <TabsContent value="workflows">
+                <TabsContent value="workflows" className="space-y-6">
+                    {profile && ["admin", "manager"].includes(profile.role) && <LegacyRulesBanner />}
                     {isLoading ? (
                         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                             {[1, 2, 3].map((i) => (
@@ -115,6 +136,9 @@ export default function AutomationPage() {
                                                 <Badge variant={workflow.is_active ? "default" : "secondary"}>
                                                     {workflow.is_active ? "Active" : "Draft"}
                                                 </Badge>
+                                                {workflow.is_active && !workflow.published_version_id && (
+                                                    <Badge variant="outline">Not published</Badge>
+                                                )}
                                             </div>
                                             <CardDescription>{workflow.description}</CardDescription>
                                         </div>
@@ -29,7 +29,7 @@ import {
     DropdownMenuItem,
     DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { cn } from "@/lib/utils";
+import { cn, contactSearchFilter } from "@/lib/utils";
 import {
     Table,
     TableBody,
@@ -60,9 +60,10 @@ import { ContactFilters, type ContactFilterValues } from "@/components/contacts/
 import { ImportDialog } from "@/components/contacts/import-dialog";
 import { StatusManagementDialog } from "@/components/contacts/status-management-dialog";
 import { BulkEmailDialog } from "@/components/contacts/bulk-email-dialog";
+import { BulkEnrollWorkflowDialog } from "@/components/contacts/bulk-enroll-workflow-dialog";
 import type { Contact } from "@/types";
 import { useDialerStore } from "@/lib/stores";
-import { UserCheck, Play } from "lucide-react";
+import { UserCheck, Play, Workflow } from "lucide-react";
 import { PaginationControls } from "@/components/ui/pagination-controls"; // Helper
 import { createClient } from "@/lib/supabase/client"; // Direct fetching for bulk ops
 
@@ -84,7 +85,8 @@ export default function ContactsPage() {
     const [enrollDialogOpen, setEnrollDialogOpen] = useState(false);
     const [composerOpen, setComposerOpen] = useState(false);
     const [bulkEmailOpen, setBulkEmailOpen] = useState(false);
-    const [composerContact, setComposerContact] = useState<{ email: string, name?: string } | null>(null);
+    const [workflowEnrollOpen, setWorkflowEnrollOpen] = useState(false);
+    const [composerContact, setComposerContact] = useState<{ email: string, name?: string, id?: string } | null>(null);
 
     const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
     const [idsToDelete, setIdsToDelete] = useState<string[]>([]);
@@ -210,7 +212,8 @@ export default function ContactsPage() {
         }
         setComposerContact({
             email,
-            name: contact ? `${contact.first_name} ${contact.last_name || ''}`.trim() : undefined
+            name: contact ? `${contact.first_name} ${contact.last_name || ''}`.trim() : undefined,
+            id: contact?.id
         });
         setComposerOpen(true);
     };
@@ -363,7 +366,7 @@ export default function ContactsPage() {
             let query = supabase.from("contacts").select("first_name, last_name, phone");
 
             if (filters.search) {
-                query = query.or(`first_name.ilike.%${filters.search}%,last_name.ilike.%${filters.search}%,email.ilike.%${filters.search}%,company.ilike.%${filters.search}%`);
+                query = query.or(contactSearchFilter(filters.search));
             }
             if (filters.status && filters.status !== "all") {
                 query = query.eq("status", filters.status);
@@ -500,6 +503,12 @@ export default function ContactsPage() {
                                         <Mail className="h-4 w-4 mr-2" />
                                         Enroll
                                     </Button>
+                                    {(activeProfile?.role === "admin" || activeProfile?.role === "manager") && (
+                                        <Button variant="outline" onClick={() => setWorkflowEnrollOpen(true)}>
+                                            <Workflow className="h-4 w-4 mr-2" />
+                                            Start Workflow
+                                        </Button>
+                                    )}
                                     {(activeProfile?.role === "admin" || activeProfile?.role === "manager") && (
                                         <DropdownMenu>
                                             <DropdownMenuTrigger asChild>
@@ -789,6 +798,7 @@ export default function ContactsPage() {
                 open={composerOpen}
                 onOpenChange={setComposerOpen}
                 defaultTo={composerContact?.email}
+                contactId={composerContact?.id}
                 organizationId={activeProfile?.organization_id || ""}
             />
             <BulkEmailDialog
@@ -803,6 +813,18 @@ export default function ContactsPage() {
                     setIsSelectAllMatching(false);
                 }}
             />
+            <BulkEnrollWorkflowDialog
+                open={workflowEnrollOpen}
+                onOpenChange={setWorkflowEnrollOpen}
+                contactIds={selectedContacts}
+                isSelectAllMatching={isSelectAllMatching}
+                totalMatches={totalItems}
+                filters={filters}
+                onSuccess={() => {
+                    setSelectedContacts([]);
+                    setIsSelectAllMatching(false);
+                }}
+            />
 
             {/* Delete Confirmation Dialog */}
             <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
@@ -18,7 +18,8 @@ import {
     Edit,
     Zap,
     MailOpen,
-    Activity
+    Activity,
+    User
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -28,7 +29,7 @@ import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
 import { useEmailTemplates, useDeleteEmailTemplate, useEmailSequences, useActiveProfile, useDeleteEmailSequence, useUpdateEmailSequence, useSMTPConfigs } from "@/hooks/use-data";
-import { useEmails, useEmailBatchAction } from "@/hooks/use-email";
+import { useEmailThreads, useEmailBatchAction } from "@/hooks/use-email";
 import { useRealtime } from "@/hooks/use-realtime";
 import dynamic from 'next/dynamic';
 
@@ -36,8 +37,11 @@ const TemplateDialog = dynamic(() => import("@/components/email/template-dialog"
 const EmailComposerDialog = dynamic(() => import("@/components/email/email-composer-dialog").then(mod => mod.EmailComposerDialog), { ssr: false });
 const SequenceDialog = dynamic(() => import("@/components/email/sequence-dialog").then(mod => mod.SequenceDialog), { ssr: false });
 const SequenceEnrollmentsManager = dynamic(() => import("@/components/email/sequence-enrollments-manager").then(mod => mod.SequenceEnrollmentsManager), { ssr: false });
+const EmailThreadView = dynamic(() => import("@/components/email/email-thread-view").then(mod => mod.EmailThreadView), { ssr: false });
 const EmailAnalytics = dynamic(() => import("@/components/email/email-analytics").then(mod => mod.EmailAnalytics), { ssr: false });
-import type { EmailTemplate, EmailSequence, Email } from "@/types";
+import type { EmailTemplate, EmailSequence, Email, EmailThread } from "@/types";
+import type { ReplyMode } from "@/lib/email-threading";
+import Link from "next/link";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import {
@@ -66,7 +70,10 @@ export default function EmailPage() {
     const [selectedTemplate, setSelectedTemplate] = useState<EmailTemplate | null>(null);
     const [selectedSequence, setSelectedSequence] = useState<EmailSequence | null>(null);
     const [activeFolder, setActiveFolder] = useState<EmailFolder>("inbox");
-    const [selectedEmails, setSelectedEmails] = useState<Set<string>>(new Set());
+    const [selectedEmails, setSelectedEmails] = useState<Set<string>>(new Set()); // Thread ids
+    const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+    const [replyTo, setReplyTo] = useState<Email | null>(null);
+    const [replyMode, setReplyMode] = useState<ReplyMode>("reply");
     const [isSyncing, setIsSyncing] = useState(false);
     const [isProcessingSequences, setIsProcessingSequences] = useState(false);
     const [currentPage, setCurrentPage] = useState(1);
@@ -77,9 +84,9 @@ export default function EmailPage() {
     const { data: smtpConfigs = [] } = useSMTPConfigs();
     const { trigger: batchAction, isMutating: isBatchMutating } = useEmailBatchAction();
 
-    // Fetch emails
-    const { data: emailsData, isLoading: emailsLoading, mutate: mutateEmails } = useEmails(activeFolder, currentPage, itemsPerPage);
-    const emails: Email[] = emailsData?.data || [];
+    // Fetch conversations
+    const { data: emailsData, isLoading: emailsLoading, mutate: mutateEmails } = useEmailThreads(activeFolder, currentPage, itemsPerPage);
+    const emails: EmailThread[] = emailsData?.data || [];
     const totalEmails = emailsData?.meta?.total || 0;
     const totalPages = Math.ceil(totalEmails / itemsPerPage);
 
@@ -128,6 +135,24 @@ export default function EmailPage() {
         }
     };
 
+    const handleCompose = () => {
+        setReplyTo(null);
+        setComposerOpen(true);
+    };
+
+    const handleReply = (email: Email, mode: ReplyMode) => {
+        setReplyTo(email);
+        setReplyMode(mode);
+        setComposerOpen(true);
+    };
+
+    const handleOpenFolder = (folder: EmailFolder) => {
+        setActiveFolder(folder);
+        setCurrentPage(1);
+        setOpenThreadId(null);
+        setSelectedEmails(new Set());
+    };
+
     const handleNewTemplate = () => {
         setSelectedTemplate(null);
         setTemplateDialogOpen(true);
@@ -227,7 +252,7 @@ export default function EmailPage() {
 
     const handleSelectAll = (checked: boolean) => {
         if (checked) {
-            const allIds = new Set(emails.map(e => e.id));
+            const allIds = new Set(emails.map(e => e.thread_id));
             setSelectedEmails(allIds);
         } else {
             setSelectedEmails(new Set());
@@ -244,8 +269,8 @@ export default function EmailPage() {
         setSelectedEmails(newSelected);
     };
 
-    const handleBatchAction = async (action: 'delete' | 'archive' | 'mark_read' | 'mark_unread') => {
-        if (selectedEmails.size === 0) return;
+    const handleBatchAction = async (action: 'delete' | 'archive' | 'mark_read' | 'mark_unread', threadIds: string[] = Array.from(selectedEmails)) => {
+        if (threadIds.length === 0) return;
 
         try {
             let destination: string | undefined;
@@ -270,13 +295,16 @@ export default function EmailPage() {
             }
 
             await batchAction({
-                emailIds: Array.from(selectedEmails),
+                threadIds,
                 action: apiAction,
                 destination
             });
 
-            toast.success(`Emails ${action}d`);
+            toast.success(`Conversations ${action}d`);
             setSelectedEmails(new Set());
+            if (openThreadId && threadIds.includes(openThreadId) && apiAction !== 'mark_read' && apiAction !== 'mark_unread') {
+                setOpenThreadId(null);
+            }
             mutateEmails();
         } catch (error) {
             console.error("Batch action failed:", error);
@@ -306,7 +334,7 @@ export default function EmailPage() {
                     </p>
                 </div>
                 <div className="flex items-center gap-3">
-                    <Button onClick={() => setComposerOpen(true)}>
+                    <Button onClick={handleCompose}>
                         <Plus className="h-4 w-4 mr-2" />
                         Compose
                     </Button>
@@ -320,7 +348,7 @@ export default function EmailPage() {
                         <Button
                             className="w-full mb-4 shadow-sm"
                             size="lg"
-                            onClick={() => setComposerOpen(true)}
+                            onClick={handleCompose}
                         >
                             <Plus className="h-4 w-4 mr-2" />
                             Compose
@@ -329,7 +357,7 @@ export default function EmailPage() {
                             <Button
                                 variant={activeFolder === "inbox" ? "secondary" : "ghost"}
                                 className={cn("w-full justify-start", activeFolder === "inbox" && "font-semibold")}
-                                onClick={() => { setActiveFolder("inbox"); setCurrentPage(1); }}
+                                onClick={() => handleOpenFolder("inbox")}
                             >
                                 <Inbox className="mr-2 h-4 w-4" />
                                 Inbox
@@ -337,7 +365,7 @@ export default function EmailPage() {
                             <Button
                                 variant={activeFolder === "sent" ? "secondary" : "ghost"}
                                 className={cn("w-full justify-start", activeFolder === "sent" && "font-semibold")}
-                                onClick={() => { setActiveFolder("sent"); setCurrentPage(1); }}
+                                onClick={() => handleOpenFolder("sent")}
                             >
                                 <Send className="mr-2 h-4 w-4" />
                                 Sent
@@ -345,7 +373,7 @@ export default function EmailPage() {
                             <Button
                                 variant={activeFolder === "starred" ? "secondary" : "ghost"}
                                 className={cn("w-full justify-start", activeFolder === "starred" && "font-semibold")}
-                                onClick={() => { setActiveFolder("starred"); setCurrentPage(1); }}
+                                onClick={() => handleOpenFolder("starred")}
                             >
                                 <Star className="mr-2 h-4 w-4" />
                                 Starred
@@ -353,7 +381,7 @@ export default function EmailPage() {
                             <Button
                                 variant={activeFolder === "archive" ? "secondary" : "ghost"}
                                 className={cn("w-full justify-start", activeFolder === "archive" && "font-semibold")}
-                                onClick={() => { setActiveFolder("archive"); setCurrentPage(1); }}
+                                onClick={() => handleOpenFolder("archive")}
                             >
                                 <Archive className="mr-2 h-4 w-4" />
                                 Archive
@@ -361,7 +389,7 @@ export default function EmailPage() {
                             <Button
                                 variant={activeFolder === "trash" ? "secondary" : "ghost"}
                                 className={cn("w-full justify-start", activeFolder === "trash" && "font-semibold")}
-                                onClick={() => { setActiveFolder("trash"); setCurrentPage(1); }}
+                                onClick={() => handleOpenFolder("trash")}
                             >
                                 <Trash2 className="mr-2 h-4 w-4" />
                                 Trash
@@ -430,6 +458,15 @@ export default function EmailPage() {
 
                         {/* We reuse 'inbox' tab for all email lists */}
                         <TabsContent value="inbox" className="mt-0">
+                            {openThreadId ? (
+                                <Card className="border-border/50 shadow-sm min-h-[500px]">
+                                    <EmailThreadView
+                                        threadId={openThreadId}
+                                        onBack={() => setOpenThreadId(null)}
+                                        onReply={handleReply}
+                                    />
+                                </Card>
+                            ) : (
                             <Card className="border-border/50 shadow-sm">
                                 <CardHeader className="p-4 border-b flex flex-row items-center justify-between space-y-0">
                                     <div className="flex items-center gap-2">
@@ -521,58 +558,75 @@ export default function EmailPage() {
                                         </div>
                                     ) : (
                                         <div className="flex flex-col">
-                                            {emails.map((email) => (
+                                            {emails.map((email) => {
+                                                const isUnread = email.unread_count > 0;
+                                                return (
                                                 <div
-                                                    key={email.id}
+                                                    key={email.thread_id}
                                                     className={cn(
                                                         "group flex items-center gap-4 p-4 border-b hover:bg-muted/30 transition-colors relative",
-                                                        !email.is_read && "bg-muted/20 font-medium",
-                                                        selectedEmails.has(email.id) && "bg-accent/40"
+                                                        isUnread && "bg-muted/20 font-medium",
+                                                        selectedEmails.has(email.thread_id) && "bg-accent/40"
                                                     )}
                                                 >
                                                     <Checkbox
-                                                        checked={selectedEmails.has(email.id)}
-                                                        onCheckedChange={(checked) => handleSelectEmail(email.id, checked as boolean)}
+                                                        checked={selectedEmails.has(email.thread_id)}
+                                                        onCheckedChange={(checked) => handleSelectEmail(email.thread_id, checked as boolean)}
                                                         className="mr-2"
                                                     />
 
-                                                    <div className="flex-1 min-w-0 cursor-pointer" onClick={() => { /* Open email detail */ }}>
+                                                    <div className="flex-1 min-w-0 cursor-pointer" onClick={() => setOpenThreadId(email.thread_id)}>
                                                         <div className="flex items-center justify-between mb-1">
                                                             <div className="flex items-center gap-2 min-w-0">
-                                                                <span className={cn("text-sm truncate max-w-[180px]", !email.is_read ? "font-semibold text-foreground" : "text-muted-foreground")}>
+                                                                <span className={cn("text-sm truncate max-w-[180px]", isUnread ? "font-semibold text-foreground" : "text-muted-foreground")}>
                                                                     {email.from_name || email.from_addr}
                                                                 </span>
                                                                 {email.has_attachment && <Paperclip className="h-3 w-3 text-muted-foreground" />}
+                                                                {email.message_count > 1 && (
+                                                                    <span className="text-xs text-muted-foreground">{email.message_count}</span>
+                                                                )}
+                                                                {email.contact_id && (
+                                                                    <Link
+                                                                        href={`/dashboard/contacts/${email.contact_id}`}
+                                                                        onClick={(e) => e.stopPropagation()}
+                                                                        className="text-muted-foreground hover:text-primary"
+                                                                        title="View contact"
+                                                                    >
+                                                                        <User className="h-3 w-3" />
+                                                                    </Link>
+                                                                )}
                                                             </div>
                                                             <span className="text-xs text-muted-foreground whitespace-nowrap ml-2">
-                                                                {formatTime(email.received_at)}
+                                                                {formatTime(email.last_message_at)}
                                                             </span>
                                                         </div>
                                                         <div className="flex items-center justify-between">
-                                                            <span className={cn("text-sm truncate max-w-[400px]", !email.is_read && "font-medium")}>
+                                                            <span className={cn("text-sm truncate max-w-[400px]", isUnread && "font-medium")}>
                                                                 {email.subject || '(No Subject)'}
                                                                 <span className="text-muted-foreground font-normal mx-2">-</span>
                                                                 <span className="text-muted-foreground font-normal">
-                                                                    {(email.body_text || "").substring(0, 60)}...
+                                                                    {(email.snippet || "").substring(0, 60)}...
                                                                 </span>
                                                             </span>
                                                         </div>
                                                     </div>
 
                                                     <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity absolute right-4 bg-background/80 backdrop-blur-sm p-1 rounded-md shadow-sm border">
-                                                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleBatchAction("archive")}>
+                                                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleBatchAction("archive", [email.thread_id])}>
                                                             <Archive className="h-3.5 w-3.5" />
                                                         </Button>
-                                                        <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive hover:text-destructive" onClick={() => handleBatchAction("delete")}>
+                                                        <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive hover:text-destructive" onClick={() => handleBatchAction("delete", [email.thread_id])}>
                                                             <Trash2 className="h-3.5 w-3.5" />
                                                         </Button>
                                                     </div>
                                                 </div>
-                                            ))}
+                                                );
+                                            })}
                                         </div>
                                     )}
                                 </CardContent>
                             </Card>
+                            )}
                         </TabsContent>
 
                         {/* Sequences & Templates Content (Keep existing if needed, or move to separate page) */}
@@ -806,9 +860,12 @@ export default function EmailPage() {
             />
 
             <EmailComposerDialog
+                key={replyTo ? `${replyTo.id}-${replyMode}` : "new"}
                 open={composerOpen}
                 onOpenChange={setComposerOpen}
                 organizationId={activeProfile?.organization_id || ""}
+                replyTo={replyTo}
+                replyMode={replyMode}
             />
 
             <SequenceDialog
@@ -25,6 +25,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 import { useActiveProfile, useUpdateProfile, useOrganization, useUpdateOrganization, useApiKeys, useUpdateApiKeys, useIntegrations, useSyncCalendar, useUpdatePassword, useDeleteUserAccountFinal } from "@/hooks/use-settings";
 import { EmailAccountManager } from "@/components/settings/email-account-manager";
+import { WorkflowSendSettings } from "@/components/settings/workflow-send-settings";
+import { SuppressionListManager } from "@/components/settings/suppression-list-manager";
 import { SipAccountManager } from "@/components/settings/sip-account-manager";
 import { useRouter, useSearchParams } from "next/navigation";
 import { Loader2, RefreshCw, CheckCircle2 } from "lucide-react";
@@ -480,6 +482,12 @@ function SettingsContent() {
                     {isAdmin && (
                         <EmailAccountManager orgId={profile.organization_id} />
                     )}
+                    {isAdmin && (
+                        <WorkflowSendSettings orgId={profile.organization_id} />
+                    )}
+                    {isAdmin && (
+                        <SuppressionListManager orgId={profile.organization_id} profileId={profile.id} />
+                    )}
                 </TabsContent>
                 {/* Integrations & AI */}
                 <TabsContent value="integrations">
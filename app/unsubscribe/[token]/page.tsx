@@ -0,0 +1,100 @@
+"use client";
+
+import { use, useEffect, useState } from "react";
+import { Loader2, MailCheck, MailX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+
+interface Subscription {
+    email: string;
+    organization: string | null;
+    subscribed: boolean;
+}
+
+export default function UnsubscribePage({ params }: { params: Promise<{ token: string }> }) {
+    const { token } = use(params);
+    const [subscription, setSubscription] = useState<Subscription | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        fetch(`/api/public/unsubscribe/${token}`)
+            .then(async res => {
+                const body = await res.json().catch(() => ({}));
+                if (!res.ok) throw new Error(typeof body.error === "string" ? body.error : "Failed to load subscription");
+                setSubscription(body);
+            })
+            .catch(err => setError(err.message));
+    }, [token]);
+
+    const update = async (action: "unsubscribe" | "resubscribe") => {
+        setSaving(true);
+        try {
+            const res = await fetch(`/api/public/unsubscribe/${token}`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ action })
+            });
+            const body = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(typeof body.error === "string" ? body.error : "Failed to update subscription");
+
+            setSubscription(prev => prev && { ...prev, subscribed: body.subscribed });
+            if (action === "resubscribe" && !body.subscribed) {
+                toast.error("This address can't be resubscribed here. Please contact the sender.");
+            }
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Failed to update subscription");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const sender = subscription?.organization || "this sender";
+
+    return (
+        <div className="flex items-center justify-center min-h-screen bg-background p-6">
+            <Card className="w-full max-w-md text-center">
+                {error ? (
+                    <CardHeader>
+                        <CardTitle>Link not valid</CardTitle>
+                        <CardDescription>{error}</CardDescription>
+                    </CardHeader>
+                ) : !subscription ? (
+                    <CardContent className="flex justify-center py-12">
+                        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                    </CardContent>
+                ) : (
+                    <>
+                        <CardHeader className="items-center">
+                            <div className="p-4 rounded-full bg-muted mb-2">
+                                {subscription.subscribed
+                                    ? <MailCheck className="w-8 h-8 text-muted-foreground" />
+                                    : <MailX className="w-8 h-8 text-muted-foreground" />}
+                            </div>
+                            <CardTitle>{subscription.subscribed ? "Email preferences" : "You're unsubscribed"}</CardTitle>
+                            <CardDescription>
+                                {subscription.subscribed
+                                    ? <>{subscription.email} receives marketing email from {sender}.</>
+                                    : <>{subscription.email} will no longer receive marketing email from {sender}.</>}
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            {subscription.subscribed ? (
+                                <Button variant="destructive" disabled={saving} onClick={() => update("unsubscribe")}>
+                                    {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                    Unsubscribe
+                                </Button>
+                            ) : (
+                                <Button variant="outline" disabled={saving} onClick={() => update("resubscribe")}>
+                                    {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                    Resubscribe
+                                </Button>
+                            )}
+                        </CardContent>
+                    </>
+                )}
+            </Card>
+        </div>
+    );
+}
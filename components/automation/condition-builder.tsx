@@ -0,0 +1,241 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2, FolderPlus } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+    CONDITION_FIELDS,
+    OPERATOR_LABELS,
+    OPERATORS_BY_KIND,
+    VALUELESS_OPERATORS,
+    ConditionGroup,
+    ConditionItem,
+    ConditionRule,
+    getFieldKind,
+    getPathField,
+    isConditionGroup,
+} from "@/lib/automations/conditions";
+import type { Pipeline } from "@/types";
+
+interface ConditionBuilderProps {
+    value: ConditionGroup;
+    onChange: (value: ConditionGroup) => void;
+    pipelines: Pipeline[];
+}
+
+// Groups can nest one level below the root
+const MAX_DEPTH = 1;
+
+const newId = () => `c-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+const newRule = (): ConditionRule => ({ id: newId(), field: 'lead_score', operator: 'greater_than', value: '' });
+
+export function ConditionBuilder({ value, onChange, pipelines }: ConditionBuilderProps) {
+    return <GroupEditor group={value} onChange={onChange} pipelines={pipelines} depth={0} />;
+}
+
+function GroupEditor({ group, onChange, onRemove, pipelines, depth }: {
+    group: ConditionGroup;
+    onChange: (group: ConditionGroup) => void;
+    onRemove?: () => void;
+    pipelines: Pipeline[];
+    depth: number;
+}) {
+    const updateItem = (index: number, item: ConditionItem) =>
+        onChange({ ...group, conditions: group.conditions.map((c, i) => (i === index ? item : c)) });
+
+    const removeItem = (index: number) =>
+        onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+
+    return (
+        <div className={cn("space-y-2", depth > 0 && "border rounded-md p-2 bg-muted/30")}>
+            <div className="flex items-center gap-2">
+                <Select
+                    value={group.combinator}
+                    onValueChange={(val) => onChange({ ...group, combinator: val as 'and' | 'or' })}
+                >
+                    <SelectTrigger className="h-8 w-[120px]">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="and">Match all</SelectItem>
+                        <SelectItem value="or">Match any</SelectItem>
+                    </SelectContent>
+                </Select>
+                {onRemove && (
+                    <Button variant="ghost" size="icon" className="h-8 w-8 ml-auto" onClick={onRemove}>
+                        <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                )}
+            </div>
+
+            {group.conditions.map((item, index) => (
+                isConditionGroup(item) ? (
+                    <GroupEditor
+                        key={item.id}
+                        group={item}
+                        onChange={(g) => updateItem(index, g)}
+                        onRemove={() => removeItem(index)}
+                        pipelines={pipelines}
+                        depth={depth + 1}
+                    />
+                ) : (
+                    <RuleEditor
+                        key={item.id}
+                        rule={item}
+                        onChange={(r) => updateItem(index, r)}
+                        onRemove={() => removeItem(index)}
+                        pipelines={pipelines}
+                    />
+                )
+            ))}
+
+            <div className="flex gap-1">
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 gap-1 text-xs"
+                    onClick={() => onChange({ ...group, conditions: [...group.conditions, newRule()] })}
+                >
+                    <Plus className="w-3 h-3" /> Condition
+                </Button>
+                {depth < MAX_DEPTH && (
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 gap-1 text-xs"
+                        onClick={() => onChange({
+                            ...group,
+                            conditions: [...group.conditions, { id: newId(), combinator: group.combinator === 'and' ? 'or' : 'and', conditions: [newRule()] }]
+                        })}
+                    >
+                        <FolderPlus className="w-3 h-3" /> Group
+                    </Button>
+                )}
+            </div>
+        </div>
+    );
+}
+
+const PATH_FIELD_PLACEHOLDERS: Record<string, string> = {
+    custom_fields: "Field path, e.g. plan.tier",
+    vars: "Variable name, e.g. ai_output",
+    trigger: "Payload field, e.g. budget",
+};
+
+function RuleEditor({ rule, onChange, onRemove, pipelines }: {
+    rule: ConditionRule;
+    onChange: (rule: ConditionRule) => void;
+    onRemove: () => void;
+    pipelines: Pipeline[];
+}) {
+    const kind = getFieldKind(rule.field);
+    const operators = OPERATORS_BY_KIND[kind];
+    const pathField = getPathField(rule.field);
+    const fieldSelectValue = pathField || rule.field;
+
+    const onFieldChange = (field: string) => {
+        const nextKind = getFieldKind(field);
+        const nextOperators = OPERATORS_BY_KIND[nextKind];
+        onChange({
+            ...rule,
+            field: getPathField(field) ? `${field}.` : field,
+            operator: nextOperators.includes(rule.operator) ? rule.operator : nextOperators[0],
+            value: nextKind === 'pipeline' ? 'any' : '',
+            value2: undefined,
+        });
+    };
+
+    return (
+        <div className="space-y-1.5 border rounded-md p-2 bg-background">
+            <div className="flex gap-1">
+                <Select value={fieldSelectValue} onValueChange={onFieldChange}>
+                    <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {CONDITION_FIELDS.map(f => (
+                            <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={onRemove}>
+                    <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+            </div>
+
+            {pathField && (
+                <Input
+                    className="h-8 text-xs"
+                    placeholder={PATH_FIELD_PLACEHOLDERS[pathField]}
+                    value={rule.field.slice(pathField.length + 1)}
+                    onChange={(e) => onChange({ ...rule, field: `${pathField}.${e.target.value.trim()}` })}
+                />
+            )}
+
+            <Select
+                value={rule.operator}
+                onValueChange={(val) => onChange({ ...rule, operator: val as ConditionRule['operator'] })}
+            >
+                <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    {operators.map(op => (
+                        <SelectItem key={op} value={op}>{OPERATOR_LABELS[op]}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+
+            {!VALUELESS_OPERATORS.includes(rule.operator) && (
+                kind === 'pipeline' ? (
+                    <Select value={rule.value || 'any'} onValueChange={(val) => onChange({ ...rule, value: val })}>
+                        <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="any">Any pipeline</SelectItem>
+                            {pipelines.map(p => (
+                                <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                ) : rule.operator === 'between' ? (
+                    <div className="flex gap-1">
+                        <Input
+                            className="h-8 text-xs"
+                            type="number"
+                            placeholder="Min"
+                            value={rule.value || ''}
+                            onChange={(e) => onChange({ ...rule, value: e.target.value })}
+                        />
+                        <Input
+                            className="h-8 text-xs"
+                            type="number"
+                            placeholder="Max"
+                            value={rule.value2 || ''}
+                            onChange={(e) => onChange({ ...rule, value2: e.target.value })}
+                        />
+                    </div>
+                ) : (
+                    <Input
+                        className="h-8 text-xs"
+                        type={rule.operator === 'before' || rule.operator === 'after' ? 'date'
+                            : ['older_than_days', 'within_last_days', 'greater_than', 'less_than'].includes(rule.operator) ? 'number' : 'text'}
+                        placeholder={rule.operator === 'older_than_days' || rule.operator === 'within_last_days' ? 'Days' : 'Value or {{vars.name}}'}
+                        value={rule.value || ''}
+                        onChange={(e) => onChange({ ...rule, value: e.target.value })}
+                    />
+                )
+            )}
+        </div>
+    );
+}
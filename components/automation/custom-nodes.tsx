@@ -2,16 +2,66 @@
 
 import React, { memo } from 'react';
 import { Handle, Position, NodeProps } from 'reactflow';
-import { Mail, Tag, Clock, GitBranch, Zap, PlusCircle, LucideIcon } from 'lucide-react';
+import { Mail, Tag, Clock, GitBranch, GitMerge, GitFork, Hourglass, Zap, PlusCircle, Sparkles, LucideIcon } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { describeConditionGroup, getNodeConditions } from '@/lib/automations/conditions';
+import { describeScheduledTrigger, isScheduledTrigger } from '@/lib/automations/scheduled-triggers';
+import { describeDelay } from '@/lib/automations/send-window';
+import { getSplitBranches, getSplitPercentages } from '@/lib/automations/split';
+import { ERROR_HANDLE } from '@/lib/automations/retry-policy';
+import { AI_OTHER_HANDLE, describeAiNode, getAiCategories, getAiMode } from '@/lib/automations/ai-node';
 
 // ============================================
 // BASE NODE WRAPPER
 // ============================================
-const NodeWrapper = ({ children, title, icon: Icon, color, selected }: { children: React.ReactNode, title: string, icon: LucideIcon, color: string, selected?: boolean }) => (
+// Outcome of the last builder test run for this node, set on display copies of the nodes
+interface NodeTestResult {
+    status: 'executed' | 'recorded' | 'skipped' | 'error';
+    message: string;
+}
+
+// Per-node numbers from the analytics overlay, also set on display copies only
+interface NodeAnalytics {
+    reached: number;
+    waiting: number;
+    failed: number;
+    branches: Record<string, number>;
+    median_seconds: number | null;
+}
+
+function formatDuration(seconds: number): string {
+    if (seconds < 60) return `${Math.round(seconds)}s`;
+    if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+    if (seconds < 86400) return `${Math.round(seconds / 3600)}h`;
+    return `${Math.round(seconds / 86400)}d`;
+}
+
+const AnalyticsFooter = ({ analytics }: { analytics: NodeAnalytics }) => {
+    const branchTotal = Object.values(analytics.branches).reduce((sum, n) => sum + n, 0);
+    return (
+        <div className="px-3 py-1.5 border-t text-[11px] bg-muted/50 text-muted-foreground space-y-0.5">
+            <div>
+                <span className="font-semibold text-foreground">{analytics.reached}</span> reached
+                {analytics.waiting > 0 && <> · {analytics.waiting} here now</>}
+                {analytics.failed > 0 && <span className="text-red-600"> · {analytics.failed} failed</span>}
+                {analytics.median_seconds !== null && <> · median {formatDuration(analytics.median_seconds)}</>}
+            </div>
+            {branchTotal > 0 && (
+                <div>
+                    {Object.entries(analytics.branches)
+                        .map(([branch, n]) => `${branch} ${Math.round((n / branchTotal) * 100)}%`)
+                        .join(' · ')}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const NodeWrapper = ({ children, title, icon: Icon, color, selected, testResult, analytics }: { children: React.ReactNode, title: string, icon: LucideIcon, color: string, selected?: boolean, testResult?: NodeTestResult, analytics?: NodeAnalytics }) => (
     <div className={cn(
         "flex flex-col min-w-[200px] bg-background border rounded-lg shadow-sm overflow-hidden transition-all",
         selected ? "ring-2 ring-primary border-primary" : "border-border",
+        testResult && !selected && (testResult.status === 'error' ? "ring-2 ring-red-400" : "ring-2 ring-blue-300"),
     )}>
         <div className={cn("flex items-center gap-2 px-3 py-2 border-b", color)}>
             <Icon className="w-4 h-4" />
@@ -20,6 +70,15 @@ const NodeWrapper = ({ children, title, icon: Icon, color, selected }: { childre
         <div className="p-3">
             {children}
         </div>
+        {testResult && (
+            <div className={cn(
+                "px-3 py-1.5 border-t text-[11px] max-w-[240px]",
+                testResult.status === 'error' ? "bg-red-50 text-red-700" : "bg-blue-50 text-blue-700"
+            )}>
+                {testResult.message}
+            </div>
+        )}
+        {analytics && <AnalyticsFooter analytics={analytics} />}
     </div>
 );
 
@@ -28,9 +87,11 @@ const NodeWrapper = ({ children, title, icon: Icon, color, selected }: { childre
 // ============================================
 export const TriggerNode = memo(({ data, selected }: NodeProps) => {
     return (
-        <NodeWrapper title="Trigger" icon={Zap} color="bg-blue-500/10 text-blue-600" selected={selected}>
+        <NodeWrapper title="Trigger" icon={Zap} color="bg-blue-500/10 text-blue-600" selected={selected} testResult={data.testResult} analytics={data.analytics}>
             <div className="text-sm font-medium">{data.triggerType || "Select Trigger..."}</div>
-            <div className="text-xs text-muted-foreground mt-1">{data.description || "When this happens..."}</div>
+            <div className="text-xs text-muted-foreground mt-1">
+                {data.description || (isScheduledTrigger(data.triggerType) ? describeScheduledTrigger(data) : "When this happens...")}
+            </div>
             <Handle type="source" position={Position.Bottom} className="w-3 h-3 bg-blue-500" />
         </NodeWrapper>
     );
@@ -42,11 +103,17 @@ export const TriggerNode = memo(({ data, selected }: NodeProps) => {
 export const ActionNode = memo(({ data, selected }: NodeProps) => {
     const Icon = data.actionType === 'email' ? Mail : data.actionType === 'tag' ? Tag : PlusCircle;
     return (
-        <NodeWrapper title="Action" icon={Icon} color="bg-green-500/10 text-green-600" selected={selected}>
+        <NodeWrapper title="Action" icon={Icon} color="bg-green-500/10 text-green-600" selected={selected} testResult={data.testResult} analytics={data.analytics}>
             <Handle type="target" position={Position.Top} className="w-3 h-3 bg-green-500" />
             <div className="text-sm font-medium">{data.label || "Perform Action"}</div>
             <div className="text-xs text-muted-foreground mt-1">{data.actionDetail || "Do this step..."}</div>
             <Handle type="source" position={Position.Bottom} className="w-3 h-3 bg-green-500" />
+            {data.errorPath && (
+                <>
+                    <div className="text-[10px] font-bold text-red-600 uppercase text-right mt-2">On error</div>
+                    <Handle type="source" position={Position.Right} id={ERROR_HANDLE} className="w-3 h-3 bg-red-500" />
+                </>
+            )}
         </NodeWrapper>
     );
 });
@@ -56,10 +123,10 @@ export const ActionNode = memo(({ data, selected }: NodeProps) => {
 // ============================================
 export const DelayNode = memo(({ data, selected }: NodeProps) => {
     return (
-        <NodeWrapper title="Delay" icon={Clock} color="bg-yellow-500/10 text-yellow-600" selected={selected}>
+        <NodeWrapper title="Delay" icon={Clock} color="bg-yellow-500/10 text-yellow-600" selected={selected} testResult={data.testResult} analytics={data.analytics}>
             <Handle type="target" position={Position.Top} className="w-3 h-3 bg-yellow-500" />
-            <div className="text-sm font-medium">{data.duration || "1"} {data.unit || "day(s)"}</div>
-            <div className="text-xs text-muted-foreground mt-1">Wait before next step</div>
+            <div className="text-sm font-medium">{describeDelay(data)}</div>
+            <div className="text-xs text-muted-foreground mt-1">In the contact&apos;s timezone</div>
             <Handle type="source" position={Position.Bottom} className="w-3 h-3 bg-yellow-500" />
         </NodeWrapper>
     );
@@ -70,9 +137,11 @@ export const DelayNode = memo(({ data, selected }: NodeProps) => {
 // ============================================
 export const ConditionNode = memo(({ data, selected }: NodeProps) => {
     return (
-        <NodeWrapper title="Condition" icon={GitBranch} color="bg-purple-500/10 text-purple-600" selected={selected}>
+        <NodeWrapper title="Condition" icon={GitBranch} color="bg-purple-500/10 text-purple-600" selected={selected} testResult={data.testResult} analytics={data.analytics}>
             <Handle type="target" position={Position.Top} className="w-3 h-3 bg-purple-500" />
-            <div className="text-sm font-medium">{data.condition || "Check if..."}</div>
+            <div className="text-sm font-medium max-w-[240px]">
+                {describeConditionGroup(getNodeConditions(data)) || data.condition || "Check if..."}
+            </div>
             <div className="flex justify-between mt-4">
                 <div className="relative flex flex-col items-center">
                     <span className="text-[10px] font-bold text-green-600 uppercase mb-1">Yes</span>
@@ -87,7 +156,124 @@ export const ConditionNode = memo(({ data, selected }: NodeProps) => {
     );
 });
 
+// ============================================
+// A/B SPLIT NODE
+// ============================================
+export const SplitNode = memo(({ data, selected }: NodeProps) => {
+    const branches = getSplitBranches(data);
+    const percentages = getSplitPercentages(branches);
+    return (
+        <NodeWrapper title="A/B Split" icon={GitFork} color="bg-pink-500/10 text-pink-600" selected={selected} testResult={data.testResult} analytics={data.analytics}>
+            <Handle type="target" position={Position.Top} className="w-3 h-3 bg-pink-500" />
+            <div className="text-sm font-medium">{data.label || "Random split"}</div>
+            <div className="flex justify-between gap-3 mt-4">
+                {branches.map((branch, index) => (
+                    <div key={branch.id} className="relative flex flex-col items-center">
+                        <span className="text-[10px] font-bold text-pink-600 uppercase mb-1">{branch.label} · {percentages[branch.id]}%</span>
+                        <Handle
+                            type="source"
+                            position={Position.Bottom}
+                            id={branch.id}
+                            className="w-3 h-3 bg-pink-500"
+                            style={{ left: `${((index + 0.5) / branches.length) * 100}%` }}
+                        />
+                    </div>
+                ))}
+            </div>
+        </NodeWrapper>
+    );
+});
+
+// ============================================
+// AI NODE
+// ============================================
+export const AiNode = memo(({ data, selected }: NodeProps) => {
+    // Classification has a handle per category plus "Other" for unmatched answers
+    const handles = getAiMode(data) === 'classify'
+        ? [...getAiCategories(data), { id: AI_OTHER_HANDLE, label: 'Other' }]
+        : null;
+    return (
+        <NodeWrapper title="AI" icon={Sparkles} color="bg-violet-500/10 text-violet-600" selected={selected} testResult={data.testResult} analytics={data.analytics}>
+            <Handle type="target" position={Position.Top} className="w-3 h-3 bg-violet-500" />
+            <div className="text-sm font-medium">{data.label || "AI step"}</div>
+            <div className="text-xs text-muted-foreground mt-1 max-w-[240px]">{describeAiNode(data)}</div>
+            {handles ? (
+                <div className="flex justify-between gap-3 mt-4">
+                    {handles.map((handle, index) => (
+                        <div key={handle.id} className="relative flex flex-col items-center">
+                            <span className="text-[10px] font-bold text-violet-600 uppercase mb-1">{handle.label}</span>
+                            <Handle
+                                type="source"
+                                position={Position.Bottom}
+                                id={handle.id}
+                                className="w-3 h-3 bg-violet-500"
+                                style={{ left: `${((index + 0.5) / handles.length) * 100}%` }}
+                            />
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <Handle type="source" position={Position.Bottom} className="w-3 h-3 bg-violet-500" />
+            )}
+            {data.errorPath && (
+                <>
+                    <div className="text-[10px] font-bold text-red-600 uppercase text-right mt-2">On error</div>
+                    <Handle type="source" position={Position.Right} id={ERROR_HANDLE} className="w-3 h-3 bg-red-500" />
+                </>
+            )}
+        </NodeWrapper>
+    );
+});
+
+// ============================================
+// WAIT FOR EVENT NODE
+// ============================================
+const WAIT_EVENT_LABELS: Record<string, string> = {
+    email_opened: "Email opened",
+    email_replied: "Email replied",
+    deal_stage_changed: "Deal reaches stage",
+    tag_added: "Tag added",
+};
+
+export const WaitEventNode = memo(({ data, selected }: NodeProps) => {
+    return (
+        <NodeWrapper title="Wait for Event" icon={Hourglass} color="bg-orange-500/10 text-orange-600" selected={selected} testResult={data.testResult} analytics={data.analytics}>
+            <Handle type="target" position={Position.Top} className="w-3 h-3 bg-orange-500" />
+            <div className="text-sm font-medium">{WAIT_EVENT_LABELS[data.eventType] || "Select event..."}</div>
+            <div className="text-xs text-muted-foreground mt-1">Up to {data.timeoutDays || 3} day(s)</div>
+            <div className="flex justify-between mt-4">
+                <div className="relative flex flex-col items-center">
+                    <span className="text-[10px] font-bold text-green-600 uppercase mb-1">Happened</span>
+                    <Handle type="source" position={Position.Bottom} id="event" className="w-3 h-3 bg-green-500" style={{ left: '25%' }} />
+                </div>
+                <div className="relative flex flex-col items-center">
+                    <span className="text-[10px] font-bold text-red-600 uppercase mb-1">Timed out</span>
+                    <Handle type="source" position={Position.Bottom} id="timeout" className="w-3 h-3 bg-red-500" style={{ left: '75%' }} />
+                </div>
+            </div>
+        </NodeWrapper>
+    );
+});
+
+// ============================================
+// MERGE NODE
+// ============================================
+export const MergeNode = memo(({ data, selected }: NodeProps) => {
+    return (
+        <NodeWrapper title="Merge" icon={GitMerge} color="bg-slate-500/10 text-slate-600" selected={selected} testResult={data.testResult} analytics={data.analytics}>
+            <Handle type="target" position={Position.Top} className="w-3 h-3 bg-slate-500" />
+            <div className="text-sm font-medium">{data.label || "Join branches"}</div>
+            <div className="text-xs text-muted-foreground mt-1">Continue once all parallel paths arrive</div>
+            <Handle type="source" position={Position.Bottom} className="w-3 h-3 bg-slate-500" />
+        </NodeWrapper>
+    );
+});
+
 TriggerNode.displayName = 'TriggerNode';
 ActionNode.displayName = 'ActionNode';
 DelayNode.displayName = 'DelayNode';
 ConditionNode.displayName = 'ConditionNode';
+MergeNode.displayName = 'MergeNode';
+WaitEventNode.displayName = 'WaitEventNode';
+SplitNode.displayName = 'SplitNode';
+AiNode.displayName = 'AiNode';
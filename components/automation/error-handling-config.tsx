@@ -0,0 +1,94 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { MAX_RETRIES, describeRetryPolicy, getRetryPolicy } from "@/lib/automations/retry-policy";
+
+interface ErrorHandlingConfigProps {
+    data: Record<string, unknown>;
+    onChange: (updates: Record<string, unknown>) => void;
+}
+
+/**
+ * Retry and "on error" settings shared by the steps that can fail (emails and actions).
+ */
+export function ErrorHandlingConfig({ data, onChange }: ErrorHandlingConfigProps) {
+    const policy = getRetryPolicy(data);
+
+    return (
+        <div className="space-y-4 border-t pt-4">
+            <div>
+                <Label className="text-xs font-bold uppercase tracking-wider text-muted-foreground">Error handling</Label>
+                <p className="text-xs text-muted-foreground">{describeRetryPolicy(policy)}</p>
+            </div>
+
+            <div className="flex gap-2">
+                <div className="flex-1 space-y-2">
+                    <Label>Retries</Label>
+                    <Input
+                        type="number"
+                        min={0}
+                        max={MAX_RETRIES}
+                        value={policy.retries}
+                        onChange={(e) => onChange({ retryCount: e.target.value })}
+                    />
+                </div>
+                <div className="flex-1 space-y-2">
+                    <Label>First retry after (min)</Label>
+                    <Input
+                        type="number"
+                        min={1}
+                        value={Math.round(policy.delaySeconds / 60) || 1}
+                        onChange={(e) => onChange({ retryDelayMinutes: e.target.value })}
+                    />
+                </div>
+            </div>
+
+            <div className="flex gap-2">
+                <div className="flex-1 space-y-2">
+                    <Label>Backoff</Label>
+                    <Select value={policy.backoff} onValueChange={(val) => onChange({ retryBackoff: val })}>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="exponential">Exponential</SelectItem>
+                            <SelectItem value="fixed">Fixed</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div className="flex-1 space-y-2">
+                    <Label>Retry on</Label>
+                    <Select value={policy.retryOn} onValueChange={(val) => onChange({ retryOn: val })}>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="transient">Transient errors</SelectItem>
+                            <SelectItem value="any">Any error</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+                <div>
+                    <Label>&quot;On error&quot; path</Label>
+                    <p className="text-xs text-muted-foreground">Continue down a separate path instead of failing the run</p>
+                </div>
+                <Switch
+                    checked={!!data.errorPath}
+                    onCheckedChange={(checked) => onChange({ errorPath: checked })}
+                />
+            </div>
+        </div>
+    );
+}
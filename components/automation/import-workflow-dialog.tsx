@@ -0,0 +1,244 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import useSWR from "swr";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { ArrowLeft, FileUp, Loader2 } from "lucide-react";
+import { createClient } from "@/lib/supabase/client";
+import { useImportWorkflow } from "@/hooks/use-workflows";
+import { useEmailTemplates, useEmailSequences } from "@/hooks/use-email";
+import { useProfiles } from "@/hooks/use-settings";
+import { usePipelines } from "@/hooks/use-deals";
+import { WORKFLOW_TEMPLATES } from "@/lib/automations/workflow-templates";
+import {
+    CREATE_FROM_FILE,
+    REFERENCE_KIND_LABELS,
+    WORKFLOW_EXPORT_FORMAT,
+    PortableWorkflow,
+    ReferenceKind,
+    ReferenceMapping,
+    referenceKey,
+    suggestReferenceMapping,
+} from "@/lib/automations/workflow-transfer";
+
+interface ImportWorkflowDialogProps {
+    source: "file" | "gallery";
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+const LEAVE_UNSET = "__unset__";
+
+type ReferenceOption = { id: string; label: string; display?: string };
+
+export function ImportWorkflowDialog({ source, open, onOpenChange }: ImportWorkflowDialogProps) {
+    const router = useRouter();
+    const { data: templates } = useEmailTemplates();
+    const { data: profiles } = useProfiles();
+    const { data: pipelines } = usePipelines();
+    const { data: sequences } = useEmailSequences();
+    const { data: forms } = useSWR(open ? "web-forms" : null, async () => {
+        const supabase = createClient();
+        const { data, error } = await supabase.from("web_forms").select("id, name").order("name");
+        if (error) throw error;
+        return (data || []) as { id: string; name: string }[];
+    });
+    const { data: files } = useSWR(open ? "workflow-import-files" : null, async () => {
+        const supabase = createClient();
+        const { data, error } = await supabase.from("files").select("id, name").order("name");
+        if (error) throw error;
+        return (data || []) as { id: string; name: string }[];
+    });
+    const { trigger: importWorkflow, isMutating } = useImportWorkflow();
+
+    const [workflow, setWorkflow] = useState<PortableWorkflow | null>(null);
+    const [name, setName] = useState("");
+    const [mapping, setMapping] = useState<ReferenceMapping>({});
+
+    const candidates = useMemo<Record<ReferenceKind, ReferenceOption[]>>(() => ({
+        email_template: (templates || []).map(t => ({ id: t.id, label: t.name })),
+        user: (profiles || []).map(p => ({ id: p.id, label: p.full_name || p.email })),
+        pipeline: (pipelines || []).map(p => ({ id: p.id, label: p.name })),
+        stage: (pipelines || []).flatMap(p => (p.stages || []).map(s => ({ id: s.id, label: s.name, display: `${p.name}: ${s.name}` }))),
+        sequence: (sequences || []).map(s => ({ id: s.id, label: s.name })),
+        form: (forms || []).map(f => ({ id: f.id, label: f.name })),
+        file: (files || []).map(f => ({ id: f.id, label: f.name })),
+    }), [templates, profiles, pipelines, sequences, forms, files]);
+
+    useEffect(() => {
+        if (!open) setWorkflow(null);
+    }, [open]);
+
+    const selectWorkflow = (file: PortableWorkflow) => {
+        // Email templates with no match in this organization are created from the file
+        const suggested = suggestReferenceMapping(file.references, candidates);
+        for (const reference of file.references) {
+            const key = referenceKey(reference.kind, reference.id);
+            if (reference.kind === "email_template" && !suggested[key] && file.email_templates.some(t => t.id === reference.id)) {
+                suggested[key] = CREATE_FROM_FILE;
+            }
+        }
+        setWorkflow(file);
+        setName(file.name);
+        setMapping(suggested);
+    };
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            const parsed = JSON.parse(await file.text()) as PortableWorkflow;
+            if (parsed?.format !== WORKFLOW_EXPORT_FORMAT || !Array.isArray(parsed.nodes)) {
+                toast.error("This file is not a workflow export");
+                return;
+            }
+            selectWorkflow({ ...parsed, references: parsed.references || [], email_templates: parsed.email_templates || [] });
+        } catch {
+            toast.error("Could not read the workflow file");
+        }
+    };
+
+    const handleImport = async () => {
+        if (!workflow) return;
+        try {
+            const result = await importWorkflow({ workflow, mapping, name: name.trim() || undefined });
+            toast.success(
+                result.createdTemplates > 0
+                    ? `Workflow imported with ${result.createdTemplates} new email template${result.createdTemplates === 1 ? "" : "s"}`
+                    : "Workflow imported"
+            );
+            if (result.droppedAttachments > 0) {
+                toast.warning(
+                    `${result.droppedAttachments} attachment${result.droppedAttachments === 1 ? " was" : "s were"} left off the new templates`,
+                    { description: "Map each attachment to a file of this organization to keep it." }
+                );
+            }
+            onOpenChange(false);
+            router.push(`/dashboard/automations/builder/${result.id}`);
+        } catch (e: unknown) {
+            toast.error(e instanceof Error ? e.message : "Failed to import workflow");
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{source === "gallery" ? "Workflow templates" : "Import workflow"}</DialogTitle>
+                    <DialogDescription>
+                        {workflow
+                            ? "Choose the records of this organization the workflow should use. Unmapped steps are left unset for you to fill in."
+                            : source === "gallery"
+                                ? "Start from a ready-made workflow. It is created as an inactive draft you can adjust before activating."
+                                : "Upload a workflow exported from this or another organization."}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {!workflow && source === "file" && (
+                    <label className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed rounded-lg cursor-pointer hover:bg-muted/50">
+                        <FileUp className="w-8 h-8 text-muted-foreground" />
+                        <span className="text-sm text-muted-foreground">Choose a workflow .json file</span>
+                        <input
+                            type="file"
+                            accept="application/json,.json"
+                            className="hidden"
+                            onChange={(e) => handleFile(e.target.files?.[0])}
+                        />
+                    </label>
+                )}
+
+                {!workflow && source === "gallery" && (
+                    <div className="grid gap-3">
+                        {WORKFLOW_TEMPLATES.map(template => (
+                            <button
+                                key={template.id}
+                                type="button"
+                                onClick={() => selectWorkflow(template.workflow)}
+                                className="text-left border rounded-lg p-4 hover:border-primary hover:bg-muted/50 transition-colors"
+                            >
+                                <div className="font-medium">{template.name}</div>
+                                <p className="text-sm text-muted-foreground">{template.description}</p>
+                                <p className="text-xs text-muted-foreground mt-1">{template.workflow.nodes.length} steps</p>
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                {workflow && (
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="import-name">Workflow name</Label>
+                            <Input id="import-name" value={name} onChange={(e) => setName(e.target.value)} />
+                        </div>
+
+                        {workflow.references.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">This workflow does not refer to any records.</p>
+                        ) : (
+                            <div className="space-y-3">
+                                {workflow.references.map(reference => {
+                                    const key = referenceKey(reference.kind, reference.id);
+                                    const canCreate = reference.kind === "email_template"
+                                        && workflow.email_templates.some(t => t.id === reference.id);
+                                    return (
+                                        <div key={key} className="grid grid-cols-2 gap-3 items-center">
+                                            <div className="text-sm">
+                                                <div className="text-xs text-muted-foreground">{REFERENCE_KIND_LABELS[reference.kind]}</div>
+                                                <div className="font-medium truncate">{reference.label || reference.id}</div>
+                                            </div>
+                                            <Select
+                                                value={mapping[key] || LEAVE_UNSET}
+                                                onValueChange={(value) => setMapping(prev => ({ ...prev, [key]: value === LEAVE_UNSET ? null : value }))}
+                                            >
+                                                <SelectTrigger>
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value={LEAVE_UNSET}>Leave unset</SelectItem>
+                                                    {canCreate && <SelectItem value={CREATE_FROM_FILE}>Create from file</SelectItem>}
+                                                    {candidates[reference.kind].map(option => (
+                                                        <SelectItem key={option.id} value={option.id}>{option.display || option.label}</SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {workflow && (
+                        <Button variant="ghost" onClick={() => setWorkflow(null)} className="mr-auto">
+                            <ArrowLeft className="mr-2 h-4 w-4" /> Back
+                        </Button>
+                    )}
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+                    <Button onClick={handleImport} disabled={!workflow || isMutating}>
+                        {isMutating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Import as Draft
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Node } from "reactflow";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import {
+    useMigrateWorkflowRuns,
+    useWorkflowRunMigrationPlan,
+    useWorkflowVersions,
+} from "@/hooks/use-workflows";
+import type { WorkflowVersion } from "@/types";
+
+interface MigrateRunsDialogProps {
+    workflowId: string;
+    targetVersion: WorkflowVersion | undefined;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+const LEAVE_IN_PLACE = "__leave__";
+
+function nodeLabel(node: Node | undefined, fallbackId: string) {
+    if (!node) return fallbackId;
+    return `${node.data?.label || node.type} (${node.type})`;
+}
+
+export function MigrateRunsDialog({
+    workflowId,
+    targetVersion,
+    open,
+    onOpenChange,
+}: MigrateRunsDialogProps) {
+    const { data: plan, isLoading, mutate: refreshPlan } = useWorkflowRunMigrationPlan(open ? workflowId : undefined);
+    const { data: versions } = useWorkflowVersions(workflowId);
+    const { trigger: migrateRuns, isMutating } = useMigrateWorkflowRuns(workflowId);
+    const [nodeMapping, setNodeMapping] = useState<Record<string, string>>({});
+
+    const targetNodes = useMemo(() => (targetVersion?.nodes || []) as Node[], [targetVersion]);
+    const targetNodeIds = useMemo(() => new Set(targetNodes.map(n => n.id)), [targetNodes]);
+
+    // Runs on other versions; only nodes missing from the target need a mapping
+    const pendingGroups = useMemo(() =>
+        (plan?.groups || []).filter(g => g.versionId !== targetVersion?.id),
+        [plan, targetVersion]
+    );
+    const unmappedNodes = useMemo(() => {
+        const byNode = new Map<string, { nodeId: string; node: Node | undefined; count: number }>();
+        for (const group of pendingGroups) {
+            if (!group.nodeId || targetNodeIds.has(group.nodeId)) continue;
+            const sourceNodes = (versions?.find(v => v.id === group.versionId)?.nodes || []) as Node[];
+            const entry = byNode.get(group.nodeId) || {
+                nodeId: group.nodeId,
+                node: sourceNodes.find(n => n.id === group.nodeId),
+                count: 0,
+            };
+            entry.count += group.count;
+            byNode.set(group.nodeId, entry);
+        }
+        return Array.from(byNode.values());
+    }, [pendingGroups, targetNodeIds, versions]);
+
+    const runCount = pendingGroups.reduce((sum, g) => sum + g.count, 0);
+
+    const handleMigrate = async () => {
+        if (!targetVersion) return;
+        try {
+            const mapping = Object.fromEntries(
+                Object.entries(nodeMapping).filter(([, target]) => target !== LEAVE_IN_PLACE)
+            );
+            const result = await migrateRuns({ toVersionId: targetVersion.id, nodeMapping: mapping });
+            toast.success(
+                `Moved ${result.migrated} run${result.migrated === 1 ? "" : "s"} to version ${targetVersion.version}` +
+                (result.skipped ? `, ${result.skipped} left on their version` : "")
+            );
+            setNodeMapping({});
+            refreshPlan();
+            onOpenChange(false);
+        } catch (e: unknown) {
+            toast.error(e instanceof Error ? e.message : "Failed to migrate runs");
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[520px]">
+                <DialogHeader>
+                    <DialogTitle>Migrate Active Runs</DialogTitle>
+                    <DialogDescription>
+                        In-flight runs keep executing the version they started on. Move them to
+                        version {targetVersion?.version ?? "-"} to pick up your changes.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {isLoading ? (
+                    <div className="flex justify-center py-6">
+                        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                    </div>
+                ) : runCount === 0 ? (
+                    <p className="py-4 text-sm text-muted-foreground">No active runs on older versions.</p>
+                ) : (
+                    <div className="space-y-4 py-2">
+                        <p className="text-sm">
+                            {runCount} active run{runCount === 1 ? "" : "s"} on older versions.
+                        </p>
+
+                        {unmappedNodes.length > 0 && (
+                            <div className="space-y-3">
+                                <p className="text-xs text-muted-foreground">
+                                    These steps no longer exist. Choose where their runs continue, or leave them
+                                    on their current version.
+                                </p>
+                                {unmappedNodes.map(({ nodeId, node, count }) => (
+                                    <div key={nodeId} className="space-y-1.5">
+                                        <Label className="text-xs">
+                                            {nodeLabel(node, nodeId)} · {count} run{count === 1 ? "" : "s"}
+                                        </Label>
+                                        <Select
+                                            value={nodeMapping[nodeId] || LEAVE_IN_PLACE}
+                                            onValueChange={(value) => setNodeMapping(m => ({ ...m, [nodeId]: value }))}
+                                        >
+                                            <SelectTrigger>
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value={LEAVE_IN_PLACE}>Leave on current version</SelectItem>
+                                                {targetNodes.filter(n => n.type !== 'trigger').map(n => (
+                                                    <SelectItem key={n.id} value={n.id}>{nodeLabel(n, n.id)}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                        Close
+                    </Button>
+                    <Button onClick={handleMigrate} disabled={isMutating || runCount === 0 || !targetVersion}>
+                        {isMutating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Migrate Runs
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
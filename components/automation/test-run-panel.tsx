@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+import { Node, Edge } from "reactflow";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, Play, X, CheckCircle2, AlertCircle, CircleDashed, FileText } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useContactsPaginated } from "@/hooks/use-contacts";
+import { useTestWorkflow } from "@/hooks/use-workflows";
+import type { SimulationResult, SimulationStepStatus } from "@/lib/automations/simulator";
+
+interface TestRunPanelProps {
+    workflowId: string;
+    nodes: Node[];
+    edges: Edge[];
+    result: SimulationResult | null;
+    onResult: (result: SimulationResult | null) => void;
+    onClose: () => void;
+}
+
+const STATUS_STYLES: Record<SimulationStepStatus, { icon: typeof CheckCircle2; className: string }> = {
+    executed: { icon: CheckCircle2, className: "text-green-600" },
+    recorded: { icon: FileText, className: "text-blue-600" },
+    skipped: { icon: CircleDashed, className: "text-muted-foreground" },
+    error: { icon: AlertCircle, className: "text-red-600" },
+};
+
+export function TestRunPanel({ workflowId, nodes, edges, result, onResult, onClose }: TestRunPanelProps) {
+    const [search, setSearch] = useState("");
+    const [contactId, setContactId] = useState("");
+    const [waitOutcome, setWaitOutcome] = useState<"event" | "timeout">("timeout");
+    const [triggerJson, setTriggerJson] = useState("");
+    const { data: contacts } = useContactsPaginated({ search: search || undefined, limit: 10 });
+    const { trigger: testWorkflow, isMutating } = useTestWorkflow(workflowId);
+
+    const nodeLabel = (nodeId: string) => {
+        const node = nodes.find(n => n.id === nodeId);
+        return node?.data?.label || node?.type || nodeId;
+    };
+
+    const handleRun = async () => {
+        if (!contactId) return;
+
+        let triggerPayload: Record<string, unknown> | undefined;
+        if (triggerJson.trim()) {
+            try {
+                triggerPayload = JSON.parse(triggerJson);
+            } catch {
+                toast.error("Trigger data is not valid JSON");
+                return;
+            }
+            if (!triggerPayload || typeof triggerPayload !== "object" || Array.isArray(triggerPayload)) {
+                toast.error("Trigger data must be a JSON object");
+                return;
+            }
+        }
+
+        try {
+            onResult(await testWorkflow({ contactId, nodes, edges, waitOutcome, triggerPayload }));
+        } catch (e: unknown) {
+            toast.error(e instanceof Error ? e.message : "Test run failed");
+        }
+    };
+
+    return (
+        <div className="w-80 bg-background border rounded-lg shadow-md p-4 space-y-4 max-h-[calc(100vh-10rem)] overflow-y-auto">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h3 className="text-sm font-bold">Test Run</h3>
+                    <p className="text-xs text-muted-foreground">Dry run: nothing is sent or saved.</p>
+                </div>
+                <Button variant="ghost" size="icon" onClick={onClose}>
+                    <X className="w-4 h-4" />
+                </Button>
+            </div>
+
+            <div className="space-y-2">
+                <Label>Contact</Label>
+                <Input
+                    placeholder="Search contacts..."
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                />
+                <Select value={contactId} onValueChange={setContactId}>
+                    <SelectTrigger>
+                        <SelectValue placeholder="Choose a contact" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {contacts?.data.map(c => (
+                            <SelectItem key={c.id} value={c.id}>
+                                {[c.first_name, c.last_name].filter(Boolean).join(" ") || c.email}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+
+            <div className="space-y-2">
+                <Label>Wait for Event nodes</Label>
+                <Select value={waitOutcome} onValueChange={(v) => setWaitOutcome(v as "event" | "timeout")}>
+                    <SelectTrigger>
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="timeout">Assume it timed out</SelectItem>
+                        <SelectItem value="event">Assume it happened</SelectItem>
+                    </SelectContent>
+                </Select>
+            </div>
+
+            <div className="space-y-2">
+                <Label>Trigger data (optional)</Label>
+                <Textarea
+                    rows={3}
+                    className="font-mono text-xs"
+                    placeholder={'{ "budget": "10000" }'}
+                    value={triggerJson}
+                    onChange={(e) => setTriggerJson(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">Sample event fields for {"{{trigger.*}}"} placeholders.</p>
+            </div>
+
+            <Button className="w-full gap-2" onClick={handleRun} disabled={!contactId || isMutating}>
+                {isMutating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                Run Test
+            </Button>
+
+            {result && (
+                <div className="space-y-2 border-t pt-4">
+                    <div className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                        {result.completed ? "Completed" : "Stopped with errors"} · {result.steps.length} steps
+                    </div>
+                    {result.steps.map((step, i) => {
+                        const { icon: Icon, className } = STATUS_STYLES[step.status];
+                        return (
+                            <div key={i} className="flex gap-2 text-xs">
+                                <Icon className={cn("w-3.5 h-3.5 mt-0.5 shrink-0", className)} />
+                                <div>
+                                    <div className="font-medium">{nodeLabel(step.nodeId)}</div>
+                                    <div className="text-muted-foreground">{step.message}</div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Loader2, X } from "lucide-react";
+import { Node } from "reactflow";
+import type { WorkflowRunSummary, WorkflowSplitStats } from "@/hooks/use-workflows";
+import { getSplitBranches } from "@/lib/automations/split";
+
+interface WorkflowAnalyticsPanelProps {
+    summary: WorkflowRunSummary | undefined;
+    splits: WorkflowSplitStats[] | undefined;
+    splitNodes: Node[];
+    isLoading: boolean;
+    days: number;
+    onDaysChange: (days: number) => void;
+    onClose: () => void;
+}
+
+const RANGES = [7, 30, 90, 365];
+
+const percent = (count: number, total: number) => total > 0 ? `${Math.round((count / total) * 100)}%` : "–";
+
+// Outcomes per branch of one split node, in the order the node lists its branches
+function SplitComparison({ node, stats }: { node: Node; stats: WorkflowSplitStats[] }) {
+    const rows = getSplitBranches(node.data).map(branch => ({
+        branch,
+        stats: stats.find(s => s.branch_id === branch.id),
+    }));
+
+    return (
+        <div className="space-y-1">
+            <div className="text-xs font-semibold">{node.data?.label || "A/B Split"}</div>
+            <table className="w-full text-xs">
+                <thead className="text-muted-foreground">
+                    <tr>
+                        <th className="text-left font-normal">Branch</th>
+                        <th className="text-right font-normal">Runs</th>
+                        <th className="text-right font-normal">Opened</th>
+                        <th className="text-right font-normal">Deals</th>
+                        <th className="text-right font-normal">Goal</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map(({ branch, stats: row }) => (
+                        <tr key={branch.id}>
+                            <td>{branch.label}</td>
+                            <td className="text-right">{row?.runs || 0}</td>
+                            <td className="text-right">{percent(row?.emails_opened || 0, row?.runs || 0)}</td>
+                            <td className="text-right">{percent(row?.deals_created || 0, row?.runs || 0)}</td>
+                            <td className="text-right">{percent(row?.goal_reached || 0, row?.runs || 0)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
+
+export function WorkflowAnalyticsPanel({ summary, splits, splitNodes, isLoading, days, onDaysChange, onClose }: WorkflowAnalyticsPanelProps) {
+    const stats = summary ? [
+        { label: "Started", value: summary.started },
+        { label: "Active", value: summary.active },
+        { label: "Completed", value: summary.completed },
+        { label: "Failed", value: summary.failed },
+        { label: "Goal reached", value: summary.goal_reached },
+    ] : [];
+
+    return (
+        <div className="w-80 bg-background border rounded-lg shadow-md p-4 space-y-4">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h3 className="text-sm font-bold">Analytics</h3>
+                    <p className="text-xs text-muted-foreground">Per-step numbers are shown on the canvas.</p>
+                </div>
+                <Button variant="ghost" size="icon" onClick={onClose}>
+                    <X className="w-4 h-4" />
+                </Button>
+            </div>
+
+            <Select value={String(days)} onValueChange={(val) => onDaysChange(Number(val))}>
+                <SelectTrigger>
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    {RANGES.map(range => (
+                        <SelectItem key={range} value={String(range)}>Last {range} days</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+
+            {isLoading || !summary ? (
+                <div className="flex justify-center py-4">
+                    <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                </div>
+            ) : (
+                <>
+                    <div className="grid grid-cols-2 gap-2">
+                        {stats.map(stat => (
+                            <div key={stat.label} className="border rounded-md p-2">
+                                <div className="text-lg font-bold">{stat.value}</div>
+                                <div className="text-xs text-muted-foreground">{stat.label}</div>
+                            </div>
+                        ))}
+                    </div>
+                    {summary.started > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                            {Math.round((summary.goal_reached / summary.started) * 100)}% of enrollments reached the goal,
+                            {" "}{Math.round((summary.failed / summary.started) * 100)}% failed.
+                        </p>
+                    )}
+                    {splitNodes.length > 0 && (
+                        <div className="space-y-3 border-t pt-3">
+                            <h4 className="text-xs font-bold uppercase tracking-wider text-muted-foreground">A/B splits</h4>
+                            {splitNodes.map(node => (
+                                <SplitComparison
+                                    key={node.id}
+                                    node={node}
+                                    stats={(splits || []).filter(s => s.node_id === node.id)}
+                                />
+                            ))}
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -15,13 +15,40 @@ import ReactFlow, {
 } from 'reactflow';
 import 'reactflow/dist/style.css';
 import { Button } from '@/components/ui/button';
-import { Trash2, X, ChevronLeft, Save, Play } from 'lucide-react';
+import { Trash2, X, Plus, ChevronLeft, Save, Play, Rocket, ArrowRightLeft, Settings2, BarChart3, Download } from 'lucide-react';
 import Link from 'next/link';
-import { useUpdateWorkflow } from '@/hooks/use-workflows';
-import { useEmailTemplates } from '@/hooks/use-email';
+import { useUpdateWorkflow, usePublishWorkflow, useWorkflowVersions, useWorkflowAnalytics, downloadWorkflowExport } from '@/hooks/use-workflows';
+import type { SimulationResult } from '@/lib/automations/simulator';
+import { useEmailTemplates, useEmailSequences } from '@/hooks/use-email';
+import { useProfiles } from '@/hooks/use-settings';
+import { usePipelines } from '@/hooks/use-deals';
 import { toast } from 'sonner';
 import { Workflow } from '@/types';
-import { TriggerNode, ActionNode, DelayNode, ConditionNode } from './custom-nodes';
+import { TriggerNode, ActionNode, DelayNode, ConditionNode, MergeNode, WaitEventNode, SplitNode, AiNode } from './custom-nodes';
+import { MigrateRunsDialog } from './migrate-runs-dialog';
+import { TestRunPanel } from './test-run-panel';
+import { WorkflowAnalyticsPanel } from './workflow-analytics-panel';
+import { ConditionBuilder } from './condition-builder';
+import { ErrorHandlingConfig } from './error-handling-config';
+import { WorkflowSettingsDialog } from './workflow-settings-dialog';
+import { getNodeConditions } from '@/lib/automations/conditions';
+import { DATE_TRIGGER_SOURCES } from '@/lib/automations/scheduled-triggers';
+import { ERROR_HANDLE } from '@/lib/automations/retry-policy';
+import { DEFAULT_SPLIT_BRANCHES, MAX_SPLIT_BRANCHES, MIN_SPLIT_BRANCHES, SplitBranch, createSplitBranch, getSplitBranches } from '@/lib/automations/split';
+import {
+    AI_OTHER_HANDLE,
+    AI_PROMPT_PLACEHOLDERS,
+    AI_WRITABLE_FIELDS,
+    AiCategory,
+    DEFAULT_AI_VARIABLE,
+    MAX_AI_CATEGORIES,
+    MIN_AI_CATEGORIES,
+    createAiCategory,
+    getAiCategories,
+    getAiMode
+} from '@/lib/automations/ai-node';
+import { TEMPLATE_PLACEHOLDERS, sanitizeVariableName } from '@/lib/automations/run-context';
+import { Badge } from '@/components/ui/badge';
 import {
     Select,
     SelectContent,
@@ -31,6 +58,8 @@ import {
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
 import { cn } from '@/lib/utils';
 import { useState, useCallback, useMemo } from 'react';
 
@@ -41,6 +70,10 @@ const nodeTypes = {
     action: ActionNode,
     delay: DelayNode,
     condition: ConditionNode,
+    merge: MergeNode,
+    wait_event: WaitEventNode,
+    split: SplitNode,
+    ai: AiNode,
 };
 
 interface WorkflowBuilderProps {
@@ -59,8 +92,58 @@ function BuilderInternal({ workflow }: WorkflowBuilderProps) {
     }
 
     const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+    const [isMigrateOpen, setIsMigrateOpen] = useState(false);
+    const [isTestOpen, setIsTestOpen] = useState(false);
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const [testResult, setTestResult] = useState<SimulationResult | null>(null);
+    const [isAnalyticsOpen, setIsAnalyticsOpen] = useState(false);
+    const [analyticsDays, setAnalyticsDays] = useState(30);
     const { trigger: updateWorkflow, isMutating: isSaving } = useUpdateWorkflow();
+    const { trigger: publishWorkflow, isMutating: isPublishing } = usePublishWorkflow(workflow.id);
+    const { data: versions } = useWorkflowVersions(workflow.id);
+    const { data: analytics, isLoading: isAnalyticsLoading } = useWorkflowAnalytics(isAnalyticsOpen ? workflow.id : undefined, analyticsDays);
     const { data: templates } = useEmailTemplates();
+    const { data: pipelines } = usePipelines();
+    const { data: sequences } = useEmailSequences();
+    const { data: profiles } = useProfiles();
+
+    const pipelineStages = useMemo(() =>
+        (pipelines || []).flatMap(p => (p.stages || []).map(stage => ({
+            id: stage.id,
+            label: pipelines && pipelines.length > 1 ? `${p.name} / ${stage.name}` : stage.name
+        }))),
+        [pipelines]
+    );
+
+    // Publishing always creates the newest version, so the latest one is live
+    const publishedVersion = versions?.[0];
+
+    const hasUnpublishedChanges = !publishedVersion ||
+        JSON.stringify(publishedVersion.nodes) !== JSON.stringify(nodes) ||
+        JSON.stringify(publishedVersion.edges) !== JSON.stringify(edges);
+
+    // Canvas copies of the nodes carrying the last test run outcome or the analytics
+    // overlay; never saved
+    const displayNodes = useMemo(() => {
+        if (testResult) {
+            const lastStep = new Map(testResult.steps.map(step => [step.nodeId, step]));
+            return nodes.map(node => {
+                const step = lastStep.get(node.id);
+                return step ? { ...node, data: { ...node.data, testResult: { status: step.status, message: step.message } } } : node;
+            });
+        }
+        if (isAnalyticsOpen && analytics) {
+            const statsByNode = new Map(analytics.nodes.map(stats => [stats.node_id, stats]));
+            return nodes.map(node => ({
+                ...node,
+                data: {
+                    ...node.data,
+                    analytics: statsByNode.get(node.id) || { node_id: node.id, reached: 0, waiting: 0, failed: 0, branches: {}, median_seconds: null }
+                }
+            }));
+        }
+        return nodes;
+    }, [nodes, testResult, isAnalyticsOpen, analytics]);
 
     const selectedNode = useMemo(() =>
         nodes.find(n => n.id === selectedNodeId),
@@ -92,12 +175,42 @@ function BuilderInternal({ workflow }: WorkflowBuilderProps) {
                 id: workflow.id,
                 updates: { nodes, edges }
             });
-            toast.success("Workflow saved successfully");
+            toast.success("Draft saved");
         } catch {
             toast.error("Failed to save workflow");
         }
     };
 
+    // Publishing saves the draft first so the snapshot matches the canvas
+    const onPublish = async () => {
+        try {
+            await updateWorkflow({
+                id: workflow.id,
+                updates: { nodes, edges }
+            });
+            const version = await publishWorkflow();
+            toast.success(`Published version ${version.version}`, {
+                description: "New runs use this version. Runs already in progress stay on theirs.",
+                action: { label: "Migrate runs", onClick: () => setIsMigrateOpen(true) }
+            });
+        } catch (e: unknown) {
+            toast.error(e instanceof Error ? e.message : "Failed to publish workflow");
+        }
+    };
+
+    // Exports what is saved, so save the canvas first
+    const onExport = async () => {
+        try {
+            await updateWorkflow({
+                id: workflow.id,
+                updates: { nodes, edges }
+            });
+            await downloadWorkflowExport(workflow.id);
+        } catch (e: unknown) {
+            toast.error(e instanceof Error ? e.message : "Failed to export workflow");
+        }
+    };
+
     const onAddNode = (type: string) => {
         const defaultData: Record<string, unknown> = { label: `${type} Node` };
 
@@ -107,6 +220,24 @@ function BuilderInternal({ workflow }: WorkflowBuilderProps) {
         } else if (type === 'email') {
             defaultData.actionType = 'email';
             defaultData.label = 'Send Welcome Email';
+        } else if (type === 'delay') {
+            defaultData.duration = '1';
+            defaultData.unit = 'days';
+            defaultData.respectQuietHours = true;
+        } else if (type === 'split') {
+            defaultData.label = 'A/B Split';
+            defaultData.branches = DEFAULT_SPLIT_BRANCHES;
+        } else if (type === 'ai') {
+            defaultData.label = 'AI Step';
+            defaultData.mode = 'generate';
+            defaultData.prompt = '';
+            defaultData.outputVariable = DEFAULT_AI_VARIABLE;
+        } else if (type === 'wait_event') {
+            defaultData.eventType = 'email_opened';
+            defaultData.timeoutDays = 3;
+        } else if (type === 'action') {
+            defaultData.actionType = 'add_tag';
+            defaultData.label = 'Action';
         }
 
         const newNode: Node = {
@@ -119,6 +250,32 @@ function BuilderInternal({ workflow }: WorkflowBuilderProps) {
         setSelectedNodeId(newNode.id);
     };
 
+    // Edges leaving a removed branch go with it
+    const updateSplitBranches = (id: string, branches: SplitBranch[]) => {
+        const handles = new Set(branches.map(b => b.id));
+        updateNodeData(id, { branches });
+        setEdges((eds) => eds.filter(e => e.source !== id || handles.has(e.sourceHandle ?? '')));
+    };
+
+    // Classification leaves through one handle per category; plain generation through the default one
+    const updateAiNode = (id: string, updates: Record<string, unknown>) => {
+        const node = nodes.find(n => n.id === id);
+        const data = { ...node?.data, ...updates };
+        const handles = getAiMode(data) === 'classify'
+            ? new Set([...getAiCategories(data).map(c => c.id), AI_OTHER_HANDLE, ERROR_HANDLE])
+            : new Set(['', ERROR_HANDLE]);
+        updateNodeData(id, updates);
+        setEdges((eds) => eds.filter(e => e.source !== id || handles.has(e.sourceHandle ?? '')));
+    };
+
+    // Turning the error path off also removes the edges leaving it
+    const updateErrorHandling = (id: string, updates: Record<string, unknown>) => {
+        updateNodeData(id, updates);
+        if (updates.errorPath === false) {
+            setEdges((eds) => eds.filter(e => e.source !== id || e.sourceHandle !== ERROR_HANDLE));
+        }
+    };
+
     const updateNodeData = (id: string, newData: Record<string, unknown>) => {
         setNodes((nds) =>
             nds.map((node) => {
@@ -141,29 +298,93 @@ function BuilderInternal({ workflow }: WorkflowBuilderProps) {
                         </Link>
                     </Button>
                     <div className="space-y-0.5">
-                        <h1 className="text-xl font-bold">{workflow.name}</h1>
+                        <div className="flex items-center gap-2">
+                            <h1 className="text-xl font-bold">{workflow.name}</h1>
+                            {publishedVersion ? (
+                                <Badge variant="secondary">v{publishedVersion.version}</Badge>
+                            ) : (
+                                <Badge variant="outline">Not published</Badge>
+                            )}
+                            {publishedVersion && hasUnpublishedChanges && (
+                                <Badge variant="outline" className="text-amber-600 border-amber-300">Unpublished changes</Badge>
+                            )}
+                        </div>
                         <p className="text-xs text-muted-foreground">{workflow.description}</p>
                     </div>
                 </div>
 
                 <div className="flex items-center gap-2">
-                    <Button variant="outline" size="sm" className="gap-2">
+                    <Button variant="ghost" size="sm" className="gap-2" onClick={() => setIsSettingsOpen(true)}>
+                        <Settings2 className="w-4 h-4" />
+                        Settings
+                    </Button>
+                    <Button
+                        variant={isAnalyticsOpen ? "secondary" : "ghost"}
+                        size="sm"
+                        className="gap-2"
+                        onClick={() => {
+                            setIsAnalyticsOpen(open => !open);
+                            setIsTestOpen(false);
+                            setTestResult(null);
+                        }}
+                    >
+                        <BarChart3 className="w-4 h-4" />
+                        Analytics
+                    </Button>
+                    <Button variant="ghost" size="sm" className="gap-2" onClick={onExport} disabled={isSaving}>
+                        <Download className="w-4 h-4" />
+                        Export
+                    </Button>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        className="gap-2"
+                        onClick={() => {
+                            setIsTestOpen(true);
+                            setIsAnalyticsOpen(false);
+                        }}
+                    >
                         <Play className="w-4 h-4" />
                         Test Run
                     </Button>
-                    <Button size="sm" onClick={onSave} disabled={isSaving} className="gap-2">
+                    {publishedVersion && (
+                        <Button variant="outline" size="sm" className="gap-2" onClick={() => setIsMigrateOpen(true)}>
+                            <ArrowRightLeft className="w-4 h-4" />
+                            Migrate Runs
+                        </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={onSave} disabled={isSaving || isPublishing} className="gap-2">
                         <Save className="w-4 h-4" />
-                        {isSaving ? "Saving..." : "Save Workflow"}
+                        {isSaving ? "Saving..." : "Save Draft"}
+                    </Button>
+                    <Button size="sm" onClick={onPublish} disabled={isSaving || isPublishing || !hasUnpublishedChanges} className="gap-2">
+                        <Rocket className="w-4 h-4" />
+                        {isPublishing ? "Publishing..." : "Publish"}
                     </Button>
                 </div>
             </header>
 
+            {isSettingsOpen && (
+                <WorkflowSettingsDialog
+                    workflow={workflow}
+                    open={isSettingsOpen}
+                    onOpenChange={setIsSettingsOpen}
+                />
+            )}
+
+            <MigrateRunsDialog
+                workflowId={workflow.id}
+                targetVersion={publishedVersion}
+                open={isMigrateOpen}
+                onOpenChange={setIsMigrateOpen}
+            />
+
             {/* Main Builder Canvas and Sidebar */}
             <div className="flex-1 flex overflow-hidden">
                 {/* React Flow Canvas */}
                 <div className="flex-1 relative">
                     <ReactFlow
-                        nodes={nodes}
+                        nodes={displayNodes}
                         edges={edges}
                         onNodesChange={onNodesChange}
                         onEdgesChange={onEdgesChange}
@@ -176,6 +397,36 @@ function BuilderInternal({ workflow }: WorkflowBuilderProps) {
                         <Controls />
                         <MiniMap />
 
+                        {isTestOpen && (
+                            <Panel position="top-right" className="z-10 pointer-events-auto">
+                                <TestRunPanel
+                                    workflowId={workflow.id}
+                                    nodes={nodes}
+                                    edges={edges}
+                                    result={testResult}
+                                    onResult={setTestResult}
+                                    onClose={() => {
+                                        setIsTestOpen(false);
+                                        setTestResult(null);
+                                    }}
+                                />
+                            </Panel>
+                        )}
+
+                        {isAnalyticsOpen && (
+                            <Panel position="top-right" className="z-10 pointer-events-auto">
+                                <WorkflowAnalyticsPanel
+                                    summary={analytics?.summary}
+                                    splits={analytics?.splits}
+                                    splitNodes={nodes.filter(n => n.type === 'split')}
+                                    isLoading={isAnalyticsLoading}
+                                    days={analyticsDays}
+                                    onDaysChange={setAnalyticsDays}
+                                    onClose={() => setIsAnalyticsOpen(false)}
+                                />
+                            </Panel>
+                        )}
+
                         <Panel position="top-left" className="bg-background border p-2 rounded-lg shadow-md space-y-2 z-10 pointer-events-auto">
                             <div className="text-xs font-semibold text-muted-foreground mb-2 px-1 uppercase tracking-wider">Add Step</div>
                             <div className="grid grid-cols-1 gap-1">
@@ -185,12 +436,27 @@ function BuilderInternal({ workflow }: WorkflowBuilderProps) {
                                 <Button variant="outline" size="sm" className="justify-start gap-2" onClick={() => onAddNode('email')}>
                                     <div className="w-2 h-2 rounded-full bg-green-500" /> Send Email
                                 </Button>
+                                <Button variant="outline" size="sm" className="justify-start gap-2" onClick={() => onAddNode('action')}>
+                                    <div className="w-2 h-2 rounded-full bg-emerald-500" /> Action
+                                </Button>
                                 <Button variant="outline" size="sm" className="justify-start gap-2" onClick={() => onAddNode('delay')}>
                                     <div className="w-2 h-2 rounded-full bg-yellow-500" /> Delay
                                 </Button>
+                                <Button variant="outline" size="sm" className="justify-start gap-2" onClick={() => onAddNode('wait_event')}>
+                                    <div className="w-2 h-2 rounded-full bg-orange-500" /> Wait for Event
+                                </Button>
+                                <Button variant="outline" size="sm" className="justify-start gap-2" onClick={() => onAddNode('split')}>
+                                    <div className="w-2 h-2 rounded-full bg-pink-500" /> A/B Split
+                                </Button>
+                                <Button variant="outline" size="sm" className="justify-start gap-2" onClick={() => onAddNode('ai')}>
+                                    <div className="w-2 h-2 rounded-full bg-violet-500" /> AI Step
+                                </Button>
                                 <Button variant="outline" size="sm" className="justify-start gap-2" onClick={() => onAddNode('condition')}>
                                     <div className="w-2 h-2 rounded-full bg-purple-500" /> Condition
                                 </Button>
+                                <Button variant="outline" size="sm" className="justify-start gap-2" onClick={() => onAddNode('merge')}>
+                                    <div className="w-2 h-2 rounded-full bg-slate-500" /> Merge
+                                </Button>
                             </div>
                         </Panel>
                     </ReactFlow>
@@ -229,9 +495,163 @@ function BuilderInternal({ workflow }: WorkflowBuilderProps) {
                                                     <SelectItem value="email_opened">Email Opened</SelectItem>
                                                     <SelectItem value="email_clicked">Email Clicked</SelectItem>
                                                     <SelectItem value="tag_added">Tag Added</SelectItem>
+                                                    <SelectItem value="date_based">Date Reached (Scheduled)</SelectItem>
+                                                    <SelectItem value="inactivity">No Activity (Scheduled)</SelectItem>
+                                                    <SelectItem value="manual">Manual Enrollment</SelectItem>
                                                 </SelectContent>
                                             </Select>
                                         </div>
+
+                                        {selectedNode.data.triggerType === 'deal_stage_changed' && (
+                                            <>
+                                                <div className="space-y-2">
+                                                    <Label>From Stage</Label>
+                                                    <Select
+                                                        value={selectedNode.data.fromStage as string || 'any'}
+                                                        onValueChange={(val) => updateNodeData(selectedNode.id, { fromStage: val })}
+                                                    >
+                                                        <SelectTrigger>
+                                                            <SelectValue />
+                                                        </SelectTrigger>
+                                                        <SelectContent>
+                                                            <SelectItem value="any">Any Stage</SelectItem>
+                                                            {pipelineStages.map(stage => (
+                                                                <SelectItem key={stage.id} value={stage.id}>{stage.label}</SelectItem>
+                                                            ))}
+                                                        </SelectContent>
+                                                    </Select>
+                                                </div>
+                                                <div className="space-y-2">
+                                                    <Label>To Stage</Label>
+                                                    <Select
+                                                        value={selectedNode.data.toStage as string || 'any'}
+                                                        onValueChange={(val) => updateNodeData(selectedNode.id, { toStage: val })}
+                                                    >
+                                                        <SelectTrigger>
+                                                            <SelectValue />
+                                                        </SelectTrigger>
+                                                        <SelectContent>
+                                                            <SelectItem value="any">Any Stage</SelectItem>
+                                                            {pipelineStages.map(stage => (
+                                                                <SelectItem key={stage.id} value={stage.id}>{stage.label}</SelectItem>
+                                                            ))}
+                                                        </SelectContent>
+                                                    </Select>
+                                                </div>
+                                            </>
+                                        )}
+
+                                        {selectedNode.data.triggerType === 'email_opened' && (
+                                            <p className="text-xs text-muted-foreground">
+                                                Fires the first time each email is opened.
+                                            </p>
+                                        )}
+
+                                        {selectedNode.data.triggerType === 'email_clicked' && (
+                                            <div className="space-y-2">
+                                                <Label>Link URL (optional)</Label>
+                                                <Input
+                                                    placeholder="Any link, or e.g. https://example.com/pricing"
+                                                    value={selectedNode.data.linkUrl as string || ''}
+                                                    onChange={(e) => updateNodeData(selectedNode.id, { linkUrl: e.target.value })}
+                                                />
+                                                <p className="text-xs text-muted-foreground">
+                                                    Fires the first time each link in an email is clicked.
+                                                </p>
+                                            </div>
+                                        )}
+
+                                        {selectedNode.data.triggerType === 'date_based' && (
+                                            <>
+                                                <div className="space-y-2">
+                                                    <Label>Date</Label>
+                                                    <Select
+                                                        value={selectedNode.data.dateSource as string || 'deal_close_date'}
+                                                        onValueChange={(val) => updateNodeData(selectedNode.id, { dateSource: val })}
+                                                    >
+                                                        <SelectTrigger>
+                                                            <SelectValue />
+                                                        </SelectTrigger>
+                                                        <SelectContent>
+                                                            {DATE_TRIGGER_SOURCES.map(source => (
+                                                                <SelectItem key={source.value} value={source.value}>{source.label}</SelectItem>
+                                                            ))}
+                                                        </SelectContent>
+                                                    </Select>
+                                                </div>
+                                                {selectedNode.data.dateSource === 'custom_field' && (
+                                                    <div className="space-y-2">
+                                                        <Label>Custom Field</Label>
+                                                        <Input
+                                                            placeholder="Field path, e.g. contract.renewal_date"
+                                                            value={selectedNode.data.customField as string || ''}
+                                                            onChange={(e) => updateNodeData(selectedNode.id, { customField: e.target.value })}
+                                                        />
+                                                    </div>
+                                                )}
+                                                <div className="flex gap-2">
+                                                    <div className="w-24 space-y-2">
+                                                        <Label>Days</Label>
+                                                        <Input
+                                                            type="number"
+                                                            min={0}
+                                                            value={selectedNode.data.offsetDays as string || 0}
+                                                            onChange={(e) => updateNodeData(selectedNode.id, { offsetDays: e.target.value })}
+                                                        />
+                                                    </div>
+                                                    <div className="flex-1 space-y-2">
+                                                        <Label>When</Label>
+                                                        <Select
+                                                            value={selectedNode.data.offsetDirection as string || 'before'}
+                                                            onValueChange={(val) => updateNodeData(selectedNode.id, { offsetDirection: val })}
+                                                        >
+                                                            <SelectTrigger>
+                                                                <SelectValue />
+                                                            </SelectTrigger>
+                                                            <SelectContent>
+                                                                <SelectItem value="before">Before the date</SelectItem>
+                                                                <SelectItem value="after">After the date</SelectItem>
+                                                            </SelectContent>
+                                                        </Select>
+                                                    </div>
+                                                </div>
+                                                <p className="text-xs text-muted-foreground">
+                                                    Checked by the scheduler. Each contact is triggered once per date; use 0 days for the date itself.
+                                                </p>
+                                            </>
+                                        )}
+
+                                        {selectedNode.data.triggerType === 'inactivity' && (
+                                            <div className="space-y-2">
+                                                <Label>Days Without Activity</Label>
+                                                <Input
+                                                    type="number"
+                                                    min={1}
+                                                    value={selectedNode.data.inactiveDays as string || 30}
+                                                    onChange={(e) => updateNodeData(selectedNode.id, { inactiveDays: e.target.value })}
+                                                />
+                                                <p className="text-xs text-muted-foreground">
+                                                    Counts activities, calls and creation. A contact is triggered again only after new activity.
+                                                </p>
+                                            </div>
+                                        )}
+
+                                        {selectedNode.data.triggerType === 'manual' && (
+                                            <p className="text-xs text-muted-foreground">
+                                                Never fires on its own. Select contacts on the Contacts page and use &quot;Start Workflow&quot; once this workflow is published and active.
+                                            </p>
+                                        )}
+
+                                        {selectedNode.data.triggerType === 'tag_added' && (
+                                            <div className="space-y-2">
+                                                <Label>Tag (optional)</Label>
+                                                <Input
+                                                    placeholder="Any tag, or e.g. VIP"
+                                                    value={selectedNode.data.tag as string || ''}
+                                                    onChange={(e) => updateNodeData(selectedNode.id, { tag: e.target.value })}
+                                                />
+                                            </div>
+                                        )}
                                     </div>
                                 )}
 
@@ -260,6 +680,9 @@ function BuilderInternal({ workflow }: WorkflowBuilderProps) {
                                                     ))}
                                                 </SelectContent>
                                             </Select>
+                                            <p className="text-xs text-muted-foreground">
+                                                The subject and body can use {TEMPLATE_PLACEHOLDERS.join(", ")}.
+                                            </p>
                                         </div>
                                     </div>
                                 )}
@@ -267,83 +690,333 @@ function BuilderInternal({ workflow }: WorkflowBuilderProps) {
                                 {/* Delay Config */}
                                 {selectedNode.type === 'delay' && (
                                     <div className="space-y-4">
-                                        <div className="flex gap-2">
-                                            <div className="flex-1 space-y-2">
-                                                <Label>Duration</Label>
-                                                <Input
-                                                    type="number"
-                                                    value={selectedNode.data.duration || 1}
-                                                    onChange={(e) => updateNodeData(selectedNode.id, { duration: e.target.value })}
-                                                />
+                                        <div className="space-y-2">
+                                            <Label>Wait</Label>
+                                            <Select
+                                                value={selectedNode.data.mode || 'duration'}
+                                                onValueChange={(val) => updateNodeData(selectedNode.id, { mode: val })}
+                                            >
+                                                <SelectTrigger>
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value="duration">For a duration</SelectItem>
+                                                    <SelectItem value="until_time">Until a time of day</SelectItem>
+                                                </SelectContent>
+                                            </Select>
+                                        </div>
+                                        {selectedNode.data.mode === 'until_time' ? (
+                                            <>
+                                                <div className="space-y-2">
+                                                    <Label>Time (contact&apos;s timezone)</Label>
+                                                    <Input
+                                                        type="time"
+                                                        value={selectedNode.data.atTime || '09:00'}
+                                                        onChange={(e) => updateNodeData(selectedNode.id, { atTime: e.target.value })}
+                                                    />
+                                                </div>
+                                                <div className="flex items-center justify-between">
+                                                    <Label>Business days only</Label>
+                                                    <Switch
+                                                        checked={selectedNode.data.businessDaysOnly !== false}
+                                                        onCheckedChange={(checked) => updateNodeData(selectedNode.id, { businessDaysOnly: checked })}
+                                                    />
+                                                </div>
+                                            </>
+                                        ) : (
+                                            <div className="flex gap-2">
+                                                <div className="flex-1 space-y-2">
+                                                    <Label>Duration</Label>
+                                                    <Input
+                                                        type="number"
+                                                        value={selectedNode.data.duration || 1}
+                                                        onChange={(e) => updateNodeData(selectedNode.id, { duration: e.target.value })}
+                                                    />
+                                                </div>
+                                                <div className="flex-1 space-y-2">
+                                                    <Label>Unit</Label>
+                                                    <Select
+                                                        value={selectedNode.data.unit || 'days'}
+                                                        onValueChange={(val) => updateNodeData(selectedNode.id, { unit: val })}
+                                                    >
+                                                        <SelectTrigger>
+                                                            <SelectValue />
+                                                        </SelectTrigger>
+                                                        <SelectContent>
+                                                            <SelectItem value="minutes">Minutes</SelectItem>
+                                                            <SelectItem value="hours">Hours</SelectItem>
+                                                            <SelectItem value="days">Days</SelectItem>
+                                                        </SelectContent>
+                                                    </Select>
+                                                </div>
                                             </div>
-                                            <div className="flex-1 space-y-2">
-                                                <Label>Unit</Label>
-                                                <Select
-                                                    value={selectedNode.data.unit || 'days'}
-                                                    onValueChange={(val) => updateNodeData(selectedNode.id, { unit: val })}
-                                                >
-                                                    <SelectTrigger>
-                                                        <SelectValue />
-                                                    </SelectTrigger>
-                                                    <SelectContent>
-                                                        <SelectItem value="minutes">Minutes</SelectItem>
-                                                        <SelectItem value="hours">Hours</SelectItem>
-                                                        <SelectItem value="days">Days</SelectItem>
-                                                    </SelectContent>
-                                                </Select>
+                                        )}
+                                        <div className="flex items-center justify-between">
+                                            <div>
+                                                <Label>Respect quiet hours</Label>
+                                                <p className="text-xs text-muted-foreground">Continue after the organization&apos;s quiet hours and skipped weekends end</p>
                                             </div>
+                                            <Switch
+                                                checked={!!selectedNode.data.respectQuietHours}
+                                                onCheckedChange={(checked) => updateNodeData(selectedNode.id, { respectQuietHours: checked })}
+                                            />
                                         </div>
                                     </div>
                                 )}
 
                                 {/* Condition Config */}
                                 {selectedNode.type === 'condition' && (
+                                    <div className="space-y-2">
+                                        <Label>Continue on &quot;Yes&quot; when</Label>
+                                        <ConditionBuilder
+                                            value={getNodeConditions(selectedNode.data)}
+                                            onChange={(conditions) => updateNodeData(selectedNode.id, { conditions })}
+                                            pipelines={pipelines || []}
+                                        />
+                                    </div>
+                                )}
+
+                                {/* A/B Split Config */}
+                                {selectedNode.type === 'split' && (
+                                    <div className="space-y-3">
+                                        <Label>Branches and weights</Label>
+                                        {getSplitBranches(selectedNode.data).map((branch, index, branches) => (
+                                            <div key={branch.id} className="flex items-center gap-2">
+                                                <Input
+                                                    value={branch.label}
+                                                    onChange={(e) => updateSplitBranches(selectedNode.id, branches.map(b => b.id === branch.id ? { ...b, label: e.target.value } : b))}
+                                                />
+                                                <Input
+                                                    type="number"
+                                                    min={0}
+                                                    className="w-24"
+                                                    value={branch.weight}
+                                                    onChange={(e) => updateSplitBranches(selectedNode.id, branches.map(b => b.id === branch.id ? { ...b, weight: Number(e.target.value) } : b))}
+                                                />
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    disabled={branches.length <= MIN_SPLIT_BRANCHES}
+                                                    onClick={() => updateSplitBranches(selectedNode.id, branches.filter((_, i) => i !== index))}
+                                                >
+                                                    <X className="w-4 h-4" />
+                                                </Button>
+                                            </div>
+                                        ))}
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            className="gap-2"
+                                            disabled={getSplitBranches(selectedNode.data).length >= MAX_SPLIT_BRANCHES}
+                                            onClick={() => {
+                                                const branches = getSplitBranches(selectedNode.data);
+                                                updateSplitBranches(selectedNode.id, [...branches, createSplitBranch(branches)]);
+                                            }}
+                                        >
+                                            <Plus className="w-4 h-4" /> Add Branch
+                                        </Button>
+                                        <p className="text-xs text-muted-foreground">
+                                            Each run goes down one branch at random, in proportion to the weights.
+                                            Compare the branches in Analytics.
+                                        </p>
+                                    </div>
+                                )}
+
+                                {/* AI Config */}
+                                {selectedNode.type === 'ai' && (
                                     <div className="space-y-4">
                                         <div className="space-y-2">
-                                            <Label>Field to Check</Label>
+                                            <Label>Mode</Label>
                                             <Select
-                                                value={selectedNode.data.field as string}
-                                                onValueChange={(val) => updateNodeData(selectedNode.id, { field: val })}
+                                                value={getAiMode(selectedNode.data)}
+                                                onValueChange={(val) => updateAiNode(selectedNode.id, { mode: val })}
                                             >
                                                 <SelectTrigger>
-                                                    <SelectValue placeholder="Select Field" />
+                                                    <SelectValue />
                                                 </SelectTrigger>
                                                 <SelectContent>
-                                                    <SelectItem value="lead_score">Lead Score</SelectItem>
-                                                    <SelectItem value="tags">Tags</SelectItem>
-                                                    <SelectItem value="email">Email Address</SelectItem>
-                                                    <SelectItem value="status">Status</SelectItem>
+                                                    <SelectItem value="generate">Generate text</SelectItem>
+                                                    <SelectItem value="classify">Classify and branch</SelectItem>
                                                 </SelectContent>
                                             </Select>
                                         </div>
+
+                                        <div className="space-y-2">
+                                            <Label>Prompt</Label>
+                                            <Textarea
+                                                rows={6}
+                                                placeholder={getAiMode(selectedNode.data) === 'classify'
+                                                    ? "Is {{contact.company}} a B2B company? Their title is {{contact.job_title}}."
+                                                    : "Write a one-line opener for {{contact.first_name}} at {{contact.company}} based on:\n{{activities}}"}
+                                                value={selectedNode.data.prompt as string || ''}
+                                                onChange={(e) => updateNodeData(selectedNode.id, { prompt: e.target.value })}
+                                            />
+                                            <p className="text-xs text-muted-foreground">
+                                                Placeholders: {AI_PROMPT_PLACEHOLDERS.join(', ')}
+                                            </p>
+                                        </div>
+
+                                        {getAiMode(selectedNode.data) === 'classify' && (
+                                            <div className="space-y-3">
+                                                <Label>Answers</Label>
+                                                {getAiCategories(selectedNode.data).map((category, index, categories) => (
+                                                    <div key={category.id} className="flex items-center gap-2">
+                                                        <Input
+                                                            value={category.label}
+                                                            onChange={(e) => updateAiNode(selectedNode.id, {
+                                                                categories: categories.map((c: AiCategory) => c.id === category.id ? { ...c, label: e.target.value } : c)
+                                                            })}
+                                                        />
+                                                        <Button
+                                                            variant="ghost"
+                                                            size="icon"
+                                                            disabled={categories.length <= MIN_AI_CATEGORIES}
+                                                            onClick={() => updateAiNode(selectedNode.id, { categories: categories.filter((_, i) => i !== index) })}
+                                                        >
+                                                            <X className="w-4 h-4" />
+                                                        </Button>
+                                                    </div>
+                                                ))}
+                                                <Button
+                                                    variant="outline"
+                                                    size="sm"
+                                                    className="gap-2"
+                                                    disabled={getAiCategories(selectedNode.data).length >= MAX_AI_CATEGORIES}
+                                                    onClick={() => {
+                                                        const categories = getAiCategories(selectedNode.data);
+                                                        updateAiNode(selectedNode.id, { categories: [...categories, createAiCategory(categories)] });
+                                                    }}
+                                                >
+                                                    <Plus className="w-4 h-4" /> Add Answer
+                                                </Button>
+                                                <p className="text-xs text-muted-foreground">
+                                                    The model must reply with one of these answers. Anything else goes down &quot;Other&quot;.
+                                                </p>
+                                            </div>
+                                        )}
+
                                         <div className="space-y-2">
-                                            <Label>Operator</Label>
+                                            <Label>Save answer as</Label>
+                                            <Input
+                                                placeholder={DEFAULT_AI_VARIABLE}
+                                                value={selectedNode.data.outputVariable as string || ''}
+                                                onChange={(e) => updateNodeData(selectedNode.id, { outputVariable: e.target.value })}
+                                            />
+                                            <p className="text-xs text-muted-foreground">
+                                                Use it in email templates as {`{{vars.${selectedNode.data.outputVariable || DEFAULT_AI_VARIABLE}}}`} or in conditions as a run variable.
+                                            </p>
+                                        </div>
+
+                                        <div className="space-y-2">
+                                            <Label>Also write to contact field</Label>
                                             <Select
-                                                value={selectedNode.data.operator as string}
-                                                onValueChange={(val) => updateNodeData(selectedNode.id, { operator: val })}
+                                                value={(selectedNode.data.writeToField as string || 'none').startsWith('custom_fields') ? 'custom_fields' : selectedNode.data.writeToField as string || 'none'}
+                                                onValueChange={(val) => updateNodeData(selectedNode.id, {
+                                                    writeToField: val === 'none' ? undefined : val === 'custom_fields' ? 'custom_fields.' : val
+                                                })}
                                             >
                                                 <SelectTrigger>
-                                                    <SelectValue placeholder="Select Operator" />
+                                                    <SelectValue />
                                                 </SelectTrigger>
                                                 <SelectContent>
-                                                    <SelectItem value="equals">Equals (===)</SelectItem>
-                                                    <SelectItem value="contains">Contains / Includes</SelectItem>
-                                                    <SelectItem value="exists">Exists (Is Not Empty)</SelectItem>
-                                                    <SelectItem value="greater_than">Greater Than (\&gt;)</SelectItem>
-                                                    <SelectItem value="less_than">Less Than (\&lt;)</SelectItem>
+                                                    <SelectItem value="none">Don&apos;t write to the contact</SelectItem>
+                                                    {AI_WRITABLE_FIELDS.map(f => (
+                                                        <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                                                    ))}
                                                 </SelectContent>
                                             </Select>
+                                            {(selectedNode.data.writeToField as string || '').startsWith('custom_fields') && (
+                                                <Input
+                                                    placeholder="Field path, e.g. segment"
+                                                    value={(selectedNode.data.writeToField as string).replace(/^custom_fields\.?/, '')}
+                                                    onChange={(e) => updateNodeData(selectedNode.id, { writeToField: `custom_fields.${e.target.value.trim()}` })}
+                                                />
+                                            )}
                                         </div>
-                                        {selectedNode.data.operator !== 'exists' && (
+                                    </div>
+                                )}
+
+                                {/* Wait for Event Config */}
+                                {selectedNode.type === 'wait_event' && (
+                                    <div className="space-y-4">
+                                        <div className="space-y-2">
+                                            <Label>Wait Until</Label>
+                                            <Select
+                                                value={selectedNode.data.eventType as string || 'email_opened'}
+                                                onValueChange={(val) => updateNodeData(selectedNode.id, { eventType: val })}
+                                            >
+                                                <SelectTrigger>
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value="email_opened">An email from this workflow is opened</SelectItem>
+                                                    <SelectItem value="email_replied">The contact replies by email</SelectItem>
+                                                    <SelectItem value="deal_stage_changed">A deal reaches a stage</SelectItem>
+                                                    <SelectItem value="tag_added">A tag is added</SelectItem>
+                                                </SelectContent>
+                                            </Select>
+                                        </div>
+
+                                        {selectedNode.data.eventType === 'deal_stage_changed' && (
                                             <div className="space-y-2">
-                                                <Label>Value</Label>
+                                                <Label>Stage</Label>
+                                                <Select
+                                                    value={selectedNode.data.stage as string || 'any'}
+                                                    onValueChange={(val) => updateNodeData(selectedNode.id, { stage: val === 'any' ? undefined : val })}
+                                                >
+                                                    <SelectTrigger>
+                                                        <SelectValue />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        <SelectItem value="any">Any Stage</SelectItem>
+                                                        {pipelineStages.map(stage => (
+                                                            <SelectItem key={stage.id} value={stage.id}>{stage.label}</SelectItem>
+                                                        ))}
+                                                    </SelectContent>
+                                                </Select>
+                                            </div>
+                                        )}
+
+                                        {selectedNode.data.eventType === 'tag_added' && (
+                                            <div className="space-y-2">
+                                                <Label>Tag (optional)</Label>
                                                 <Input
-                                                    placeholder="Target value..."
-                                                    value={selectedNode.data.value as string || ''}
-                                                    onChange={(e) => updateNodeData(selectedNode.id, { value: e.target.value })}
+                                                    placeholder="Any tag, or e.g. Demo Booked"
+                                                    value={selectedNode.data.tag as string || ''}
+                                                    onChange={(e) => updateNodeData(selectedNode.id, { tag: e.target.value })}
                                                 />
                                             </div>
                                         )}
+
+                                        <div className="space-y-2">
+                                            <Label>Time Out After (days)</Label>
+                                            <Input
+                                                type="number"
+                                                min={1}
+                                                value={selectedNode.data.timeoutDays as string || 3}
+                                                onChange={(e) => updateNodeData(selectedNode.id, { timeoutDays: e.target.value })}
+                                            />
+                                            <p className="text-xs text-muted-foreground">
+                                                Connect the &quot;Timed out&quot; output to what should happen if the event never comes.
+                                            </p>
+                                        </div>
+                                    </div>
+                                )}
+
+                                {/* Merge Config */}
+                                {selectedNode.type === 'merge' && (
+                                    <div className="space-y-4">
+                                        <div className="space-y-2">
+                                            <Label>Step Label</Label>
+                                            <Input
+                                                placeholder="e.g. Join nurture paths"
+                                                value={selectedNode.data.label as string || ''}
+                                                onChange={(e) => updateNodeData(selectedNode.id, { label: e.target.value })}
+                                            />
+                                        </div>
+                                        <p className="text-xs text-muted-foreground">
+                                            Connect several parallel paths into this step. The workflow continues once every path has arrived or finished.
+                                        </p>
                                     </div>
                                 )}
 
@@ -364,10 +1037,274 @@ function BuilderInternal({ workflow }: WorkflowBuilderProps) {
                                                     <SelectItem value="calculate_score">Assign AI Lead Score</SelectItem>
                                                     <SelectItem value="update_stage">Update Deal Stage</SelectItem>
                                                     <SelectItem value="assign_owner">Assign Owner</SelectItem>
+                                                    <SelectItem value="create_task">Create Task</SelectItem>
+                                                    <SelectItem value="create_deal">Create Deal</SelectItem>
+                                                    <SelectItem value="enroll_sequence">Enroll in Sequence</SelectItem>
+                                                    <SelectItem value="send_webhook">Send Webhook</SelectItem>
+                                                    <SelectItem value="set_variable">Set Variable</SelectItem>
                                                 </SelectContent>
                                             </Select>
                                         </div>
+
+                                        {selectedNode.data.actionType === 'set_variable' && (
+                                            <>
+                                                <div className="space-y-2">
+                                                    <Label>Variable name</Label>
+                                                    <Input
+                                                        placeholder="budget"
+                                                        value={selectedNode.data.variableName as string || ''}
+                                                        onChange={(e) => updateNodeData(selectedNode.id, { variableName: e.target.value })}
+                                                    />
+                                                </div>
+                                                <div className="space-y-2">
+                                                    <Label>Value</Label>
+                                                    <Textarea
+                                                        className="font-mono text-xs"
+                                                        placeholder="{{trigger.budget}}"
+                                                        value={selectedNode.data.variableValue as string || ''}
+                                                        onChange={(e) => updateNodeData(selectedNode.id, { variableValue: e.target.value })}
+                                                    />
+                                                    <p className="text-xs text-muted-foreground">
+                                                        Later steps read it as {`{{vars.${sanitizeVariableName(selectedNode.data.variableName) || 'name'}}}`}. Use {TEMPLATE_PLACEHOLDERS.join(", ")}.
+                                                    </p>
+                                                </div>
+                                            </>
+                                        )}
+
+                                        {selectedNode.data.actionType === 'send_webhook' && (
+                                            <>
+                                                <div className="flex gap-2">
+                                                    <div className="w-24 space-y-2">
+                                                        <Label>Method</Label>
+                                                        <Select
+                                                            value={selectedNode.data.method as string || 'POST'}
+                                                            onValueChange={(val) => updateNodeData(selectedNode.id, { method: val })}
+                                                        >
+                                                            <SelectTrigger>
+                                                                <SelectValue />
+                                                            </SelectTrigger>
+                                                            <SelectContent>
+                                                                <SelectItem value="POST">POST</SelectItem>
+                                                                <SelectItem value="PUT">PUT</SelectItem>
+                                                            </SelectContent>
+                                                        </Select>
+                                                    </div>
+                                                    <div className="flex-1 space-y-2">
+                                                        <Label>Timeout (s)</Label>
+                                                        <Input
+                                                            type="number"
+                                                            min={1}
+                                                            max={30}
+                                                            value={selectedNode.data.timeoutSeconds as string || 10}
+                                                            onChange={(e) => updateNodeData(selectedNode.id, { timeoutSeconds: e.target.value })}
+                                                        />
+                                                    </div>
+                                                </div>
+                                                <div className="space-y-2">
+                                                    <Label>URL</Label>
+                                                    <Input
+                                                        placeholder="https://billing.example.com/hooks/leads"
+                                                        value={selectedNode.data.url as string || ''}
+                                                        onChange={(e) => updateNodeData(selectedNode.id, { url: e.target.value })}
+                                                    />
+                                                </div>
+                                                <div className="space-y-2">
+                                                    <Label>Headers</Label>
+                                                    <Textarea
+                                                        className="font-mono text-xs"
+                                                        placeholder={"Authorization: Bearer ...\nX-Source: crm"}
+                                                        value={selectedNode.data.headers as string || ''}
+                                                        onChange={(e) => updateNodeData(selectedNode.id, { headers: e.target.value })}
+                                                    />
+                                                </div>
+                                                <div className="space-y-2">
+                                                    <Label>JSON Body</Label>
+                                                    <Textarea
+                                                        className="font-mono text-xs min-h-[120px]"
+                                                        placeholder={'{\n  "email": "{{contact.email}}",\n  "deal_value": {{deal.value}}\n}'}
+                                                        value={selectedNode.data.bodyTemplate as string || ''}
+                                                        onChange={(e) => updateNodeData(selectedNode.id, { bodyTemplate: e.target.value })}
+                                                    />
+                                                    <p className="text-xs text-muted-foreground">
+                                                        Use {"{{contact.*}}"}, {"{{deal.*}}"}, {"{{trigger.*}}"} and {"{{vars.*}}"}. Leave empty to send the full contact, deal, trigger data and variables.
+                                                    </p>
+                                                </div>
+                                                <div className="space-y-2">
+                                                    <Label>Signing Secret (optional)</Label>
+                                                    <Input
+                                                        type="password"
+                                                        placeholder="Signs the body with HMAC-SHA256"
+                                                        value={selectedNode.data.secret as string || ''}
+                                                        onChange={(e) => updateNodeData(selectedNode.id, { secret: e.target.value })}
+                                                    />
+                                                </div>
+                                            </>
+                                        )}
                                         
+                                        {selectedNode.data.actionType === 'create_task' && (
+                                            <>
+                                                <div className="space-y-2">
+                                                    <Label>Task Title</Label>
+                                                    <Input
+                                                        placeholder="e.g. Call new lead"
+                                                        value={selectedNode.data.taskTitle as string || ''}
+                                                        onChange={(e) => updateNodeData(selectedNode.id, { taskTitle: e.target.value })}
+                                                    />
+                                                </div>
+                                                <div className="space-y-2">
+                                                    <Label>Description</Label>
+                                                    <Textarea
+                                                        value={selectedNode.data.taskDescription as string || ''}
+                                                        onChange={(e) => updateNodeData(selectedNode.id, { taskDescription: e.target.value })}
+                                                    />
+                                                </div>
+                                                <div className="space-y-2">
+                                                    <Label>Assign To</Label>
+                                                    <Select
+                                                        value={selectedNode.data.assignee as string || 'contact_owner'}
+                                                        onValueChange={(val) => updateNodeData(selectedNode.id, { assignee: val })}
+                                                    >
+                                                        <SelectTrigger>
+                                                            <SelectValue />
+                                                        </SelectTrigger>
+                                                        <SelectContent>
+                                                            <SelectItem value="contact_owner">Contact Owner</SelectItem>
+                                                            {profiles?.map(profile => (
+                                                                <SelectItem key={profile.id} value={profile.id}>
+                                                                    {profile.full_name || profile.email}
+                                                                </SelectItem>
+                                                            ))}
+                                                        </SelectContent>
+                                                    </Select>
+                                                </div>
+                                                <div className="flex gap-2">
+                                                    <div className="flex-1 space-y-2">
+                                                        <Label>Due In</Label>
+                                                        <Input
+                                                            type="number"
+                                                            min={0}
+                                                            value={selectedNode.data.dueIn as string || 1}
+                                                            onChange={(e) => updateNodeData(selectedNode.id, { dueIn: e.target.value })}
+                                                        />
+                                                    </div>
+                                                    <div className="flex-1 space-y-2">
+                                                        <Label>Unit</Label>
+                                                        <Select
+                                                            value={selectedNode.data.dueUnit as string || 'days'}
+                                                            onValueChange={(val) => updateNodeData(selectedNode.id, { dueUnit: val })}
+                                                        >
+                                                            <SelectTrigger>
+                                                                <SelectValue />
+                                                            </SelectTrigger>
+                                                            <SelectContent>
+                                                                <SelectItem value="hours">Hours</SelectItem>
+                                                                <SelectItem value="days">Days</SelectItem>
+                                                            </SelectContent>
+                                                        </Select>
+                                                    </div>
+                                                </div>
+                                                <div className="space-y-2">
+                                                    <Label>Priority</Label>
+                                                    <Select
+                                                        value={selectedNode.data.priority as string || 'medium'}
+                                                        onValueChange={(val) => updateNodeData(selectedNode.id, { priority: val })}
+                                                    >
+                                                        <SelectTrigger>
+                                                            <SelectValue />
+                                                        </SelectTrigger>
+                                                        <SelectContent>
+                                                            <SelectItem value="low">Low</SelectItem>
+                                                            <SelectItem value="medium">Medium</SelectItem>
+                                                            <SelectItem value="high">High</SelectItem>
+                                                        </SelectContent>
+                                                    </Select>
+                                                </div>
+                                            </>
+                                        )}
+
+                                        {selectedNode.data.actionType === 'create_deal' && (
+                                            <>
+                                                <div className="space-y-2">
+                                                    <Label>Deal Name</Label>
+                                                    <Input
+                                                        placeholder="Defaults to the contact's name"
+                                                        value={selectedNode.data.dealName as string || ''}
+                                                        onChange={(e) => updateNodeData(selectedNode.id, { dealName: e.target.value })}
+                                                    />
+                                                </div>
+                                                <div className="space-y-2">
+                                                    <Label>Value</Label>
+                                                    <Input
+                                                        type="number"
+                                                        min={0}
+                                                        value={selectedNode.data.dealValue as string || ''}
+                                                        onChange={(e) => updateNodeData(selectedNode.id, { dealValue: e.target.value })}
+                                                    />
+                                                </div>
+                                                <div className="space-y-2">
+                                                    <Label>Pipeline</Label>
+                                                    <Select
+                                                        value={selectedNode.data.pipelineId as string || ''}
+                                                        onValueChange={(val) => updateNodeData(selectedNode.id, {
+                                                            pipelineId: val,
+                                                            stage: pipelines?.find(p => p.id === val)?.stages?.[0]?.id
+                                                        })}
+                                                    >
+                                                        <SelectTrigger>
+                                                            <SelectValue placeholder="Select pipeline" />
+                                                        </SelectTrigger>
+                                                        <SelectContent>
+                                                            {pipelines?.map(p => (
+                                                                <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                                                            ))}
+                                                        </SelectContent>
+                                                    </Select>
+                                                </div>
+                                                {!!selectedNode.data.pipelineId && (
+                                                    <div className="space-y-2">
+                                                        <Label>Stage</Label>
+                                                        <Select
+                                                            value={selectedNode.data.stage as string || ''}
+                                                            onValueChange={(val) => updateNodeData(selectedNode.id, { stage: val })}
+                                                        >
+                                                            <SelectTrigger>
+                                                                <SelectValue placeholder="Select stage" />
+                                                            </SelectTrigger>
+                                                            <SelectContent>
+                                                                {pipelines?.find(p => p.id === selectedNode.data.pipelineId)?.stages?.map(stage => (
+                                                                    <SelectItem key={stage.id} value={stage.id}>{stage.name}</SelectItem>
+                                                                ))}
+                                                            </SelectContent>
+                                                        </Select>
+                                                    </div>
+                                                )}
+                                            </>
+                                        )}
+
+                                        {selectedNode.data.actionType === 'enroll_sequence' && (
+                                            <div className="space-y-2">
+                                                <Label>Sequence</Label>
+                                                <Select
+                                                    value={selectedNode.data.sequenceId as string || ''}
+                                                    onValueChange={(val) => updateNodeData(selectedNode.id, { sequenceId: val })}
+                                                >
+                                                    <SelectTrigger>
+                                                        <SelectValue placeholder="Select sequence" />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        {sequences?.map(sequence => (
+                                                            <SelectItem key={sequence.id} value={sequence.id}>
+                                                                {sequence.name}{!sequence.is_active && ' (paused)'}
+                                                            </SelectItem>
+                                                        ))}
+                                                    </SelectContent>
+                                                </Select>
+                                                <p className="text-xs text-muted-foreground">
+                                                    Contacts already active in the sequence are not enrolled twice.
+                                                </p>
+                                            </div>
+                                        )}
+
                                         {selectedNode.data.actionType === 'add_tag' && (
                                             <div className="space-y-2">
                                                 <Label>Tag Name</Label>
@@ -390,6 +1327,13 @@ function BuilderInternal({ workflow }: WorkflowBuilderProps) {
                                     </div>
                                 )}
 
+                                {(selectedNode.type === 'email' || selectedNode.type === 'action' || selectedNode.type === 'ai') && (
+                                    <ErrorHandlingConfig
+                                        data={selectedNode.data}
+                                        onChange={(updates) => updateErrorHandling(selectedNode.id, updates)}
+                                    />
+                                )}
+
                                 <Button
                                     variant="destructive"
                                     className="w-full gap-2 mt-8"
@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, Target } from "lucide-react";
+import { ConditionBuilder } from "./condition-builder";
+import { useUpdateWorkflow, useWorkflowGoalStats } from "@/hooks/use-workflows";
+import { usePipelines } from "@/hooks/use-deals";
+import { ConditionGroup, isConditionGroup } from "@/lib/automations/conditions";
+import type { Workflow, WorkflowEnrollmentPolicy } from "@/types";
+
+interface WorkflowSettingsDialogProps {
+    workflow: Workflow;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+const EMPTY_GOAL: ConditionGroup = { id: "goal", combinator: "and", conditions: [] };
+
+export function WorkflowSettingsDialog({ workflow, open, onOpenChange }: WorkflowSettingsDialogProps) {
+    const [policy, setPolicy] = useState<WorkflowEnrollmentPolicy>(workflow.enrollment_policy || "multiple");
+    const [reentryDays, setReentryDays] = useState(String(workflow.reentry_days ?? 30));
+    const [goal, setGoal] = useState<ConditionGroup>(
+        workflow.goal && isConditionGroup(workflow.goal as unknown as ConditionGroup)
+            ? workflow.goal as unknown as ConditionGroup
+            : EMPTY_GOAL
+    );
+    const { data: pipelines } = usePipelines();
+    const { data: stats } = useWorkflowGoalStats(open ? workflow.id : undefined);
+    const { trigger: updateWorkflow, isMutating } = useUpdateWorkflow();
+
+    const handleSave = async () => {
+        try {
+            await updateWorkflow({
+                id: workflow.id,
+                updates: {
+                    enrollment_policy: policy,
+                    reentry_days: policy === "after_days" ? Math.max(1, parseInt(reentryDays) || 1) : null,
+                    goal: goal.conditions.length > 0 ? goal as unknown as Record<string, unknown> : null,
+                },
+            });
+            toast.success("Workflow settings saved");
+            onOpenChange(false);
+        } catch {
+            toast.error("Failed to save workflow settings");
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[520px] max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Workflow Settings</DialogTitle>
+                    <DialogDescription>
+                        These settings apply immediately and do not need to be published.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-6 py-2">
+                    <div className="space-y-2">
+                        <Label>Re-enrollment</Label>
+                        <Select value={policy} onValueChange={(val) => setPolicy(val as WorkflowEnrollmentPolicy)}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="multiple">Every time the trigger fires</SelectItem>
+                                <SelectItem value="one_at_a_time">Only when not already in this workflow</SelectItem>
+                                <SelectItem value="after_days">Again after a number of days</SelectItem>
+                                <SelectItem value="once">Only once ever</SelectItem>
+                            </SelectContent>
+                        </Select>
+                        {policy === "after_days" && (
+                            <div className="flex items-center gap-2">
+                                <Input
+                                    type="number"
+                                    min={1}
+                                    className="w-24"
+                                    value={reentryDays}
+                                    onChange={(e) => setReentryDays(e.target.value)}
+                                />
+                                <span className="text-sm text-muted-foreground">days since the last enrollment</span>
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label className="flex items-center gap-2">
+                            <Target className="w-4 h-4" /> Goal
+                        </Label>
+                        <p className="text-xs text-muted-foreground">
+                            When the contact meets the goal, the run ends early and counts as a conversion.
+                            Leave empty for no goal.
+                        </p>
+                        <ConditionBuilder value={goal} onChange={setGoal} pipelines={pipelines || []} />
+                        {stats && stats.enrolled > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                                Goal reached by {stats.converted} of {stats.enrolled} enrollments
+                                ({Math.round((stats.converted / stats.enrolled) * 100)}%).
+                            </p>
+                        )}
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                        Cancel
+                    </Button>
+                    <Button onClick={handleSave} disabled={isMutating}>
+                        {isMutating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Save Settings
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
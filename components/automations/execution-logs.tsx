@@ -10,9 +10,13 @@ import {
     TableHeader,
     TableRow,
 } from "@/components/ui/table";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
 import { format } from "date-fns";
-import { Loader2, AlertCircle, Info, CheckCircle2 } from "lucide-react";
+import { toast } from "sonner";
+import { Loader2, AlertCircle, Info, CheckCircle2, RotateCcw } from "lucide-react";
+import { FailedWorkflowRun, useFailedWorkflowRuns, useRetryWorkflowRun } from "@/hooks/use-workflows";
+import { useActiveProfile } from "@/hooks/use-settings";
 
 interface Log {
     id: string;
@@ -24,6 +28,99 @@ interface Log {
     workflow_id: string;
 }
 
+function failedNodeLabel(run: FailedWorkflowRun): string {
+    const node = run.workflow?.nodes?.find(n => n.id === run.current_node_id);
+    return node?.data?.label || node?.type || run.current_node_id || "Start";
+}
+
+/**
+ * Failed runs with a button to retry each from the node it failed on.
+ */
+function FailedRuns() {
+    const { data: profile } = useActiveProfile();
+    const { data: runs } = useFailedWorkflowRuns();
+    const { trigger: retryRun } = useRetryWorkflowRun();
+    const [retrying, setRetrying] = useState<string | null>(null);
+
+    const canRetry = !!profile && ["admin", "manager"].includes(profile.role);
+
+    if (!runs || runs.length === 0) return null;
+
+    const handleRetry = async (run: FailedWorkflowRun) => {
+        setRetrying(run.id);
+        try {
+            const result = await retryRun(run.id);
+            if (result.status === "failed") {
+                toast.error(`Failed again: ${result.last_error || "unknown error"}`);
+            } else {
+                toast.success("Run resumed from the failed step");
+            }
+        } catch (e: unknown) {
+            toast.error(e instanceof Error ? e.message : "Failed to retry run");
+        } finally {
+            setRetrying(null);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-lg">Failed Runs</CardTitle>
+                <CardDescription>Retrying continues from the failed step; steps that already completed are not repeated.</CardDescription>
+            </CardHeader>
+            <CardContent>
+                <div className="rounded-md border">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead className="w-[180px]">Failed</TableHead>
+                                <TableHead>Workflow</TableHead>
+                                <TableHead>Contact</TableHead>
+                                <TableHead>Step</TableHead>
+                                <TableHead>Error</TableHead>
+                                {canRetry && <TableHead className="w-[100px]" />}
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {runs.map((run) => (
+                                <TableRow key={run.id}>
+                                    <TableCell className="text-xs font-mono">
+                                        {run.last_executed_at ? format(new Date(run.last_executed_at), "HH:mm:ss MMM d") : "—"}
+                                    </TableCell>
+                                    <TableCell className="text-sm">{run.workflow?.name || "—"}</TableCell>
+                                    <TableCell className="text-sm">
+                                        {run.contact ? `${run.contact.first_name} ${run.contact.last_name || ""}`.trim() : "—"}
+                                    </TableCell>
+                                    <TableCell className="text-sm">{failedNodeLabel(run)}</TableCell>
+                                    <TableCell className="text-xs text-destructive max-w-[280px] truncate" title={run.last_error || undefined}>
+                                        {run.last_error || "—"}
+                                    </TableCell>
+                                    {canRetry && (
+                                        <TableCell>
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                className="gap-1"
+                                                disabled={retrying !== null}
+                                                onClick={() => handleRetry(run)}
+                                            >
+                                                {retrying === run.id
+                                                    ? <Loader2 className="w-3 h-3 animate-spin" />
+                                                    : <RotateCcw className="w-3 h-3" />}
+                                                Retry
+                                            </Button>
+                                        </TableCell>
+                                    )}
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
+
 export function ExecutionLogs() {
     const [logs, setLogs] = useState<Log[]>([]);
     const [loading, setLoading] = useState(true);
@@ -76,6 +173,8 @@ export function ExecutionLogs() {
     }
 
     return (
+        <div className="space-y-6">
+        <FailedRuns />
         <Card>
             <CardHeader>
                 <CardTitle className="text-lg">Recent Executions</CardTitle>
@@ -124,5 +223,6 @@ export function ExecutionLogs() {
                 </div>
             </CardContent>
         </Card>
+        </div>
     );
 }
@@ -0,0 +1,89 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { toast } from "sonner";
+import { AlertTriangle, ArrowRight, Loader2 } from "lucide-react";
+import {
+    AutomationRuleConversionResult,
+    useAutomationRules,
+    useConvertAutomationRules,
+} from "@/hooks/use-automations";
+
+/**
+ * Offers to convert legacy automation rules, which were saved but never executed,
+ * into workflows. Hidden once every rule has been converted.
+ */
+export function LegacyRulesBanner() {
+    const { data: rules } = useAutomationRules();
+    const { trigger: convertRules, isMutating } = useConvertAutomationRules();
+    const [results, setResults] = useState<AutomationRuleConversionResult[] | null>(null);
+
+    const pending = (rules || []).filter(rule => !rule.converted_workflow_id);
+
+    if (pending.length === 0 && !results) return null;
+
+    const handleConvert = async () => {
+        try {
+            const converted = await convertRules({});
+            setResults(converted);
+            const failed = converted.filter(r => r.error).length;
+            toast.success(`Converted ${converted.length - failed} of ${converted.length} rules to workflows`);
+        } catch (e: unknown) {
+            toast.error(e instanceof Error ? e.message : "Failed to convert automation rules");
+        }
+    };
+
+    return (
+        <Card className="border-amber-300 bg-amber-50/50">
+            <CardContent className="p-4 space-y-3">
+                {pending.length > 0 && (
+                    <div className="flex items-start justify-between gap-4">
+                        <div className="flex gap-3">
+                            <AlertTriangle className="w-5 h-5 text-amber-600 shrink-0 mt-0.5" />
+                            <div className="text-sm">
+                                <div className="font-medium">
+                                    {pending.length} legacy automation rule{pending.length === 1 ? " has" : "s have"} never run
+                                </div>
+                                <p className="text-muted-foreground">
+                                    Convert them into workflows to start running them. Active rules without
+                                    unsupported steps are published and activated; the rest stay as drafts to review.
+                                </p>
+                            </div>
+                        </div>
+                        <Button size="sm" onClick={handleConvert} disabled={isMutating} className="shrink-0">
+                            {isMutating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Convert to Workflows
+                        </Button>
+                    </div>
+                )}
+
+                {results && results.length > 0 && (
+                    <ul className="space-y-2 text-sm">
+                        {results.map(result => (
+                            <li key={result.ruleId} className="border rounded-md bg-background p-2">
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="font-medium">{result.name}</span>
+                                    {result.workflowId && (
+                                        <Link
+                                            href={`/dashboard/automations/builder/${result.workflowId}`}
+                                            className="flex items-center gap-1 text-xs text-primary hover:underline"
+                                        >
+                                            {result.activated ? "Active workflow" : "Review draft"} <ArrowRight className="w-3 h-3" />
+                                        </Link>
+                                    )}
+                                </div>
+                                {result.error && <p className="text-xs text-destructive">{result.error}</p>}
+                                {result.warnings.map((warning, i) => (
+                                    <p key={i} className="text-xs text-amber-700">{warning}</p>
+                                ))}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
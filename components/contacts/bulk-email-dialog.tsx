@@ -59,7 +59,9 @@ export function BulkEmailDialog({
             }
 
             const data = await response.json();
-            toast.success(`Successfully queued ${data.queuedCount} emails for sending`);
+            toast.success(`Successfully queued ${data.queuedCount} emails for sending`, {
+                description: data.suppressedCount ? `${data.suppressedCount} unsubscribed or suppressed contacts were skipped.` : undefined,
+            });
             setSubject("");
             setBody("");
             onSuccess();
@@ -81,7 +83,7 @@ export function BulkEmailDialog({
                     </DialogTitle>
                     <DialogDescription>
                         Compose a message to send to <strong>{recipientCount}</strong> selected contacts.
-                        You can use {'{{first_name}}'} and {'{{last_name}}'} as variables.
+                        You can use variables like {'{{first_name|there}}'}, {'{{contact.company}}'} and {'{{owner.full_name}}'}.
                     </DialogDescription>
                 </DialogHeader>
 
@@ -96,7 +98,7 @@ export function BulkEmailDialog({
                     </div>
                     <div className="space-y-2">
                         <Textarea
-                            placeholder="Type your message here... Example: Hi {{first_name}},"
+                            placeholder="Type your message here... Example: Hi {{first_name|there}},"
                             value={body}
                             onChange={(e) => setBody(e.target.value)}
                             disabled={isSending}
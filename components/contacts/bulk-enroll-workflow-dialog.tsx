@@ -0,0 +1,167 @@
+"use client";
+
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, Workflow } from "lucide-react";
+import {
+    useCancelEnrollmentJob,
+    useManualWorkflows,
+    useStartBulkEnrollment,
+    useWorkflowEnrollmentJob,
+} from "@/hooks/use-workflows";
+import type { ContactFilterValues } from "@/components/contacts/contact-filters";
+import { describeEnrollmentJob, getEnrollmentProgress, isEnrollmentJobActive } from "@/lib/automations/bulk-enroll";
+
+interface BulkEnrollWorkflowDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    contactIds: string[];
+    isSelectAllMatching: boolean;
+    totalMatches: number;
+    filters?: Pick<ContactFilterValues, "search" | "status" | "ownerId">;
+    onSuccess: () => void;
+}
+
+export function BulkEnrollWorkflowDialog({
+    open,
+    onOpenChange,
+    contactIds,
+    isSelectAllMatching,
+    totalMatches,
+    filters,
+    onSuccess
+}: BulkEnrollWorkflowDialogProps) {
+    const [workflowId, setWorkflowId] = useState("");
+    const [jobId, setJobId] = useState<string | null>(null);
+
+    const { data: workflows, isLoading: loadingWorkflows } = useManualWorkflows();
+    const { data: job } = useWorkflowEnrollmentJob(jobId);
+    const { trigger: startEnrollment, isMutating: isStarting } = useStartBulkEnrollment();
+    const { trigger: cancelJob, isMutating: isCancelling } = useCancelEnrollmentJob();
+
+    const contactCount = isSelectAllMatching ? totalMatches : contactIds.length;
+    const active = !!job && isEnrollmentJobActive(job);
+
+    const handleStart = async () => {
+        try {
+            const started = await startEnrollment({
+                workflowId,
+                contactIds: isSelectAllMatching ? [] : contactIds,
+                isSelectAllMatching,
+                filters: isSelectAllMatching ? filters : undefined
+            });
+            setJobId(started.id);
+            toast.success(`Enrolling ${started.total} contacts`);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to start workflow");
+        }
+    };
+
+    const handleCancel = async () => {
+        if (!jobId) return;
+        try {
+            await cancelJob(jobId);
+            toast.success("Enrollment stopped");
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to stop enrollment");
+        }
+    };
+
+    const handleOpenChange = (next: boolean) => {
+        // A running job keeps going in the background; the selection is cleared once it started
+        if (!next) {
+            if (jobId) onSuccess();
+            setJobId(null);
+            setWorkflowId("");
+        }
+        onOpenChange(next);
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent className="sm:max-w-[500px]">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Workflow className="h-5 w-5" />
+                        Start Workflow
+                    </DialogTitle>
+                    <DialogDescription>
+                        Enroll <strong>{contactCount}</strong> selected contacts into a workflow with a manual trigger.
+                        Contacts the workflow&apos;s re-entry rules exclude are skipped.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {jobId ? (
+                    <div className="grid gap-3 py-4">
+                        <Progress value={job ? getEnrollmentProgress(job) : 0} />
+                        <p className="text-sm text-muted-foreground">
+                            {job ? describeEnrollmentJob(job) : "Starting..."}
+                        </p>
+                        {job?.status === "failed" && job.last_error && (
+                            <p className="text-sm text-destructive">{job.last_error}</p>
+                        )}
+                        {active && (
+                            <p className="text-xs text-muted-foreground">
+                                Large selections are enrolled in batches in the background. You can close this dialog.
+                            </p>
+                        )}
+                    </div>
+                ) : (
+                    <div className="grid gap-2 py-4">
+                        <Label>Workflow</Label>
+                        <Select value={workflowId} onValueChange={setWorkflowId} disabled={loadingWorkflows || isStarting}>
+                            <SelectTrigger>
+                                <SelectValue placeholder={loadingWorkflows ? "Loading workflows..." : "Select a workflow"} />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {(workflows || []).map(w => (
+                                    <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        {!loadingWorkflows && workflows?.length === 0 && (
+                            <p className="text-xs text-muted-foreground">
+                                No active workflows start from a manual trigger. Publish one with the &quot;Manual Enrollment&quot; trigger first.
+                            </p>
+                        )}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {jobId ? (
+                        <>
+                            {active && (
+                                <Button variant="outline" onClick={handleCancel} disabled={isCancelling}>
+                                    {isCancelling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                    Stop Enrollment
+                                </Button>
+                            )}
+                            <Button onClick={() => handleOpenChange(false)}>Close</Button>
+                        </>
+                    ) : (
+                        <>
+                            <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isStarting}>
+                                Cancel
+                            </Button>
+                            <Button onClick={handleStart} disabled={isStarting || !workflowId || contactCount === 0}>
+                                {isStarting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                Enroll {contactCount} Contacts
+                            </Button>
+                        </>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -30,6 +30,7 @@ import {
 import { toast } from "sonner";
 import { useCreateContact, useUpdateContact, useContactStatuses } from "@/hooks/use-data";
 import type { Contact } from "@/types";
+import { TIME_ZONE_OPTIONS } from "@/lib/automations/send-window";
 import { CallHistory } from "@/components/dashboard/dialer/call-history";
 import { useDialerStore } from "@/lib/stores";
 
@@ -41,6 +42,7 @@ interface ContactFormData {
     company: string;
     job_title: string;
     status: string;
+    timezone: string;
 }
 
 interface ContactDialogProps {
@@ -95,6 +97,7 @@ export function ContactDialog({
                 company: contact.company || "",
                 job_title: contact.job_title || "",
                 status: contact.status || "new",
+                timezone: contact.timezone || "",
             }
             : {
                 first_name: "",
@@ -104,6 +107,7 @@ export function ContactDialog({
                 company: "",
                 job_title: "",
                 status: "new",
+                timezone: "",
             },
     });
 
@@ -111,6 +115,13 @@ export function ContactDialog({
         control,
         name: "status",
     });
+    const watchedTimezone = useWatch({
+        control,
+        name: "timezone",
+    });
+    const timeZones = !watchedTimezone || TIME_ZONE_OPTIONS.includes(watchedTimezone)
+        ? TIME_ZONE_OPTIONS
+        : [watchedTimezone, ...TIME_ZONE_OPTIONS];
 
     useEffect(() => {
         if (contact) {
@@ -122,6 +133,7 @@ export function ContactDialog({
                 company: contact.company || "",
                 job_title: contact.job_title || "",
                 status: contact.status || "new",
+                timezone: contact.timezone || "",
             });
         } else {
             reset({
@@ -132,11 +144,14 @@ export function ContactDialog({
                 company: "",
                 job_title: "",
                 status: "new",
+                timezone: "",
             });
         }
     }, [contact, reset]);
 
-    const onSubmit = async (data: ContactFormData) => {
+    const onSubmit = async (formData: ContactFormData) => {
+        // An empty timezone falls back to the organization default
+        const data = { ...formData, timezone: formData.timezone || null };
         try {
             if (isEditing && contact) {
                 await updateContact({
@@ -290,6 +305,30 @@ export function ContactDialog({
                                  </Select>
                              </div>
 
+                            <div className="space-y-2">
+                                <Label htmlFor="timezone">Timezone</Label>
+                                <Select
+                                    value={watchedTimezone || "__default__"}
+                                    onValueChange={(value) => setValue("timezone", value === "__default__" ? "" : value)}
+                                >
+                                    <SelectTrigger id="timezone">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <ScrollArea className="h-[200px]">
+                                            <div className="p-1">
+                                                <SelectItem value="__default__">Organization default</SelectItem>
+                                                {timeZones.map((zone) => (
+                                                    <SelectItem key={zone} value={zone}>
+                                                        {zone}
+                                                    </SelectItem>
+                                                ))}
+                                            </div>
+                                        </ScrollArea>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+
                             <DialogFooter>
                                 <Button
                                     type="button"
@@ -0,0 +1,129 @@
+"use client";
+
+import { useRef } from "react";
+import { FolderOpen, Loader2, Paperclip, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useContactFiles, useUploadAttachment } from "@/hooks/use-data";
+import { checkAttachment, checkAttachmentSet, formatBytes } from "@/lib/attachment-policy";
+import type { FileAttachment } from "@/types";
+
+interface AttachmentPickerProps {
+    value: FileAttachment[];
+    onChange: (files: FileAttachment[]) => void;
+    // Uploads are filed under this contact, whose files can also be attached
+    contactId?: string | null;
+    disabled?: boolean;
+}
+
+export function AttachmentPicker({ value, onChange, contactId, disabled }: AttachmentPickerProps) {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const { data: contactFiles = [] } = useContactFiles(contactId);
+    const { trigger: upload, isMutating: isUploading } = useUploadAttachment();
+
+    const available = contactFiles.filter(f => !value.some(v => v.id === f.id));
+
+    const add = (files: FileAttachment[]) => {
+        const next = [...value, ...files.filter(f => !value.some(v => v.id === f.id))];
+        const invalid = checkAttachmentSet(next.map(f => ({ name: f.name, size: f.size_bytes, contentType: f.mime_type })));
+        if (invalid) {
+            toast.error(invalid);
+            return;
+        }
+        onChange(next);
+    };
+
+    // The server checks again; this only saves a doomed upload
+    const handleFiles = async (list: FileList | null) => {
+        const uploaded: FileAttachment[] = [];
+        for (const file of Array.from(list || [])) {
+            const invalid = checkAttachment({ name: file.name, size: file.size, contentType: file.type });
+            if (invalid) {
+                toast.error(invalid);
+                continue;
+            }
+            try {
+                uploaded.push(await upload({ file, contactId }));
+            } catch (error) {
+                toast.error(error instanceof Error ? error.message : "Failed to upload attachment");
+            }
+        }
+        if (uploaded.length > 0) add(uploaded);
+        if (inputRef.current) inputRef.current.value = "";
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center gap-2">
+                <input
+                    ref={inputRef}
+                    type="file"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => handleFiles(e.target.files)}
+                />
+                <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={disabled || isUploading}
+                    onClick={() => inputRef.current?.click()}
+                >
+                    {isUploading ? <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" /> : <Paperclip className="mr-2 h-3.5 w-3.5" />}
+                    Attach file
+                </Button>
+                {contactId && (
+                    <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                            <Button type="button" variant="ghost" size="sm" disabled={disabled}>
+                                <FolderOpen className="mr-2 h-3.5 w-3.5" />
+                                Contact files
+                            </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="start" className="max-h-64 overflow-y-auto">
+                            <DropdownMenuLabel className="text-xs">Attach from this contact&apos;s files</DropdownMenuLabel>
+                            {available.length === 0 ? (
+                                <DropdownMenuItem disabled>No other files</DropdownMenuItem>
+                            ) : (
+                                available.map(file => (
+                                    <DropdownMenuItem key={file.id} onClick={() => add([file])}>
+                                        <span className="truncate max-w-[220px]">{file.name}</span>
+                                        <span className="ml-auto pl-2 text-xs text-muted-foreground">{formatBytes(file.size_bytes)}</span>
+                                    </DropdownMenuItem>
+                                ))
+                            )}
+                        </DropdownMenuContent>
+                    </DropdownMenu>
+                )}
+            </div>
+
+            {value.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {value.map(file => (
+                        <div key={file.id} className="flex items-center gap-1.5 rounded-md border bg-muted/40 px-2 py-1 text-xs">
+                            <Paperclip className="h-3 w-3 text-muted-foreground" />
+                            <span className="truncate max-w-[180px]">{file.name}</span>
+                            <span className="text-muted-foreground">{formatBytes(file.size_bytes)}</span>
+                            <button
+                                type="button"
+                                className="text-muted-foreground hover:text-foreground"
+                                disabled={disabled}
+                                onClick={() => onChange(value.filter(f => f.id !== file.id))}
+                            >
+                                <X className="h-3 w-3" />
+                                <span className="sr-only">Remove {file.name}</span>
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
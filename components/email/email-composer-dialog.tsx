@@ -30,7 +30,12 @@ import {
     SelectTrigger,
     SelectValue,
 } from "@/components/ui/select";
-import { useEmailTemplates, useActiveProfile, useSMTPConfigs } from "@/hooks/use-data";
+import { useEmailTemplates, useActiveProfile, useSMTPConfigs, useTemplatePreview, useAttachmentFiles } from "@/hooks/use-data";
+import { AttachmentPicker } from "@/components/email/attachment-picker";
+import { hasPlaceholders } from "@/lib/template-engine";
+import { buildQuotedBody, getReplyRecipients, prefixSubject, type ReplyMode } from "@/lib/email-threading";
+import type { Email, FileAttachment } from "@/types";
+import { mutate } from "swr";
 import { toast } from "sonner";
 import { Loader2, Send, Sparkles, Code2 } from "lucide-react";
 import { useState, useEffect } from "react";
@@ -41,8 +46,16 @@ import {
     TabsTrigger,
 } from "@/components/ui/tabs";
 
+const emailList = z.string().refine(
+    (value) => {
+        const addresses = value.split(",").map((a) => a.trim()).filter(Boolean);
+        return addresses.length > 0 && addresses.every((a) => z.string().email().safeParse(a).success);
+    },
+    "Invalid email address"
+);
+
 const formSchema = z.object({
-    to: z.string().email("Invalid email address"),
+    to: emailList,
     subject: z.string().min(1, "Subject is required"),
     body: z.string().min(1, "Message body is required"),
     account_id: z.string().min(1, "Please select an email account"),
@@ -52,18 +65,36 @@ interface EmailComposerDialogProps {
     open: boolean;
     onOpenChange: (open: boolean) => void;
     defaultTo?: string;
+    contactId?: string | null; // The recipient's contact, for attaching their files
     organizationId: string;
+    // Answer or forward this email, keeping the reply in its thread
+    replyTo?: Email | null;
+    replyMode?: ReplyMode;
 }
 
+const REPLY_TITLES: Record<ReplyMode, string> = {
+    reply: "Reply",
+    reply_all: "Reply All",
+    forward: "Forward",
+};
+
 export function EmailComposerDialog({
     open,
     onOpenChange,
     defaultTo = "",
+    contactId = null,
+    replyTo = null,
+    replyMode = "reply",
 }: EmailComposerDialogProps) {
     const [isSending, setIsSending] = useState(false);
     const { data: templates } = useEmailTemplates();
     const { data: profile } = useActiveProfile();
     const { data: accounts } = useSMTPConfigs();
+    const { trigger: renderPreview, data: preview, reset: resetPreview, isMutating: isPreviewing } = useTemplatePreview();
+    const [attachments, setAttachments] = useState<FileAttachment[]>([]);
+    const [templateAttachmentIds, setTemplateAttachmentIds] = useState<string[]>([]);
+    const { data: templateFiles } = useAttachmentFiles(templateAttachmentIds);
+    const attachmentContactId = contactId || replyTo?.contact_id || null;
 
     const form = useForm<z.infer<typeof formSchema>>({
         resolver: zodResolver(formSchema),
@@ -89,6 +120,33 @@ export function EmailComposerDialog({
         }
     }, [open, defaultTo, form]);
 
+    // Prefill recipients, subject and the quoted original when replying or forwarding
+    useEffect(() => {
+        if (!open || !replyTo) return;
+        const ownAddresses = (accounts || []).map((acc) => acc.email_addr).filter(Boolean);
+        form.reset({
+            to: getReplyRecipients(replyTo, replyMode, ownAddresses).join(", "),
+            subject: prefixSubject(replyTo.subject, replyMode),
+            body: buildQuotedBody(replyTo, replyMode),
+            account_id: accounts?.some((acc) => acc.id === replyTo.account_id)
+                ? replyTo.account_id
+                : form.getValues("account_id"),
+        });
+    }, [open, replyTo, replyMode, accounts, form]);
+
+    // Forwards carry the original's attachments
+    useEffect(() => {
+        if (open && replyTo && replyMode === "forward") {
+            setAttachments(replyTo.attachments || []);
+        }
+    }, [open, replyTo, replyMode]);
+
+    // Loading a template adds its attachments
+    useEffect(() => {
+        if (!templateFiles) return;
+        setAttachments(current => [...current, ...templateFiles.filter(f => !current.some(c => c.id === f.id))]);
+    }, [templateFiles]);
+
     const handleTemplateSelect = (templateId: string) => {
         const template = templates?.find((t) => t.id === templateId);
         if (template) {
@@ -96,6 +154,21 @@ export function EmailComposerDialog({
             // If in HTML mode, use full HTML. If text mode, strip tags or keep simple.
             // For now, always set the raw body, and let the view decide how to show it.
             form.setValue("body", template.body_html);
+            setTemplateAttachmentIds(template.attachment_ids || []);
+        }
+    };
+
+    // Shows placeholders filled for the recipient's contact, as they will be sent
+    const handleTabChange = async (tab: string) => {
+        const { to, subject, body } = form.getValues();
+        if (tab !== "preview" || !hasPlaceholders(subject, body)) {
+            resetPreview();
+            return;
+        }
+        try {
+            await renderPreview({ subject, body, email: z.string().email().safeParse(to).success ? to : undefined });
+        } catch {
+            resetPreview();
         }
     };
 
@@ -109,7 +182,11 @@ export function EmailComposerDialog({
                     to: values.to,
                     subject: values.subject,
                     body_html: values.body,
-                    account_id: values.account_id
+                    account_id: values.account_id,
+                    contact_id: attachmentContactId || undefined,
+                    attachment_ids: attachments.map(f => f.id),
+                    reply_to_email_id: replyTo?.id,
+                    mode: replyTo ? replyMode : undefined,
                 }),
             });
 
@@ -120,8 +197,11 @@ export function EmailComposerDialog({
             }
 
             toast.success("Email sent successfully");
+            mutate((key) => typeof key === "string" && key.startsWith("/api/email"), undefined, { revalidate: true });
             onOpenChange(false);
             form.reset();
+            setAttachments([]);
+            setTemplateAttachmentIds([]);
         } catch (error) {
             console.error("Send Error:", error);
             toast.error(error instanceof Error ? error.message : "Failed to send email");
@@ -134,9 +214,11 @@ export function EmailComposerDialog({
         <Dialog open={open} onOpenChange={onOpenChange}>
             <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
-                    <DialogTitle>Compose Email</DialogTitle>
+                    <DialogTitle>{replyTo ? REPLY_TITLES[replyMode] : "Compose Email"}</DialogTitle>
                     <DialogDescription>
-                        Send a new email or use a template.
+                        {replyTo
+                            ? `${replyMode === "forward" ? "Forward" : "Reply to"} "${replyTo.subject || "(No Subject)"}".`
+                            : "Send a new email or use a template."}
                     </DialogDescription>
                 </DialogHeader>
 
@@ -192,7 +274,7 @@ export function EmailComposerDialog({
                                 <FormItem>
                                     <FormLabel>To</FormLabel>
                                     <FormControl>
-                                        <Input placeholder="recipient@example.com" {...field} />
+                                        <Input placeholder="recipient@example.com, another@example.com" {...field} />
                                     </FormControl>
                                     <FormMessage />
                                 </FormItem>
@@ -242,7 +324,7 @@ export function EmailComposerDialog({
                                         </Button>
                                     </div>
                                     <FormControl>
-                                        <Tabs defaultValue="code" className="w-full">
+                                        <Tabs defaultValue="code" className="w-full" onValueChange={handleTabChange}>
                                             <TabsList className="grid w-full grid-cols-3 mb-2">
                                                 <TabsTrigger value="code">
                                                     <Code2 className="mr-2 h-3.5 w-3.5" />
@@ -271,14 +353,21 @@ export function EmailComposerDialog({
 
                                             <TabsContent value="preview" className="mt-0">
                                                 <div className="min-h-[250px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background overflow-auto prose prose-sm dark:prose-invert max-w-none">
-                                                    {field.value ? (
-                                                        <div dangerouslySetInnerHTML={{ __html: field.value }} />
+                                                    {isPreviewing ? (
+                                                        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                                                    ) : field.value ? (
+                                                        <div dangerouslySetInnerHTML={{ __html: preview?.body ?? field.value }} />
                                                     ) : (
                                                         <div className="text-muted-foreground opacity-50 italic">
                                                             Nothing to preview...
                                                         </div>
                                                     )}
                                                 </div>
+                                                {preview && (
+                                                    <p className="text-[10px] text-muted-foreground mt-1">
+                                                        {preview.contactId ? "Variables filled for the recipient's contact." : "The recipient is not a contact; variables are left empty."}
+                                                    </p>
+                                                )}
                                             </TabsContent>
 
                                             <TabsContent value="text" className="mt-0">
@@ -300,6 +389,15 @@ export function EmailComposerDialog({
                                 </FormItem>
                             )}
                         />
+                        <div className="space-y-2">
+                            <Label>Attachments</Label>
+                            <AttachmentPicker
+                                value={attachments}
+                                onChange={setAttachments}
+                                contactId={attachmentContactId}
+                                disabled={isSending}
+                            />
+                        </div>
                         <DialogFooter>
                             <Button
                                 type="button"
@@ -0,0 +1,158 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, Forward, Loader2, Paperclip, Reply, ReplyAll, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useEmailThread, useEmailBatchAction, useSMTPConfigs } from "@/hooks/use-email";
+import { formatBytes } from "@/lib/attachment-policy";
+import { isOutbound, normalizeSubject, type ReplyMode } from "@/lib/email-threading";
+import { cn } from "@/lib/utils";
+import type { Email } from "@/types";
+
+interface EmailThreadViewProps {
+    threadId: string;
+    onBack: () => void;
+    onReply: (email: Email, mode: ReplyMode) => void;
+}
+
+// Renders mail HTML without running its scripts, sized to its content
+function EmailBody({ email }: { email: Email }) {
+    const [height, setHeight] = useState(120);
+
+    if (!email.body_html) {
+        return <p className="text-sm whitespace-pre-wrap">{email.body_text || ""}</p>;
+    }
+
+    return (
+        <iframe
+            title={email.subject || "Email"}
+            sandbox="allow-same-origin allow-popups"
+            srcDoc={`<base target="_blank"><style>body{margin:0;font-family:system-ui,sans-serif;font-size:14px}</style>${email.body_html}`}
+            className="w-full border-0 bg-white rounded"
+            style={{ height }}
+            onLoad={(e) => {
+                const doc = e.currentTarget.contentDocument;
+                if (doc?.body) setHeight(doc.body.scrollHeight + 16);
+            }}
+        />
+    );
+}
+
+export function EmailThreadView({ threadId, onBack, onReply }: EmailThreadViewProps) {
+    const { data, isLoading } = useEmailThread(threadId);
+    const { data: accounts = [] } = useSMTPConfigs();
+    const { trigger: batchAction } = useEmailBatchAction();
+    const markedThread = useRef<string | null>(null);
+
+    const messages = data?.messages || [];
+    const contact = data?.contact;
+    const ownAddresses = accounts.map(acc => acc.email_addr).filter(Boolean);
+
+    // Opening a conversation reads it
+    useEffect(() => {
+        if (!data || markedThread.current === threadId) return;
+        markedThread.current = threadId;
+        const unread = data.messages.filter(m => !m.is_read).map(m => m.id);
+        if (unread.length > 0) {
+            batchAction({ emailIds: unread, action: "mark_read" }).catch(err => console.error("Mark read failed:", err));
+        }
+    }, [data, threadId, batchAction]);
+
+    const subject = normalizeSubject(messages[0]?.subject) || "(No Subject)";
+
+    return (
+        <div className="flex flex-col">
+            <div className="flex items-center gap-3 p-4 border-b">
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onBack}>
+                    <ArrowLeft className="h-4 w-4" />
+                    <span className="sr-only">Back</span>
+                </Button>
+                <div className="flex-1 min-w-0">
+                    <h2 className="font-semibold truncate">{subject}</h2>
+                    <p className="text-xs text-muted-foreground">
+                        {messages.length} {messages.length === 1 ? "message" : "messages"}
+                    </p>
+                </div>
+                {contact && (
+                    <Link href={`/dashboard/contacts/${contact.id}`}>
+                        <Badge variant="outline" className="gap-1 hover:bg-muted">
+                            <User className="h-3 w-3" />
+                            {[contact.first_name, contact.last_name].filter(Boolean).join(" ")}
+                        </Badge>
+                    </Link>
+                )}
+            </div>
+
+            {isLoading ? (
+                <div className="flex items-center justify-center h-[400px]">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+            ) : (
+                <div className="flex flex-col gap-4 p-4">
+                    {messages.map((message) => {
+                        const outbound = isOutbound(message, ownAddresses);
+                        return (
+                            <div
+                                key={message.id}
+                                className={cn(
+                                    "rounded-lg border p-4 max-w-[90%]",
+                                    outbound ? "self-end bg-primary/5 border-primary/20" : "self-start bg-card"
+                                )}
+                            >
+                                <div className="flex items-start justify-between gap-4 mb-3">
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium truncate">
+                                            {outbound ? "You" : message.from_name || message.from_addr}
+                                            {!outbound && message.from_name && (
+                                                <span className="text-muted-foreground font-normal ml-1">&lt;{message.from_addr}&gt;</span>
+                                            )}
+                                        </p>
+                                        <p className="text-xs text-muted-foreground truncate">To: {message.to_addr}</p>
+                                    </div>
+                                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                                        {new Date(message.received_at).toLocaleString([], { dateStyle: "medium", timeStyle: "short" })}
+                                    </span>
+                                </div>
+
+                                <EmailBody email={message} />
+
+                                {message.attachments && message.attachments.length > 0 && (
+                                    <div className="flex flex-wrap gap-2 mt-3">
+                                        {message.attachments.map(file => (
+                                            <a
+                                                key={file.id}
+                                                href={`/api/email/attachments/${file.id}`}
+                                                className="flex items-center gap-1.5 rounded-md border bg-muted/40 px-2 py-1 text-xs hover:bg-muted"
+                                            >
+                                                <Paperclip className="h-3 w-3 text-muted-foreground" />
+                                                <span className="truncate max-w-[180px]">{file.name}</span>
+                                                <span className="text-muted-foreground">{formatBytes(file.size_bytes)}</span>
+                                            </a>
+                                        ))}
+                                    </div>
+                                )}
+
+                                <div className="flex items-center gap-1 mt-3 pt-3 border-t">
+                                    <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onReply(message, "reply")}>
+                                        <Reply className="h-3.5 w-3.5 mr-1" />
+                                        Reply
+                                    </Button>
+                                    <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onReply(message, "reply_all")}>
+                                        <ReplyAll className="h-3.5 w-3.5 mr-1" />
+                                        Reply all
+                                    </Button>
+                                    <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onReply(message, "forward")}>
+                                        <Forward className="h-3.5 w-3.5 mr-1" />
+                                        Forward
+                                    </Button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
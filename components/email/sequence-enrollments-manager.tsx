@@ -170,6 +170,8 @@ export function SequenceEnrollmentsManager({
             case "active": return "bg-emerald-500/10 text-emerald-600 border-emerald-500/20";
             case "paused": return "bg-amber-500/10 text-amber-600 border-amber-500/20";
             case "completed": return "bg-blue-500/10 text-blue-600 border-blue-500/20";
+            case "replied": return "bg-violet-500/10 text-violet-600 border-violet-500/20";
+            case "unsubscribed": return "bg-rose-500/10 text-rose-600 border-rose-500/20";
             default: return "bg-slate-500/10 text-slate-600 border-slate-500/20";
         }
     };
@@ -389,7 +391,11 @@ export function SequenceEnrollmentsManager({
                                                 </Badge>
                                             </TableCell>
                                             <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
-                                                {e.next_send_at ? (
+                                                {e.status === 'replied' && e.replied_at ? (
+                                                    <span>Replied {new Date(e.replied_at).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>
+                                                ) : e.status === 'unsubscribed' && e.unsubscribed_at ? (
+                                                    <span>Unsubscribed {new Date(e.unsubscribed_at).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>
+                                                ) : e.next_send_at ? (
                                                     <div className="flex items-center gap-1.5 font-medium text-foreground">
                                                         <Clock className="h-3 w-3 text-primary" />
                                                         {new Date(e.next_send_at).toLocaleDateString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
@@ -16,6 +16,7 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import {
     Form,
@@ -25,10 +26,12 @@ import {
     FormLabel,
     FormMessage,
 } from "@/components/ui/form";
-import { useCreateEmailTemplate, useUpdateEmailTemplate } from "@/hooks/use-data";
+import { useCreateEmailTemplate, useUpdateEmailTemplate, useTemplatePreview, useAttachmentFiles } from "@/hooks/use-data";
+import { AttachmentPicker } from "@/components/email/attachment-picker";
+import { TEMPLATE_SYNTAX_EXAMPLES } from "@/lib/template-engine";
 import { toast } from "sonner";
-import type { EmailTemplate } from "@/types";
-import { Loader2, Code2 } from "lucide-react";
+import type { EmailTemplate, FileAttachment } from "@/types";
+import { Loader2, Code2, Eye } from "lucide-react";
 
 const templateSchema = z.object({
     name: z.string().min(1, "Template name is required"),
@@ -57,6 +60,14 @@ export function TemplateDialog({
     const { trigger: createTemplate, isMutating: isCreating } = useCreateEmailTemplate();
     const { trigger: updateTemplate, isMutating: isUpdating } = useUpdateEmailTemplate();
     const isLoading = isCreating || isUpdating;
+    const [previewEmail, setPreviewEmail] = useState("");
+    const { trigger: renderPreview, data: preview, reset: resetPreview, isMutating: isPreviewing } = useTemplatePreview();
+    const [attachments, setAttachments] = useState<FileAttachment[]>([]);
+    const { data: savedAttachments } = useAttachmentFiles(template?.attachment_ids);
+
+    useEffect(() => {
+        setAttachments(savedAttachments || []);
+    }, [template, savedAttachments]);
 
     const form = useForm<TemplateFormValues>({
         resolver: zodResolver(templateSchema) as any,
@@ -69,6 +80,7 @@ export function TemplateDialog({
     });
 
     useEffect(() => {
+        resetPreview();
         if (template) {
             form.reset({
                 name: template.name,
@@ -84,19 +96,32 @@ export function TemplateDialog({
                 body_text: "",
             });
         }
-    }, [template, form]);
+    }, [template, form, resetPreview]);
+
+    const handlePreview = async () => {
+        try {
+            await renderPreview({
+                subject: form.getValues("subject"),
+                body: form.getValues("body_html"),
+                email: previewEmail.trim() || undefined,
+            });
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to render preview");
+        }
+    };
 
     const onSubmit = async (values: TemplateFormValues) => {
         try {
             if (isEditing && template) {
                 await updateTemplate({
                     id: template.id,
-                    updates: values,
+                    updates: { ...values, attachment_ids: attachments.map(f => f.id) },
                 });
                 toast.success("Template updated successfully");
             } else {
                 await createTemplate({
                     ...values,
+                    attachment_ids: attachments.map(f => f.id),
                     organization_id: organizationId,
                 });
                 toast.success("Template created successfully");
@@ -150,7 +175,7 @@ export function TemplateDialog({
                                     <FormLabel>Subject Line</FormLabel>
                                     <FormControl>
                                         <Input
-                                            placeholder="e.g., Welcome to {{company_name}}!"
+                                            placeholder="e.g., Welcome, {{first_name|there}}!"
                                             {...field}
                                         />
                                     </FormControl>
@@ -184,6 +209,9 @@ export function TemplateDialog({
                                             {...field}
                                         />
                                     </FormControl>
+                                    <p className="text-xs text-muted-foreground">
+                                        Variables: {TEMPLATE_SYNTAX_EXAMPLES.join(" ")}
+                                    </p>
                                     <FormMessage />
                                 </FormItem>
                             )}
@@ -207,6 +235,49 @@ export function TemplateDialog({
                             )}
                         />
 
+                        <div className="space-y-2">
+                            <Label>Attachments</Label>
+                            <AttachmentPicker value={attachments} onChange={setAttachments} disabled={isLoading} />
+                            <p className="text-[0.8rem] text-muted-foreground">
+                                Sent with every email that uses this template, including sequence steps.
+                            </p>
+                        </div>
+
+                        <div className="space-y-2 rounded-md border p-3">
+                            <Label>Preview</Label>
+                            <div className="flex gap-2">
+                                <Input
+                                    placeholder="Contact email (blank for no contact)"
+                                    value={previewEmail}
+                                    onChange={(e) => setPreviewEmail(e.target.value)}
+                                />
+                                <Button type="button" variant="outline" onClick={handlePreview} disabled={isPreviewing}>
+                                    {isPreviewing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+                                    Preview
+                                </Button>
+                            </div>
+                            {preview && (
+                                <div className="space-y-2">
+                                    {previewEmail.trim() && !preview.contactId && (
+                                        <p className="text-xs text-amber-500">No contact with this email; rendered without contact data.</p>
+                                    )}
+                                    <p className="text-sm font-medium">{preview.subject || "(No Subject)"}</p>
+                                    <div
+                                        className="max-h-[200px] overflow-auto rounded-md bg-muted/30 p-2 text-sm prose prose-sm dark:prose-invert max-w-none"
+                                        dangerouslySetInnerHTML={{ __html: preview.body }}
+                                    />
+                                    {preview.missing.length > 0 && (
+                                        <p className="text-xs text-muted-foreground">
+                                            Empty for this contact: {preview.missing.map(path => `{{${path}}}`).join(", ")}
+                                        </p>
+                                    )}
+                                    {preview.errors.map(error => (
+                                        <p key={error} className="text-xs text-destructive">{error}</p>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
                         <DialogFooter>
                             <Button
                                 type="button"
@@ -0,0 +1,191 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Ban, Loader2, Trash2, Upload } from "lucide-react";
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { useAddSuppressions, useDeleteSuppression, useSuppressions } from "@/hooks/use-email";
+import { useDebounce } from "@/hooks/use-debounce";
+import { isValidEmailAddress, normalizeEmailAddress, parseSuppressionCsv } from "@/lib/email-address";
+import type { SuppressionReason } from "@/types";
+
+interface SuppressionListManagerProps {
+    orgId: string;
+    profileId: string;
+}
+
+const REASON_LABELS: Record<SuppressionReason, string> = {
+    unsubscribed: "Unsubscribed",
+    manual: "Added manually",
+    imported: "Imported",
+    bounced: "Bounced",
+    complained: "Complaint",
+};
+
+export function SuppressionListManager({ orgId, profileId }: SuppressionListManagerProps) {
+    const [search, setSearch] = useState("");
+    const debouncedSearch = useDebounce(search, 300);
+    const { data, isLoading } = useSuppressions(orgId, debouncedSearch);
+    const { trigger: addSuppressions, isMutating: isAdding } = useAddSuppressions(orgId);
+    const { trigger: deleteSuppression } = useDeleteSuppression(orgId);
+    const [address, setAddress] = useState("");
+    const [deletingId, setDeletingId] = useState<string | null>(null);
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    const suppressions = data?.data || [];
+
+    const handleAdd = async () => {
+        const email = normalizeEmailAddress(address);
+        if (!isValidEmailAddress(email)) {
+            toast.error("Enter a valid email address");
+            return;
+        }
+        try {
+            const added = await addSuppressions({ emails: [email], reason: "manual", createdBy: profileId });
+            toast.success(added ? `${email} will no longer be emailed` : `${email} is already on the list`);
+            setAddress("");
+        } catch (e: unknown) {
+            toast.error(e instanceof Error ? e.message : "Failed to add address");
+        }
+    };
+
+    const handleImport = async (file: File) => {
+        try {
+            const { emails, invalid } = parseSuppressionCsv(await file.text());
+            if (emails.length === 0) {
+                toast.error("No email addresses found in the file");
+                return;
+            }
+            const added = await addSuppressions({ emails, reason: "imported", note: file.name, createdBy: profileId });
+            toast.success(`Imported ${added} ${added === 1 ? "address" : "addresses"}`, {
+                description: [
+                    emails.length > added ? `${emails.length - added} already on the list` : null,
+                    invalid > 0 ? `${invalid} invalid skipped` : null,
+                ].filter(Boolean).join(", ") || undefined,
+            });
+        } catch (e: unknown) {
+            toast.error(e instanceof Error ? e.message : "Failed to import addresses");
+        } finally {
+            if (fileInput.current) fileInput.current.value = "";
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        setDeletingId(id);
+        try {
+            await deleteSuppression(id);
+            toast.success("Address removed from the suppression list");
+        } catch (e: unknown) {
+            toast.error(e instanceof Error ? e.message : "Failed to remove address");
+        } finally {
+            setDeletingId(null);
+        }
+    };
+
+    return (
+        <Card className="w-full">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Ban className="h-5 w-5" />
+                    Suppression List
+                </CardTitle>
+                <CardDescription>
+                    Addresses here are never emailed by bulk sends, sequences, workflows or the composer.
+                    Recipients who unsubscribe are added automatically.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex gap-2">
+                    <Input
+                        placeholder="name@example.com"
+                        value={address}
+                        onChange={(e) => setAddress(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === "Enter") {
+                                e.preventDefault();
+                                handleAdd();
+                            }
+                        }}
+                    />
+                    <Button onClick={handleAdd} disabled={isAdding || !address.trim()}>
+                        {isAdding && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Add
+                    </Button>
+                    <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={isAdding}>
+                        <Upload className="mr-2 h-4 w-4" />
+                        Import CSV
+                    </Button>
+                    <input
+                        ref={fileInput}
+                        type="file"
+                        accept=".csv,.txt,text/csv,text/plain"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) handleImport(file);
+                        }}
+                    />
+                </div>
+
+                <Input
+                    placeholder="Search addresses..."
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                />
+
+                <div className="rounded-md border divide-y">
+                    {isLoading ? (
+                        <div className="flex justify-center p-6">
+                            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                        </div>
+                    ) : suppressions.length === 0 ? (
+                        <p className="p-6 text-center text-sm text-muted-foreground">
+                            {debouncedSearch ? "No matching addresses" : "No suppressed addresses"}
+                        </p>
+                    ) : (
+                        suppressions.map(s => (
+                            <div key={s.id} className="flex items-center justify-between gap-4 px-4 py-2">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium truncate">{s.email}</p>
+                                    <p className="text-xs text-muted-foreground truncate">
+                                        {new Date(s.created_at).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" })}
+                                        {s.note && ` · ${s.note}`}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <Badge variant="outline" className="whitespace-nowrap">{REASON_LABELS[s.reason] || s.reason}</Badge>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-8 w-8"
+                                        disabled={deletingId === s.id}
+                                        onClick={() => handleDelete(s.id)}
+                                    >
+                                        {deletingId === s.id
+                                            ? <Loader2 className="h-4 w-4 animate-spin" />
+                                            : <Trash2 className="h-4 w-4" />}
+                                        <span className="sr-only">Remove</span>
+                                    </Button>
+                                </div>
+                            </div>
+                        ))
+                    )}
+                </div>
+                {data && data.total > suppressions.length && (
+                    <p className="text-xs text-muted-foreground">
+                        Showing the {suppressions.length} most recent of {data.total}. Search to find others.
+                    </p>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
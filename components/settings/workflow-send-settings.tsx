@@ -0,0 +1,130 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Moon, Loader2 } from "lucide-react";
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { useUpdateWorkflowSendSettings, useWorkflowSendSettings } from "@/hooks/use-workflows";
+import { DEFAULT_SEND_WINDOW, SendWindowSettings, TIME_ZONE_OPTIONS } from "@/lib/automations/send-window";
+
+interface WorkflowSendSettingsProps {
+    orgId: string;
+}
+
+export function WorkflowSendSettings({ orgId }: WorkflowSendSettingsProps) {
+    const { data: saved } = useWorkflowSendSettings(orgId);
+    const { trigger: saveSettings, isMutating } = useUpdateWorkflowSendSettings(orgId);
+    const [settings, setSettings] = useState<SendWindowSettings>(DEFAULT_SEND_WINDOW);
+
+    useEffect(() => {
+        if (saved) setSettings(saved);
+    }, [saved]);
+
+    const update = (updates: Partial<SendWindowSettings>) => setSettings(prev => ({ ...prev, ...updates }));
+
+    const timeZones = TIME_ZONE_OPTIONS.includes(settings.timezone)
+        ? TIME_ZONE_OPTIONS
+        : [settings.timezone, ...TIME_ZONE_OPTIONS];
+
+    const handleSave = async () => {
+        try {
+            await saveSettings(settings);
+            toast.success("Workflow sending settings saved");
+        } catch (e: unknown) {
+            toast.error(e instanceof Error ? e.message : "Failed to save settings");
+        }
+    };
+
+    return (
+        <Card className="w-full">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Moon className="h-5 w-5" />
+                    Workflow Quiet Hours
+                </CardTitle>
+                <CardDescription>
+                    Workflow emails due during quiet hours or on skipped weekends are held until the window ends,
+                    in each contact&apos;s own timezone.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="space-y-2">
+                    <Label>Default timezone</Label>
+                    <Select value={settings.timezone} onValueChange={(timezone) => update({ timezone })}>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {timeZones.map(zone => (
+                                <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">Used for contacts without a timezone.</p>
+                </div>
+
+                <div className="flex items-center justify-between">
+                    <Label>Quiet hours</Label>
+                    <Switch
+                        checked={settings.quiet_hours_enabled}
+                        onCheckedChange={(quiet_hours_enabled) => update({ quiet_hours_enabled })}
+                    />
+                </div>
+                {settings.quiet_hours_enabled && (
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="quiet-start">From</Label>
+                            <Input
+                                id="quiet-start"
+                                type="time"
+                                value={settings.quiet_hours_start}
+                                onChange={(e) => update({ quiet_hours_start: e.target.value })}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="quiet-end">Until</Label>
+                            <Input
+                                id="quiet-end"
+                                type="time"
+                                value={settings.quiet_hours_end}
+                                onChange={(e) => update({ quiet_hours_end: e.target.value })}
+                            />
+                        </div>
+                    </div>
+                )}
+
+                <div className="flex items-center justify-between">
+                    <Label>Don&apos;t send on weekends</Label>
+                    <Switch
+                        checked={settings.skip_weekends}
+                        onCheckedChange={(skip_weekends) => update({ skip_weekends })}
+                    />
+                </div>
+
+                <div className="flex justify-end">
+                    <Button onClick={handleSave} disabled={isMutating}>
+                        {isMutating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Save
+                    </Button>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
@@ -1,15 +1,43 @@
 "use client";
 
+import useSWR, { mutate } from "swr";
 import useSWRMutation from "swr/mutation";
 import { createClient } from "@/lib/supabase/client";
 import type { AutomationRule } from "@/types";
 
 // const supabase = createClient(); // Moved inside functions for SSR safety
 
+// ============================================
+// FETCHERS
+// ============================================
+
+async function fetchAutomationRules(): Promise<AutomationRule[]> {
+    const supabase = createClient();
+    const { data, error } = await supabase
+        .from("automation_rules")
+        .select("*")
+        .order("created_at", { ascending: true });
+    if (error) throw error;
+    return data || [];
+}
+
+export interface AutomationRuleConversionResult {
+    ruleId: string;
+    name: string;
+    workflowId: string | null;
+    activated: boolean;
+    warnings: string[];
+    error?: string;
+}
+
 // ============================================
 // SWR HOOKS
 // ============================================
 
+export function useAutomationRules() {
+    return useSWR<AutomationRule[]>("automation-rules", fetchAutomationRules);
+}
+
 // ============================================
 // MUTATION HOOKS
 // ============================================
@@ -83,3 +111,29 @@ export function useToggleAutomationRule() {
         }
     );
 }
+
+/**
+ * Converts legacy rules (all unconverted ones when no ids are given) into published
+ * workflows, which is the only way they ever run.
+ */
+export function useConvertAutomationRules() {
+    return useSWRMutation(
+        "automation-rules",
+        async (_, { arg }: { arg: { ruleIds?: string[] } }) => {
+            const res = await fetch("/api/automation/rules/convert", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(arg),
+            });
+            const body = await res.json();
+            if (!res.ok) throw new Error(typeof body.error === "string" ? body.error : "Failed to convert automation rules");
+            return body.results as AutomationRuleConversionResult[];
+        },
+        {
+            revalidate: true,
+            onSuccess: () => {
+                mutate("workflows");
+            }
+        }
+    );
+}
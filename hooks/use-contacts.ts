@@ -4,6 +4,7 @@ import { useMemo } from "react";
 import useSWR from "swr";
 import useSWRMutation from "swr/mutation";
 import { createClient } from "@/lib/supabase/client";
+import { contactSearchFilter } from "@/lib/utils";
 import { useRealtime } from "./use-realtime";
 import type { Contact, ContactStatus } from "@/types";
 
@@ -76,7 +77,7 @@ async function fetchContactsPaginated(params: PaginationParams): Promise<Paginat
 
     // Apply search filter
     if (search) {
-        query = query.or(`first_name.ilike.%${search}%,last_name.ilike.%${search}%,email.ilike.%${search}%,company.ilike.%${search}%`);
+        query = query.or(contactSearchFilter(search));
     }
 
     // Apply status filter
@@ -249,23 +250,28 @@ export function useUpdateContact() {
     return useSWRMutation(
         "contacts",
         async (_, { arg }: { arg: { id: string; updates: Partial<Contact> } }) => {
-            const supabase = createClient();
             // Safety check: ensure updates is serializable and not circular
+            let body: string;
             try {
-                JSON.stringify(arg.updates);
+                body = JSON.stringify(arg.updates);
             } catch {
                 console.error("[useUpdateContact] Invalid updates payload:", arg.updates);
                 throw new Error("Invalid update payload: circular reference or non-serializable object detected.");
             }
 
-            const { data, error } = await supabase
-                .from("contacts")
-                .update(arg.updates)
-                .eq("id", arg.id)
-                .select()
-                .single();
-            if (error) throw error;
-            return data;
+            // The server fires tag_added for newly added tags and re-checks workflow goals
+            const res = await fetch(`/api/internal/contacts/${arg.id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body
+            });
+
+            if (!res.ok) {
+                const error = await res.json().catch(() => ({}));
+                throw new Error(error.error || "Failed to update contact");
+            }
+
+            return res.json();
         },
         {
             revalidate: true,
@@ -310,13 +316,19 @@ export function useBulkCreateContacts() {
     return useSWRMutation(
         "contacts",
         async (_, { arg }: { arg: Omit<Contact, "id" | "created_at" | "updated_at">[] }) => {
-            const supabase = createClient();
-            const { data, error } = await supabase
-                .from("contacts")
-                .insert(arg)
-                .select();
-            if (error) throw error;
-            return data;
+            // Created on the server, which enrolls the contacts in contact_created workflows
+            const res = await fetch('/api/internal/contacts/import', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(arg)
+            });
+
+            if (!res.ok) {
+                const error = await res.json().catch(() => ({}));
+                throw new Error(error.error || "Failed to import contacts");
+            }
+
+            return res.json();
         },
         {
             revalidate: true,
@@ -61,11 +61,18 @@ export {
     useCreateEmailTemplate,
     useUpdateEmailTemplate,
     useDeleteEmailTemplate,
+    useTemplatePreview,
     useSequenceEnrollments,
     useEnrollInSequence,
     useUpdateEnrollment,
     useDeleteEnrollment,
     useSMTPConfigs,
+    useContactFiles,
+    useAttachmentFiles,
+    useUploadAttachment,
+    useSuppressions,
+    useAddSuppressions,
+    useDeleteSuppression,
 } from "./use-email";
 
 // Call Logs
@@ -79,6 +86,8 @@ export * from "./use-settings";
 
 // Automation Rules
 export {
+    useAutomationRules,
+    useConvertAutomationRules,
     useCreateAutomationRule,
     useUpdateAutomationRule,
     useDeleteAutomationRule,
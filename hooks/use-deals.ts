@@ -194,14 +194,15 @@ export function useCreateDeal() {
     return useSWRMutation(
         "deals",
         async (_, { arg }: { arg: Omit<Deal, "id" | "created_at" | "updated_at"> }) => {
-            const supabase = createClient();
-            const { data, error } = await supabase
-                .from("deals")
-                .insert([arg])
-                .select()
-                .single();
-            if (error) throw error;
-            return data;
+            // Created on the server, which fires stage-change workflows for the first stage
+            const res = await fetch("/api/deals", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(arg),
+            });
+            const body = await res.json();
+            if (!res.ok) throw new Error(body.error || "Failed to create deal");
+            return body as Deal;
         },
         {
             revalidate: true,
@@ -213,15 +214,15 @@ export function useUpdateDeal() {
     return useSWRMutation(
         "deals",
         async (_, { arg }: { arg: { id: string; updates: Partial<Deal> } }) => {
-            const supabase = createClient();
-            const { data, error } = await supabase
-                .from("deals")
-                .update(arg.updates)
-                .eq("id", arg.id)
-                .select()
-                .single();
-            if (error) throw error;
-            return data;
+            // Updated on the server, which fires stage-change workflows
+            const res = await fetch(`/api/deals/${arg.id}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(arg.updates),
+            });
+            const body = await res.json();
+            if (!res.ok) throw new Error(body.error || "Failed to update deal");
+            return body as Deal;
         },
         {
             revalidate: true,
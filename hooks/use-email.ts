@@ -5,7 +5,8 @@ import useSWR, { mutate } from "swr";
 import useSWRMutation from "swr/mutation";
 import { createClient } from "@/lib/supabase/client";
 import { useRealtime } from "./use-realtime";
-import type { EmailTemplate, EmailSequence, SequenceEnrollment, SMTPConfig } from "@/types";
+import { isValidEmailAddress, normalizeEmailAddress } from "@/lib/email-address";
+import type { Email, EmailTemplate, EmailSequence, EmailThread, FileAttachment, SequenceEnrollment, SMTPConfig, Suppression, SuppressionReason } from "@/types";
 
 // const supabase = createClient(); // Moved inside functions for SSR safety
 
@@ -43,6 +44,31 @@ async function fetchSMTPConfigs(): Promise<SMTPConfig[]> {
     return data || [];
 }
 
+const ATTACHMENT_FILE_COLUMNS = "id, name, mime_type, size_bytes, contact_id, created_at";
+
+async function fetchContactFiles(contactId: string): Promise<FileAttachment[]> {
+    const supabase = createClient();
+    const { data, error } = await supabase
+        .from("files")
+        .select(ATTACHMENT_FILE_COLUMNS)
+        .eq("contact_id", contactId)
+        .order("created_at", { ascending: false });
+    if (error) throw error;
+    return data || [];
+}
+
+async function fetchFilesByIds(ids: string[]): Promise<FileAttachment[]> {
+    const supabase = createClient();
+    const { data, error } = await supabase
+        .from("files")
+        .select(ATTACHMENT_FILE_COLUMNS)
+        .in("id", ids);
+    if (error) throw error;
+    // Keep the order they were attached in
+    const files: FileAttachment[] = data || [];
+    return ids.map(id => files.find(f => f.id === id)).filter((f): f is FileAttachment => !!f);
+}
+
 async function fetchEmails(url: string) {
     const res = await fetch(url);
     if (!res.ok) {
@@ -52,6 +78,16 @@ async function fetchEmails(url: string) {
     return res.json();
 }
 
+export interface EmailThreadPage {
+    data: EmailThread[];
+    meta: { page: number; limit: number; total: number; folder: string };
+}
+
+export interface EmailThreadDetail {
+    messages: Email[];
+    contact: { id: string; first_name: string; last_name?: string | null; email?: string | null; company?: string | null } | null;
+}
+
 // ============================================
 // SWR HOOKS
 // ============================================
@@ -70,6 +106,40 @@ export function useEmails(folder: string = "inbox", page: number = 1, limit: num
     return swr;
 }
 
+export function useEmailThreads(folder: string = "inbox", page: number = 1, limit: number = 50) {
+    const key = `/api/email/threads?folder=${folder}&page=${page}&limit=${limit}`;
+    const swr = useSWR<EmailThreadPage>(key, fetchEmails, {
+        revalidateOnFocus: false,
+    });
+
+    const realtimeKey = useMemo(() => (key: unknown) => typeof key === "string" && key.startsWith("/api/email"), []);
+    useRealtime("emails", realtimeKey);
+
+    return swr;
+}
+
+export function useEmailThread(threadId: string | null) {
+    return useSWR<EmailThreadDetail>(threadId ? `/api/email/threads/${threadId}` : null, fetchEmails, {
+        revalidateOnFocus: false,
+    });
+}
+
+export function useContactFiles(contactId: string | null | undefined) {
+    return useSWR<FileAttachment[]>(
+        contactId ? `contact-files-${contactId}` : null,
+        () => fetchContactFiles(contactId!),
+        { revalidateOnFocus: false }
+    );
+}
+
+// Files by id, e.g. a template's attachments
+export function useAttachmentFiles(ids: string[] | null | undefined) {
+    const key = ids && ids.length > 0 ? `attachment-files-${ids.join(",")}` : null;
+    return useSWR<FileAttachment[]>(key, () => fetchFilesByIds(ids!), {
+        revalidateOnFocus: false,
+    });
+}
+
 export function useEmailTemplates() {
     const swr = useSWR<EmailTemplate[]>("email-templates", fetchEmailTemplates, {
         revalidateOnFocus: false,
@@ -107,7 +177,7 @@ export function useSMTPConfigs() {
 export function useEmailBatchAction() {
     return useSWRMutation(
         "/api/email/batch",
-        async (url, { arg }: { arg: { emailIds: string[], action: 'delete' | 'move' | 'mark_read' | 'mark_unread', destination?: string } }) => {
+        async (url, { arg }: { arg: { emailIds?: string[], threadIds?: string[], action: 'delete' | 'move' | 'mark_read' | 'mark_unread', destination?: string } }) => {
             const res = await fetch(url, {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
@@ -128,6 +198,25 @@ export function useEmailBatchAction() {
     );
 }
 
+export function useUploadAttachment() {
+    return useSWRMutation(
+        "email-attachment-upload",
+        async (_, { arg }: { arg: { file: File; contactId?: string | null } }): Promise<FileAttachment> => {
+            const form = new FormData();
+            form.append("file", arg.file);
+            if (arg.contactId) form.append("contactId", arg.contactId);
+
+            const res = await fetch("/api/email/attachments", { method: "POST", body: form });
+            const body = await res.json();
+            if (!res.ok) {
+                throw new Error(typeof body.error === "string" ? body.error : "Failed to upload attachment");
+            }
+            if (arg.contactId) mutate(`contact-files-${arg.contactId}`);
+            return body.file;
+        }
+    );
+}
+
 // ============================================
 // MUTATION HOOKS - SEQUENCES
 // ============================================
@@ -242,6 +331,33 @@ export function useDeleteEmailTemplate() {
     );
 }
 
+export interface TemplatePreview {
+    subject: string;
+    body: string;
+    contactId: string | null;
+    missing: string[]; // Placeholders that rendered empty without a fallback
+    errors: string[];
+}
+
+/**
+ * Renders a subject and body (or a saved template) for a contact, as it would be sent.
+ */
+export function useTemplatePreview() {
+    return useSWRMutation(
+        "email-template-preview",
+        async (_, { arg }: { arg: { subject?: string; body?: string; templateId?: string; contactId?: string; email?: string } }) => {
+            const res = await fetch("/api/email/preview", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(arg),
+            });
+            const body = await res.json();
+            if (!res.ok) throw new Error(typeof body.error === "string" ? body.error : "Failed to render preview");
+            return body as TemplatePreview;
+        }
+    );
+}
+
 // ============================================
 // MUTATION HOOKS - ENROLLMENTS
 // ============================================
@@ -426,3 +542,98 @@ export function useSaveEmailAccount() {
         }
     );
 }
+
+// ============================================
+// SUPPRESSION LIST
+// ============================================
+
+const SUPPRESSIONS_PAGE_SIZE = 100;
+// Keeps each insert request small when importing large lists
+const SUPPRESSION_INSERT_CHUNK = 500;
+
+export interface SuppressionPage {
+    data: Suppression[];
+    total: number;
+}
+
+export function useSuppressions(orgId: string | null | undefined, search: string = "") {
+    return useSWR<SuppressionPage>(orgId ? ["suppressions", orgId, search] : null, async () => {
+        const supabase = createClient();
+        let query = supabase
+            .from("suppressions")
+            .select("*", { count: "exact" })
+            .eq("organization_id", orgId!)
+            .order("created_at", { ascending: false })
+            .range(0, SUPPRESSIONS_PAGE_SIZE - 1);
+        if (search.trim()) query = query.ilike("email", `%${search.trim().toLowerCase()}%`);
+
+        const { data, error, count } = await query;
+        if (error) throw error;
+        return { data: data || [], total: count || 0 };
+    });
+}
+
+interface AddSuppressionsArgs {
+    emails: string[];
+    reason: Extract<SuppressionReason, "manual" | "imported">;
+    note?: string;
+    createdBy?: string;
+}
+
+/**
+ * Adds addresses to the organization's suppression list. Addresses already on it are
+ * left as they are; returns how many were new.
+ */
+export function useAddSuppressions(orgId: string) {
+    return useSWRMutation(
+        ["suppressions", orgId],
+        async (_, { arg }: { arg: AddSuppressionsArgs }) => {
+            const emails = Array.from(new Set(arg.emails.map(normalizeEmailAddress)));
+            const invalid = emails.find(email => !isValidEmailAddress(email));
+            if (invalid !== undefined) throw new Error(`${invalid || "(empty)"} is not a valid email address`);
+
+            const supabase = createClient();
+            let added = 0;
+            for (let i = 0; i < emails.length; i += SUPPRESSION_INSERT_CHUNK) {
+                const rows = emails.slice(i, i + SUPPRESSION_INSERT_CHUNK).map(email => ({
+                    organization_id: orgId,
+                    email,
+                    reason: arg.reason,
+                    note: arg.note || null,
+                    created_by: arg.createdBy || null
+                }));
+                const { data, error } = await supabase
+                    .from("suppressions")
+                    .upsert(rows, { onConflict: "organization_id, email", ignoreDuplicates: true })
+                    .select("id");
+                if (error) throw error;
+                added += data?.length || 0;
+            }
+            return added;
+        },
+        {
+            onSuccess: () => {
+                mutate(key => Array.isArray(key) && key[0] === "suppressions");
+            }
+        }
+    );
+}
+
+export function useDeleteSuppression(orgId: string) {
+    return useSWRMutation(
+        ["suppressions", orgId],
+        async (_, { arg: id }: { arg: string }) => {
+            const supabase = createClient();
+            const { error } = await supabase
+                .from("suppressions")
+                .delete()
+                .eq("id", id);
+            if (error) throw error;
+        },
+        {
+            onSuccess: () => {
+                mutate(key => Array.isArray(key) && key[0] === "suppressions");
+            }
+        }
+    );
+}
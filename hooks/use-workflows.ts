@@ -1,10 +1,14 @@
 "use client";
 
-import useSWR from "swr";
+import useSWR, { mutate } from "swr";
 import useSWRMutation from "swr/mutation";
 import { createClient } from "@/lib/supabase/client";
 import { useRealtime } from "./use-realtime";
-import type { Workflow } from "@/types";
+import type { Workflow, WorkflowVersion, WorkflowEnrollmentJob } from "@/types";
+import type { SimulationResult } from "@/lib/automations/simulator";
+import type { PortableWorkflow, ReferenceMapping } from "@/lib/automations/workflow-transfer";
+import { DEFAULT_SEND_WINDOW, SendWindowSettings } from "@/lib/automations/send-window";
+import { hasManualTrigger, isEnrollmentJobActive } from "@/lib/automations/bulk-enroll";
 
 // const supabase = createClient(); // Moved inside functions for SSR safety
 
@@ -22,6 +26,126 @@ async function fetchWorkflows(): Promise<Workflow[]> {
     return data || [];
 }
 
+async function fetchWorkflowVersions(workflowId: string): Promise<WorkflowVersion[]> {
+    const supabase = createClient();
+    const { data, error } = await supabase
+        .from("workflow_versions")
+        .select("*")
+        .eq("workflow_id", workflowId)
+        .order("version", { ascending: false });
+    if (error) throw error;
+    return data || [];
+}
+
+export interface WorkflowRunMigrationPlan {
+    // Active runs grouped by the version and node they are positioned on
+    groups: { versionId: string | null; version: number | null; nodeId: string | null; count: number }[];
+}
+
+async function fetchRunMigrationPlan(workflowId: string): Promise<WorkflowRunMigrationPlan> {
+    const res = await fetch(`/api/automation/workflows/${workflowId}/migrate`);
+    const body = await res.json();
+    if (!res.ok) throw new Error(body.error || "Failed to load active runs");
+    return body;
+}
+
+export interface WorkflowGoalStats {
+    enrolled: number; // Root runs, one per enrollment
+    converted: number; // Runs ended by the workflow goal
+}
+
+async function fetchWorkflowGoalStats(workflowId: string): Promise<WorkflowGoalStats> {
+    const supabase = createClient();
+    const [enrolled, converted] = await Promise.all([
+        supabase
+            .from("workflow_runs")
+            .select("id", { count: "exact", head: true })
+            .eq("workflow_id", workflowId)
+            .is("parent_run_id", null),
+        supabase
+            .from("workflow_runs")
+            .select("id", { count: "exact", head: true })
+            .eq("workflow_id", workflowId)
+            .is("parent_run_id", null)
+            .not("goal_reached_at", "is", null),
+    ]);
+    if (enrolled.error) throw enrolled.error;
+    if (converted.error) throw converted.error;
+    return { enrolled: enrolled.count || 0, converted: converted.count || 0 };
+}
+
+export interface WorkflowNodeStats {
+    node_id: string;
+    reached: number; // Runs that entered the node in the range
+    waiting: number; // Runs sitting on the node now
+    failed: number; // Runs that logged an error on the node in the range
+    branches: Record<string, number>; // Handle taken out of condition, split and wait nodes
+    median_seconds: number | null; // Median time from entering the node to the next step
+}
+
+export interface WorkflowRunSummary {
+    started: number;
+    active: number;
+    completed: number;
+    failed: number;
+    goal_reached: number;
+}
+
+// Outcomes per branch of an A/B split node, for enrollments split in the range
+export interface WorkflowSplitStats {
+    node_id: string;
+    branch_id: string;
+    runs: number;
+    emails_opened: number; // Opened a workflow email sent after the split
+    deals_created: number; // Got a new deal after the split
+    goal_reached: number;
+}
+
+export interface WorkflowAnalytics {
+    summary: WorkflowRunSummary;
+    nodes: WorkflowNodeStats[];
+    splits: WorkflowSplitStats[];
+}
+
+async function fetchWorkflowAnalytics(workflowId: string, days: number): Promise<WorkflowAnalytics> {
+    const supabase = createClient();
+    const to = new Date();
+    const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+    const params = { p_workflow_id: workflowId, p_from: from.toISOString(), p_to: to.toISOString() };
+
+    const [summary, nodes, splits] = await Promise.all([
+        supabase.rpc("get_workflow_run_summary", params).single(),
+        supabase.rpc("get_workflow_node_stats", params),
+        supabase.rpc("get_workflow_split_stats", params),
+    ]);
+    if (summary.error) throw summary.error;
+    if (nodes.error) throw nodes.error;
+    if (splits.error) throw splits.error;
+    return {
+        summary: summary.data as WorkflowRunSummary,
+        nodes: (nodes.data || []) as WorkflowNodeStats[],
+        splits: (splits.data || []) as WorkflowSplitStats[],
+    };
+}
+
+/**
+ * Downloads the workflow as a portable JSON file.
+ */
+export async function downloadWorkflowExport(workflowId: string) {
+    const res = await fetch(`/api/automation/workflows/${workflowId}/export`);
+    if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to export workflow");
+    }
+    const filename = res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] || "workflow.json";
+    const url = URL.createObjectURL(await res.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
 // ============================================
 // SWR HOOKS
 // ============================================
@@ -36,6 +160,122 @@ export function useWorkflows() {
     return swr;
 }
 
+export function useWorkflowVersions(workflowId: string | undefined) {
+    return useSWR<WorkflowVersion[]>(
+        workflowId ? ["workflow-versions", workflowId] : null,
+        () => fetchWorkflowVersions(workflowId!),
+        { revalidateOnFocus: false }
+    );
+}
+
+export function useWorkflowGoalStats(workflowId: string | undefined) {
+    return useSWR<WorkflowGoalStats>(
+        workflowId ? ["workflow-goal-stats", workflowId] : null,
+        () => fetchWorkflowGoalStats(workflowId!),
+        { revalidateOnFocus: false }
+    );
+}
+
+export function useWorkflowAnalytics(workflowId: string | undefined, days: number) {
+    return useSWR<WorkflowAnalytics>(
+        workflowId ? ["workflow-analytics", workflowId, days] : null,
+        () => fetchWorkflowAnalytics(workflowId!, days),
+        { revalidateOnFocus: false }
+    );
+}
+
+export function useWorkflowRunMigrationPlan(workflowId: string | undefined) {
+    return useSWR<WorkflowRunMigrationPlan>(
+        workflowId ? ["workflow-run-migration", workflowId] : null,
+        () => fetchRunMigrationPlan(workflowId!),
+        { revalidateOnFocus: false }
+    );
+}
+
+/**
+ * The organization's workflow timezone and quiet hours, or the defaults when never saved.
+ */
+export function useWorkflowSendSettings(orgId: string | null | undefined) {
+    return useSWR<SendWindowSettings>(orgId ? ["workflow-send-settings", orgId] : null, async () => {
+        const supabase = createClient();
+        const { data, error } = await supabase
+            .from("workflow_send_settings")
+            .select("timezone, quiet_hours_enabled, quiet_hours_start, quiet_hours_end, skip_weekends")
+            .eq("organization_id", orgId!)
+            .maybeSingle();
+        if (error) throw error;
+        return { ...DEFAULT_SEND_WINDOW, ...(data || {}) };
+    });
+}
+
+export interface FailedWorkflowRun {
+    id: string;
+    workflow_id: string;
+    contact_id: string;
+    current_node_id: string | null;
+    last_error: string | null;
+    last_executed_at: string | null;
+    workflow: { name: string; nodes: { id: string; type?: string; data?: { label?: string } }[] } | null;
+    contact: { first_name: string; last_name: string | null } | null;
+}
+
+/**
+ * Most recently failed runs, for retrying them from the execution log.
+ */
+export function useFailedWorkflowRuns(limit = 20) {
+    return useSWR<FailedWorkflowRun[]>(["workflow-runs-failed", limit], async () => {
+        const supabase = createClient();
+        const { data, error } = await supabase
+            .from("workflow_runs")
+            .select("id, workflow_id, contact_id, current_node_id, last_error, last_executed_at, workflow:workflows(name, nodes), contact:contacts(first_name, last_name)")
+            .eq("status", "failed")
+            .order("last_executed_at", { ascending: false })
+            .limit(limit);
+        if (error) throw error;
+        return (data || []) as unknown as FailedWorkflowRun[];
+    });
+}
+
+/**
+ * Active workflows whose published version starts from a manual trigger, i.e. the
+ * ones contacts can be enrolled into by hand.
+ */
+export function useManualWorkflows() {
+    return useSWR<Pick<Workflow, "id" | "name">[]>("workflows-manual", async () => {
+        const supabase = createClient();
+        const { data, error } = await supabase
+            .from("workflows")
+            .select("id, name, published_version:workflow_versions!published_version_id(nodes)")
+            .eq("is_active", true)
+            .not("published_version_id", "is", null)
+            .order("name");
+        if (error) throw error;
+        return (data || [])
+            .filter((w: { published_version: unknown }) => hasManualTrigger((w.published_version as { nodes: unknown[] } | null)?.nodes))
+            .map((w: { id: string; name: string }) => ({ id: w.id, name: w.name }));
+    }, { revalidateOnFocus: false });
+}
+
+const ENROLLMENT_JOB_COLUMNS = "id, organization_id, workflow_id, created_by, status, total, processed, enrolled, skipped, failed, last_error, next_batch_at, created_at, updated_at, completed_at";
+
+/**
+ * A bulk enrollment job, polled while it is still enrolling contacts.
+ */
+export function useWorkflowEnrollmentJob(jobId: string | null | undefined) {
+    return useSWR<WorkflowEnrollmentJob>(jobId ? ["workflow-enrollment-job", jobId] : null, async () => {
+        const supabase = createClient();
+        const { data, error } = await supabase
+            .from("workflow_enrollment_jobs")
+            .select(ENROLLMENT_JOB_COLUMNS)
+            .eq("id", jobId!)
+            .single();
+        if (error) throw error;
+        return data as WorkflowEnrollmentJob;
+    }, {
+        refreshInterval: (job) => (job && !isEnrollmentJobActive(job) ? 0 : 5000),
+    });
+}
+
 // ============================================
 // MUTATION HOOKS
 // ============================================
@@ -86,3 +326,159 @@ export function useDeleteWorkflow() {
         }
     );
 }
+
+/**
+ * Snapshots the saved draft as the next immutable version and makes it the one
+ * new runs start on. Runs already in flight stay on their version.
+ */
+export function usePublishWorkflow(workflowId: string) {
+    return useSWRMutation(
+        ["workflow-versions", workflowId],
+        async () => {
+            const supabase = createClient();
+            const { data, error } = await supabase.rpc("publish_workflow", {
+                p_workflow_id: workflowId,
+            });
+            if (error) throw error;
+            return data as WorkflowVersion;
+        }
+    );
+}
+
+/**
+ * Moves active runs onto another version. Runs whose current node does not exist
+ * in the target version are moved to the node chosen in `nodeMapping`, or left alone.
+ */
+export function useMigrateWorkflowRuns(workflowId: string) {
+    return useSWRMutation(
+        ["workflow-run-migration", workflowId],
+        async (_, { arg }: { arg: { toVersionId: string; nodeMapping: Record<string, string> } }) => {
+            const res = await fetch(`/api/automation/workflows/${workflowId}/migrate`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(arg),
+            });
+            const body = await res.json();
+            if (!res.ok) throw new Error(body.error || "Failed to migrate runs");
+            return body as { migrated: number; skipped: number };
+        }
+    );
+}
+
+/**
+ * Dry-runs the builder's current graph against a contact. Nothing is sent or written.
+ */
+export function useTestWorkflow(workflowId: string) {
+    return useSWRMutation(
+        ["workflow-test-run", workflowId],
+        async (_, { arg }: { arg: { contactId: string; nodes: unknown[]; edges: unknown[]; waitOutcome: "event" | "timeout"; triggerPayload?: Record<string, unknown> } }) => {
+            const res = await fetch(`/api/automation/workflows/${workflowId}/test`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(arg),
+            });
+            const body = await res.json();
+            if (!res.ok) throw new Error(typeof body.error === "string" ? body.error : "Test run failed");
+            return body as SimulationResult;
+        }
+    );
+}
+
+/**
+ * Creates an inactive draft from a portable workflow file or gallery template,
+ * with its references mapped to records of this organization.
+ */
+export function useImportWorkflow() {
+    return useSWRMutation(
+        "workflows",
+        async (_, { arg }: { arg: { workflow: PortableWorkflow; mapping: ReferenceMapping; name?: string } }) => {
+            const res = await fetch("/api/automation/workflows/import", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(arg),
+            });
+            const body = await res.json();
+            if (!res.ok) throw new Error(typeof body.error === "string" ? body.error : "Failed to import workflow");
+            return body as { id: string; createdTemplates: number; droppedAttachments: number };
+        }
+    );
+}
+
+export function useUpdateWorkflowSendSettings(orgId: string) {
+    return useSWRMutation(
+        ["workflow-send-settings", orgId],
+        async (_, { arg }: { arg: SendWindowSettings }) => {
+            const supabase = createClient();
+            const { data, error } = await supabase
+                .from("workflow_send_settings")
+                .upsert({ organization_id: orgId, ...arg }, { onConflict: "organization_id" })
+                .select("timezone, quiet_hours_enabled, quiet_hours_start, quiet_hours_end, skip_weekends")
+                .single();
+            if (error) throw error;
+            return data as SendWindowSettings;
+        }
+    );
+}
+
+/**
+ * Retries a failed run from the node it failed on.
+ */
+export function useRetryWorkflowRun() {
+    return useSWRMutation(
+        "workflow-run-retry",
+        async (_, { arg: runId }: { arg: string }) => {
+            const res = await fetch(`/api/automation/runs/${runId}/retry`, { method: "POST" });
+            const body = await res.json();
+            if (!res.ok) throw new Error(body.error || "Failed to retry run");
+            return body.run as { id: string; status: string; current_node_id: string | null; last_error: string | null };
+        },
+        {
+            onSuccess: () => {
+                mutate((key) => Array.isArray(key) && key[0] === "workflow-runs-failed");
+            },
+        }
+    );
+}
+
+/**
+ * Starts a manually triggered workflow for the selected contacts, or for every
+ * contact matching the list filters. The first batch is enrolled before this resolves.
+ */
+export function useStartBulkEnrollment() {
+    return useSWRMutation(
+        "workflow-enrollment-start",
+        async (_, { arg }: { arg: { workflowId: string; contactIds?: string[]; isSelectAllMatching?: boolean; filters?: { search?: string; status?: string; ownerId?: string } } }) => {
+            const { workflowId, ...selection } = arg;
+            const res = await fetch(`/api/automation/workflows/${workflowId}/enroll`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(selection),
+            });
+            const body = await res.json();
+            if (!res.ok) throw new Error(typeof body.error === "string" ? body.error : "Failed to start workflow");
+            return body.job as WorkflowEnrollmentJob;
+        }
+    );
+}
+
+/**
+ * Stops a bulk enrollment. Contacts already enrolled keep running through the workflow.
+ */
+export function useCancelEnrollmentJob() {
+    return useSWRMutation(
+        "workflow-enrollment-cancel",
+        async (_, { arg: jobId }: { arg: string }) => {
+            const supabase = createClient();
+            const { data, error } = await supabase
+                .from("workflow_enrollment_jobs")
+                .update({ status: "cancelled", completed_at: new Date().toISOString() })
+                .eq("id", jobId)
+                .in("status", ["queued", "running"])
+                .select(ENROLLMENT_JOB_COLUMNS)
+                .maybeSingle();
+            if (error) throw error;
+            mutate(["workflow-enrollment-job", jobId]);
+            return data as WorkflowEnrollmentJob | null;
+        }
+    );
+}
@@ -42,7 +42,17 @@ export async function generateEmbedding(text: string, keys: AIProviderKeys): Pro
     return null;
 }
 
-export async function getAICompletion(prompt: string, keys: AIProviderKeys, systemPrompt?: string): Promise<string | null> {
+/**
+ * Returns null when the provider is not configured or the request fails. With
+ * `throwOnError` provider failures are thrown instead, so callers that retry can
+ * tell a 5xx from a bad key.
+ */
+export async function getAICompletion(
+    prompt: string,
+    keys: AIProviderKeys,
+    systemPrompt?: string,
+    options: { throwOnError?: boolean } = {}
+): Promise<string | null> {
     const provider = keys.active_provider;
 
     try {
@@ -62,6 +72,9 @@ export async function getAICompletion(prompt: string, keys: AIProviderKeys, syst
                     ],
                 }),
             });
+            if (!response.ok) {
+                throw Object.assign(new Error(`AI provider responded with HTTP ${response.status}`), { status: response.status });
+            }
             const data = await response.json();
             return data.choices?.[0]?.message?.content || null;
         }
@@ -75,6 +88,7 @@ export async function getAICompletion(prompt: string, keys: AIProviderKeys, syst
         }
     } catch (error) {
         console.error(`[AI Service] Error with ${provider}:`, error);
+        if (options.throwOnError) throw error;
     }
 
     return null;
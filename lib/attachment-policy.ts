@@ -0,0 +1,109 @@
+/**
+ * Limits and content-type rules for email attachments. Shared by the upload and send
+ * routes, inbound sync, and the composer (for early feedback; the server decides).
+ */
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+// Most SMTP servers reject messages above ~25 MB once base64 encoded
+export const MAX_TOTAL_ATTACHMENT_BYTES = 18 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 10;
+
+const ALLOWED_TYPES = new Set([
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/vnd.oasis.opendocument.text',
+    'application/vnd.oasis.opendocument.spreadsheet',
+    'application/rtf',
+    'application/zip',
+    'application/x-zip-compressed',
+    'application/json',
+    'text/plain',
+    'text/csv',
+    'text/calendar',
+    'message/rfc822',
+]);
+
+// Executables and scripts are refused whatever type they claim to be
+const BLOCKED_EXTENSIONS = new Set([
+    'exe', 'msi', 'bat', 'cmd', 'com', 'scr', 'pif', 'cpl', 'dll', 'jar', 'js', 'jse',
+    'vbs', 'vbe', 'wsf', 'wsh', 'ps1', 'psm1', 'sh', 'app', 'apk', 'dmg', 'iso', 'lnk',
+    'hta', 'html', 'htm', 'svg',
+]);
+
+export interface AttachmentCandidate {
+    name: string;
+    size: number;
+    contentType?: string | null;
+}
+
+/**
+ * A file name safe to store and send: no directories or control characters, at most
+ * 120 characters, keeping the extension.
+ */
+export function sanitizeFileName(name: string | null | undefined): string {
+    const base = (name || '').split(/[\\/]/).pop() || '';
+    const cleaned = base.replace(/[\u0000-\u001f<>:"|?*]/g, '').replace(/\s+/g, ' ').trim().replace(/^\.+/, '');
+    if (!cleaned) return 'attachment';
+    if (cleaned.length <= 120) return cleaned;
+
+    const dot = cleaned.lastIndexOf('.');
+    const extension = dot > 0 && cleaned.length - dot <= 10 ? cleaned.slice(dot) : '';
+    return cleaned.slice(0, 120 - extension.length) + extension;
+}
+
+function getExtension(name: string): string {
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+}
+
+export function isAllowedContentType(contentType: string | null | undefined, name: string): boolean {
+    if (BLOCKED_EXTENSIONS.has(getExtension(name))) return false;
+
+    const type = (contentType || '').split(';')[0].trim().toLowerCase();
+    if (type.startsWith('image/')) return type !== 'image/svg+xml';
+    if (type.startsWith('audio/') || type.startsWith('video/')) return true;
+    return ALLOWED_TYPES.has(type);
+}
+
+/**
+ * Why a file can't be attached, or null when it can.
+ */
+export function checkAttachment(file: AttachmentCandidate): string | null {
+    const name = sanitizeFileName(file.name);
+    if (file.size <= 0) return `${name} is empty`;
+    if (file.size > MAX_ATTACHMENT_BYTES) return `${name} is larger than ${formatBytes(MAX_ATTACHMENT_BYTES)}`;
+    if (!isAllowedContentType(file.contentType, name)) return `${name} is not an allowed file type`;
+    return null;
+}
+
+/**
+ * Why a set of files can't be attached to one email, or null when it can.
+ */
+export function checkAttachmentSet(files: AttachmentCandidate[]): string | null {
+    if (files.length > MAX_ATTACHMENTS) return `At most ${MAX_ATTACHMENTS} attachments per email`;
+    for (const file of files) {
+        const error = checkAttachment(file);
+        if (error) return error;
+    }
+    const total = files.reduce((sum, f) => sum + f.size, 0);
+    if (total > MAX_TOTAL_ATTACHMENT_BYTES) return `Attachments total more than ${formatBytes(MAX_TOTAL_ATTACHMENT_BYTES)}`;
+    return null;
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`;
+}
+
+/**
+ * The Storage object path for a file: grouped by organization, unique per file row.
+ */
+export function buildAttachmentPath(organizationId: string, fileId: string, name: string): string {
+    return `${organizationId}/${fileId}/${sanitizeFileName(name)}`;
+}
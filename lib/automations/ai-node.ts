@@ -0,0 +1,186 @@
+/**
+ * AI node: asks the organization's AI provider a question about the contact.
+ *
+ * The prompt is a template filled with contact, deal and recent activity data. In
+ * "generate" mode the answer is stored as a run variable (and optionally written to a
+ * contact field); in "classify" mode it is also matched against the node's categories,
+ * each of which is an output handle like the branches of a split node.
+ */
+
+import { RunContext, renderTemplate, sanitizeVariableName } from "@/lib/automations/run-context";
+
+export const AI_NODE_MODES = ['generate', 'classify'] as const;
+export type AiNodeMode = typeof AI_NODE_MODES[number];
+
+export interface AiCategory {
+    id: string; // Output handle id
+    label: string; // What the model is asked to answer with
+}
+
+// Followed when the answer matches none of the categories
+export const AI_OTHER_HANDLE = 'other';
+
+export const MIN_AI_CATEGORIES = 2;
+export const MAX_AI_CATEGORIES = 5;
+
+export const DEFAULT_AI_CATEGORIES: AiCategory[] = [
+    { id: 'yes', label: 'Yes' },
+    { id: 'no', label: 'No' },
+];
+
+export const DEFAULT_AI_VARIABLE = 'ai_output';
+
+// Contact columns the answer can be written to; anything under custom_fields is allowed too
+// Free-text fields only: status holds contact_statuses keys and can't take an AI answer
+export const AI_WRITABLE_FIELDS: { value: string; label: string }[] = [
+    { value: 'company', label: 'Company' },
+    { value: 'job_title', label: 'Job Title' },
+    { value: 'source', label: 'Source' },
+    { value: 'custom_fields', label: 'Custom Field...' },
+];
+
+export const AI_PROMPT_PLACEHOLDERS = [
+    '{{trigger.*}}',
+    '{{contact.first_name}}',
+    '{{contact.company}}',
+    '{{contact.custom_fields.plan}}',
+    '{{deal.name}}',
+    '{{deal.stage}}',
+    '{{activities}}',
+    '{{vars.ai_output}}',
+];
+
+export interface AiPromptContext extends RunContext {
+    activities: Record<string, unknown>[]; // Newest first
+}
+
+// Longest answer kept, so a runaway completion cannot bloat the run or the contact
+const MAX_OUTPUT_LENGTH = 4000;
+const MAX_PROMPT_ACTIVITIES = 10;
+
+export function getAiMode(data: Record<string, unknown>): AiNodeMode {
+    return data.mode === 'classify' ? 'classify' : 'generate';
+}
+
+/**
+ * The categories configured on a classification node, or Yes/No.
+ */
+export function getAiCategories(data: Record<string, unknown>): AiCategory[] {
+    const categories = Array.isArray(data.categories) ? data.categories as Partial<AiCategory>[] : [];
+    const valid = categories
+        .filter(c => typeof c?.id === 'string' && c.id && typeof c.label === 'string' && c.label.trim())
+        .map(c => ({ id: c.id!, label: c.label!.trim() }));
+    return valid.length >= MIN_AI_CATEGORIES ? valid : DEFAULT_AI_CATEGORIES;
+}
+
+/**
+ * A category to add to the node, with a handle id not used yet.
+ */
+export function createAiCategory(categories: AiCategory[]): AiCategory {
+    const used = new Set(categories.map(c => c.id));
+    let n = categories.length + 1;
+    while (used.has(`category-${n}`)) n++;
+    return { id: `category-${n}`, label: `Category ${n}` };
+}
+
+/**
+ * The run variable the answer is stored in: letters, digits and underscores only.
+ */
+export function getAiVariableName(data: Record<string, unknown>): string {
+    return sanitizeVariableName(data.outputVariable) || DEFAULT_AI_VARIABLE;
+}
+
+/**
+ * The contact field the answer is written to, or null. Only known columns and
+ * custom field paths are accepted.
+ */
+export function getAiTargetField(data: Record<string, unknown>): string | null {
+    const field = typeof data.writeToField === 'string' ? data.writeToField.trim() : '';
+    if (/^custom_fields\.[\w.-]+$/.test(field)) return field;
+    return AI_WRITABLE_FIELDS.some(f => f.value === field && f.value !== 'custom_fields') ? field : null;
+}
+
+/**
+ * The contact update that writes the answer to the field. Custom field paths are
+ * merged into the existing custom fields.
+ */
+export function buildContactFieldUpdate(contact: Record<string, unknown>, field: string, value: string): Record<string, unknown> {
+    if (!field.startsWith('custom_fields.')) return { [field]: value };
+
+    const path = field.split('.').slice(1);
+    const customFields = { ...((contact.custom_fields as Record<string, unknown>) || {}) };
+    let target = customFields;
+    path.slice(0, -1).forEach(key => {
+        const next = target[key];
+        target[key] = next && typeof next === 'object' && !Array.isArray(next) ? { ...(next as Record<string, unknown>) } : {};
+        target = target[key] as Record<string, unknown>;
+    });
+    target[path[path.length - 1]] = value;
+    return { custom_fields: customFields };
+}
+
+/**
+ * One line per recent activity, for the `{{activities}}` placeholder.
+ */
+export function formatActivities(activities: Record<string, unknown>[]): string {
+    if (activities.length === 0) return 'No recent activity.';
+    return activities.slice(0, MAX_PROMPT_ACTIVITIES).map(a => {
+        const date = typeof a.created_at === 'string' ? a.created_at.slice(0, 10) : '';
+        const details = [a.title, a.description].filter(Boolean).join(': ');
+        return `- ${date} ${a.type || 'activity'}${details ? ` - ${details}` : ''}`.trim();
+    }).join('\n');
+}
+
+/**
+ * Fills the prompt from the run context, plus `{{activities}}` for recent activity.
+ */
+export function fillPromptTemplate(template: string, context: AiPromptContext): string {
+    return renderTemplate(template, { ...context, activities: formatActivities(context.activities) });
+}
+
+/**
+ * The system prompt for the node. Classification asks for exactly one category.
+ */
+export function buildAiSystemPrompt(data: Record<string, unknown>): string {
+    const base = 'You are a CRM assistant helping with sales automation. Answer concisely, without preamble.';
+    if (getAiMode(data) !== 'classify') return base;
+
+    const labels = getAiCategories(data).map(c => c.label);
+    return `${base} Reply with exactly one of the following answers and nothing else: ${labels.join(', ')}.`;
+}
+
+/**
+ * Trims the model's answer to something safe to store.
+ */
+export function cleanAiOutput(output: string): string {
+    return output.trim().replace(/^["'`]+|["'`]+$/g, '').trim().slice(0, MAX_OUTPUT_LENGTH);
+}
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * The category the answer picks: an exact match, else the only category named in
+ * the answer. Null when nothing or more than one category matches.
+ */
+export function matchAiCategory(answer: string, categories: AiCategory[]): AiCategory | null {
+    const normalized = normalize(answer);
+    const exact = categories.find(c => normalize(c.label) === normalized);
+    if (exact) return exact;
+
+    const mentioned = categories.filter(c => {
+        const label = normalize(c.label);
+        return label && ` ${normalized} `.includes(` ${label} `);
+    });
+    return mentioned.length === 1 ? mentioned[0] : null;
+}
+
+/**
+ * Short description of the node for the canvas and the test run.
+ */
+export function describeAiNode(data: Record<string, unknown>): string {
+    if (getAiMode(data) === 'classify') {
+        return `Classify as ${getAiCategories(data).map(c => c.label).join(' / ')}`;
+    }
+    const target = getAiTargetField(data);
+    return `Generate {{vars.${getAiVariableName(data)}}}${target ? ` → ${target.replace(/^custom_fields\./, '')}` : ''}`;
+}
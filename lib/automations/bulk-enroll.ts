@@ -0,0 +1,51 @@
+/**
+ * Bulk enrollment: starting a workflow by hand for a selection of contacts.
+ *
+ * Only workflows whose trigger is "manual" can be started this way; that trigger
+ * never fires on its own. The selection is resolved into a job when it is created
+ * and the workflow cron enrolls it in batches, applying the workflow's re-entry
+ * rules to every contact.
+ */
+
+import type { WorkflowEnrollmentJob } from "@/types";
+
+export const MANUAL_TRIGGER = 'manual';
+
+// Contacts enrolled per batch, and the pause before the job's next batch
+export const ENROLLMENT_BATCH_SIZE = 100;
+export const ENROLLMENT_BATCH_INTERVAL_SECONDS = 60;
+
+export const MAX_BULK_ENROLL_CONTACTS = 50000;
+
+/**
+ * Whether the workflow graph starts from a manual trigger.
+ */
+export function hasManualTrigger(nodes: unknown[] | null | undefined): boolean {
+    return (nodes || []).some(node => {
+        const n = node as { type?: string; data?: { triggerType?: string } };
+        return n.type === 'trigger' && n.data?.triggerType === MANUAL_TRIGGER;
+    });
+}
+
+export function isEnrollmentJobActive(job: Pick<WorkflowEnrollmentJob, 'status'>): boolean {
+    return job.status === 'queued' || job.status === 'running';
+}
+
+/**
+ * Share of the selection processed so far, in whole percent.
+ */
+export function getEnrollmentProgress(job: Pick<WorkflowEnrollmentJob, 'processed' | 'total'>): number {
+    if (job.total <= 0) return 100;
+    return Math.min(100, Math.floor((job.processed / job.total) * 100));
+}
+
+/**
+ * One-line summary of the job ("Enrolled 120 of 500 contacts, 3 skipped").
+ */
+export function describeEnrollmentJob(job: Pick<WorkflowEnrollmentJob, 'status' | 'total' | 'enrolled' | 'skipped' | 'failed'>): string {
+    const parts = [`Enrolled ${job.enrolled} of ${job.total} contact${job.total === 1 ? '' : 's'}`];
+    if (job.skipped > 0) parts.push(`${job.skipped} skipped by re-entry rules`);
+    if (job.failed > 0) parts.push(`${job.failed} failed`);
+    if (job.status === 'cancelled') parts.push('cancelled');
+    return parts.join(', ');
+}
@@ -0,0 +1,338 @@
+/**
+ * Compound conditions for the workflow condition node.
+ *
+ * A condition node holds a tree of AND/OR groups whose leaves compare one field
+ * against a value. Fields are contact columns (`lead_score`), nested custom field
+ * paths (`custom_fields.plan.tier`), `tags`, related facts (`related.*`) that the
+ * engine loads before evaluating, run variables (`vars.*`) set by earlier nodes, or
+ * the trigger payload (`trigger.*`). Values may hold `{{path}}` placeholders, which
+ * the engine fills from the run before evaluating. Evaluation itself is pure.
+ */
+
+export type ConditionOperator =
+    | 'equals'
+    | 'not_equals'
+    | 'contains'
+    | 'not_contains'
+    | 'exists'
+    | 'not_exists'
+    | 'greater_than'
+    | 'less_than'
+    | 'between'
+    | 'has_tag'
+    | 'not_has_tag'
+    | 'before'
+    | 'after'
+    | 'older_than_days'
+    | 'within_last_days'
+    | 'is_true'
+    | 'is_false';
+
+export interface ConditionRule {
+    id: string;
+    field: string;
+    operator: ConditionOperator;
+    value?: string;
+    value2?: string; // Upper bound for "between"
+}
+
+export interface ConditionGroup {
+    id: string;
+    combinator: 'and' | 'or';
+    conditions: ConditionItem[];
+}
+
+export type ConditionItem = ConditionRule | ConditionGroup;
+
+export type ConditionFieldKind = 'text' | 'number' | 'date' | 'tags' | 'boolean' | 'pipeline' | 'custom';
+
+export interface ConditionFacts {
+    contact: Record<string, unknown>;
+    related: Record<string, unknown>; // Keyed by the part after "related."
+    vars?: Record<string, unknown>; // Run variables, keyed by the part after "vars."
+    trigger?: Record<string, unknown>; // Trigger payload, keyed by the part after "trigger."
+}
+
+// Related facts the engine knows how to load
+export const RELATED_FIELDS = {
+    openDealPipelines: 'related.open_deal_pipelines', // Pipeline ids with an open deal for the contact
+    lastCallOutcome: 'related.last_call_outcome',
+    emailOpenedInRun: 'related.email_opened_in_run',
+    hasWonDeal: 'related.has_won_deal',
+} as const;
+
+export const CONDITION_FIELDS: { value: string; label: string; kind: ConditionFieldKind }[] = [
+    { value: 'first_name', label: 'First Name', kind: 'text' },
+    { value: 'last_name', label: 'Last Name', kind: 'text' },
+    { value: 'email', label: 'Email Address', kind: 'text' },
+    { value: 'company', label: 'Company', kind: 'text' },
+    { value: 'job_title', label: 'Job Title', kind: 'text' },
+    { value: 'status', label: 'Status', kind: 'text' },
+    { value: 'source', label: 'Source', kind: 'text' },
+    { value: 'lead_score', label: 'Lead Score', kind: 'number' },
+    { value: 'tags', label: 'Tags', kind: 'tags' },
+    { value: 'created_at', label: 'Created Date', kind: 'date' },
+    { value: 'last_call_at', label: 'Last Call Date', kind: 'date' },
+    { value: 'custom_fields', label: 'Custom Field...', kind: 'custom' },
+    { value: 'vars', label: 'Run Variable...', kind: 'custom' },
+    { value: 'trigger', label: 'Trigger Data...', kind: 'custom' },
+    { value: RELATED_FIELDS.openDealPipelines, label: 'Has Open Deal In Pipeline', kind: 'pipeline' },
+    { value: RELATED_FIELDS.lastCallOutcome, label: 'Last Call Outcome', kind: 'text' },
+    { value: RELATED_FIELDS.emailOpenedInRun, label: 'Opened An Email In This Run', kind: 'boolean' },
+    { value: RELATED_FIELDS.hasWonDeal, label: 'Has A Won Deal', kind: 'boolean' },
+];
+
+export const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+    equals: 'equals',
+    not_equals: 'does not equal',
+    contains: 'contains',
+    not_contains: 'does not contain',
+    exists: 'is not empty',
+    not_exists: 'is empty',
+    greater_than: 'is greater than',
+    less_than: 'is less than',
+    between: 'is between',
+    has_tag: 'has tag',
+    not_has_tag: 'does not have tag',
+    before: 'is before',
+    after: 'is after',
+    older_than_days: 'is more than N days ago',
+    within_last_days: 'is within the last N days',
+    is_true: 'is true',
+    is_false: 'is false',
+};
+
+export const OPERATORS_BY_KIND: Record<ConditionFieldKind, ConditionOperator[]> = {
+    text: ['equals', 'not_equals', 'contains', 'not_contains', 'exists', 'not_exists'],
+    number: ['equals', 'not_equals', 'greater_than', 'less_than', 'between', 'exists', 'not_exists'],
+    date: ['older_than_days', 'within_last_days', 'before', 'after', 'exists', 'not_exists'],
+    tags: ['has_tag', 'not_has_tag', 'exists', 'not_exists'],
+    boolean: ['is_true', 'is_false'],
+    pipeline: ['contains', 'not_contains'],
+    custom: ['equals', 'not_equals', 'contains', 'not_contains', 'greater_than', 'less_than', 'between',
+        'older_than_days', 'within_last_days', 'before', 'after', 'is_true', 'is_false', 'exists', 'not_exists'],
+};
+
+// Operators that compare against nothing
+export const VALUELESS_OPERATORS: ConditionOperator[] = ['exists', 'not_exists', 'is_true', 'is_false'];
+
+export function isConditionGroup(item: ConditionItem): item is ConditionGroup {
+    return Array.isArray((item as ConditionGroup).conditions);
+}
+
+// Fields followed by a free-form path ("custom_fields.plan.tier", "vars.ai_output", "trigger.budget")
+export const PATH_FIELDS = ['custom_fields', 'vars', 'trigger'];
+
+/**
+ * The path field a rule's field belongs to, if any.
+ */
+export function getPathField(field: string): string | null {
+    return PATH_FIELDS.find(p => field === p || field.startsWith(`${p}.`)) || null;
+}
+
+export function getFieldKind(field: string): ConditionFieldKind {
+    if (getPathField(field)) return 'custom';
+    return CONDITION_FIELDS.find(f => f.value === field)?.kind || 'text';
+}
+
+/**
+ * The condition tree of a node. Nodes saved before compound conditions keep a
+ * single field/operator/value, which becomes a one-rule group.
+ */
+export function getNodeConditions(data: Record<string, unknown>): ConditionGroup {
+    if (data.conditions && isConditionGroup(data.conditions as ConditionItem)) {
+        return data.conditions as ConditionGroup;
+    }
+
+    const conditions: ConditionItem[] = data.field && data.operator
+        ? [{ id: 'legacy', field: data.field as string, operator: data.operator as ConditionOperator, value: data.value as string | undefined }]
+        : [];
+    return { id: 'root', combinator: 'and', conditions };
+}
+
+/**
+ * Every field referenced anywhere in the tree, so only the facts needed are loaded.
+ */
+export function collectConditionFields(group: ConditionGroup): string[] {
+    const fields = new Set<string>();
+    const visit = (item: ConditionItem) => {
+        if (isConditionGroup(item)) item.conditions.forEach(visit);
+        else fields.add(item.field);
+    };
+    visit(group);
+    return Array.from(fields);
+}
+
+export function resolveConditionField(facts: ConditionFacts, field: string): unknown {
+    if (field.startsWith('related.')) return facts.related[field.slice('related.'.length)];
+
+    const [root, ...rest] = field.split('.');
+    const source = root === 'vars' ? facts.vars : root === 'trigger' ? facts.trigger : facts.contact;
+    const path = root === 'vars' || root === 'trigger' ? rest : [root, ...rest];
+    return path.reduce<unknown>((value, key) => {
+        if (value && typeof value === 'object') return (value as Record<string, unknown>)[key];
+        return undefined;
+    }, source);
+}
+
+/**
+ * A copy of the tree with every rule value passed through `render` (placeholders).
+ */
+export function mapConditionValues(group: ConditionGroup, render: (value: string) => string): ConditionGroup {
+    return {
+        ...group,
+        conditions: group.conditions.map(item => isConditionGroup(item)
+            ? mapConditionValues(item, render)
+            : {
+                ...item,
+                value: item.value === undefined ? undefined : render(item.value),
+                value2: item.value2 === undefined ? undefined : render(item.value2),
+            }),
+    };
+}
+
+/**
+ * Every rule value in the tree, to check for placeholders.
+ */
+export function collectConditionValues(group: ConditionGroup): string[] {
+    const values: string[] = [];
+    const visit = (item: ConditionItem) => {
+        if (isConditionGroup(item)) item.conditions.forEach(visit);
+        else values.push(item.value ?? '', item.value2 ?? '');
+    };
+    visit(group);
+    return values;
+}
+
+const normalize = (value: unknown) => String(value ?? '').trim().toLowerCase();
+
+function isEmpty(value: unknown): boolean {
+    if (value === undefined || value === null) return true;
+    if (Array.isArray(value)) return value.length === 0;
+    return String(value).trim() === '';
+}
+
+function toNumber(value: unknown): number | null {
+    if (value === undefined || value === null || String(value).trim() === '') return null;
+    const n = Number(value);
+    return Number.isNaN(n) ? null : n;
+}
+
+function toDate(value: unknown): Date | null {
+    if (isEmpty(value)) return null;
+    const date = new Date(String(value));
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function isTruthy(value: unknown): boolean {
+    if (typeof value === 'string') return ['true', 'yes', '1'].includes(normalize(value));
+    return !!value;
+}
+
+function daysAgo(days: number, now: Date): Date {
+    return new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+export function evaluateRule(rule: ConditionRule, facts: ConditionFacts, now: Date = new Date()): boolean {
+    const actual = resolveConditionField(facts, rule.field);
+
+    switch (rule.operator) {
+        case 'equals':
+            return normalize(actual) === normalize(rule.value);
+        case 'not_equals':
+            return normalize(actual) !== normalize(rule.value);
+
+        case 'contains':
+        case 'not_contains': {
+            // Lists match by member ("any" matches a non-empty list), text by substring
+            const contains = Array.isArray(actual)
+                ? (normalize(rule.value) === 'any' ? actual.length > 0 : actual.some(item => normalize(item) === normalize(rule.value)))
+                : normalize(actual).includes(normalize(rule.value));
+            return rule.operator === 'contains' ? contains : !contains;
+        }
+
+        case 'exists':
+            return !isEmpty(actual);
+        case 'not_exists':
+            return isEmpty(actual);
+
+        case 'greater_than':
+        case 'less_than': {
+            const n = toNumber(actual);
+            const target = toNumber(rule.value);
+            if (n === null || target === null) return false;
+            return rule.operator === 'greater_than' ? n > target : n < target;
+        }
+
+        case 'between': {
+            // Inclusive; an empty bound leaves that side open
+            const n = toNumber(actual);
+            if (n === null) return false;
+            const min = toNumber(rule.value);
+            const max = toNumber(rule.value2);
+            return (min === null || n >= min) && (max === null || n <= max);
+        }
+
+        case 'has_tag':
+        case 'not_has_tag': {
+            const tags = Array.isArray(actual) ? actual : [];
+            const hasTag = tags.some(tag => normalize(tag) === normalize(rule.value));
+            return rule.operator === 'has_tag' ? hasTag : !hasTag;
+        }
+
+        case 'before':
+        case 'after': {
+            const date = toDate(actual);
+            const target = toDate(rule.value);
+            if (!date || !target) return false;
+            return rule.operator === 'before' ? date < target : date > target;
+        }
+
+        case 'older_than_days':
+        case 'within_last_days': {
+            const date = toDate(actual);
+            const days = toNumber(rule.value);
+            if (!date || days === null) return false;
+            return rule.operator === 'older_than_days' ? date < daysAgo(days, now) : date >= daysAgo(days, now);
+        }
+
+        case 'is_true':
+            return isTruthy(actual);
+        case 'is_false':
+            return !isTruthy(actual);
+
+        default:
+            return false;
+    }
+}
+
+/**
+ * AND needs every item to hold, OR at least one. An empty group holds, matching the
+ * old behaviour of sending misconfigured conditions down the "yes" path.
+ */
+export function evaluateConditionGroup(group: ConditionGroup, facts: ConditionFacts, now: Date = new Date()): boolean {
+    if (group.conditions.length === 0) return true;
+
+    const results = group.conditions.map(item =>
+        isConditionGroup(item) ? evaluateConditionGroup(item, facts, now) : evaluateRule(item, facts, now)
+    );
+    return group.combinator === 'or' ? results.some(Boolean) : results.every(Boolean);
+}
+
+/**
+ * Short human-readable form of the tree for the canvas.
+ */
+export function describeConditionGroup(group: ConditionGroup, fieldLabel: (field: string) => string = defaultFieldLabel): string {
+    const parts = group.conditions.map(item => {
+        if (isConditionGroup(item)) return `(${describeConditionGroup(item, fieldLabel)})`;
+        const value = VALUELESS_OPERATORS.includes(item.operator)
+            ? ''
+            : item.operator === 'between' ? ` ${item.value || '…'} and ${item.value2 || '…'}` : ` ${item.value ?? ''}`;
+        return `${fieldLabel(item.field)} ${OPERATOR_LABELS[item.operator] || item.operator}${value}`;
+    });
+    return parts.join(group.combinator === 'or' ? ' OR ' : ' AND ');
+}
+
+function defaultFieldLabel(field: string): string {
+    return CONDITION_FIELDS.find(f => f.value === field)?.label || field.replace(/^custom_fields\./, '');
+}
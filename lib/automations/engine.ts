@@ -1,8 +1,60 @@
 import { createClient } from '@supabase/supabase-js';
-import { Workflow, Contact } from "@/types";
-import { AIProviderKeys } from "@/lib/ai-services";
+import { randomUUID } from 'crypto';
+import { Workflow, WorkflowVersion, Contact, WorkflowTriggerType, WorkflowEventType } from "@/types";
+import { AIProviderKeys, getAICompletion } from "@/lib/ai-services";
 import { Node as RFNode, Edge } from "reactflow";
 import { sendEmail } from "@/lib/email-service";
+import { sendWebhook, WebhookConfig } from "@/lib/automations/webhook";
+import {
+    ConditionFacts,
+    ConditionGroup,
+    RELATED_FIELDS,
+    collectConditionFields,
+    collectConditionValues,
+    evaluateConditionGroup,
+    getNodeConditions,
+    isConditionGroup,
+    mapConditionValues
+} from "@/lib/automations/conditions";
+import {
+    getCustomFieldPath,
+    getDateTriggerWindow,
+    isScheduledTrigger
+} from "@/lib/automations/scheduled-triggers";
+import {
+    DEFAULT_SEND_WINDOW,
+    SendWindowSettings,
+    addDuration,
+    calculateDelayUntil,
+    formatInTimeZone,
+    isQuietTime,
+    nextSendTime,
+    resolveTimeZone
+} from "@/lib/automations/send-window";
+import { SplitBranch, getSplitBranches, pickSplitBranch } from "@/lib/automations/split";
+import { ERROR_HANDLE, getRetryDelaySeconds, getRetryPolicy, shouldRetry } from "@/lib/automations/retry-policy";
+import {
+    AI_OTHER_HANDLE,
+    buildAiSystemPrompt,
+    buildContactFieldUpdate,
+    cleanAiOutput,
+    fillPromptTemplate,
+    getAiCategories,
+    getAiMode,
+    getAiTargetField,
+    getAiVariableName,
+    matchAiCategory
+} from "@/lib/automations/ai-node";
+import {
+    RunContext,
+    getRunVariables,
+    hasPlaceholders,
+    renderTemplate,
+    sanitizeVariableName,
+    withRunVariables
+} from "@/lib/automations/run-context";
+import { buildTemplateContext } from "@/lib/template-engine";
+import { ENROLLMENT_BATCH_INTERVAL_SECONDS, ENROLLMENT_BATCH_SIZE, hasManualTrigger } from "@/lib/automations/bulk-enroll";
 
 const getSupabaseAdmin = () => createClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -17,41 +69,145 @@ export interface WorkflowRun {
     contact_id: string;
     status: 'running' | 'completed' | 'failed' | 'waiting';
     current_node_id: string | null;
+    parent_run_id: string | null;
+    branch_id: string | null;
+    workflow_version_id: string | null;
+    next_execution_at?: string | null;
+    attempts?: number;
     metadata: Record<string, unknown>;
     workflow: Workflow;
+    workflow_version?: WorkflowVersion | null;
     contact: Contact;
 }
 
-export async function processWorkflowRun(runId: string, depth = 0) {
-    if (depth > 5) return; // Prevent infinite loops
+/**
+ * Advances one branch of a workflow run.
+ *
+ * A run is positioned on `current_node_id`: while `running` that node still has to
+ * execute, while `waiting` it has executed and paused the branch (delay, merge).
+ * When a node has several outgoing edges the run follows the first one and every
+ * other edge continues in its own branch run (`parent_run_id` points at the root run).
+ * Runs execute the published version they were started on, not the builder draft.
+ *
+ * The run is leased to this worker while it executes, so the cron endpoints and
+ * inline event handling never process the same run at once. Steps are executed one
+ * at a time until the run pauses, finishes or fails; branches spawned on the way are
+ * processed afterwards in the same call.
+ */
+export async function processWorkflowRun(runId: string, options: ProcessOptions = {}) {
+    const worker = options.worker || randomUUID();
+    const queue = [runId];
 
-    // 1. Fetch Run and Workflow
-    const { data: run, error: runError } = await getSupabaseAdmin()
+    while (queue.length > 0) {
+        if (options.deadline && Date.now() > options.deadline) break; // Left for the next cron tick
+        await drainRun(queue.shift()!, worker, queue, options.deadline);
+    }
+}
+
+export interface ProcessOptions {
+    worker?: string; // Lease owner; the cron passes the id it claimed runs with
+    deadline?: number; // Epoch ms after which no new step starts
+}
+
+const LEASE_SECONDS = 300;
+
+async function drainRun(runId: string, worker: string, queue: string[], deadline?: number) {
+    let firstStep = true;
+
+    try {
+        while (!deadline || Date.now() <= deadline) {
+            // Claiming again before every step renews the lease on long chains
+            const { data: leased } = await getSupabaseAdmin().rpc('claim_workflow_run', {
+                p_run_id: runId,
+                p_worker: worker,
+                p_lease_seconds: LEASE_SECONDS
+            });
+            if (!leased) return; // Another worker holds the run
+
+            const run = await fetchRun(runId);
+            if (!run) {
+                await logExecution(null, null, 'error', 'Workflow run not found: ' + runId);
+                return;
+            }
+
+            // After the first step only keep going while the run is due to execute
+            const isDue = run.status === 'running' &&
+                (!run.next_execution_at || new Date(run.next_execution_at) <= new Date());
+            if (!firstStep && !isDue) return;
+            firstStep = false;
+
+            if (run.status === 'completed' || run.status === 'failed') return;
+            await executeStep(run, queue);
+        }
+    } finally {
+        await getSupabaseAdmin().from('workflow_runs')
+            .update({ locked_by: null, locked_until: null })
+            .eq('id', runId)
+            .eq('locked_by', worker);
+    }
+}
+
+async function fetchRun(runId: string): Promise<WorkflowRun | null> {
+    const { data: run, error } = await getSupabaseAdmin()
         .from('workflow_runs')
         .select(`
             *,
             workflow:workflows(*),
+            workflow_version:workflow_versions(*),
             contact:contacts(*)
         `)
         .eq('id', runId)
         .single();
 
-    if (runError || !run) {
-        await logExecution(null, null, 'error', 'Workflow run not found: ' + runId);
-        return;
+    if (error || !run) return null;
+    return pinToVersion(run as unknown as WorkflowRun);
+}
+
+/**
+ * Claims due runs for this invocation and processes them until the deadline.
+ * Used by both cron endpoints; leasing makes overlapping invocations safe.
+ */
+export async function processDueRuns(limit: number, timeBudgetMs: number) {
+    const worker = randomUUID();
+    const deadline = Date.now() + timeBudgetMs;
+
+    const { data: runIds, error } = await getSupabaseAdmin().rpc('claim_workflow_runs', {
+        p_worker: worker,
+        p_limit: limit,
+        p_lease_seconds: LEASE_SECONDS
+    });
+    if (error) throw error;
+
+    const claimed = (runIds || []) as string[];
+    let processed = 0;
+
+    for (const runId of claimed) {
+        if (Date.now() > deadline) break;
+        await processWorkflowRun(runId, { worker, deadline });
+        processed++;
     }
 
-    const typedRun = run as unknown as WorkflowRun;
+    // Hand back anything we claimed but did not get to
+    const unprocessed = claimed.slice(processed);
+    if (unprocessed.length > 0) {
+        await getSupabaseAdmin().from('workflow_runs')
+            .update({ locked_by: null, locked_until: null })
+            .in('id', unprocessed)
+            .eq('locked_by', worker);
+    }
 
-    if (typedRun.status === 'completed' || typedRun.status === 'failed') return;
+    return { claimed: claimed.length, processed };
+}
 
+async function executeStep(typedRun: WorkflowRun, queue: string[]) {
+    const runId = typedRun.id;
     const workflow = typedRun.workflow as Workflow;
     const nodes = workflow.nodes as RFNode[];
-    const edges = workflow.edges as Edge[];
 
-    // 2. Determine Next Node
-    let nextNodeId: string | null = null;
+    // The workflow goal ends the run before any further step once it is met
+    if (await reachGoalIfMet(typedRun)) return;
 
+    // 1. Start from the trigger, or resume a paused node
     if (!typedRun.current_node_id) {
         const triggerNode = nodes.find(n => n.type === 'trigger');
         if (!triggerNode) {
@@ -59,113 +215,640 @@ export async function processWorkflowRun(runId: string, depth = 0) {
             await markRunStatus(runId, 'failed');
             return;
         }
-        await logExecution(typedRun, triggerNode.id, 'info', `Workflow started via ${triggerNode.data.triggerType}`);
-        const edge = edges.find(e => e.source === triggerNode.id);
-        nextNodeId = edge ? edge.target : null;
-    } else {
-        const edge = edges.find(e => e.source === typedRun.current_node_id);
-        nextNodeId = edge ? edge.target : null;
-    }
-
-    if (!nextNodeId) {
-        await logExecution(run, run.current_node_id, 'info', 'Workflow completed');
-        await markRunStatus(runId, 'completed');
+        await logExecution(typedRun, triggerNode.id, 'info', `Workflow started via ${triggerNode.data.triggerType}`, { event: 'node_entered' });
+        await followEdges(typedRun, triggerNode.id, queue);
         return;
     }
 
-    const currentNode = nodes.find(n => n.id === nextNodeId);
+    const currentNode = nodes.find(n => n.id === typedRun.current_node_id);
     if (!currentNode) {
-        await logExecution(run, nextNodeId, 'error', `Node ${nextNodeId} not found`);
+        await logExecution(typedRun, typedRun.current_node_id, 'error', `Node ${typedRun.current_node_id} not found`);
         await markRunStatus(runId, 'failed');
+        await releaseMerges(typedRun, queue);
+        return;
+    }
+
+    if (typedRun.status === 'waiting') {
+        if (currentNode.type === 'merge' && !(await claimMerge(typedRun, currentNode))) {
+            // Still waiting for other branches; park again so the queue stops claiming it
+            await markRunStatus(runId, 'waiting', { next_execution_at: null });
+            return;
+        }
+        if (currentNode.type === 'wait_event') {
+            await finishWait(typedRun, currentNode, queue);
+            return;
+        }
+        await followEdges(typedRun, currentNode.id, queue);
         return;
     }
 
-    // 3. Execute Node Logic
+    // 2. Execute Node Logic
     try {
-        await logExecution(run, nextNodeId, 'info', `Executing node type: ${currentNode.type}`);
+        await logExecution(typedRun, currentNode.id, 'info', `Executing node type: ${currentNode.type}`, { event: 'node_entered' });
 
         switch (currentNode.type) {
             case 'email':
-                await executeEmailAction(run, currentNode);
-                await advanceWorkflow(runId, nextNodeId, depth + 1);
+                if (await holdForQuietHours(typedRun, currentNode)) break;
+                await runOnce(typedRun, currentNode, () => executeEmailAction(typedRun, currentNode));
+                await followEdges(typedRun, currentNode.id, queue);
                 break;
 
             case 'delay':
-                const delayUntil = calculateDelay(currentNode.data);
-                await logExecution(run, nextNodeId, 'info', `Delaying execution until ${delayUntil.toLocaleString()}`);
+                const { until: delayUntil, timeZone } = await calculateRunDelay(typedRun, currentNode.data);
+                await logExecution(typedRun, currentNode.id, 'info', `Delaying execution until ${formatInTimeZone(delayUntil, timeZone)}`);
                 await markRunStatus(runId, 'waiting', {
-                    current_node_id: nextNodeId,
                     next_execution_at: delayUntil.toISOString()
                 });
                 break;
 
             case 'condition':
-                const branch = await evaluateCondition(run, currentNode);
-                await logExecution(run, nextNodeId, 'info', `Condition evaluated to: ${branch}`);
-                const branchEdge = edges.find(e => e.source === nextNodeId && e.sourceHandle === branch);
-                if (branchEdge) {
-                    await advanceWorkflow(runId, branchEdge.target, depth + 1);
+                const branch = await evaluateCondition(typedRun, currentNode);
+                await logExecution(typedRun, currentNode.id, 'info', `Condition evaluated to: ${branch}`, { branch: branch === 'true' ? 'yes' : 'no' });
+                // Condition nodes expose "yes"/"no" handles; "true"/"false" is kept for older graphs
+                await followEdges(typedRun, currentNode.id, queue, branch === 'true' ? ['yes', 'true'] : ['no', 'false']);
+                break;
+
+            case 'split': {
+                const splitBranch = await assignSplitBranch(typedRun, currentNode);
+                await logExecution(typedRun, currentNode.id, 'info', `Split assigned branch ${splitBranch.label}`, { branch: splitBranch.id });
+                await followEdges(typedRun, currentNode.id, queue, [splitBranch.id]);
+                break;
+            }
+
+            case 'merge':
+                // Park this branch; the last parallel branch to arrive continues past the merge
+                await markRunStatus(runId, 'waiting', { next_execution_at: null });
+                if (await claimMerge(typedRun, currentNode)) {
+                    await followEdges(typedRun, currentNode.id, queue);
                 } else {
-                    await logExecution(run, nextNodeId, 'info', `No path found for branch ${branch}, completing workflow`);
-                    await markRunStatus(runId, 'completed');
+                    await logExecution(typedRun, currentNode.id, 'info', 'Waiting for parallel branches before merging');
                 }
                 break;
 
+            case 'wait_event':
+                await startWait(typedRun, currentNode, queue);
+                break;
+
+            case 'ai': {
+                await runOnce(typedRun, currentNode, () => executeAiNode(typedRun, currentNode));
+                if (getAiMode(currentNode.data) !== 'classify') {
+                    await followEdges(typedRun, currentNode.id, queue);
+                    break;
+                }
+                // The answer is read back from the run, so a skipped re-run branches the same way
+                const answer = String(getRunVariables(typedRun.metadata)[getAiVariableName(currentNode.data)] ?? '');
+                const category = matchAiCategory(answer, getAiCategories(currentNode.data));
+                await logExecution(typedRun, currentNode.id, 'info', category
+                    ? `AI classified the contact as ${category.label}`
+                    : `AI answer "${answer.slice(0, 100)}" matched no category`, { branch: category?.id || AI_OTHER_HANDLE });
+                await followEdges(typedRun, currentNode.id, queue, [category?.id || AI_OTHER_HANDLE]);
+                break;
+            }
+
             case 'action':
-                await executeGeneralAction(run, currentNode);
-                await advanceWorkflow(runId, nextNodeId, depth + 1);
+                await runOnce(typedRun, currentNode, () => executeGeneralAction(typedRun, currentNode));
+                await followEdges(typedRun, currentNode.id, queue);
                 break;
 
             default:
-                await advanceWorkflow(runId, nextNodeId, depth + 1);
+                await followEdges(typedRun, currentNode.id, queue);
                 break;
         }
     } catch (err: unknown) {
         const errorMessage = err instanceof Error ? err.message : String(err);
-        await logExecution(run, nextNodeId, 'error', `Execution failed: ${errorMessage}`);
-        await markRunStatus(runId, 'failed', { metadata: { ...run.metadata, error: errorMessage } });
+        const attempts = (typedRun.attempts || 0) + 1;
+        const policy = getRetryPolicy(currentNode.data);
+
+        // Retry the same node with backoff before giving up on it
+        if (shouldRetry(policy, attempts, err)) {
+            const retryAt = new Date(Date.now() + getRetryDelaySeconds(policy, attempts) * 1000);
+            await logExecution(typedRun, currentNode.id, 'warn', `Execution failed: ${errorMessage}. Retrying at ${retryAt.toLocaleString()} (attempt ${attempts + 1} of ${policy.retries + 1})`);
+            await markRunStatus(runId, 'running', {
+                attempts,
+                last_error: errorMessage,
+                next_execution_at: retryAt.toISOString()
+            });
+            return;
+        }
+
+        // A connected "error" handle catches the failure instead of ending the run
+        if (hasErrorPath(typedRun, currentNode.id)) {
+            await logExecution(typedRun, currentNode.id, 'error', `Execution failed: ${errorMessage}. Continuing on the error path`, { branch: ERROR_HANDLE });
+            typedRun.metadata = { ...typedRun.metadata, error: errorMessage, error_node_id: currentNode.id };
+            await getSupabaseAdmin().from('workflow_runs').update({ metadata: typedRun.metadata }).eq('id', runId);
+            await followEdges(typedRun, currentNode.id, queue, [ERROR_HANDLE]);
+            return;
+        }
+
+        await logExecution(typedRun, currentNode.id, 'error', `Execution failed: ${errorMessage}`);
+        await markRunStatus(runId, 'failed', { attempts, last_error: errorMessage, metadata: { ...typedRun.metadata, error: errorMessage } });
+        await releaseMerges(typedRun, queue);
+    }
+}
+
+/**
+ * Executes a side-effecting node at most once per run. A step that completed but
+ * whose run did not get to move on (crash, lost lease) is skipped when retried.
+ */
+async function runOnce(run: WorkflowRun, node: RFNode, execute: () => Promise<void>) {
+    const { data: done } = await getSupabaseAdmin()
+        .from('workflow_step_executions')
+        .select('id')
+        .eq('run_id', run.id)
+        .eq('node_id', node.id)
+        .maybeSingle();
+
+    if (done) {
+        await logExecution(run, node.id, 'info', 'Step already completed, skipping');
+        return;
+    }
+
+    await execute();
+
+    await getSupabaseAdmin().from('workflow_step_executions').upsert({
+        organization_id: run.organization_id,
+        run_id: run.id,
+        node_id: node.id
+    }, { onConflict: 'run_id,node_id', ignoreDuplicates: true });
+}
+
+/**
+ * Moves the run along the outgoing edges of a node (optionally only those leaving
+ * one of the given handles). No edge completes the branch; extra edges fan out.
+ * The "error" handle is only followed when asked for explicitly.
+ */
+async function followEdges(run: WorkflowRun, nodeId: string, queue: string[], handles?: string[]) {
+    const edges = run.workflow.edges as Edge[];
+    const outgoing = edges.filter(e =>
+        e.source === nodeId && (handles
+            ? handles.includes(e.sourceHandle ?? '')
+            : e.sourceHandle !== ERROR_HANDLE)
+    );
+
+    if (outgoing.length === 0) {
+        await logExecution(run, nodeId, 'info', run.parent_run_id ? 'Branch completed' : 'Workflow completed');
+        await markRunStatus(run.id, 'completed');
+        await releaseMerges(run, queue);
+        return;
     }
+
+    const [first, ...rest] = outgoing;
+    const branchRunIds: string[] = [];
+
+    for (const edge of rest) {
+        const branchRunId = await spawnBranch(run, edge);
+        if (branchRunId) branchRunIds.push(branchRunId);
+    }
+
+    if (rest.length > 0) {
+        await logExecution(run, nodeId, 'info', `Forked into ${outgoing.length} parallel branches`);
+    }
+
+    await advanceWorkflow(run.id, first.target);
+
+    // Branches continue in this call once the current run pauses or finishes
+    queue.push(...branchRunIds);
+}
+
+function hasErrorPath(run: WorkflowRun, nodeId: string): boolean {
+    return (run.workflow.edges as Edge[]).some(e => e.source === nodeId && e.sourceHandle === ERROR_HANDLE);
+}
+
+/**
+ * Puts a failed run back on the node it failed on and executes it from there.
+ * Steps that already completed are not repeated. Parallel branches that were
+ * waiting for it at a merge were released when it failed and are not held again.
+ */
+export async function retryFailedRun(runId: string): Promise<boolean> {
+    const { data: failed } = await getSupabaseAdmin()
+        .from('workflow_runs')
+        .select('id, metadata')
+        .eq('id', runId)
+        .eq('status', 'failed')
+        .maybeSingle();
+    if (!failed) return false;
+
+    const metadata = { ...(failed.metadata || {}) };
+    delete metadata.error;
+
+    const { data: run } = await getSupabaseAdmin()
+        .from('workflow_runs')
+        .update({
+            status: 'running',
+            attempts: 0,
+            last_error: null,
+            metadata,
+            next_execution_at: new Date().toISOString()
+        })
+        .eq('id', runId)
+        .eq('status', 'failed')
+        .select('id, organization_id, workflow_id, current_node_id')
+        .maybeSingle();
+    if (!run) return false; // Retried by someone else in the meantime
+
+    await logExecution(run as WorkflowRun, run.current_node_id, 'info', 'Retrying from the failed node');
+    await processWorkflowRun(runId);
+    return true;
+}
+
+/**
+ * Swaps the draft graph on the run's workflow for the snapshot of its pinned version.
+ * Runs started before versioning have no version and keep using the workflow graph.
+ */
+function pinToVersion(run: WorkflowRun): WorkflowRun {
+    if (!run.workflow_version) return run;
+    return {
+        ...run,
+        workflow: { ...run.workflow, nodes: run.workflow_version.nodes, edges: run.workflow_version.edges }
+    };
 }
 
-async function logExecution(run: WorkflowRun | null, nodeId: string | null, level: string, message: string) {
+async function spawnBranch(run: WorkflowRun, edge: Edge): Promise<string | null> {
+    const { data: branchRun, error } = await getSupabaseAdmin()
+        .from('workflow_runs')
+        .insert({
+            organization_id: run.organization_id,
+            workflow_id: run.workflow_id,
+            contact_id: run.contact_id,
+            status: 'running',
+            current_node_id: edge.target,
+            parent_run_id: run.parent_run_id || run.id,
+            branch_id: edge.id,
+            workflow_version_id: run.workflow_version_id,
+            metadata: run.metadata
+        })
+        .select()
+        .single();
+
+    if (error || !branchRun) {
+        await logExecution(run, edge.source, 'error', `Failed to start parallel branch to ${edge.target}: ${error?.message}`);
+        return null;
+    }
+
+    await logExecution({ ...run, id: branchRun.id }, edge.source, 'info', `Branch started from node ${edge.source}`);
+    return branchRun.id;
+}
+
+/**
+ * The branch of a split node this enrollment goes down. It is drawn once per root
+ * run and stored, so a retried step or a parallel branch reaching the same split
+ * gets the same answer. The choice is also kept in the run's metadata.
+ */
+async function assignSplitBranch(run: WorkflowRun, node: RFNode): Promise<SplitBranch> {
+    const branches = getSplitBranches(node.data);
+    const rootRunId = run.parent_run_id || run.id;
+
+    const { data: existing } = await getSupabaseAdmin()
+        .from('workflow_split_assignments')
+        .select('branch_id')
+        .eq('run_id', rootRunId)
+        .eq('node_id', node.id)
+        .maybeSingle();
+
+    let branch: SplitBranch;
+
+    if (existing) {
+        // Versions are immutable, so the stored branch only goes missing on unversioned runs
+        branch = branches.find(b => b.id === existing.branch_id) || pickSplitBranch(branches);
+    } else {
+        branch = pickSplitBranch(branches);
+        const { error } = await getSupabaseAdmin().from('workflow_split_assignments').insert({
+            organization_id: run.organization_id,
+            workflow_id: run.workflow_id,
+            run_id: rootRunId,
+            contact_id: run.contact_id,
+            node_id: node.id,
+            branch_id: branch.id
+        });
+        // Lost a race with a parallel branch: go the way it went
+        if (error?.code === '23505') return assignSplitBranch(run, node);
+        if (error) throw error;
+    }
+
+    const splitBranches = { ...((run.metadata?.split_branches as Record<string, string>) || {}), [node.id]: branch.id };
+    run.metadata = { ...run.metadata, split_branches: splitBranches };
+    await getSupabaseAdmin().from('workflow_runs').update({ metadata: run.metadata }).eq('id', run.id);
+
+    return branch;
+}
+
+interface WaitingFor {
+    event: WorkflowEventType;
+    since: string;
+    stage?: string;
+    tag?: string;
+}
+
+/**
+ * "Wait for event" node: parks the branch until the event happens for the contact
+ * (leaving through the "event" handle) or the timeout elapses ("timeout" handle).
+ */
+async function startWait(run: WorkflowRun, node: RFNode, queue: string[]) {
+    const waitingFor: WaitingFor = {
+        event: (node.data.eventType as WorkflowEventType) || 'email_opened',
+        since: new Date().toISOString(),
+        stage: node.data.stage as string | undefined,
+        tag: node.data.tag as string | undefined
+    };
+
+    // The event may already have happened before the run got here
+    if (await isWaitAlreadySatisfied(run, waitingFor)) {
+        await logExecution(run, node.id, 'info', `Event ${waitingFor.event} already occurred, continuing`);
+        await followEdges(run, node.id, queue, ['event']);
+        return;
+    }
+
+    const timeoutDays = Number(node.data.timeoutDays) || 3;
+    const timeoutAt = new Date();
+    timeoutAt.setDate(timeoutAt.getDate() + timeoutDays);
+
+    await logExecution(run, node.id, 'info', `Waiting for ${waitingFor.event} until ${timeoutAt.toLocaleString()}`);
+    await markRunStatus(run.id, 'waiting', {
+        next_execution_at: timeoutAt.toISOString(),
+        metadata: { ...run.metadata, waiting_for: waitingFor, wait_outcome: null }
+    });
+}
+
+async function finishWait(run: WorkflowRun, node: RFNode, queue: string[]) {
+    const outcome = run.metadata?.wait_outcome === 'event' ? 'event' : 'timeout';
+    const metadata = { ...run.metadata };
+    delete metadata.waiting_for;
+    delete metadata.wait_outcome;
+    run.metadata = metadata;
+
+    await getSupabaseAdmin().from('workflow_runs').update({ metadata }).eq('id', run.id);
+    await logExecution(run, node.id, 'info', outcome === 'event' ? 'Awaited event occurred' : 'Timed out waiting for event', { branch: outcome });
+    await followEdges(run, node.id, queue, [outcome]);
+}
+
+async function isWaitAlreadySatisfied(run: WorkflowRun, waitingFor: WaitingFor): Promise<boolean> {
+    const admin = getSupabaseAdmin();
+
+    if (waitingFor.event === 'tag_added' && waitingFor.tag) {
+        return (run.contact.tags || []).includes(waitingFor.tag);
+    }
+
+    if (waitingFor.event === 'deal_stage_changed' && waitingFor.stage) {
+        const { count } = await admin
+            .from('deals')
+            .select('id', { count: 'exact', head: true })
+            .eq('contact_id', run.contact_id)
+            .eq('stage', waitingFor.stage);
+        return (count || 0) > 0;
+    }
+
+    if (waitingFor.event === 'email_opened') {
+        const { count } = await admin
+            .from('emails')
+            .select('id', { count: 'exact', head: true })
+            .eq('workflow_run_id', run.parent_run_id || run.id)
+            .not('opened_at', 'is', null);
+        return (count || 0) > 0;
+    }
+
+    return false;
+}
+
+function matchesWait(waitingFor: WaitingFor, run: WorkflowRun, payload: Record<string, unknown>): boolean {
+    const occurredAt = (payload.occurredAt as string) || new Date().toISOString();
+    if (new Date(occurredAt) < new Date(waitingFor.since)) return false;
+
+    switch (waitingFor.event) {
+        case 'email_opened':
+            // Only emails sent by this run (any of its branches) count
+            return payload.workflowRunId === (run.parent_run_id || run.id);
+        case 'deal_stage_changed':
+            return !waitingFor.stage || waitingFor.stage === payload.toStage;
+        case 'tag_added':
+            return !waitingFor.tag || waitingFor.tag.toLowerCase() === String(payload.tag ?? '').toLowerCase();
+        default:
+            return true;
+    }
+}
+
+/**
+ * Resumes the contact's runs parked on a "Wait for event" node for this event.
+ */
+export async function resumeWaitingRuns(eventType: WorkflowEventType, organizationId: string, payload: { contactId: string; [key: string]: unknown }) {
+    const { data: runs } = await getSupabaseAdmin()
+        .from('workflow_runs')
+        .select('*, workflow:workflows(*), workflow_version:workflow_versions(*), contact:contacts(*)')
+        .eq('organization_id', organizationId)
+        .eq('contact_id', payload.contactId)
+        .eq('status', 'waiting');
+
+    for (const run of ((runs || []) as WorkflowRun[]).map(pinToVersion)) {
+        const waitingFor = run.metadata?.waiting_for as WaitingFor | undefined;
+        if (!waitingFor || waitingFor.event !== eventType || !matchesWait(waitingFor, run, payload)) continue;
+
+        await getSupabaseAdmin().from('workflow_runs').update({
+            metadata: { ...run.metadata, wait_outcome: 'event' },
+            next_execution_at: new Date().toISOString()
+        }).eq('id', run.id);
+
+        await processWorkflowRun(run.id);
+    }
+}
+
+/**
+ * Inbound mail from a contact counts as a reply for runs waiting on email_replied.
+ */
+export async function handleInboundEmail(organizationId: string, fromAddress: string, receivedAt: string) {
+    if (!fromAddress) return;
+
+    const { data: contacts } = await getSupabaseAdmin()
+        .from('contacts')
+        .select('id')
+        .eq('organization_id', organizationId)
+        .ilike('email', fromAddress);
+
+    for (const contact of contacts || []) {
+        await resumeWaitingRuns('email_replied', organizationId, { contactId: contact.id, occurredAt: receivedAt });
+    }
+}
+
+/**
+ * Loads the active branch runs (root and children) of the run's family.
+ */
+async function fetchActiveBranches(run: WorkflowRun) {
+    const rootId = run.parent_run_id || run.id;
+    const { data } = await getSupabaseAdmin()
+        .from('workflow_runs')
+        .select('id, status, current_node_id')
+        .or(`id.eq.${rootId},parent_run_id.eq.${rootId}`)
+        .in('status', ['running', 'waiting']);
+
+    return (data || []) as { id: string; status: string; current_node_id: string | null }[];
+}
+
+/**
+ * Join semantics: a merge node lets one branch through once every other active
+ * branch has either reached a merge or finished. The branches already waiting at
+ * this merge are completed into the one that continues. The claim locks the root
+ * run, so branches arriving together can't both continue.
+ */
+async function claimMerge(run: WorkflowRun, node: RFNode): Promise<boolean> {
+    const mergeNodeIds = (run.workflow.nodes as RFNode[]).filter(n => n.type === 'merge').map(n => n.id);
+    const { data: merged, error } = await getSupabaseAdmin().rpc('claim_workflow_merge', {
+        p_run_id: run.id,
+        p_node_id: node.id,
+        p_merge_node_ids: mergeNodeIds
+    });
+    if (error) throw new Error(`Failed to claim merge: ${error.message}`);
+    if (merged === null || merged === undefined) return false;
+
+    if (merged > 0) {
+        await logExecution(run, node.id, 'info', `Merged ${merged + 1} branches`);
+    }
+    return true;
+}
+
+/**
+ * Called when a branch ends without reaching a merge: if that was the last branch
+ * a merge was waiting on, resume one of the branches parked there. The branch is made
+ * due in the database too, so the queue resumes it if this call stops before it does.
+ */
+async function releaseMerges(run: WorkflowRun, queue: string[]) {
+    const mergeNodeIds = new Set((run.workflow.nodes as RFNode[]).filter(n => n.type === 'merge').map(n => n.id));
+    if (mergeNodeIds.size === 0) return;
+
+    const branches = await fetchActiveBranches(run);
+    const parked = branches.filter(b => b.status === 'waiting' && mergeNodeIds.has(b.current_node_id || ''));
+
+    if (parked.length > 0 && parked.length === branches.length) {
+        await getSupabaseAdmin().from('workflow_runs')
+            .update({ next_execution_at: new Date().toISOString() })
+            .eq('id', parked[0].id)
+            .eq('status', 'waiting');
+        queue.push(parked[0].id);
+    }
+}
+
+/**
+ * Ends the run (every active branch) when the workflow goal holds for the contact.
+ */
+async function reachGoalIfMet(run: WorkflowRun): Promise<boolean> {
+    const goal = run.workflow.goal as ConditionGroup | null | undefined;
+    if (!goal || !isConditionGroup(goal) || goal.conditions.length === 0) return false;
+
+    const facts: ConditionFacts = {
+        contact: run.contact as unknown as Record<string, unknown>,
+        related: await loadRelatedFacts(run, collectConditionFields(goal))
+    };
+    if (!evaluateConditionGroup(goal, facts)) return false;
+
+    const rootId = run.parent_run_id || run.id;
+    const now = new Date().toISOString();
+    await getSupabaseAdmin().from('workflow_runs').update({
+        status: 'completed',
+        exit_reason: 'goal_reached',
+        goal_reached_at: now,
+        next_execution_at: null,
+        last_executed_at: now
+    }).or(`id.eq.${rootId},parent_run_id.eq.${rootId}`).in('status', ['running', 'waiting']);
+
+    // Conversions are counted on the root run, which may have finished before its branches
+    await getSupabaseAdmin().from('workflow_runs')
+        .update({ exit_reason: 'goal_reached', goal_reached_at: now })
+        .eq('id', rootId)
+        .is('goal_reached_at', null);
+
+    await logExecution({ ...run, id: rootId }, run.current_node_id, 'info', 'Goal reached, run ended');
+    return true;
+}
+
+/**
+ * Checks the goals of the contact's active runs right after something happened to
+ * the contact, instead of waiting for each run's next step.
+ */
+export async function checkRunGoals(organizationId: string, contactId: string) {
+    const { data: runs } = await getSupabaseAdmin()
+        .from('workflow_runs')
+        .select('*, workflow:workflows(*), contact:contacts(*)')
+        .eq('organization_id', organizationId)
+        .eq('contact_id', contactId)
+        .is('parent_run_id', null)
+        .in('status', ['running', 'waiting']);
+
+    for (const run of (runs || []) as WorkflowRun[]) {
+        if (run.workflow?.goal) await reachGoalIfMet(run);
+    }
+}
+
+// `data.event` and `data.branch` feed the per-node analytics (get_workflow_node_stats)
+async function logExecution(run: WorkflowRun | null, nodeId: string | null, level: string, message: string, data: Record<string, unknown> = {}) {
     await getSupabaseAdmin().from('workflow_logs').insert({
         organization_id: run?.organization_id,
         workflow_id: run?.workflow_id,
         run_id: run?.id,
         node_id: nodeId,
         level,
-        message
+        message,
+        data
     });
 }
 
+// Status updates never bring a finished run back (a goal may end it mid-step)
 async function markRunStatus(runId: string, status: string, updates: Record<string, unknown> = {}) {
     await getSupabaseAdmin().from('workflow_runs').update({
         status,
         ...updates,
         last_executed_at: new Date().toISOString()
-    }).eq('id', runId);
+    }).eq('id', runId).in('status', ['running', 'waiting']);
 }
 
-async function advanceWorkflow(runId: string, nodeId: string, depth: number) {
+async function advanceWorkflow(runId: string, nodeId: string) {
     await getSupabaseAdmin().from('workflow_runs').update({
         current_node_id: nodeId,
         status: 'running',
+        attempts: 0,
+        last_error: null,
         next_execution_at: new Date().toISOString()
-    }).eq('id', runId);
+    }).eq('id', runId).in('status', ['running', 'waiting']);
+}
+
+export function calculateDelay(data: Record<string, unknown>): Date {
+    return addDuration(new Date(), data);
+}
+
+export async function getSendWindowSettings(organizationId: string): Promise<SendWindowSettings> {
+    const { data } = await getSupabaseAdmin()
+        .from('workflow_send_settings')
+        .select('timezone, quiet_hours_enabled, quiet_hours_start, quiet_hours_end, skip_weekends')
+        .eq('organization_id', organizationId)
+        .maybeSingle();
+    return { ...DEFAULT_SEND_WINDOW, ...(data || {}) };
+}
 
-    await processWorkflowRun(runId, depth);
+/**
+ * When a delay node releases the run, in the contact's timezone and respecting the
+ * organization's quiet hours when the node asks for it.
+ */
+export async function calculateRunDelay(run: WorkflowRun, data: Record<string, unknown>, now: Date = new Date()) {
+    const settings = await getSendWindowSettings(run.organization_id);
+    const timeZone = resolveTimeZone(run.contact?.timezone, settings);
+    return { until: calculateDelayUntil(data, now, timeZone, settings), timeZone };
 }
 
-function calculateDelay(data: Record<string, unknown>): Date {
-    const duration = parseInt((data.duration as string) || '0');
-    const unit = (data.unit as string) || 'days';
-    const date = new Date();
+/**
+ * When an email reached during quiet hours or on a skipped weekend may go out, in
+ * the contact's timezone; null when it can be sent now.
+ */
+export async function getQuietHoursRelease(run: WorkflowRun, now: Date = new Date()) {
+    const settings = await getSendWindowSettings(run.organization_id);
+    const timeZone = resolveTimeZone(run.contact?.timezone, settings);
+    if (!isQuietTime(now, settings, timeZone)) return null;
+    return { until: nextSendTime(now, settings, timeZone), timeZone };
+}
 
-    if (unit === 'minutes') date.setMinutes(date.getMinutes() + duration);
-    else if (unit === 'hours') date.setHours(date.getHours() + duration);
-    else if (unit === 'days') date.setDate(date.getDate() + duration);
+// Keeps the run on the email node until quiet hours end; the node executes then
+async function holdForQuietHours(run: WorkflowRun, node: RFNode): Promise<boolean> {
+    const release = await getQuietHoursRelease(run);
+    if (!release) return false;
 
-    return date;
+    await logExecution(run, node.id, 'info', `Quiet hours for the contact, holding email until ${formatInTimeZone(release.until, release.timeZone)}`);
+    await markRunStatus(run.id, 'running', { next_execution_at: release.until.toISOString() });
+    return true;
 }
 
 async function executeEmailAction(run: WorkflowRun, node: RFNode) {
@@ -178,30 +861,186 @@ async function executeEmailAction(run: WorkflowRun, node: RFNode) {
     // Using the same logic as the existing API route but cleaned up
     // Assuming sendEmail in lib/email-service handles the SMTP lookup internally
     // If not, we'd replicate the smtp lookup here.
-    await sendEmail({
+    const result = await sendEmail({
         to: contact.email,
         templateId,
         organizationId: run.organization_id,
-        variables: {
-            first_name: contact.first_name,
-            last_name: contact.last_name || ''
-        }
+        contactId: run.contact_id,
+        workflowRunId: run.parent_run_id || run.id,
+        context: buildTemplateContext({ ...(await loadRunContext(run)) }),
+        marketing: true
     });
+
+    // Opted-out contacts continue through the workflow without the email
+    if (result.suppressed) {
+        await logExecution(run, node.id, 'info', `Email skipped: ${contact.email} has unsubscribed`);
+    }
+}
+
+export async function evaluateCondition(run: WorkflowRun, node: RFNode): Promise<'true' | 'false'> {
+    let group = getNodeConditions(node.data || {});
+
+    // Values such as "{{trigger.budget}}" are filled in from the run first
+    if (hasPlaceholders(...collectConditionValues(group))) {
+        const context = { ...(await loadRunContext(run)) };
+        group = mapConditionValues(group, value => renderTemplate(value, context));
+    }
+
+    const facts: ConditionFacts = {
+        contact: run.contact as unknown as Record<string, unknown>,
+        related: await loadRelatedFacts(run, collectConditionFields(group)),
+        vars: getRunVariables(run.metadata),
+        trigger: (run.metadata?.trigger_payload || {}) as Record<string, unknown>
+    };
+
+    return evaluateConditionGroup(group, facts) ? 'true' : 'false';
 }
 
-async function evaluateCondition(run: WorkflowRun, node: RFNode): Promise<'true' | 'false'> {
-    const { field, operator, value } = node.data;
-    if (!field || !operator) return 'true'; // Default path if misconfigured
+// Stage ids like "closed-won" / "closed_lost" mark a deal as no longer open
+const CLOSED_STAGE = /^closed[-_]/i;
+const WON_STAGE = /^closed[-_]won$/i;
 
-    const contactValue = (run.contact as unknown as Record<string, unknown>)[field as string];
+/**
+ * Loads only the related records the condition tree refers to.
+ */
+async function loadRelatedFacts(run: WorkflowRun, fields: string[]): Promise<Record<string, unknown>> {
+    const admin = getSupabaseAdmin();
+    const related: Record<string, unknown> = {};
 
-    switch (operator) {
-        case 'equals': return String(contactValue).trim().toLowerCase() === String(value).trim().toLowerCase() ? 'true' : 'false';
-        case 'contains': return String(contactValue).toLowerCase().includes(String(value).toLowerCase()) ? 'true' : 'false';
-        case 'exists': return !!contactValue ? 'true' : 'false';
-        case 'greater_than': return Number(contactValue) > Number(value) ? 'true' : 'false';
-        case 'less_than': return Number(contactValue) < Number(value) ? 'true' : 'false';
-        default: return 'true';
+    if (fields.includes(RELATED_FIELDS.openDealPipelines) || fields.includes(RELATED_FIELDS.hasWonDeal)) {
+        const { data: deals } = await admin
+            .from('deals')
+            .select('pipeline_id, stage')
+            .eq('contact_id', run.contact_id);
+        related.open_deal_pipelines = Array.from(new Set(
+            (deals || []).filter(d => !CLOSED_STAGE.test(d.stage || '')).map(d => d.pipeline_id)
+        ));
+        related.has_won_deal = (deals || []).some(d => WON_STAGE.test(d.stage || ''));
+    }
+
+    if (fields.includes(RELATED_FIELDS.lastCallOutcome)) {
+        const { data: calls } = await admin
+            .from('call_logs')
+            .select('outcome, status')
+            .eq('contact_id', run.contact_id)
+            .order('started_at', { ascending: false })
+            .limit(1);
+        related.last_call_outcome = calls?.[0]?.outcome || calls?.[0]?.status || null;
+    }
+
+    // Test runs have no emails of their own
+    if (fields.includes(RELATED_FIELDS.emailOpenedInRun) && !run.metadata?.dry_run) {
+        const { count } = await admin
+            .from('emails')
+            .select('id', { count: 'exact', head: true })
+            .eq('workflow_run_id', run.parent_run_id || run.id)
+            .not('opened_at', 'is', null);
+        related.email_opened_in_run = (count || 0) > 0;
+    }
+
+    return related;
+}
+
+/**
+ * What the run's templates can refer to: the trigger payload, the contact, the deal
+ * that fired the trigger (else the contact's most recent one) and the run variables.
+ */
+export async function loadRunContext(run: WorkflowRun): Promise<RunContext> {
+    const triggerPayload = (run.metadata?.trigger_payload || {}) as Record<string, unknown>;
+
+    let deal = await loadTriggerDeal(run);
+    if (!deal) {
+        const { data: deals } = await getSupabaseAdmin()
+            .from('deals')
+            .select('*')
+            .eq('organization_id', run.organization_id)
+            .eq('contact_id', run.contact_id)
+            .order('created_at', { ascending: false })
+            .limit(1);
+        deal = deals?.[0] || null;
+    }
+
+    const { data: owner } = run.contact.owner_id
+        ? await getSupabaseAdmin().from('profiles').select('id, full_name, email, phone').eq('id', run.contact.owner_id).maybeSingle()
+        : { data: null };
+
+    return {
+        trigger: triggerPayload,
+        contact: run.contact as unknown as Record<string, unknown>,
+        deal,
+        owner,
+        vars: getRunVariables(run.metadata)
+    };
+}
+
+/**
+ * The deal named by the trigger payload. Payloads can come from clients, so a deal
+ * outside the run's organization is ignored.
+ */
+async function loadTriggerDeal(run: WorkflowRun): Promise<Record<string, unknown> | null> {
+    const dealId = (run.metadata?.trigger_payload as Record<string, unknown> | undefined)?.dealId;
+    if (typeof dealId !== 'string' || !dealId) return null;
+
+    const { data: deal } = await getSupabaseAdmin()
+        .from('deals')
+        .select('*')
+        .eq('id', dealId)
+        .eq('organization_id', run.organization_id)
+        .maybeSingle();
+    return deal;
+}
+
+/**
+ * Stores variables on the run for later nodes.
+ */
+async function setRunVariables(run: WorkflowRun, updates: Record<string, unknown>) {
+    run.metadata = withRunVariables(run.metadata, updates);
+    await getSupabaseAdmin().from('workflow_runs').update({ metadata: run.metadata }).eq('id', run.id);
+}
+
+/**
+ * Asks the organization's AI provider the node's prompt, filled from the run context
+ * and the contact's recent activities. Provider errors are thrown so the node's
+ * retry policy applies to them.
+ */
+export async function generateAiOutput(run: WorkflowRun, node: RFNode): Promise<string> {
+    const promptTemplate = (node.data.prompt as string || '').trim();
+    if (!promptTemplate) throw new Error('No prompt specified');
+
+    const admin = getSupabaseAdmin();
+    const { data: apiKeys } = await admin
+        .from('api_keys')
+        .select('*')
+        .eq('organization_id', run.organization_id)
+        .maybeSingle();
+    if (!apiKeys) throw new Error('AI is not configured for this organization');
+
+    const [context, { data: activities }] = await Promise.all([
+        loadRunContext(run),
+        admin.from('activities').select('type, title, description, created_at').eq('contact_id', run.contact_id).order('created_at', { ascending: false }).limit(10)
+    ]);
+
+    const prompt = fillPromptTemplate(promptTemplate, { ...context, activities: activities || [] });
+
+    const output = await getAICompletion(prompt, apiKeys as unknown as AIProviderKeys, buildAiSystemPrompt(node.data), { throwOnError: true });
+    if (!output) throw new Error('AI provider returned no answer');
+    return cleanAiOutput(output);
+}
+
+async function executeAiNode(run: WorkflowRun, node: RFNode) {
+    const output = await generateAiOutput(run, node);
+    const variable = getAiVariableName(node.data);
+
+    await setRunVariables(run, { [variable]: output });
+    await logExecution(run, node.id, 'info', `AI answer stored in {{vars.${variable}}}`, { output: output.slice(0, 500) });
+
+    const field = getAiTargetField(node.data);
+    if (field) {
+        const update = buildContactFieldUpdate(run.contact as unknown as Record<string, unknown>, field, output);
+        const { error } = await getSupabaseAdmin().from('contacts').update(update).eq('id', run.contact_id);
+        if (error) throw new Error(`Failed to update contact ${field}: ${error.message}`);
+        Object.assign(run.contact, update);
+        await logExecution(run, node.id, 'info', `Wrote AI answer to contact ${field.replace(/^custom_fields\./, '')}`);
     }
 }
 
@@ -218,6 +1057,15 @@ async function executeGeneralAction(run: WorkflowRun, node: RFNode) {
                 .update({ tags: [...currentTags, tag] })
                 .eq('id', run.contact_id);
             await logExecution(run, node.id, 'info', `Added tag: ${tag}`);
+
+            // Tags added by a workflow fire tag_added like any other tag change.
+            // Already-present tags are skipped above, so this cannot loop on itself.
+            await evaluateTriggers('tag_added', run.organization_id, {
+                contactId: run.contact_id,
+                tag,
+                source: 'workflow',
+                workflowId: run.workflow_id
+            });
         }
     } 
     else if (actionType === 'calculate_score') {
@@ -289,7 +1137,7 @@ async function executeGeneralAction(run: WorkflowRun, node: RFNode) {
         // Find the most recent deal for this contact to update its stage
         const { data: deals, error: dealError } = await getSupabaseAdmin()
             .from('deals')
-            .select('id')
+            .select('id, contact_id, pipeline_id, stage')
             .eq('contact_id', run.contact_id)
             .order('created_at', { ascending: false })
             .limit(1);
@@ -309,6 +1157,7 @@ async function executeGeneralAction(run: WorkflowRun, node: RFNode) {
                 await logExecution(run, node.id, 'error', `Failed to update deal stage: ${updateError.message}`);
             } else {
                 await logExecution(run, node.id, 'info', `Updated deal ${deals[0].id} stage to: ${stage}`);
+                await emitDealStageChanged(run.organization_id, { ...deals[0], stage }, deals[0].stage);
             }
         } else {
             await logExecution(run, node.id, 'warn', 'No deals found for contact to update stage');
@@ -332,47 +1181,469 @@ async function executeGeneralAction(run: WorkflowRun, node: RFNode) {
             await logExecution(run, node.id, 'info', `Assigned contact owner to: ${ownerId}`);
         }
     }
+    else if (actionType === 'create_task') {
+        const deal = await loadTriggerDeal(run);
+        // "contact_owner" (the default) assigns the task to whoever owns the contact
+        const assignee = !node.data.assignee || node.data.assignee === 'contact_owner'
+            ? run.contact.owner_id || null
+            : node.data.assignee as string;
+        const dueDate = calculateDelay({ duration: node.data.dueIn || '1', unit: node.data.dueUnit || 'days' });
+
+        const { data: task, error: taskError } = await getSupabaseAdmin()
+            .from('tasks')
+            .insert({
+                organization_id: run.organization_id,
+                contact_id: run.contact_id,
+                deal_id: (deal?.id as string) || null,
+                title: (node.data.taskTitle as string) || `Follow up with ${run.contact.first_name}`,
+                description: (node.data.taskDescription as string) || null,
+                due_date: dueDate.toISOString(),
+                priority: (node.data.priority as string) || 'medium',
+                status: 'pending',
+                assigned_to: assignee
+            })
+            .select('id')
+            .single();
+
+        if (taskError) throw new Error(`Failed to create task: ${taskError.message}`);
+        await logExecution(run, node.id, 'info', `Created task ${task.id}${assignee ? ` for ${assignee}` : ''}`, { task_id: task.id });
+    }
+    else if (actionType === 'create_deal') {
+        const pipelineId = node.data.pipelineId as string;
+        const stage = node.data.stage as string;
+        if (!pipelineId || !stage) {
+            await logExecution(run, node.id, 'error', 'No pipeline or stage specified for new deal');
+            return;
+        }
+
+        const contactName = [run.contact.first_name, run.contact.last_name].filter(Boolean).join(' ');
+        const { data: deal, error: dealError } = await getSupabaseAdmin()
+            .from('deals')
+            .insert({
+                organization_id: run.organization_id,
+                contact_id: run.contact_id,
+                pipeline_id: pipelineId,
+                stage,
+                name: (node.data.dealName as string) || `${contactName || run.contact.company || 'New'} deal`,
+                value: Number(node.data.dealValue) || 0,
+                owner_id: run.contact.owner_id || null
+            })
+            .select('id, contact_id, pipeline_id, stage')
+            .single();
+
+        if (dealError) throw new Error(`Failed to create deal: ${dealError.message}`);
+        await logExecution(run, node.id, 'info', `Created deal ${deal.id} in stage ${stage}`, { deal_id: deal.id });
+        await emitDealStageChanged(run.organization_id, deal, null);
+    }
+    else if (actionType === 'enroll_sequence') {
+        const sequenceId = node.data.sequenceId as string;
+        if (!sequenceId) {
+            await logExecution(run, node.id, 'error', 'No sequence specified for enrollment');
+            return;
+        }
+
+        const { data: sequence } = await getSupabaseAdmin()
+            .from('email_sequences')
+            .select('id, name, is_active')
+            .eq('id', sequenceId)
+            .eq('organization_id', run.organization_id)
+            .maybeSingle();
+
+        if (!sequence) throw new Error(`Sequence ${sequenceId} not found`);
+        if (!sequence.is_active) {
+            await logExecution(run, node.id, 'warn', `Sequence "${sequence.name}" is paused, contact not enrolled`);
+            return;
+        }
+
+        // One live enrollment per contact and sequence
+        const { count } = await getSupabaseAdmin()
+            .from('sequence_enrollments')
+            .select('id', { count: 'exact', head: true })
+            .eq('sequence_id', sequenceId)
+            .eq('contact_id', run.contact_id)
+            .in('status', ['active', 'paused']);
+
+        if (count) {
+            await logExecution(run, node.id, 'info', `Contact is already enrolled in "${sequence.name}"`);
+            return;
+        }
+
+        const { error: enrollError } = await getSupabaseAdmin()
+            .from('sequence_enrollments')
+            .insert({
+                organization_id: run.organization_id,
+                sequence_id: sequenceId,
+                contact_id: run.contact_id,
+                status: 'active',
+                current_step: 0,
+                next_send_at: new Date().toISOString()
+            });
+
+        if (enrollError) throw new Error(`Failed to enroll in sequence: ${enrollError.message}`);
+        await logExecution(run, node.id, 'info', `Enrolled contact in sequence "${sequence.name}"`);
+    }
+    else if (actionType === 'send_webhook') {
+        const config = node.data as WebhookConfig;
+        if (!config.url) {
+            await logExecution(run, node.id, 'error', 'No URL specified for webhook');
+            return;
+        }
+
+        const result = await sendWebhook(config, {
+            event: 'workflow.webhook',
+            workflow_id: run.workflow_id,
+            run_id: run.id,
+            ...(await loadRunContext(run))
+        });
+
+        const logData = { url: config.url, status: result.status, duration_ms: result.durationMs };
+        if (!result.ok) {
+            await logExecution(run, node.id, 'error', `Webhook responded with HTTP ${result.status}`, logData);
+            throw new Error(`Webhook failed with HTTP ${result.status}`);
+        }
+        await logExecution(run, node.id, 'info', `Webhook delivered (HTTP ${result.status}, ${result.durationMs}ms)`, logData);
+    }
+    else if (actionType === 'set_variable') {
+        const name = sanitizeVariableName(node.data.variableName);
+        if (!name) throw new Error('No variable name specified');
+
+        const value = renderTemplate(node.data.variableValue as string || '', { ...(await loadRunContext(run)) });
+        await setRunVariables(run, { [name]: value });
+        await logExecution(run, node.id, 'info', `Set {{vars.${name}}}`, { value: value.slice(0, 500) });
+    }
+}
+
+/**
+ * Fires deal_stage_changed after a deal moved stage, or entered its first stage when
+ * created (`fromStage` null). Called by the server wherever a stage is written (the
+ * deal API, the create_deal and update_stage actions); clients can't report it.
+ */
+export async function emitDealStageChanged(
+    organizationId: string,
+    deal: { id: string; contact_id: string | null; pipeline_id: string | null; stage: string },
+    fromStage: string | null
+) {
+    if (!deal.contact_id || fromStage === deal.stage) return;
+
+    await evaluateTriggers('deal_stage_changed', organizationId, {
+        contactId: deal.contact_id,
+        dealId: deal.id,
+        pipelineId: deal.pipeline_id,
+        fromStage,
+        toStage: deal.stage
+    });
+}
+
+/**
+ * Fires tag_added for each tag a contact gained; any other change re-checks the
+ * goals of its running workflows. Called by the server where contacts are saved.
+ */
+export async function emitContactUpdated(organizationId: string, contactId: string, previousTags: string[], tags: string[]) {
+    const addedTags = tags.filter(tag => !previousTags.includes(tag));
+    for (const tag of addedTags) {
+        await evaluateTriggers('tag_added', organizationId, { contactId, tag });
+    }
+    // Any other change may still meet a workflow goal (e.g. status set to customer)
+    if (addedTags.length === 0) {
+        await checkRunGoals(organizationId, contactId);
+    }
+}
+
+/**
+ * Checks the optional filters configured on a trigger node against the event payload.
+ * An empty filter (or 'any') matches every event of that trigger type.
+ */
+function matchesTriggerFilters(triggerType: WorkflowTriggerType, data: Record<string, unknown>, payload: Record<string, unknown>): boolean {
+    const isSet = (value: unknown) => typeof value === 'string' && value !== '' && value !== 'any';
+    const normalize = (value: unknown) => String(value ?? '').trim().toLowerCase();
+
+    switch (triggerType) {
+        case 'lead_created':
+            // Skip if this workflow is listening for a specific web form, but a different one was submitted
+            return !isSet(data.formId) || data.formId === payload.formId;
+
+        case 'deal_stage_changed':
+            if (isSet(data.fromStage) && data.fromStage !== payload.fromStage) return false;
+            if (isSet(data.toStage) && data.toStage !== payload.toStage) return false;
+            return true;
+
+        case 'email_clicked': {
+            if (!isSet(data.linkUrl)) return true;
+            const stripSlash = (url: string) => url.replace(/\/+$/, '');
+            return stripSlash(normalize(data.linkUrl)) === stripSlash(normalize(payload.linkUrl));
+        }
+
+        case 'tag_added':
+            return !isSet(data.tag) || normalize(data.tag) === normalize(payload.tag);
+
+        default:
+            return true;
+    }
 }
 
-export async function evaluateTriggers(triggerType: string, organizationId: string, payload: { contactId: string; [key: string]: unknown }) {
-    // 1. Fetch active workflows for this trigger
+export async function evaluateTriggers(
+    triggerType: WorkflowTriggerType,
+    organizationId: string,
+    payload: { contactId: string; [key: string]: unknown },
+    options: EvaluateTriggersOptions = {}
+) {
+    // Runs already waiting on this event for the contact continue first, and the
+    // event may have met the goal of runs in progress
+    await resumeWaitingRuns(triggerType, organizationId, payload);
+    await checkRunGoals(organizationId, payload.contactId);
+
+    // 1. Fetch active workflows for this trigger. Only published versions start runs.
     const { data: workflows } = await getSupabaseAdmin()
         .from('workflows')
-        .select('*')
+        .select('*, published_version:workflow_versions!published_version_id(*)')
         .eq('organization_id', organizationId)
         .eq('is_active', true);
 
     if (!workflows || workflows.length === 0) return;
 
     for (const workflow of workflows) {
-        const nodes = workflow.nodes as RFNode[];
+        const version = workflow.published_version as WorkflowVersion | null;
+        if (!version) continue;
+
+        const nodes = version.nodes as RFNode[];
         const triggerNode = nodes.find(n => n.type === 'trigger' && n.data.triggerType === triggerType);
 
         if (!triggerNode) continue;
 
-        // Check trigger specific conditions (e.g. formId routing)
-        if (triggerType === 'lead_created' && triggerNode.data.formId && triggerNode.data.formId !== payload.formId) {
-            continue; // Skip if this workflow is listening for a specific web form, but a different one was submitted
+        // Check trigger specific conditions (form routing, stage transitions, link and tag filters)
+        if (!matchesTriggerFilters(triggerType, triggerNode.data || {}, payload)) {
+            continue;
         }
 
-        // 2. Create Workflow Run
-        const { data: run, error: runError } = await getSupabaseAdmin()
-            .from('workflow_runs')
-            .insert({
-                organization_id: organizationId,
-                workflow_id: workflow.id,
-                contact_id: payload.contactId,
-                status: 'waiting', // Start waiting so the Cron can cleanly pick it up, or process it immediately below
-                metadata: { trigger_payload: payload }
-            })
-            .select()
-            .single();
+        // 2. Create Workflow Run, unless the enrollment policy refuses the contact
+        let runId: string | null;
+        try {
+            runId = await createRun(workflow as Workflow, version.id, payload);
+        } catch (err) {
+            console.error("Failed to insert workflow run:", err);
+            continue;
+        }
 
-        if (run && !runError) {
+        if (runId && options.processRuns !== false) {
             // 3. Start processing immediately for the first node
-            await processWorkflowRun(run.id, 0);
-        } else if (runError) {
-             console.error("Failed to insert workflow run:", runError);
+            await processWorkflowRun(runId);
+        }
+    }
+}
+
+export interface EvaluateTriggersOptions {
+    processRuns?: boolean; // false leaves the new runs due for the queue (bulk imports)
+}
+
+/**
+ * Enrolls the contact. The workflow's enrollment policy is checked in the same locked
+ * database call that inserts the run, so simultaneous triggers can't both pass it.
+ * Returns null when the policy refused the contact; database errors are thrown.
+ */
+async function createRun(workflow: Workflow, versionId: string, payload: { contactId: string; [key: string]: unknown }): Promise<string | null> {
+    const { data: runId, error } = await getSupabaseAdmin().rpc('enroll_workflow_run', {
+        p_workflow_id: workflow.id,
+        p_version_id: versionId,
+        p_contact_id: payload.contactId,
+        p_metadata: { trigger_payload: payload }
+    });
+
+    if (error) throw new Error(error.message);
+    return (runId as string | null) || null;
+}
+
+interface ScheduledTriggerCandidate {
+    contact_id: string;
+    fire_key: string;
+    deal_id?: string | null;
+    target_date?: string;
+    last_activity_at?: string;
+}
+
+/**
+ * Starts runs for published workflows with a "date_based" or "inactivity" trigger.
+ * Called by the workflow cron; the runs are left due for the queue to execute.
+ * Returns the number of runs started.
+ */
+export async function evaluateScheduledTriggers(limitPerWorkflow = 100, now: Date = new Date()): Promise<number> {
+    const { data: workflows } = await getSupabaseAdmin()
+        .from('workflows')
+        .select('*, published_version:workflow_versions!published_version_id(*)')
+        .eq('is_active', true)
+        .not('published_version_id', 'is', null);
+
+    let started = 0;
+
+    for (const workflow of workflows || []) {
+        const version = workflow.published_version as WorkflowVersion | null;
+        if (!version) continue;
+
+        const triggerNode = (version.nodes as RFNode[]).find(n => n.type === 'trigger' && isScheduledTrigger(n.data?.triggerType));
+        if (!triggerNode) continue;
+
+        const data = triggerNode.data || {};
+        let candidates: ScheduledTriggerCandidate[] = [];
+
+        if (data.triggerType === 'inactivity') {
+            const { data: rows, error } = await getSupabaseAdmin().rpc('get_inactive_contacts', {
+                p_workflow_id: workflow.id,
+                p_days: Math.max(1, Number(data.inactiveDays) || 30),
+                p_limit: limitPerWorkflow
+            });
+            if (error) console.error(`Inactivity trigger failed for workflow ${workflow.id}:`, error);
+            candidates = rows || [];
+        } else {
+            const dateSource = data.dateSource || 'deal_close_date';
+            const fieldPath = getCustomFieldPath(data);
+            if (dateSource === 'custom_field' && fieldPath.length === 0) continue;
+
+            const { from, to } = getDateTriggerWindow(data, now);
+            const { data: rows, error } = await getSupabaseAdmin().rpc('get_date_trigger_contacts', {
+                p_workflow_id: workflow.id,
+                p_source: dateSource,
+                p_field_path: fieldPath,
+                p_from: from,
+                p_to: to,
+                p_limit: limitPerWorkflow
+            });
+            if (error) console.error(`Date trigger failed for workflow ${workflow.id}:`, error);
+            candidates = rows || [];
+        }
+
+        for (const candidate of candidates) {
+            // Recorded before the enrollment check, so a contact the policy blocks is not
+            // reconsidered on every tick. A concurrent cron that recorded it first wins.
+            const { data: fired } = await getSupabaseAdmin()
+                .from('workflow_trigger_fires')
+                .upsert({
+                    organization_id: workflow.organization_id,
+                    workflow_id: workflow.id,
+                    contact_id: candidate.contact_id,
+                    fire_key: candidate.fire_key
+                }, { onConflict: 'workflow_id,contact_id,fire_key', ignoreDuplicates: true })
+                .select('id');
+
+            if (!fired || fired.length === 0) continue;
+
+            let runId: string | null;
+            try {
+                runId = await createRun(workflow as Workflow, version.id, {
+                    contactId: candidate.contact_id,
+                    triggerType: data.triggerType,
+                    ...(candidate.deal_id ? { dealId: candidate.deal_id } : {}),
+                    ...(candidate.target_date ? { date: candidate.target_date } : {}),
+                    ...(candidate.last_activity_at ? { lastActivityAt: candidate.last_activity_at } : {})
+                });
+            } catch (err) {
+                console.error(`Failed to enroll contact ${candidate.contact_id} in workflow ${workflow.id}:`, err);
+                continue;
+            }
+
+            if (runId) {
+                await getSupabaseAdmin().from('workflow_trigger_fires').update({ run_id: runId }).eq('id', fired[0].id);
+                started++;
+            }
+        }
+    }
+
+    return started;
+}
+
+/**
+ * Enrolls the next batch of every bulk enrollment job that is due, or only of the
+ * given job. Runs are created due and left for the queue, so execution is spread
+ * out as well. Returns the number of contacts enrolled.
+ */
+export async function processEnrollmentJobs(timeBudgetMs: number, jobId?: string): Promise<number> {
+    const worker = randomUUID();
+    const deadline = Date.now() + timeBudgetMs;
+    let enrolled = 0;
+
+    while (Date.now() < deadline) {
+        const { data: claimedId, error } = await getSupabaseAdmin().rpc('claim_workflow_enrollment_job', {
+            p_worker: worker,
+            p_job_id: jobId ?? null,
+            p_lease_seconds: LEASE_SECONDS
+        });
+        if (error) throw error;
+        if (!claimedId) break;
+
+        enrolled += await runEnrollmentBatch(claimedId as string, worker);
+        // A job's next batch is not due before the interval, so each job gets one batch per call
+        if (jobId) break;
+    }
+
+    return enrolled;
+}
+
+async function runEnrollmentBatch(jobId: string, worker: string): Promise<number> {
+    const admin = getSupabaseAdmin();
+    const { data: job } = await admin
+        .from('workflow_enrollment_jobs')
+        .select('*, workflow:workflows(*, published_version:workflow_versions!published_version_id(*))')
+        .eq('id', jobId)
+        .single();
+    if (!job) return 0;
+
+    const release = { locked_by: null, locked_until: null };
+    const workflow = job.workflow as (Workflow & { published_version: WorkflowVersion | null }) | null;
+    const version = workflow?.published_version;
+
+    // The workflow may have been deactivated or republished with another trigger since
+    if (!workflow?.is_active || !version || !hasManualTrigger(version.nodes)) {
+        await admin.from('workflow_enrollment_jobs').update({
+            ...release,
+            status: 'failed',
+            last_error: 'The workflow is no longer active with a manual trigger',
+            completed_at: new Date().toISOString()
+        }).eq('id', jobId).eq('locked_by', worker);
+        return 0;
+    }
+
+    const batch = (job.contact_ids as string[]).slice(job.processed, job.processed + ENROLLMENT_BATCH_SIZE);
+    const { data: contacts } = await admin
+        .from('contacts')
+        .select('id')
+        .in('id', batch)
+        .eq('organization_id', job.organization_id);
+    const existing = new Set((contacts || []).map(c => c.id));
+
+    let enrolled = 0, skipped = 0, failed = 0;
+    for (const contactId of batch) {
+        // Deleted since the job was created
+        if (!existing.has(contactId)) {
+            failed++;
+            continue;
+        }
+        try {
+            const runId = await createRun(workflow, version.id, { contactId, triggerType: 'manual', enrollmentJobId: job.id });
+            if (runId) enrolled++;
+            else skipped++; // The enrollment policy refused the contact
+        } catch (err) {
+            console.error(`Failed to enroll contact ${contactId} in workflow ${workflow.id}:`, err);
+            failed++;
         }
     }
+
+    const processed = job.processed + batch.length;
+    const done = processed >= job.total;
+
+    await admin.from('workflow_enrollment_jobs').update({
+        ...release,
+        processed,
+        enrolled: job.enrolled + enrolled,
+        skipped: job.skipped + skipped,
+        failed: job.failed + failed,
+        next_batch_at: new Date(Date.now() + ENROLLMENT_BATCH_INTERVAL_SECONDS * 1000).toISOString()
+    }).eq('id', jobId).eq('locked_by', worker);
+
+    // A job cancelled during the batch stays cancelled
+    if (done) {
+        await admin.from('workflow_enrollment_jobs')
+            .update({ status: 'completed', completed_at: new Date().toISOString() })
+            .eq('id', jobId)
+            .eq('status', 'running');
+    }
+
+    return enrolled;
 }
@@ -0,0 +1,100 @@
+/**
+ * Per-node retry settings for workflow steps.
+ *
+ * A failing step is retried with backoff while its node allows more attempts and the
+ * error looks transient (timeouts, dropped connections, SMTP 4xx, HTTP 5xx and 429).
+ * Nodes can opt in to retrying every error. Once retries are used up the run fails,
+ * or leaves through the node's "error" handle when it has one.
+ */
+
+export const ERROR_HANDLE = 'error';
+
+export type RetryBackoff = 'fixed' | 'exponential';
+export type RetryOn = 'transient' | 'any';
+
+export interface RetryPolicy {
+    retries: number; // Attempts after the first one
+    backoff: RetryBackoff;
+    delaySeconds: number; // Before the first retry
+    retryOn: RetryOn;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    retries: 2,
+    backoff: 'exponential',
+    delaySeconds: 60,
+    retryOn: 'transient',
+};
+
+export const MAX_RETRIES = 10;
+const BACKOFF_FACTOR = 5;
+const MAX_RETRY_DELAY_SECONDS = 6 * 60 * 60;
+
+// Node-level errors (Node.js, nodemailer) that usually go away on their own
+const TRANSIENT_CODES = ['ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'EPIPE', 'EAI_AGAIN', 'ENOTFOUND', 'ESOCKET', 'ECONNECTION', 'EDNS'];
+const TRANSIENT_MESSAGES = [/timed? ?out/i, /timeout/i, /rate limit/i, /temporar(il)?y/i, /try again/i, /socket hang up/i, /\bHTTP (5\d\d|429)\b/, /fetch failed/i];
+
+/**
+ * The node's retry settings, with defaults for anything not configured.
+ */
+export function getRetryPolicy(data: Record<string, unknown>): RetryPolicy {
+    const retries = Number(data.retryCount);
+    const delayMinutes = Number(data.retryDelayMinutes);
+    return {
+        retries: Number.isFinite(retries) && data.retryCount !== undefined && data.retryCount !== ''
+            ? Math.min(Math.max(Math.floor(retries), 0), MAX_RETRIES)
+            : DEFAULT_RETRY_POLICY.retries,
+        backoff: data.retryBackoff === 'fixed' ? 'fixed' : DEFAULT_RETRY_POLICY.backoff,
+        delaySeconds: Number.isFinite(delayMinutes) && delayMinutes > 0
+            ? Math.round(delayMinutes * 60)
+            : DEFAULT_RETRY_POLICY.delaySeconds,
+        retryOn: data.retryOn === 'any' ? 'any' : DEFAULT_RETRY_POLICY.retryOn,
+    };
+}
+
+/**
+ * Whether an error is likely to succeed on a later attempt.
+ */
+export function isTransientError(err: unknown): boolean {
+    if (!err || typeof err !== 'object') return false;
+    const e = err as { code?: unknown; status?: unknown; statusCode?: unknown; responseCode?: unknown; message?: unknown };
+
+    if (typeof e.code === 'string' && TRANSIENT_CODES.includes(e.code)) return true;
+
+    const status = Number(e.status ?? e.statusCode);
+    if (status === 429 || (status >= 500 && status < 600)) return true;
+
+    // SMTP 4xx replies are temporary failures by definition
+    const smtpCode = Number(e.responseCode);
+    if (smtpCode >= 400 && smtpCode < 500) return true;
+
+    const message = typeof e.message === 'string' ? e.message : '';
+    return TRANSIENT_MESSAGES.some(pattern => pattern.test(message));
+}
+
+/**
+ * Whether a step that failed on the given attempt (1 = first) should run again.
+ */
+export function shouldRetry(policy: RetryPolicy, attempt: number, err: unknown): boolean {
+    if (attempt > policy.retries) return false;
+    return policy.retryOn === 'any' || isTransientError(err);
+}
+
+/**
+ * Seconds to wait before the retry that follows the given failed attempt.
+ */
+export function getRetryDelaySeconds(policy: RetryPolicy, attempt: number): number {
+    const delay = policy.backoff === 'fixed'
+        ? policy.delaySeconds
+        : policy.delaySeconds * Math.pow(BACKOFF_FACTOR, attempt - 1);
+    return Math.min(delay, MAX_RETRY_DELAY_SECONDS);
+}
+
+/**
+ * Short description of the node's retry settings for the builder.
+ */
+export function describeRetryPolicy(policy: RetryPolicy): string {
+    if (policy.retries === 0) return 'No retries';
+    const errors = policy.retryOn === 'any' ? 'any error' : 'transient errors';
+    return `Retry ${policy.retries}× on ${errors}, ${policy.backoff} backoff from ${Math.round(policy.delaySeconds / 60) || 1} min`;
+}
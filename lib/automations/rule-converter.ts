@@ -0,0 +1,192 @@
+import type { AutomationAction, AutomationRule } from "@/types";
+
+/**
+ * Converts a legacy automation rule (a trigger plus an ordered list of actions) into
+ * an equivalent linear workflow graph. Rules were stored but never executed; once
+ * converted they run through the workflow engine like any other workflow.
+ *
+ * Rule configs were free-form, so both snake_case and camelCase keys are accepted.
+ * Anything without a workflow equivalent is reported instead of guessed.
+ */
+
+export interface ConvertedNode {
+    id: string;
+    type: string;
+    position: { x: number; y: number };
+    data: Record<string, unknown>;
+}
+
+export interface ConvertedEdge {
+    id: string;
+    source: string;
+    target: string;
+}
+
+export interface RuleConversion {
+    nodes: ConvertedNode[];
+    edges: ConvertedEdge[];
+    warnings: string[]; // Parts of the rule that were left out
+}
+
+const TRIGGER_TYPES = ['contact_created', 'lead_created', 'deal_stage_changed', 'email_opened', 'email_clicked', 'tag_added'];
+
+// Names older rule forms used for the same trigger
+const TRIGGER_ALIASES: Record<string, string> = {
+    new_contact: 'contact_created',
+    new_lead: 'lead_created',
+    form_submitted: 'lead_created',
+    stage_changed: 'deal_stage_changed',
+    deal_stage_change: 'deal_stage_changed',
+    email_open: 'email_opened',
+    email_click: 'email_clicked',
+    link_clicked: 'email_clicked',
+    tag_applied: 'tag_added',
+};
+
+const NODE_SPACING = 150;
+
+function pick(config: Record<string, unknown>, ...keys: string[]): string | undefined {
+    for (const key of keys) {
+        const value = config[key];
+        if (value !== undefined && value !== null && value !== '') return String(value);
+    }
+    return undefined;
+}
+
+function convertTrigger(rule: AutomationRule): { data: Record<string, unknown>; warning?: string } {
+    const config = rule.trigger_config || {};
+    const triggerType = TRIGGER_ALIASES[rule.trigger_type] || rule.trigger_type;
+
+    if (!TRIGGER_TYPES.includes(triggerType)) {
+        return {
+            data: { label: 'Trigger', triggerType: 'contact_created' },
+            warning: `Trigger "${rule.trigger_type}" has no workflow equivalent; set a trigger before activating`,
+        };
+    }
+
+    const data: Record<string, unknown> = { label: 'Trigger', triggerType };
+    const filters: Record<string, string | undefined> = {
+        formId: pick(config, 'form_id', 'formId'),
+        fromStage: pick(config, 'from_stage', 'fromStage'),
+        toStage: pick(config, 'to_stage', 'toStage', 'stage'),
+        linkUrl: pick(config, 'link_url', 'linkUrl', 'url'),
+        tag: pick(config, 'tag', 'tag_name'),
+    };
+    for (const [key, value] of Object.entries(filters)) {
+        if (value !== undefined) data[key] = value;
+    }
+    return { data };
+}
+
+/**
+ * The node for one rule action, or null when the workflow engine has no equivalent.
+ */
+function convertAction(action: AutomationAction): { type: string; data: Record<string, unknown> } | null {
+    const config = action.config || {};
+
+    switch (action.type) {
+        case 'send_email':
+        case 'email':
+            return { type: 'email', data: { label: 'Send Email', actionType: 'email', templateId: pick(config, 'template_id', 'templateId') } };
+
+        case 'wait':
+        case 'delay':
+            return {
+                type: 'delay',
+                data: {
+                    label: 'Delay',
+                    duration: pick(config, 'duration', 'days', 'amount') || '1',
+                    unit: pick(config, 'unit') || 'days',
+                },
+            };
+
+        case 'add_tag':
+        case 'tag':
+            return { type: 'action', data: { label: 'Add Tag', actionType: 'add_tag', tag: pick(config, 'tag', 'tag_name', 'name') } };
+
+        case 'update_stage':
+        case 'move_deal_stage':
+            return { type: 'action', data: { label: 'Update Deal Stage', actionType: 'update_stage', stage: pick(config, 'stage', 'stage_id', 'stageId') } };
+
+        case 'assign_owner':
+        case 'assign_to':
+            return { type: 'action', data: { label: 'Assign Owner', actionType: 'assign_owner', ownerId: pick(config, 'owner_id', 'ownerId', 'user_id', 'userId') } };
+
+        case 'notify':
+        case 'notify_user':
+        case 'send_notification':
+            return {
+                type: 'action',
+                data: {
+                    label: 'Notify User',
+                    actionType: 'notify_user',
+                    userId: pick(config, 'user_id', 'userId'),
+                    title: pick(config, 'title'),
+                    message: pick(config, 'message', 'body'),
+                },
+            };
+
+        case 'create_task':
+            return {
+                type: 'action',
+                data: {
+                    label: 'Create Task',
+                    actionType: 'create_task',
+                    taskTitle: pick(config, 'title', 'task_title'),
+                    taskDescription: pick(config, 'description'),
+                    assignee: pick(config, 'assigned_to', 'assignee', 'user_id') || 'contact_owner',
+                    dueIn: pick(config, 'due_in_days', 'due_in', 'dueIn') || '1',
+                    dueUnit: 'days',
+                    priority: pick(config, 'priority') || 'medium',
+                },
+            };
+
+        case 'enroll_sequence':
+        case 'add_to_sequence':
+            return { type: 'action', data: { label: 'Enroll in Sequence', actionType: 'enroll_sequence', sequenceId: pick(config, 'sequence_id', 'sequenceId') } };
+
+        case 'calculate_score':
+        case 'score_lead':
+            return { type: 'action', data: { label: 'Assign AI Lead Score', actionType: 'calculate_score' } };
+
+        case 'webhook':
+        case 'send_webhook':
+            return { type: 'action', data: { label: 'Send Webhook', actionType: 'send_webhook', url: pick(config, 'url'), method: pick(config, 'method') || 'POST' } };
+
+        default:
+            return null;
+    }
+}
+
+export function convertRuleToWorkflow(rule: AutomationRule): RuleConversion {
+    const warnings: string[] = [];
+    const trigger = convertTrigger(rule);
+    if (trigger.warning) warnings.push(trigger.warning);
+
+    const nodes: ConvertedNode[] = [{ id: 'trigger', type: 'trigger', position: { x: 250, y: 0 }, data: trigger.data }];
+    const edges: ConvertedEdge[] = [];
+
+    const actions = [...(rule.actions || [])].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+
+    actions.forEach((action, index) => {
+        const converted = convertAction(action);
+        if (!converted) {
+            warnings.push(`Action ${index + 1} ("${action.type}") has no workflow equivalent and was skipped`);
+            return;
+        }
+
+        const previous = nodes[nodes.length - 1];
+        const node: ConvertedNode = {
+            id: `rule-action-${index + 1}`,
+            type: converted.type,
+            position: { x: 250, y: nodes.length * NODE_SPACING },
+            data: converted.data,
+        };
+        nodes.push(node);
+        edges.push({ id: `e-${previous.id}-${node.id}`, source: previous.id, target: node.id });
+    });
+
+    if (nodes.length === 1) warnings.push('The rule has no actions');
+
+    return { nodes, edges, warnings };
+}
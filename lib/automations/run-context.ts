@@ -0,0 +1,50 @@
+/**
+ * The data a workflow run's nodes can refer to with `{{path}}` templates in email
+ * subjects and bodies, webhook payloads, condition values and AI prompts.
+ *
+ * Runs keep a variable store in `workflow_runs.metadata.variables`: AI and "Set
+ * variable" nodes write to it, later nodes read it as `{{vars.name}}`. Parallel
+ * branches start with a copy of the variables set before they split off.
+ */
+
+// The renderer is shared with every other email path
+export { formatTemplateValue, hasPlaceholders, renderTemplate, resolveTemplatePath } from "@/lib/template-engine";
+
+export interface RunContext {
+    trigger: Record<string, unknown>; // The event payload the run started with (form fields included)
+    contact: Record<string, unknown>;
+    deal: Record<string, unknown> | null; // The deal that fired the trigger, else the contact's latest
+    owner?: Record<string, unknown> | null; // The contact's owner
+    vars: Record<string, unknown>;
+}
+
+export const TEMPLATE_PLACEHOLDERS = [
+    '{{trigger.*}}',
+    '{{contact.first_name}}',
+    '{{contact.custom_fields.*}}',
+    '{{deal.name}}',
+    '{{owner.full_name}}',
+    '{{vars.*}}',
+];
+
+export function getRunVariables(metadata: Record<string, unknown> | null | undefined): Record<string, unknown> {
+    const variables = metadata?.variables;
+    return variables && typeof variables === 'object' && !Array.isArray(variables)
+        ? variables as Record<string, unknown>
+        : {};
+}
+
+/**
+ * The run metadata with the variables added or replaced.
+ */
+export function withRunVariables(metadata: Record<string, unknown> | null | undefined, updates: Record<string, unknown>): Record<string, unknown> {
+    return { ...(metadata || {}), variables: { ...getRunVariables(metadata), ...updates } };
+}
+
+/**
+ * A variable name usable in `{{vars.name}}`: lowercase letters, digits and
+ * underscores. Empty when nothing usable is left.
+ */
+export function sanitizeVariableName(raw: unknown): string {
+    return String(raw ?? '').trim().toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+}
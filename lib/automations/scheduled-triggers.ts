@@ -0,0 +1,75 @@
+/**
+ * Scheduled workflow triggers, evaluated by the workflow cron instead of by events.
+ *
+ * "date_based" fires N days before or after a date: a deal's expected close date, a
+ * date custom field, or the yearly anniversary of the contact's creation.
+ * "inactivity" fires once a contact has had no activity for N days. The engine records
+ * every firing, so each date (or spell of inactivity) triggers a contact only once.
+ */
+
+export const SCHEDULED_TRIGGER_TYPES = ['date_based', 'inactivity'] as const;
+
+export type ScheduledTriggerType = typeof SCHEDULED_TRIGGER_TYPES[number];
+
+export type DateTriggerSource = 'deal_close_date' | 'custom_field' | 'contact_anniversary';
+
+export const DATE_TRIGGER_SOURCES: { value: DateTriggerSource; label: string }[] = [
+    { value: 'deal_close_date', label: 'Deal Expected Close Date' },
+    { value: 'custom_field', label: 'Custom Date Field' },
+    { value: 'contact_anniversary', label: 'Contact Anniversary' },
+];
+
+// Dates this many days in the past still fire, so a missed cron day only delays them
+export const MISSED_DAYS_GRACE = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isScheduledTrigger(triggerType: unknown): triggerType is ScheduledTriggerType {
+    return SCHEDULED_TRIGGER_TYPES.includes(triggerType as ScheduledTriggerType);
+}
+
+function toISODate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Range of dates (YYYY-MM-DD, inclusive) that fire today. Firing 3 days before a date
+ * means the date is 3 days from now; firing 3 days after means it was 3 days ago.
+ */
+export function getDateTriggerWindow(data: Record<string, unknown>, now: Date = new Date()): { from: string; to: string } {
+    const days = Math.max(0, Math.floor(Number(data.offsetDays) || 0));
+    const offset = data.offsetDirection === 'before' ? days : -days;
+    const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+    const target = new Date(today + offset * DAY_MS);
+
+    return {
+        from: toISODate(new Date(target.getTime() - MISSED_DAYS_GRACE * DAY_MS)),
+        to: toISODate(target),
+    };
+}
+
+/**
+ * Custom field path as stored on the node ("plan.renewal_date") split for a JSON lookup.
+ */
+export function getCustomFieldPath(data: Record<string, unknown>): string[] {
+    return String(data.customField || '')
+        .replace(/^custom_fields\./, '')
+        .split('.')
+        .map(part => part.trim())
+        .filter(Boolean);
+}
+
+export function describeScheduledTrigger(data: Record<string, unknown>): string {
+    if (data.triggerType === 'inactivity') {
+        return `No activity for ${Number(data.inactiveDays) || 30} days`;
+    }
+
+    const source = DATE_TRIGGER_SOURCES.find(s => s.value === data.dateSource);
+    const label = data.dateSource === 'custom_field' && data.customField
+        ? String(data.customField)
+        : source?.label || 'a date';
+    const days = Math.max(0, Math.floor(Number(data.offsetDays) || 0));
+
+    if (days === 0) return `On ${label}`;
+    return `${days} day${days === 1 ? '' : 's'} ${data.offsetDirection === 'before' ? 'before' : 'after'} ${label}`;
+}
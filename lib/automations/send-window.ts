@@ -0,0 +1,274 @@
+/**
+ * Timezone-aware scheduling for workflow steps.
+ *
+ * Times are computed in the contact's timezone (falling back to the organization's)
+ * rather than the server's. Organizations can set quiet hours and skip weekends:
+ * emails that come due inside that window are held until it ends, and delay nodes
+ * can opt in to the same rule.
+ */
+
+export interface SendWindowSettings {
+    timezone: string; // Default for contacts without one
+    quiet_hours_enabled: boolean;
+    quiet_hours_start: string; // "HH:MM" local time; may be later than the end (overnight)
+    quiet_hours_end: string;
+    skip_weekends: boolean;
+}
+
+export const DEFAULT_SEND_WINDOW: SendWindowSettings = {
+    timezone: 'UTC',
+    quiet_hours_enabled: false,
+    quiet_hours_start: '20:00',
+    quiet_hours_end: '08:00',
+    skip_weekends: false,
+};
+
+export const DELAY_MODES = ['duration', 'until_time'] as const;
+export type DelayMode = typeof DELAY_MODES[number];
+
+// Offered in the contact and settings forms; any IANA name is accepted
+export const TIME_ZONE_OPTIONS = [
+    'UTC',
+    'America/Los_Angeles',
+    'America/Denver',
+    'America/Phoenix',
+    'America/Chicago',
+    'America/New_York',
+    'America/Halifax',
+    'America/Sao_Paulo',
+    'America/Mexico_City',
+    'Europe/London',
+    'Europe/Dublin',
+    'Europe/Lisbon',
+    'Europe/Paris',
+    'Europe/Berlin',
+    'Europe/Madrid',
+    'Europe/Athens',
+    'Africa/Johannesburg',
+    'Asia/Dubai',
+    'Asia/Kolkata',
+    'Asia/Singapore',
+    'Asia/Shanghai',
+    'Asia/Tokyo',
+    'Australia/Perth',
+    'Australia/Sydney',
+    'Pacific/Auckland',
+];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+// Longest stretch searched for an allowed time (a full week plus a weekend)
+const MAX_SEARCH_DAYS = 9;
+
+interface ZonedDate {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    minutes: number; // Minutes since local midnight
+    weekday: number; // 0 = Sunday
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+    if (typeof timeZone !== 'string' || !timeZone) return false;
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * The timezone to schedule a contact's steps in.
+ */
+export function resolveTimeZone(contactTimeZone: string | null | undefined, settings: SendWindowSettings): string {
+    if (isValidTimeZone(contactTimeZone)) return contactTimeZone;
+    if (isValidTimeZone(settings.timezone)) return settings.timezone;
+    return 'UTC';
+}
+
+/**
+ * "HH:MM" as minutes since midnight, or null when malformed.
+ */
+export function parseTimeOfDay(value: unknown): number | null {
+    if (typeof value !== 'string') return null;
+    const match = value.match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) return null;
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (hours > 23 || minutes > 59) return null;
+    return hours * 60 + minutes;
+}
+
+function toZoned(date: Date, timeZone: string): ZonedDate {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        weekday: 'short',
+    }).formatToParts(date);
+    const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+
+    return {
+        year: Number(get('year')),
+        month: Number(get('month')),
+        day: Number(get('day')),
+        minutes: (Number(get('hour')) % 24) * 60 + Number(get('minute')),
+        weekday: WEEKDAYS.indexOf(get('weekday')),
+    };
+}
+
+// Offset of the timezone from UTC at the given instant, in ms
+function offsetAt(date: Date, timeZone: string): number {
+    const local = toZoned(date, timeZone);
+    const asUtc = Date.UTC(local.year, local.month - 1, local.day, 0, local.minutes);
+    return asUtc - Math.floor(date.getTime() / 60000) * 60000;
+}
+
+/**
+ * The instant at which the local clock in the timezone shows the given date and
+ * time. Days past the end of the month roll over. Times skipped by a DST change
+ * resolve to the same wall time after the change.
+ */
+function fromZoned(year: number, month: number, day: number, minutes: number, timeZone: string): Date {
+    const wall = Date.UTC(year, month - 1, day, 0, minutes);
+    // The second pass corrects for an offset change between the guess and the result
+    let utc = wall - offsetAt(new Date(wall), timeZone);
+    utc = wall - offsetAt(new Date(utc), timeZone);
+    return new Date(utc);
+}
+
+// Calendar date `days` after the local date of `zoned`, with its weekday
+function addLocalDays(zoned: ZonedDate, days: number): Omit<ZonedDate, 'minutes'> {
+    const date = new Date(Date.UTC(zoned.year, zoned.month - 1, zoned.day + days));
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate(), weekday: date.getUTCDay() };
+}
+
+const isWeekend = (weekday: number) => weekday === 0 || weekday === 6;
+
+function isQuietMinute(minutes: number, settings: SendWindowSettings): boolean {
+    if (!settings.quiet_hours_enabled) return false;
+    const start = parseTimeOfDay(settings.quiet_hours_start);
+    const end = parseTimeOfDay(settings.quiet_hours_end);
+    if (start === null || end === null || start === end) return false;
+    return start < end
+        ? minutes >= start && minutes < end
+        : minutes >= start || minutes < end;
+}
+
+/**
+ * Whether the instant falls in quiet hours or on a skipped weekend, in the timezone.
+ */
+export function isQuietTime(date: Date, settings: SendWindowSettings, timeZone: string): boolean {
+    const local = toZoned(date, timeZone);
+    if (settings.skip_weekends && isWeekend(local.weekday)) return true;
+    return isQuietMinute(local.minutes, settings);
+}
+
+/**
+ * The first instant at or after `date` outside quiet hours and skipped weekends.
+ */
+export function nextSendTime(date: Date, settings: SendWindowSettings, timeZone: string): Date {
+    if (!isQuietTime(date, settings, timeZone)) return date;
+
+    const local = toZoned(date, timeZone);
+    const quietEnd = parseTimeOfDay(settings.quiet_hours_end) ?? 0;
+
+    for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+        const day = addLocalDays(local, offset);
+        if (settings.skip_weekends && isWeekend(day.weekday)) continue;
+
+        const from = offset === 0 ? local.minutes : 0;
+        if (!isQuietMinute(from, settings)) return fromZoned(day.year, day.month, day.day, from, timeZone);
+        // Inside quiet hours: they end later the same day, or the day is lost
+        if (quietEnd > from) return fromZoned(day.year, day.month, day.day, quietEnd, timeZone);
+    }
+    return date;
+}
+
+/**
+ * The next time the local clock shows `minutes` after `from`, optionally only on
+ * weekdays.
+ */
+export function nextTimeOfDay(from: Date, minutes: number, timeZone: string, businessDaysOnly: boolean): Date {
+    const local = toZoned(from, timeZone);
+
+    for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+        const day = addLocalDays(local, offset);
+        if (businessDaysOnly && isWeekend(day.weekday)) continue;
+        const candidate = fromZoned(day.year, day.month, day.day, minutes, timeZone);
+        if (candidate > from) return candidate;
+    }
+    return from;
+}
+
+/**
+ * Adds a delay node's duration. Days are calendar days in the timezone, so the
+ * local time of day is kept across DST changes.
+ */
+export function addDuration(from: Date, data: Record<string, unknown>, timeZone = 'UTC'): Date {
+    const duration = parseInt((data.duration as string) || '0') || 0;
+    const unit = (data.unit as string) || 'days';
+
+    if (unit === 'minutes') return new Date(from.getTime() + duration * 60 * 1000);
+    if (unit === 'hours') return new Date(from.getTime() + duration * 60 * 60 * 1000);
+    if (unit === 'days') {
+        const local = toZoned(from, timeZone);
+        const result = fromZoned(local.year, local.month, local.day + duration, local.minutes, timeZone);
+        // Keep the seconds fromZoned drops
+        return new Date(result.getTime() + (from.getTime() % 60000));
+    }
+    return new Date(from);
+}
+
+/**
+ * When a delay node releases the run: after its duration, or at the next chosen
+ * local time ("next business day at 09:00"), then pushed out of quiet hours if the
+ * node asks for it.
+ */
+export function calculateDelayUntil(
+    data: Record<string, unknown>,
+    from: Date,
+    timeZone: string,
+    settings: SendWindowSettings
+): Date {
+    let until: Date;
+
+    if (data.mode === 'until_time') {
+        const minutes = parseTimeOfDay(data.atTime) ?? 9 * 60;
+        until = nextTimeOfDay(from, minutes, timeZone, data.businessDaysOnly !== false);
+    } else {
+        until = addDuration(from, data, timeZone);
+    }
+
+    return data.respectQuietHours ? nextSendTime(until, settings, timeZone) : until;
+}
+
+/**
+ * Short description of a delay node for the canvas and the test run.
+ */
+export function describeDelay(data: Record<string, unknown>): string {
+    const base = data.mode === 'until_time'
+        ? `Until the next ${data.businessDaysOnly !== false ? 'business day' : 'day'} at ${parseTimeOfDay(data.atTime) !== null ? data.atTime : '09:00'}`
+        : `Wait ${data.duration || 0} ${data.unit || 'days'}`;
+    return data.respectQuietHours ? `${base}, outside quiet hours` : base;
+}
+
+/**
+ * The contact's local time, for messages ("Tue 09:00 America/New_York").
+ */
+export function formatInTimeZone(date: Date, timeZone: string): string {
+    const formatted = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+    }).format(date);
+    return `${formatted} ${timeZone}`;
+}
@@ -0,0 +1,288 @@
+import { createClient } from '@supabase/supabase-js';
+import { Node as RFNode, Edge } from "reactflow";
+import { Contact } from "@/types";
+import { WorkflowRun, calculateRunDelay, evaluateCondition, generateAiOutput, getQuietHoursRelease, loadRunContext } from "@/lib/automations/engine";
+import { describeDelay, formatInTimeZone } from "@/lib/automations/send-window";
+import { getSplitBranches, getSplitPercentages, pickSplitBranch } from "@/lib/automations/split";
+import { ERROR_HANDLE } from "@/lib/automations/retry-policy";
+import {
+    AI_OTHER_HANDLE,
+    buildContactFieldUpdate,
+    getAiCategories,
+    getAiMode,
+    getAiTargetField,
+    getAiVariableName,
+    matchAiCategory
+} from "@/lib/automations/ai-node";
+import { renderTemplate, sanitizeVariableName, withRunVariables } from "@/lib/automations/run-context";
+import { buildTemplateContext } from "@/lib/template-engine";
+
+/**
+ * Dry-run of a workflow graph against one contact, for the builder's "Test run".
+ *
+ * Nothing is written: emails, tags, owner/stage changes, new tasks, deals, sequence
+ * enrollments, notifications and webhooks are recorded as steps instead of executed,
+ * delays are skipped, splits pick a branch at random and conditions are evaluated for
+ * real against the contact. AI nodes call the provider for real so prompts can be
+ * tried out, but their answers are only kept in memory. Actions update an in-memory
+ * copy of the contact so later conditions see their effect.
+ */
+
+const getSupabaseAdmin = () => createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { persistSession: false } }
+);
+
+export type SimulationStepStatus = 'executed' | 'recorded' | 'skipped' | 'error';
+
+export interface SimulationStep {
+    nodeId: string;
+    nodeType: string;
+    status: SimulationStepStatus;
+    message: string;
+    branch?: string; // Handle followed out of a condition or wait node
+}
+
+export interface SimulationOptions {
+    organizationId: string;
+    workflowId: string;
+    nodes: RFNode[];
+    edges: Edge[];
+    contact: Contact;
+    waitOutcome?: 'event' | 'timeout'; // Path taken out of "Wait for event" nodes
+    triggerPayload?: Record<string, unknown>; // Sample event data for {{trigger.*}}
+}
+
+export interface SimulationResult {
+    steps: SimulationStep[];
+    completed: boolean;
+}
+
+// Guards against cycles in the graph; real runs never revisit a node this often
+const MAX_SIMULATED_STEPS = 200;
+
+export async function simulateWorkflow(options: SimulationOptions): Promise<SimulationResult> {
+    const { nodes, edges } = options;
+    const steps: SimulationStep[] = [];
+
+    const run: WorkflowRun = {
+        id: 'dry-run',
+        organization_id: options.organizationId,
+        workflow_id: options.workflowId,
+        contact_id: options.contact.id,
+        status: 'running',
+        current_node_id: null,
+        parent_run_id: null,
+        branch_id: null,
+        workflow_version_id: null,
+        metadata: { trigger_payload: { ...options.triggerPayload, contactId: options.contact.id }, dry_run: true },
+        workflow: { id: options.workflowId, organization_id: options.organizationId, name: '', nodes, edges, is_active: true, created_at: '', updated_at: '' },
+        contact: { ...options.contact, tags: [...(options.contact.tags || [])] }
+    };
+
+    const triggerNode = nodes.find(n => n.type === 'trigger');
+    if (!triggerNode) {
+        return { steps: [{ nodeId: '', nodeType: 'trigger', status: 'error', message: 'No trigger node found' }], completed: false };
+    }
+
+    const outgoing = (nodeId: string, handles?: string[]) => edges
+        .filter(e => e.source === nodeId && (handles ? handles.includes(e.sourceHandle ?? '') : e.sourceHandle !== ERROR_HANDLE))
+        .map(e => e.target);
+
+    steps.push({ nodeId: triggerNode.id, nodeType: 'trigger', status: 'executed', message: `Test run started (${triggerNode.data.triggerType})` });
+
+    // Breadth-first so parallel branches interleave roughly like real runs
+    const queue = outgoing(triggerNode.id);
+    const mergedNodes = new Set<string>();
+
+    while (queue.length > 0) {
+        if (steps.length >= MAX_SIMULATED_STEPS) {
+            steps.push({ nodeId: queue[0], nodeType: '', status: 'error', message: `Stopped after ${MAX_SIMULATED_STEPS} steps (does the workflow loop?)` });
+            return { steps, completed: false };
+        }
+
+        const nodeId = queue.shift()!;
+        const node = nodes.find(n => n.id === nodeId);
+        if (!node) {
+            steps.push({ nodeId, nodeType: '', status: 'error', message: `Node ${nodeId} not found` });
+            continue;
+        }
+
+        try {
+            const next = await simulateNode(run, node, steps, options, mergedNodes, outgoing);
+            queue.push(...next);
+        } catch (err: unknown) {
+            const message = err instanceof Error ? err.message : String(err);
+            const errorPath = outgoing(node.id, [ERROR_HANDLE]);
+            if (errorPath.length > 0) {
+                // Retries are not simulated; the error path is what a persistent failure takes
+                steps.push({ nodeId: node.id, nodeType: node.type || '', status: 'recorded', message: `Would fail (${message}) and continue on the error path`, branch: ERROR_HANDLE });
+                queue.push(...errorPath);
+                continue;
+            }
+            steps.push({ nodeId: node.id, nodeType: node.type || '', status: 'error', message: `Would fail: ${message}` });
+        }
+    }
+
+    return { steps, completed: !steps.some(s => s.status === 'error') };
+}
+
+async function simulateNode(
+    run: WorkflowRun,
+    node: RFNode,
+    steps: SimulationStep[],
+    options: SimulationOptions,
+    mergedNodes: Set<string>,
+    outgoing: (nodeId: string, handles?: string[]) => string[]
+): Promise<string[]> {
+    const record = (status: SimulationStepStatus, message: string, branch?: string) =>
+        steps.push({ nodeId: node.id, nodeType: node.type || '', status, message, branch });
+
+    switch (node.type) {
+        case 'email': {
+            const release = await getQuietHoursRelease(run);
+            const held = release ? ` (held for quiet hours until ${formatInTimeZone(release.until, release.timeZone)})` : '';
+            record('recorded', `${await describeEmail(run, node)}${held}`);
+            return outgoing(node.id);
+        }
+
+        case 'delay': {
+            const { until, timeZone } = await calculateRunDelay(run, node.data);
+            record('skipped', `Would wait: ${describeDelay(node.data)} (until ${formatInTimeZone(until, timeZone)})`);
+            return outgoing(node.id);
+        }
+
+        case 'condition': {
+            const branch = await evaluateCondition(run, node);
+            const handle = branch === 'true' ? 'yes' : 'no';
+            record('executed', `Condition is ${branch === 'true' ? 'true' : 'false'}`, handle);
+            return outgoing(node.id, branch === 'true' ? ['yes', 'true'] : ['no', 'false']);
+        }
+
+        case 'split': {
+            const branches = getSplitBranches(node.data);
+            const branch = pickSplitBranch(branches);
+            record('executed', `Randomly sent down branch ${branch.label} (${getSplitPercentages(branches)[branch.id]}% of runs)`, branch.id);
+            return outgoing(node.id, [branch.id]);
+        }
+
+        case 'ai': {
+            const output = await generateAiOutput(run, node);
+            run.metadata = withRunVariables(run.metadata, { [getAiVariableName(node.data)]: output });
+
+            const field = getAiTargetField(node.data);
+            if (field) Object.assign(run.contact, buildContactFieldUpdate(run.contact as unknown as Record<string, unknown>, field, output));
+            const written = field ? ` (would write it to ${field.replace(/^custom_fields\./, '')})` : '';
+
+            if (getAiMode(node.data) !== 'classify') {
+                record('executed', `AI answered: "${output.slice(0, 200)}"${written}`);
+                return outgoing(node.id);
+            }
+            const category = matchAiCategory(output, getAiCategories(node.data));
+            record('executed', category
+                ? `AI classified the contact as ${category.label}${written}`
+                : `AI answer "${output.slice(0, 100)}" matched no category${written}`, category?.id || AI_OTHER_HANDLE);
+            return outgoing(node.id, [category?.id || AI_OTHER_HANDLE]);
+        }
+
+        case 'merge':
+            // The first branch to arrive stands in for the last one in a real run
+            if (mergedNodes.has(node.id)) {
+                record('skipped', 'Branch joined the merge');
+                return [];
+            }
+            mergedNodes.add(node.id);
+            record('executed', 'Parallel branches merged');
+            return outgoing(node.id);
+
+        case 'wait_event': {
+            const outcome = options.waitOutcome || 'timeout';
+            record('skipped', outcome === 'event'
+                ? `Assumed ${node.data.eventType || 'the event'} happened`
+                : `Assumed no ${node.data.eventType || 'event'} within ${node.data.timeoutDays || 3} days`, outcome);
+            return outgoing(node.id, [outcome]);
+        }
+
+        case 'action':
+            if (node.data.actionType === 'set_variable') {
+                record('executed', await simulateSetVariable(run, node));
+                return outgoing(node.id);
+            }
+            record('recorded', describeAction(run, node));
+            return outgoing(node.id);
+
+        default:
+            record('executed', `Passed through ${node.type} node`);
+            return outgoing(node.id);
+    }
+}
+
+async function describeEmail(run: WorkflowRun, node: RFNode): Promise<string> {
+    if (!run.contact.email) throw new Error('Contact has no email');
+
+    const templateId = node.data.templateId as string;
+    if (!templateId) throw new Error('No template selected');
+
+    const { data: template } = await getSupabaseAdmin()
+        .from('email_templates')
+        .select('name, subject')
+        .eq('id', templateId)
+        .eq('organization_id', run.organization_id)
+        .maybeSingle();
+
+    if (!template) throw new Error('Email template not found');
+
+    const subject = template.subject
+        ? renderTemplate(template.subject, buildTemplateContext({ ...(await loadRunContext(run)) }))
+        : template.name;
+    return `Would send "${subject}" to ${run.contact.email}`;
+}
+
+// Variables only live in memory here, so later steps of the test run can use them
+async function simulateSetVariable(run: WorkflowRun, node: RFNode): Promise<string> {
+    const name = sanitizeVariableName(node.data.variableName);
+    if (!name) throw new Error('No variable name specified');
+
+    const value = renderTemplate(node.data.variableValue || '', { ...(await loadRunContext(run)) });
+    run.metadata = withRunVariables(run.metadata, { [name]: value });
+    return `Set {{vars.${name}}} to "${value.slice(0, 100)}"`;
+}
+
+function describeAction(run: WorkflowRun, node: RFNode): string {
+    const data = node.data;
+
+    switch (data.actionType) {
+        case 'add_tag': {
+            if (!data.tag) return 'No tag specified';
+            if (run.contact.tags?.includes(data.tag)) return `Contact already has tag: ${data.tag}`;
+            run.contact.tags = [...(run.contact.tags || []), data.tag];
+            return `Would add tag: ${data.tag}`;
+        }
+        case 'calculate_score':
+            return 'Would recalculate the AI lead score';
+        case 'notify_user':
+            if (!data.userId) throw new Error('No user specified for notification');
+            return `Would notify user ${data.userId}: ${data.title || 'Automation Alert'}`;
+        case 'update_stage':
+            if (!data.stage) throw new Error('No stage specified for update');
+            return `Would move the contact's latest deal to stage: ${data.stage}`;
+        case 'assign_owner':
+            if (!data.ownerId) throw new Error('No owner specified for assignment');
+            run.contact.owner_id = data.ownerId;
+            return `Would assign contact owner to: ${data.ownerId}`;
+        case 'create_task':
+            return `Would create task "${data.taskTitle || `Follow up with ${run.contact.first_name}`}" due in ${data.dueIn || 1} ${data.dueUnit || 'days'}`;
+        case 'create_deal':
+            if (!data.pipelineId || !data.stage) throw new Error('No pipeline or stage specified for new deal');
+            return `Would create a deal in stage: ${data.stage}`;
+        case 'enroll_sequence':
+            if (!data.sequenceId) throw new Error('No sequence specified for enrollment');
+            return `Would enroll the contact in sequence ${data.sequenceId}`;
+        case 'send_webhook':
+            if (!data.url) throw new Error('No URL specified for webhook');
+            return `Would ${data.method || 'POST'} webhook to ${data.url}`;
+        default:
+            return `Would run action: ${data.actionType || 'unknown'}`;
+    }
+}
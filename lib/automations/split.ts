@@ -0,0 +1,75 @@
+/**
+ * Random A/B split node: each run is sent down one of the node's branches at random,
+ * in proportion to the branch weights. Every branch is an output handle named after
+ * its id, like the "yes"/"no" handles of a condition node.
+ */
+
+export interface SplitBranch {
+    id: string; // Output handle id
+    label: string;
+    weight: number; // Relative; weights do not have to add up to 100
+}
+
+export const MIN_SPLIT_BRANCHES = 2;
+export const MAX_SPLIT_BRANCHES = 5;
+
+export const DEFAULT_SPLIT_BRANCHES: SplitBranch[] = [
+    { id: 'a', label: 'A', weight: 50 },
+    { id: 'b', label: 'B', weight: 50 },
+];
+
+/**
+ * The branches configured on a split node, or the default even A/B split.
+ */
+export function getSplitBranches(data: Record<string, unknown>): SplitBranch[] {
+    const branches = Array.isArray(data.branches) ? data.branches as Partial<SplitBranch>[] : [];
+    const valid = branches
+        .filter(b => typeof b?.id === 'string' && b.id)
+        .map(b => ({
+            id: b.id!,
+            label: b.label || b.id!.toUpperCase(),
+            weight: Math.max(0, Number(b.weight) || 0),
+        }));
+    return valid.length >= MIN_SPLIT_BRANCHES ? valid : DEFAULT_SPLIT_BRANCHES;
+}
+
+/**
+ * Picks a branch in proportion to the weights. `random` is a number in [0, 1).
+ * With no positive weight every branch is equally likely.
+ */
+export function pickSplitBranch(branches: SplitBranch[], random: number = Math.random()): SplitBranch {
+    const total = branches.reduce((sum, b) => sum + b.weight, 0);
+    if (total <= 0) return branches[Math.min(Math.floor(random * branches.length), branches.length - 1)];
+
+    let threshold = random * total;
+    for (const branch of branches) {
+        if (branch.weight <= 0) continue;
+        if (threshold < branch.weight) return branch;
+        threshold -= branch.weight;
+    }
+    return branches.filter(b => b.weight > 0).pop()!;
+}
+
+/**
+ * Each branch's share of runs, in whole percent.
+ */
+export function getSplitPercentages(branches: SplitBranch[]): Record<string, number> {
+    const total = branches.reduce((sum, b) => sum + b.weight, 0);
+    return Object.fromEntries(branches.map(b => [
+        b.id,
+        total > 0 ? Math.round((b.weight / total) * 100) : Math.round(100 / branches.length),
+    ]));
+}
+
+/**
+ * A branch to add to the node: the next free letter, with an equal share of weight.
+ */
+export function createSplitBranch(branches: SplitBranch[]): SplitBranch {
+    const used = new Set(branches.map(b => b.id));
+    const letter = 'abcdefghijklmnopqrstuvwxyz'.split('').find(l => !used.has(l)) || `branch-${branches.length + 1}`;
+    return {
+        id: letter,
+        label: letter.toUpperCase(),
+        weight: Math.round(100 / (branches.length + 1)),
+    };
+}
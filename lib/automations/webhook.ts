@@ -0,0 +1,218 @@
+import { createHmac } from 'crypto';
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { resolveTemplatePath } from "@/lib/automations/run-context";
+
+/**
+ * Outbound webhook delivery for the workflow "Send webhook" action.
+ */
+
+export interface WebhookConfig {
+    url: string;
+    method?: 'POST' | 'PUT';
+    headers?: string; // One "Header-Name: value" pair per line
+    bodyTemplate?: string; // JSON with {{contact.email}} / {{trigger.*}} / {{vars.*}} placeholders
+    secret?: string; // Signs the body with HMAC-SHA256 when set
+    timeoutSeconds?: number | string;
+}
+
+export interface WebhookResult {
+    ok: boolean;
+    status: number;
+    durationMs: number;
+}
+
+const DEFAULT_TIMEOUT_SECONDS = 10;
+const MAX_TIMEOUT_SECONDS = 30;
+const MAX_REDIRECTS = 5;
+
+/**
+ * Fills {{path}} placeholders with JSON-safe values so the result can be parsed.
+ * Strings are escaped (the template supplies the quotes), everything else is serialized.
+ */
+export function renderJsonTemplate(template: string, context: Record<string, unknown>): string {
+    return template.replace(/{{\s*([\w.]+)\s*}}/g, (_, path: string) => {
+        const value = resolveTemplatePath(context, path);
+        if (value === undefined || value === null) return '';
+        if (typeof value === 'string') return JSON.stringify(value).slice(1, -1);
+        return JSON.stringify(value);
+    });
+}
+
+export function parseHeaderLines(raw?: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const line of (raw || '').split('\n')) {
+        const separator = line.indexOf(':');
+        if (separator <= 0) continue;
+        const name = line.slice(0, separator).trim();
+        const value = line.slice(separator + 1).trim();
+        if (name) headers[name] = value;
+    }
+    return headers;
+}
+
+export function signPayload(secret: string, timestamp: string, body: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function parseIPv4(address: string): number[] | null {
+    const parts = address.split('.');
+    if (parts.length !== 4) return null;
+    const octets = parts.map(Number);
+    return octets.every(o => Number.isInteger(o) && o >= 0 && o <= 255) ? octets : null;
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local (cloud metadata lives at
+ * 169.254.169.254) or otherwise not on the public internet. Webhooks may only reach
+ * public addresses, so workflow authors can't probe internal services.
+ */
+export function isPrivateAddress(address: string): boolean {
+    const ip = address.toLowerCase().replace(/^\[|\]$/g, '').split('%')[0];
+
+    const v4 = parseIPv4(ip);
+    if (v4) {
+        const [a, b] = v4;
+        return a === 0 // "this" network
+            || a === 10
+            || a === 127
+            || (a === 100 && b >= 64 && b <= 127) // carrier-grade NAT
+            || (a === 169 && b === 254)
+            || (a === 172 && b >= 16 && b <= 31)
+            || (a === 192 && b === 168)
+            || (a === 192 && b === 0 && v4[2] === 0)
+            || (a === 198 && (b === 18 || b === 19)) // benchmarking
+            || a >= 224; // multicast and reserved
+    }
+
+    if (isIP(ip) !== 6) return true; // Not an address: refuse rather than guess
+
+    // IPv4-mapped (::ffff:10.0.0.1) and NAT64 (64:ff9b::10.0.0.1) addresses
+    const embedded = ip.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/);
+    if (embedded) return isPrivateAddress(embedded[1]);
+    const mappedHex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+        const high = parseInt(mappedHex[1], 16);
+        const low = parseInt(mappedHex[2], 16);
+        return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+
+    return ip === '::' || ip === '::1'
+        || /^f[cd]/.test(ip) // unique local fc00::/7
+        || /^fe[89ab]/.test(ip) // link-local fe80::/10
+        || ip.startsWith('ff'); // multicast
+}
+
+/**
+ * Parses the URL and checks that it uses http(s) and that every address its host
+ * resolves to is public.
+ */
+async function assertPublicUrl(raw: string | URL): Promise<URL> {
+    let url: URL;
+    try {
+        url = new URL(raw);
+    } catch {
+        throw new Error(`Invalid webhook URL: ${raw}`);
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        throw new Error('Webhook URL must use http or https');
+    }
+
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    let addresses: string[];
+    if (isIP(host)) {
+        addresses = [host];
+    } else {
+        try {
+            addresses = (await lookup(host, { all: true })).map(a => a.address);
+        } catch {
+            throw new Error(`Webhook host ${host} could not be resolved`);
+        }
+    }
+
+    if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+        throw new Error(`Webhook URL must point to a public address (${host} is private or local)`);
+    }
+    return url;
+}
+
+export async function sendWebhook(config: WebhookConfig, context: Record<string, unknown>): Promise<WebhookResult> {
+    let url = await assertPublicUrl(config.url);
+
+    // 1. Build the JSON body
+    let body: string;
+    if (config.bodyTemplate?.trim()) {
+        const rendered = renderJsonTemplate(config.bodyTemplate, context);
+        try {
+            body = JSON.stringify(JSON.parse(rendered));
+        } catch {
+            throw new Error('Webhook body is not valid JSON after filling in variables');
+        }
+    } else {
+        body = JSON.stringify(context);
+    }
+
+    // 2. Headers and signature
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'User-Agent': 'NanoSol-CRM-Webhooks/1.0',
+        ...parseHeaderLines(config.headers),
+    };
+
+    if (config.secret) {
+        headers['X-Webhook-Timestamp'] = timestamp;
+        headers['X-Webhook-Signature'] = `sha256=${signPayload(config.secret, timestamp, body)}`;
+    }
+
+    // 3. Deliver with a timeout. Redirects are followed by hand so every hop is checked.
+    const timeoutSeconds = Math.min(Number(config.timeoutSeconds) || DEFAULT_TIMEOUT_SECONDS, MAX_TIMEOUT_SECONDS);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutSeconds * 1000);
+    const startedAt = Date.now();
+
+    try {
+        let method: string = config.method || 'POST';
+        let requestBody: string | undefined = body;
+
+        for (let redirects = 0; ; redirects++) {
+            const response = await fetch(url, {
+                method,
+                headers,
+                body: requestBody,
+                redirect: 'manual',
+                signal: controller.signal,
+            });
+
+            const location = response.headers.get('location');
+            if (response.status >= 300 && response.status < 400 && location) {
+                await response.body?.cancel();
+                if (redirects >= MAX_REDIRECTS) throw new Error(`Webhook redirected more than ${MAX_REDIRECTS} times`);
+
+                url = await assertPublicUrl(new URL(location, url));
+                // Like browsers: 303, and 301/302 after a POST, continue as a GET
+                if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === 'POST')) {
+                    method = 'GET';
+                    requestBody = undefined;
+                    delete headers['Content-Type'];
+                }
+                continue;
+            }
+
+            // The body is never read: the endpoint's response isn't surfaced to workflow authors
+            await response.body?.cancel();
+            return {
+                ok: response.ok,
+                status: response.status,
+                durationMs: Date.now() - startedAt,
+            };
+        }
+    } catch (err: unknown) {
+        if (err instanceof Error && err.name === 'AbortError') {
+            throw new Error(`Webhook timed out after ${timeoutSeconds}s`);
+        }
+        throw err;
+    } finally {
+        clearTimeout(timer);
+    }
+}
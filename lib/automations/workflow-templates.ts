@@ -0,0 +1,152 @@
+import { WORKFLOW_EXPORT_FORMAT, WORKFLOW_EXPORT_VERSION, PortableWorkflow } from "@/lib/automations/workflow-transfer";
+
+/**
+ * Built-in starter workflows for the template gallery. They are portable workflow
+ * files like exports, so they go through the same import and reference mapping:
+ * their email templates are created on import and stages and pipelines are mapped
+ * to the organization's own.
+ */
+
+export interface WorkflowTemplate {
+    id: string;
+    name: string;
+    description: string;
+    workflow: PortableWorkflow;
+}
+
+const step = (index: number) => ({ x: 250, y: index * 150 });
+
+const newLeadNurture: PortableWorkflow = {
+    format: WORKFLOW_EXPORT_FORMAT,
+    version: WORKFLOW_EXPORT_VERSION,
+    name: 'New lead nurture',
+    description: 'Welcome new leads, then hand engaged ones to their owner and follow up with the rest.',
+    nodes: [
+        { id: 'trigger', type: 'trigger', position: step(0), data: { label: 'Trigger', triggerType: 'lead_created', description: 'When a lead submits a form' } },
+        { id: 'welcome', type: 'email', position: step(1), data: { label: 'Send welcome email', actionType: 'email', templateId: 'tpl-welcome' } },
+        { id: 'wait', type: 'delay', position: step(2), data: { label: 'Delay', duration: '2', unit: 'days' } },
+        {
+            id: 'opened',
+            type: 'condition',
+            position: step(3),
+            data: {
+                label: 'Opened the welcome email?',
+                conditions: { id: 'root', combinator: 'and', conditions: [{ id: 'opened', field: 'related.email_opened_in_run', operator: 'is_true' }] },
+            },
+        },
+        { id: 'call-task', type: 'action', position: { x: 50, y: 600 }, data: { label: 'Create call task', actionType: 'create_task', taskTitle: 'Call engaged lead', assignee: 'contact_owner', dueIn: '1', dueUnit: 'days', priority: 'high' } },
+        { id: 'follow-up', type: 'email', position: { x: 450, y: 600 }, data: { label: 'Send follow-up email', actionType: 'email', templateId: 'tpl-follow-up' } },
+    ],
+    edges: [
+        { id: 'e-trigger-welcome', source: 'trigger', target: 'welcome' },
+        { id: 'e-welcome-wait', source: 'welcome', target: 'wait' },
+        { id: 'e-wait-opened', source: 'wait', target: 'opened' },
+        { id: 'e-opened-call', source: 'opened', sourceHandle: 'yes', target: 'call-task' },
+        { id: 'e-opened-follow-up', source: 'opened', sourceHandle: 'no', target: 'follow-up' },
+    ],
+    settings: { enrollment_policy: 'once' },
+    references: [
+        { kind: 'email_template', id: 'tpl-welcome', label: 'Welcome' },
+        { kind: 'email_template', id: 'tpl-follow-up', label: 'Lead follow-up' },
+    ],
+    email_templates: [
+        {
+            id: 'tpl-welcome',
+            name: 'Welcome',
+            subject: 'Thanks for reaching out, {{first_name}}',
+            body_html: '<p>Hi {{first_name}},</p><p>Thanks for getting in touch. We will be in contact shortly to learn more about what you need.</p>',
+        },
+        {
+            id: 'tpl-follow-up',
+            name: 'Lead follow-up',
+            subject: 'Still interested, {{first_name}}?',
+            body_html: '<p>Hi {{first_name}},</p><p>Just checking in. Reply to this email and we will set up a quick call at a time that suits you.</p>',
+        },
+    ],
+};
+
+const staleDealFollowUp: PortableWorkflow = {
+    format: WORKFLOW_EXPORT_FORMAT,
+    version: WORKFLOW_EXPORT_VERSION,
+    name: 'Stale deal follow-up',
+    description: 'When a contact with an open deal goes quiet for two weeks, remind the owner and send a check-in.',
+    nodes: [
+        { id: 'trigger', type: 'trigger', position: step(0), data: { label: 'Trigger', triggerType: 'inactivity', inactiveDays: '14' } },
+        {
+            id: 'has-deal',
+            type: 'condition',
+            position: step(1),
+            data: {
+                label: 'Has an open deal?',
+                conditions: { id: 'root', combinator: 'and', conditions: [{ id: 'deal', field: 'related.open_deal_pipelines', operator: 'contains', value: 'any' }] },
+            },
+        },
+        { id: 'task', type: 'action', position: step(2), data: { label: 'Remind the owner', actionType: 'create_task', taskTitle: 'Follow up on stalled deal', assignee: 'contact_owner', dueIn: '1', dueUnit: 'days', priority: 'high' } },
+        { id: 'check-in', type: 'email', position: step(3), data: { label: 'Send check-in email', actionType: 'email', templateId: 'tpl-check-in' } },
+    ],
+    edges: [
+        { id: 'e-trigger-has-deal', source: 'trigger', target: 'has-deal' },
+        { id: 'e-has-deal-task', source: 'has-deal', sourceHandle: 'yes', target: 'task' },
+        { id: 'e-task-check-in', source: 'task', target: 'check-in' },
+    ],
+    settings: { enrollment_policy: 'one_at_a_time' },
+    references: [
+        { kind: 'email_template', id: 'tpl-check-in', label: 'Deal check-in' },
+    ],
+    email_templates: [
+        {
+            id: 'tpl-check-in',
+            name: 'Deal check-in',
+            subject: 'Checking in, {{first_name}}',
+            body_html: '<p>Hi {{first_name}},</p><p>It has been a little while since we last spoke. Is there anything you need from us to move forward?</p>',
+        },
+    ],
+};
+
+const postDemo: PortableWorkflow = {
+    format: WORKFLOW_EXPORT_FORMAT,
+    version: WORKFLOW_EXPORT_VERSION,
+    name: 'Post-demo follow-up',
+    description: 'Thank the contact after a demo, then either hand a reply to the owner or send a nudge.',
+    nodes: [
+        { id: 'trigger', type: 'trigger', position: step(0), data: { label: 'Trigger', triggerType: 'deal_stage_changed', toStage: 'demo' } },
+        { id: 'delay', type: 'delay', position: step(1), data: { label: 'Delay', duration: '1', unit: 'days' } },
+        { id: 'thanks', type: 'email', position: step(2), data: { label: 'Send thank-you email', actionType: 'email', templateId: 'tpl-demo-thanks' } },
+        { id: 'reply', type: 'wait_event', position: step(3), data: { label: 'Wait for a reply', eventType: 'email_replied', timeoutDays: 5 } },
+        { id: 'task', type: 'action', position: { x: 50, y: 750 }, data: { label: 'Create follow-up task', actionType: 'create_task', taskTitle: 'Contact replied after the demo', assignee: 'contact_owner', dueIn: '4', dueUnit: 'hours', priority: 'high' } },
+        { id: 'nudge', type: 'email', position: { x: 450, y: 750 }, data: { label: 'Send nudge email', actionType: 'email', templateId: 'tpl-demo-nudge' } },
+    ],
+    edges: [
+        { id: 'e-trigger-delay', source: 'trigger', target: 'delay' },
+        { id: 'e-delay-thanks', source: 'delay', target: 'thanks' },
+        { id: 'e-thanks-reply', source: 'thanks', target: 'reply' },
+        { id: 'e-reply-task', source: 'reply', sourceHandle: 'event', target: 'task' },
+        { id: 'e-reply-nudge', source: 'reply', sourceHandle: 'timeout', target: 'nudge' },
+    ],
+    settings: { enrollment_policy: 'multiple' },
+    references: [
+        { kind: 'stage', id: 'demo', label: 'Demo' },
+        { kind: 'email_template', id: 'tpl-demo-thanks', label: 'Demo thank-you' },
+        { kind: 'email_template', id: 'tpl-demo-nudge', label: 'Demo nudge' },
+    ],
+    email_templates: [
+        {
+            id: 'tpl-demo-thanks',
+            name: 'Demo thank-you',
+            subject: 'Thanks for your time today, {{first_name}}',
+            body_html: '<p>Hi {{first_name}},</p><p>Thank you for joining the demo. Reply with any questions and we will get right back to you.</p>',
+        },
+        {
+            id: 'tpl-demo-nudge',
+            name: 'Demo nudge',
+            subject: 'Any questions after the demo?',
+            body_html: '<p>Hi {{first_name}},</p><p>I wanted to make sure you have everything you need after our demo. Happy to set up a follow-up call.</p>',
+        },
+    ],
+};
+
+export const WORKFLOW_TEMPLATES: WorkflowTemplate[] = [
+    { id: 'new-lead-nurture', name: newLeadNurture.name, description: newLeadNurture.description!, workflow: newLeadNurture },
+    { id: 'stale-deal-follow-up', name: staleDealFollowUp.name, description: staleDealFollowUp.description!, workflow: staleDealFollowUp },
+    { id: 'post-demo', name: postDemo.name, description: postDemo.description!, workflow: postDemo },
+];
@@ -0,0 +1,228 @@
+import { ConditionGroup, ConditionItem, ConditionRule, RELATED_FIELDS, isConditionGroup } from "@/lib/automations/conditions";
+
+/**
+ * Portable workflow files for moving workflows between organizations.
+ *
+ * A workflow refers to records of its organization by id: email templates, users,
+ * pipelines and their stages, sequences and web forms. An export lists those
+ * references with their names so the importing organization can map each one to a
+ * record of its own. Email templates travel with the file and can be recreated; the
+ * files they attach are references too, since file contents are not exported.
+ * Webhook secrets and headers are never exported.
+ */
+
+export const WORKFLOW_EXPORT_FORMAT = 'crm-workflow';
+export const WORKFLOW_EXPORT_VERSION = 1;
+
+export type ReferenceKind = 'email_template' | 'user' | 'pipeline' | 'stage' | 'sequence' | 'form' | 'file';
+
+export interface PortableReference {
+    kind: ReferenceKind;
+    id: string; // Id in the exporting organization
+    label?: string; // Its name there, used to suggest a match on import
+}
+
+export interface PortableEmailTemplate {
+    id: string;
+    name: string;
+    subject: string;
+    body_html: string;
+    body_text?: string | null;
+    attachment_ids?: string[]; // Referenced as 'file', mapped when the template is recreated
+}
+
+export interface PortableNode {
+    id: string;
+    type?: string;
+    position: { x: number; y: number };
+    data: Record<string, unknown>;
+}
+
+export interface PortableWorkflow {
+    format: typeof WORKFLOW_EXPORT_FORMAT;
+    version: number;
+    exported_at?: string;
+    name: string;
+    description?: string | null;
+    nodes: PortableNode[];
+    edges: unknown[];
+    settings: {
+        enrollment_policy?: string;
+        reentry_days?: number | null;
+        goal?: ConditionGroup | null;
+    };
+    references: PortableReference[];
+    email_templates: PortableEmailTemplate[];
+}
+
+// Reference id -> id in the importing organization; null or missing clears the field
+export type ReferenceMapping = Record<string, string | null>;
+
+// Mapping value for an email template: create it from the copy in the file
+export const CREATE_FROM_FILE = '__create__';
+
+export const REFERENCE_KIND_LABELS: Record<ReferenceKind, string> = {
+    email_template: 'Email template',
+    user: 'User',
+    pipeline: 'Pipeline',
+    stage: 'Pipeline stage',
+    sequence: 'Email sequence',
+    form: 'Web form',
+    file: 'Attachment',
+};
+
+// Node data keys that hold the id of an organization record
+const NODE_REFERENCE_FIELDS: { key: string; kind: ReferenceKind }[] = [
+    { key: 'templateId', kind: 'email_template' },
+    { key: 'sequenceId', kind: 'sequence' },
+    { key: 'pipelineId', kind: 'pipeline' },
+    { key: 'formId', kind: 'form' },
+    { key: 'fromStage', kind: 'stage' },
+    { key: 'toStage', kind: 'stage' },
+    { key: 'stage', kind: 'stage' },
+    { key: 'ownerId', kind: 'user' },
+    { key: 'userId', kind: 'user' },
+    { key: 'assignee', kind: 'user' },
+];
+
+// Values in reference fields that mean "no particular record"
+const NON_REFERENCE_VALUES = ['', 'any', 'contact_owner'];
+
+// Node data keys that may hold credentials
+const SECRET_FIELDS = ['secret', 'headers'];
+
+export function referenceKey(kind: ReferenceKind, id: string): string {
+    return `${kind}:${id}`;
+}
+
+function isReferenceValue(value: unknown): value is string {
+    return typeof value === 'string' && !NON_REFERENCE_VALUES.includes(value);
+}
+
+function isPipelineRule(item: ConditionItem): item is ConditionRule {
+    return !isConditionGroup(item) && item.field === RELATED_FIELDS.openDealPipelines;
+}
+
+function mapConditionGroup(group: ConditionGroup, visit: (value: string) => string | undefined): ConditionGroup {
+    return {
+        ...group,
+        conditions: group.conditions.map(item => {
+            if (isConditionGroup(item)) return mapConditionGroup(item, visit);
+            if (isPipelineRule(item) && isReferenceValue(item.value)) return { ...item, value: visit(item.value) ?? '' };
+            return item;
+        }),
+    };
+}
+
+/**
+ * Every organization record the nodes and goal refer to, once each.
+ */
+export function collectReferences(nodes: PortableNode[], goal?: ConditionGroup | null): PortableReference[] {
+    const references = new Map<string, PortableReference>();
+    const add = (kind: ReferenceKind, id: string) => references.set(referenceKey(kind, id), { kind, id });
+    const collectPipelines = (group: ConditionGroup) => mapConditionGroup(group, id => {
+        add('pipeline', id);
+        return id;
+    });
+
+    for (const node of nodes) {
+        const data = node.data || {};
+        for (const { key, kind } of NODE_REFERENCE_FIELDS) {
+            if (isReferenceValue(data[key])) add(kind, data[key] as string);
+        }
+        if (data.conditions && isConditionGroup(data.conditions as ConditionItem)) {
+            collectPipelines(data.conditions as ConditionGroup);
+        }
+    }
+    if (goal) collectPipelines(goal);
+
+    return Array.from(references.values());
+}
+
+/**
+ * The files attached to the exported email templates, once each.
+ */
+export function collectAttachmentReferences(templates: PortableEmailTemplate[]): PortableReference[] {
+    const ids = new Set(templates.flatMap(t => t.attachment_ids || []));
+    return Array.from(ids, id => ({ kind: 'file' as const, id }));
+}
+
+/**
+ * The attachments of a template recreated on import: the files mapped in the
+ * importing organization, and how many had no match and were dropped.
+ */
+export function mapTemplateAttachments(template: PortableEmailTemplate, mapping: ReferenceMapping): { ids: string[]; dropped: number } {
+    const ids: string[] = [];
+    let dropped = 0;
+    for (const id of template.attachment_ids || []) {
+        const mapped = mapping[referenceKey('file', id)];
+        if (mapped) ids.push(mapped);
+        else dropped++;
+    }
+    return { ids, dropped };
+}
+
+/**
+ * Copies of the nodes with credentials removed, for export.
+ */
+export function stripSecrets(nodes: PortableNode[]): PortableNode[] {
+    return nodes.map(node => {
+        const data = { ...(node.data || {}) };
+        for (const key of SECRET_FIELDS) delete data[key];
+        // Test run and analytics overlays only exist on display copies, but never export them
+        delete data.testResult;
+        delete data.analytics;
+        return { ...node, data };
+    });
+}
+
+/**
+ * Replaces every reference with the id chosen in the importing organization.
+ * Unmapped node fields are removed so the builder shows them as unset.
+ */
+export function applyReferenceMapping(
+    nodes: PortableNode[],
+    goal: ConditionGroup | null | undefined,
+    mapping: ReferenceMapping
+): { nodes: PortableNode[]; goal: ConditionGroup | null } {
+    const resolve = (kind: ReferenceKind, id: string) => mapping[referenceKey(kind, id)] ?? undefined;
+
+    const mappedNodes = nodes.map(node => {
+        const data = { ...(node.data || {}) };
+        for (const { key, kind } of NODE_REFERENCE_FIELDS) {
+            if (!isReferenceValue(data[key])) continue;
+            const mapped = resolve(kind, data[key] as string);
+            if (mapped) data[key] = mapped;
+            else delete data[key];
+        }
+        if (data.conditions && isConditionGroup(data.conditions as ConditionItem)) {
+            data.conditions = mapConditionGroup(data.conditions as ConditionGroup, id => resolve('pipeline', id));
+        }
+        return { ...node, data };
+    });
+
+    return {
+        nodes: mappedNodes,
+        goal: goal ? mapConditionGroup(goal, id => resolve('pipeline', id)) : null,
+    };
+}
+
+/**
+ * Suggests a record of the importing organization for each reference whose label
+ * matches one of its names (case-insensitive).
+ */
+export function suggestReferenceMapping(
+    references: PortableReference[],
+    candidates: Partial<Record<ReferenceKind, { id: string; label: string }[]>>
+): ReferenceMapping {
+    const normalize = (value: string) => value.trim().toLowerCase();
+    const mapping: ReferenceMapping = {};
+
+    for (const reference of references) {
+        const options = candidates[reference.kind] || [];
+        const match = options.find(o => o.id === reference.id)
+            || (reference.label ? options.find(o => normalize(o.label) === normalize(reference.label!)) : undefined);
+        if (match) mapping[referenceKey(reference.kind, reference.id)] = match.id;
+    }
+    return mapping;
+}
@@ -0,0 +1,39 @@
+/**
+ * Plain email address helpers, safe for the browser: normalizing, validating and
+ * reading address lists (the suppression list import). Addresses compare lowercased.
+ */
+
+export function normalizeEmailAddress(email: string | null | undefined): string {
+    return (email || '').trim().toLowerCase();
+}
+
+const EMAIL_PATTERN = /^[^\s@,;"<>]+@[^\s@,;"<>]+\.[^\s@,;"<>]+$/;
+
+export function isValidEmailAddress(email: string): boolean {
+    return EMAIL_PATTERN.test(email);
+}
+
+/**
+ * The addresses in a CSV export or a plain list: the "email" column when there is a
+ * header row naming one, else every address-looking cell. Lowercased, no duplicates.
+ */
+export function parseSuppressionCsv(text: string): { emails: string[]; invalid: number } {
+    const rows = text.split(/\r?\n/).map(line => line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, '')));
+    const header = rows[0]?.map(cell => cell.toLowerCase()) || [];
+    const column = header.findIndex(cell => cell === 'email' || cell === 'email address' || cell === 'e-mail');
+    const body = column >= 0 ? rows.slice(1) : rows;
+
+    const emails = new Set<string>();
+    let invalid = 0;
+    for (const row of body) {
+        const cells = column >= 0 ? [row[column] || ''] : row.filter(cell => cell.includes('@'));
+        if (cells.every(cell => !cell)) continue;
+
+        for (const cell of cells) {
+            const email = normalizeEmailAddress(cell);
+            if (isValidEmailAddress(email)) emails.add(email);
+            else invalid++;
+        }
+    }
+    return { emails: Array.from(emails), invalid };
+}
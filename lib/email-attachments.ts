@@ -0,0 +1,227 @@
+import { createClient } from '@supabase/supabase-js';
+import { randomUUID } from 'crypto';
+import { buildAttachmentPath, checkAttachment, checkAttachmentSet, sanitizeFileName } from '@/lib/attachment-policy';
+import type { FileAttachment } from '@/types';
+
+const getSupabaseAdmin = () => createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { persistSession: false } }
+);
+
+export const ATTACHMENTS_BUCKET = 'attachments';
+
+// Columns returned to clients; storage_path stays on the server
+export const ATTACHMENT_FILE_COLUMNS = 'id, name, mime_type, size_bytes, contact_id, created_at';
+
+export interface StoreFileParams {
+    organizationId: string;
+    contactId?: string | null;
+    uploadedBy?: string | null; // Profile id
+    name: string;
+    contentType?: string | null;
+    content: Buffer;
+}
+
+/**
+ * Uploads a file to Storage and records it in the files table. Throws when the file
+ * breaks the attachment rules.
+ */
+export async function storeFile({ organizationId, contactId, uploadedBy, name, contentType, content }: StoreFileParams): Promise<FileAttachment> {
+    const fileName = sanitizeFileName(name);
+    const mimeType = (contentType || 'application/octet-stream').split(';')[0].trim().toLowerCase();
+
+    const invalid = checkAttachment({ name: fileName, size: content.length, contentType: mimeType });
+    if (invalid) throw new Error(invalid);
+
+    const admin = getSupabaseAdmin();
+    const id = randomUUID();
+    const storagePath = buildAttachmentPath(organizationId, id, fileName);
+
+    const { error: uploadError } = await admin.storage
+        .from(ATTACHMENTS_BUCKET)
+        .upload(storagePath, content, { contentType: mimeType, upsert: false });
+    if (uploadError) throw new Error(`Failed to store ${fileName}: ${uploadError.message}`);
+
+    const { data: file, error } = await admin
+        .from('files')
+        .insert({
+            id,
+            organization_id: organizationId,
+            contact_id: contactId || null,
+            name: fileName,
+            storage_path: storagePath,
+            mime_type: mimeType,
+            size_bytes: content.length,
+            uploaded_by: uploadedBy || null
+        })
+        .select(ATTACHMENT_FILE_COLUMNS)
+        .single();
+
+    if (error || !file) {
+        await admin.storage.from(ATTACHMENTS_BUCKET).remove([storagePath]);
+        throw new Error(`Failed to record ${fileName}: ${error?.message || 'unknown error'}`);
+    }
+
+    return file as FileAttachment;
+}
+
+/**
+ * Links files to an email and flags it as having attachments.
+ */
+export async function attachFilesToEmail(organizationId: string, emailId: string, fileIds: string[]): Promise<void> {
+    if (fileIds.length === 0) return;
+    const admin = getSupabaseAdmin();
+
+    const { error } = await admin
+        .from('email_attachments')
+        .upsert(
+            fileIds.map(fileId => ({ organization_id: organizationId, email_id: emailId, file_id: fileId })),
+            { onConflict: 'email_id, file_id', ignoreDuplicates: true }
+        );
+    if (error) throw error;
+
+    await admin.from('emails').update({ has_attachment: true }).eq('id', emailId);
+}
+
+/**
+ * The files attached to each of the given emails, keyed by email id. Callers check the
+ * user may see the emails; the files follow from that.
+ */
+export async function listEmailAttachments(organizationId: string, emailIds: string[]): Promise<Record<string, FileAttachment[]>> {
+    if (emailIds.length === 0) return {};
+
+    const { data, error } = await getSupabaseAdmin()
+        .from('email_attachments')
+        .select(`email_id, file:files(${ATTACHMENT_FILE_COLUMNS})`)
+        .eq('organization_id', organizationId)
+        .in('email_id', emailIds)
+        .order('created_at', { ascending: true });
+    if (error) throw error;
+
+    const byEmail: Record<string, FileAttachment[]> = {};
+    for (const row of (data || []) as unknown as { email_id: string; file: FileAttachment | null }[]) {
+        if (!row.file) continue;
+        (byEmail[row.email_id] ||= []).push(row.file);
+    }
+    return byEmail;
+}
+
+export interface OutgoingAttachment {
+    filename: string;
+    content: Buffer;
+    contentType?: string;
+}
+
+/**
+ * Downloads the organization's files for sending with nodemailer. Throws when one is
+ * missing or the set is over the limits.
+ */
+export async function loadOutgoingAttachments(organizationId: string, fileIds: string[]): Promise<OutgoingAttachment[]> {
+    const ids = Array.from(new Set(fileIds.filter(Boolean)));
+    if (ids.length === 0) return [];
+
+    const admin = getSupabaseAdmin();
+    const { data: files, error } = await admin
+        .from('files')
+        .select('id, name, mime_type, size_bytes, storage_path')
+        .eq('organization_id', organizationId)
+        .in('id', ids);
+    if (error) throw error;
+
+    if (!files || files.length !== ids.length) {
+        throw new Error('One or more attachments were not found');
+    }
+
+    const invalid = checkAttachmentSet(files.map(f => ({ name: f.name, size: Number(f.size_bytes) || 0, contentType: f.mime_type })));
+    if (invalid) throw new Error(invalid);
+
+    return Promise.all(files.map(async file => {
+        const { data, error: downloadError } = await admin.storage.from(ATTACHMENTS_BUCKET).download(file.storage_path);
+        if (downloadError || !data) throw new Error(`Failed to load attachment ${file.name}`);
+        return {
+            filename: file.name,
+            content: Buffer.from(await data.arrayBuffer()),
+            contentType: file.mime_type || undefined,
+        };
+    }));
+}
+
+export interface InboundAttachment {
+    filename?: string;
+    contentType?: string;
+    content: Buffer;
+    related?: boolean; // Inline image referenced from the HTML body
+}
+
+export interface StoreInboundAttachmentsParams {
+    organizationId: string;
+    emailId: string;
+    contactId?: string | null;
+    uploadedBy?: string | null;
+    attachments: InboundAttachment[];
+}
+
+/**
+ * Stores a synced email's attachments as files of the email and its contact. Inline
+ * images are left in the body; files over the limits or of a blocked type are skipped.
+ * An email whose attachments are already stored is left alone, so re-syncing is safe.
+ *
+ * Returns the number of files stored.
+ */
+export async function storeInboundAttachments({ organizationId, emailId, contactId, uploadedBy, attachments }: StoreInboundAttachmentsParams): Promise<number> {
+    const files = attachments.filter(a => !a.related && a.content?.length > 0);
+    if (files.length === 0) return 0;
+
+    const admin = getSupabaseAdmin();
+    const { count } = await admin
+        .from('email_attachments')
+        .select('id', { count: 'exact', head: true })
+        .eq('email_id', emailId);
+    if (count) return 0;
+
+    const stored: string[] = [];
+    for (const attachment of files) {
+        try {
+            const file = await storeFile({
+                organizationId,
+                contactId,
+                uploadedBy,
+                name: attachment.filename || 'attachment',
+                contentType: attachment.contentType,
+                content: attachment.content,
+            });
+            stored.push(file.id);
+        } catch (err) {
+            console.warn(`Skipped attachment ${attachment.filename || ''} of email ${emailId}:`, err instanceof Error ? err.message : err);
+        }
+    }
+
+    if (stored.length > 0) {
+        await attachFilesToEmail(organizationId, emailId, stored);
+    } else {
+        await admin.from('emails').update({ has_attachment: true }).eq('id', emailId);
+    }
+    return stored.length;
+}
+
+/**
+ * A short-lived download link for one of the organization's files, or null when there
+ * is no such file. Callers check the user may see it.
+ */
+export async function createFileDownloadUrl(organizationId: string, fileId: string): Promise<string | null> {
+    const admin = getSupabaseAdmin();
+    const { data: file } = await admin
+        .from('files')
+        .select('name, storage_path')
+        .eq('organization_id', organizationId)
+        .eq('id', fileId)
+        .maybeSingle();
+    if (!file) return null;
+
+    const { data, error } = await admin.storage
+        .from(ATTACHMENTS_BUCKET)
+        .createSignedUrl(file.storage_path, 60, { download: file.name });
+    if (error || !data) throw new Error('Failed to create download link');
+    return data.signedUrl;
+}
@@ -1,7 +1,12 @@
 import { createClient } from '@supabase/supabase-js';
 import nodemailer from 'nodemailer';
 import { decrypt } from '@/lib/crypto';
+import { attachFilesToEmail, loadOutgoingAttachments } from '@/lib/email-attachments';
 import { injectTracking } from '@/lib/email-tracking';
+import { buildMessageId } from '@/lib/email-threading';
+import { isEmailSuppressed } from '@/lib/suppressions';
+import { buildTemplateContext, renderTemplate } from '@/lib/template-engine';
+import { withUnsubscribe } from '@/lib/unsubscribe';
 
 const getSupabaseAdmin = () => createClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -15,8 +20,19 @@ export interface SendEmailParams {
     bodyHtml?: string;
     templateId?: string;
     organizationId: string;
-    variables?: Record<string, string>;
+    variables?: Record<string, string>; // Extra top-level values, e.g. {{first_name}} overrides
+    context?: Record<string, unknown>; // Template context; loaded from the contact when omitted
     accountId?: string;
+    contactId?: string;
+    workflowRunId?: string;
+    attachmentIds?: string[]; // Files to attach, in addition to the template's
+    marketing?: boolean; // Adds the unsubscribe link and List-Unsubscribe headers
+}
+
+export interface SendEmailResult {
+    success: boolean;
+    emailId: string | null;
+    suppressed?: boolean; // Not sent: the recipient is on the suppression list
 }
 
 export async function sendEmail({
@@ -26,9 +42,18 @@ export async function sendEmail({
     templateId,
     organizationId,
     variables = {},
-    accountId
-}: SendEmailParams) {
+    context,
+    accountId,
+    contactId,
+    workflowRunId,
+    attachmentIds = [],
+    marketing = false
+}: SendEmailParams): Promise<SendEmailResult> {
     try {
+        if (await isEmailSuppressed(organizationId, to)) {
+            return { success: false, emailId: null, suppressed: true };
+        }
+
         // 1. Fetch SMTP Config
         let smtpQuery = getSupabaseAdmin()
             .from('smtp_configs')
@@ -50,6 +75,7 @@ export async function sendEmail({
         // 2. Resolve Template if needed
         let finalSubject = subject || 'No Subject';
         let finalBody = bodyHtml || '';
+        const fileIds = [...attachmentIds];
 
         if (templateId) {
             const { data: template, error: templateError } = await getSupabaseAdmin()
@@ -64,15 +90,20 @@ export async function sendEmail({
 
             finalSubject = template.subject || finalSubject;
             finalBody = template.body_html || finalBody;
-
-            // Replace variables
-            Object.entries(variables).forEach(([key, value]) => {
-                const placeholder = new RegExp(`{{${key}}}`, 'g');
-                finalSubject = finalSubject.replace(placeholder, value);
-                finalBody = finalBody.replace(placeholder, value);
-            });
+            fileIds.push(...(template.attachment_ids || []));
         }
 
+        // Checked and loaded before anything is logged, so a bad attachment sends nothing
+        const attachments = await loadOutgoingAttachments(organizationId, fileIds);
+
+        // Fill placeholders; values are escaped in the HTML body
+        const templateContext = {
+            ...(context || (contactId ? await loadTemplateContext(organizationId, contactId) : buildTemplateContext({}))),
+            ...variables
+        };
+        finalSubject = renderTemplate(finalSubject, templateContext);
+        finalBody = renderTemplate(finalBody, templateContext, { escapeHtml: true });
+
         // 3. Decrypt credentials
         const password = decrypt(account.smtp_pass_encrypted);
 
@@ -82,25 +113,38 @@ export async function sendEmail({
             .insert({
                 account_id: account.id,
                 organization_id: organizationId,
+                contact_id: contactId || null,
+                workflow_run_id: workflowRunId || null,
                 from_addr: account.email_addr,
                 to_addr: to,
                 subject: finalSubject,
                 body_html: finalBody,
                 folder: 'sent',
                 is_read: true,
+                has_attachment: attachments.length > 0,
                 received_at: new Date().toISOString()
             })
             .select()
             .single();
 
         if (emailError) throw emailError;
+        await attachFilesToEmail(organizationId, emailRecord.id, Array.from(new Set(fileIds)));
 
         // 5. Inject Tracking
         const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-        const trackedBody = injectTracking(finalBody, emailRecord.id, baseUrl);
+        let trackedBody = injectTracking(finalBody, emailRecord.id, baseUrl);
+        const messageId = buildMessageId(emailRecord.id, account.email_addr);
+
+        // Added after tracking so the unsubscribe link is not rewritten
+        let headers: Record<string, string> | undefined;
+        if (marketing) {
+            const unsubscribe = withUnsubscribe(trackedBody, { organizationId, email: to }, baseUrl);
+            trackedBody = unsubscribe.html;
+            headers = unsubscribe.headers;
+        }
 
         // Update record with tracked body
-        await getSupabaseAdmin().from('emails').update({ body_html: trackedBody }).eq('id', emailRecord.id);
+        await getSupabaseAdmin().from('emails').update({ body_html: trackedBody, message_id: messageId }).eq('id', emailRecord.id);
 
         // 6. Send via Nodemailer
         const transporter = nodemailer.createTransport({
@@ -121,11 +165,15 @@ export async function sendEmail({
             to,
             subject: finalSubject,
             html: trackedBody,
+            messageId,
+            attachments,
+            headers,
         });
 
         // 7. Log Activity
         await getSupabaseAdmin().from('activities').insert({
             organization_id: organizationId,
+            contact_id: contactId || null,
             type: 'email',
             title: `Sent Email: ${finalSubject}`,
             description: `Sent to ${to}`,
@@ -140,3 +188,27 @@ export async function sendEmail({
         throw error;
     }
 }
+
+/**
+ * The template context for a contact: the contact, its owner and its latest deal.
+ */
+export async function loadTemplateContext(organizationId: string, contactId: string): Promise<Record<string, unknown>> {
+    const admin = getSupabaseAdmin();
+    const { data: contact } = await admin
+        .from('contacts')
+        .select('*')
+        .eq('id', contactId)
+        .eq('organization_id', organizationId)
+        .maybeSingle();
+
+    if (!contact) return buildTemplateContext({});
+
+    const [{ data: owner }, { data: deals }] = await Promise.all([
+        contact.owner_id
+            ? admin.from('profiles').select('id, full_name, email, phone').eq('id', contact.owner_id).maybeSingle()
+            : Promise.resolve({ data: null }),
+        admin.from('deals').select('*').eq('contact_id', contactId).order('created_at', { ascending: false }).limit(1)
+    ]);
+
+    return buildTemplateContext({ contact, owner, deal: deals?.[0] || null });
+}
@@ -0,0 +1,155 @@
+/**
+ * Message-ID handling for correlating inbound mail with the emails we sent, and the
+ * headers, recipients and quoting for replying within a thread.
+ *
+ * Emails we send get a Message-ID derived from their row id, so a reply's
+ * In-Reply-To or References header points straight back at the sent email.
+ */
+
+import { escapeHtml } from "@/lib/template-engine";
+
+/**
+ * The Message-ID for an email we send, e.g. `<3f2a...@acme.com>`.
+ */
+export function buildMessageId(emailId: string, fromAddress: string | null | undefined): string {
+    const domain = (fromAddress || '').split('@')[1]?.trim().toLowerCase() || 'localhost';
+    return `<${emailId}@${domain}>`;
+}
+
+/**
+ * The Message-IDs in a header value, in order, with angle brackets.
+ */
+export function parseMessageIds(header: string | string[] | null | undefined): string[] {
+    const values = Array.isArray(header) ? header : header ? [header] : [];
+    return values.flatMap(value => {
+        const bracketed = value.match(/<[^<>\s]+>/g);
+        if (bracketed) return bracketed;
+        return value.split(/[\s,]+/).filter(Boolean).map(id => `<${id.replace(/^<|>$/g, '')}>`);
+    });
+}
+
+/**
+ * The Message-IDs a message replies to: In-Reply-To first, then References from
+ * the most recent back to the start of the thread. No duplicates.
+ */
+export function getReplyReferences(inReplyTo: string | string[] | null | undefined, references: string | string[] | null | undefined): string[] {
+    return Array.from(new Set([...parseMessageIds(inReplyTo), ...parseMessageIds(references).reverse()]));
+}
+
+const AUTO_REPLY_SUBJECT = /^\s*(out of (the )?office|automatic reply|auto[- ]?reply|autoreply|auto:|abwesenheitsnotiz|undeliverable|delivery status notification)/i;
+
+/**
+ * Whether a message was generated automatically (out-of-office, bounces) and so is
+ * not a real reply from the prospect.
+ */
+export function isAutomaticReply(headers: Record<string, unknown>, subject?: string | null): boolean {
+    const header = (name: string) => String(headers[name] ?? '').toLowerCase();
+
+    const autoSubmitted = header('auto-submitted');
+    if (autoSubmitted && autoSubmitted !== 'no') return true;
+    if (header('x-autoreply') || header('x-autorespond')) return true;
+    if (['auto_reply', 'bulk', 'junk'].includes(header('precedence'))) return true;
+
+    return AUTO_REPLY_SUBJECT.test(subject || '');
+}
+
+export type ReplyMode = 'reply' | 'reply_all' | 'forward';
+
+const SUBJECT_PREFIX = /^(\s*((re|fw|fwd|aw|sv)(\[\d+\])?\s*:\s*))+/i;
+
+/**
+ * The subject without "Re:"/"Fwd:" prefixes, for grouping and display. Matches
+ * `normalize_email_subject` in the database, except for case.
+ */
+export function normalizeSubject(subject: string | null | undefined): string {
+    return (subject || '').replace(SUBJECT_PREFIX, '').trim();
+}
+
+/**
+ * The subject for a reply ("Re: ...") or forward ("Fwd: ..."), without stacking prefixes.
+ */
+export function prefixSubject(subject: string | null | undefined, mode: ReplyMode): string {
+    const base = normalizeSubject(subject) || '(No Subject)';
+    return `${mode === 'forward' ? 'Fwd' : 'Re'}: ${base}`;
+}
+
+interface ThreadMessage {
+    message_id?: string | null;
+    reference_ids?: string[] | null;
+    from_addr: string;
+    from_name?: string | null;
+    to_addr: string;
+    subject?: string | null;
+    body_html?: string | null;
+    body_text?: string | null;
+    received_at: string;
+}
+
+// Long threads would otherwise grow the References header without bound
+const MAX_REFERENCES = 20;
+
+/**
+ * The In-Reply-To and References headers for answering the message. Forwards only
+ * reference it, as they start a conversation with someone else.
+ */
+export function buildReplyHeaders(original: Pick<ThreadMessage, 'message_id' | 'reference_ids'>, mode: ReplyMode): { inReplyTo: string | null; references: string[] } {
+    const references = [...(original.reference_ids || []), ...(original.message_id ? [original.message_id] : [])].slice(-MAX_REFERENCES);
+    return {
+        inReplyTo: mode === 'forward' ? null : original.message_id || null,
+        references,
+    };
+}
+
+const splitAddresses = (value: string) => value.split(',').map(a => a.trim()).filter(Boolean);
+
+/**
+ * Whether one of our own accounts sent the message.
+ */
+export function isOutbound(message: Pick<ThreadMessage, 'from_addr'>, ownAddresses: string[]): boolean {
+    const own = ownAddresses.map(a => a.toLowerCase());
+    return own.includes(message.from_addr.toLowerCase());
+}
+
+/**
+ * Who a reply goes to: the other party of the message, plus (reply all) everyone
+ * else it was addressed to except our own accounts. Forwards start empty.
+ */
+export function getReplyRecipients(original: Pick<ThreadMessage, 'from_addr' | 'to_addr'>, mode: ReplyMode, ownAddresses: string[]): string[] {
+    if (mode === 'forward') return [];
+
+    const own = new Set(ownAddresses.map(a => a.toLowerCase()));
+    const recipients = isOutbound(original, ownAddresses) ? splitAddresses(original.to_addr).slice(0, 1) : [original.from_addr];
+    if (mode === 'reply_all') {
+        recipients.push(...splitAddresses(original.to_addr), original.from_addr);
+    }
+
+    const seen = new Set<string>();
+    return recipients.filter(address => {
+        const key = address.toLowerCase();
+        if (own.has(key) || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+/**
+ * The quoted original under a reply, or the forwarded message with its headers.
+ */
+export function buildQuotedBody(original: ThreadMessage, mode: ReplyMode): string {
+    const sender = original.from_name ? `${escapeHtml(original.from_name)} &lt;${escapeHtml(original.from_addr)}&gt;` : escapeHtml(original.from_addr);
+    const date = new Date(original.received_at).toUTCString();
+    const content = original.body_html || escapeHtml(original.body_text || '').replace(/\n/g, '<br/>');
+
+    if (mode === 'forward') {
+        return [
+            '<br/><br/>---------- Forwarded message ---------<br/>',
+            `From: ${sender}<br/>`,
+            `Date: ${date}<br/>`,
+            `Subject: ${escapeHtml(original.subject || '')}<br/>`,
+            `To: ${escapeHtml(original.to_addr)}<br/><br/>`,
+            content,
+        ].join('');
+    }
+
+    return `<br/><br/><div>On ${date}, ${sender} wrote:</div><blockquote style="margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex">${content}</blockquote>`;
+}
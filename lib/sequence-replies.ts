@@ -0,0 +1,127 @@
+import { createClient } from '@supabase/supabase-js';
+import { getReplyReferences } from '@/lib/email-threading';
+
+const getSupabaseAdmin = () => createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { persistSession: false } }
+);
+
+export interface InboundReply {
+    organizationId: string;
+    emailId: string | null; // The synced inbound email
+    fromAddress: string;
+    subject?: string | null;
+    inReplyTo?: string | string[] | null;
+    references?: string | string[] | null;
+    receivedAt: string;
+}
+
+interface MatchedEnrollment {
+    id: string;
+    contact_id: string;
+    sequence: { name: string } | null;
+    contact: { first_name: string; last_name: string | null; owner_id: string | null } | null;
+}
+
+const ENROLLMENT_COLUMNS = 'id, contact_id, sequence:email_sequences(name), contact:contacts(first_name, last_name, owner_id)';
+
+/**
+ * Stops the sequences an inbound email replies to. Enrollments are matched by the
+ * sequence email named in In-Reply-To/References, else by the sender being a
+ * contact who has been sent at least one step. Each match is marked "replied",
+ * gets a reply activity and its contact's owner is notified.
+ *
+ * Returns the number of enrollments stopped. Safe to call again for the same email.
+ */
+export async function detectSequenceReply(reply: InboundReply): Promise<number> {
+    const admin = getSupabaseAdmin();
+    let enrollments: MatchedEnrollment[] = [];
+
+    const references = getReplyReferences(reply.inReplyTo, reply.references);
+    if (references.length > 0) {
+        const { data: sent } = await admin
+            .from('emails')
+            .select('enrollment_id')
+            .eq('organization_id', reply.organizationId)
+            .in('message_id', references)
+            .not('enrollment_id', 'is', null);
+
+        const ids = Array.from(new Set((sent || []).map(e => e.enrollment_id as string)));
+        if (ids.length > 0) {
+            const { data } = await admin
+                .from('sequence_enrollments')
+                .select(ENROLLMENT_COLUMNS)
+                .in('id', ids)
+                .in('status', ['active', 'paused']);
+            enrollments = (data || []) as unknown as MatchedEnrollment[];
+        }
+    }
+
+    // Mail clients that drop the headers still reply from the contact's address
+    if (enrollments.length === 0 && reply.fromAddress) {
+        const { data: contacts } = await admin
+            .from('contacts')
+            .select('id')
+            .eq('organization_id', reply.organizationId)
+            .ilike('email', reply.fromAddress);
+
+        const contactIds = (contacts || []).map(c => c.id);
+        if (contactIds.length > 0) {
+            const { data } = await admin
+                .from('sequence_enrollments')
+                .select(ENROLLMENT_COLUMNS)
+                .in('contact_id', contactIds)
+                .in('status', ['active', 'paused'])
+                .gt('current_step', 0)
+                .lte('created_at', reply.receivedAt);
+            enrollments = (data || []) as unknown as MatchedEnrollment[];
+        }
+    }
+
+    let stopped = 0;
+    for (const enrollment of enrollments) {
+        // Only the first sync to see the reply gets to log and notify
+        const { data: updated } = await admin
+            .from('sequence_enrollments')
+            .update({
+                status: 'replied',
+                next_send_at: null,
+                replied_at: reply.receivedAt,
+                reply_email_id: reply.emailId,
+                updated_at: new Date().toISOString()
+            })
+            .eq('id', enrollment.id)
+            .in('status', ['active', 'paused'])
+            .select('id');
+
+        if (!updated || updated.length === 0) continue;
+        stopped++;
+
+        const sequenceName = enrollment.sequence?.name || 'sequence';
+        const contactName = [enrollment.contact?.first_name, enrollment.contact?.last_name].filter(Boolean).join(' ') || reply.fromAddress;
+
+        await admin.from('activities').insert({
+            organization_id: reply.organizationId,
+            contact_id: enrollment.contact_id,
+            type: 'email',
+            title: `Replied to sequence: ${sequenceName}`,
+            description: reply.subject ? `Re: ${reply.subject.replace(/^(re:\s*)+/i, '')}` : `Reply from ${reply.fromAddress}`,
+            metadata: { email_id: reply.emailId, enrollment_id: enrollment.id }
+        });
+
+        if (enrollment.contact?.owner_id) {
+            await admin.from('notifications').insert({
+                user_id: enrollment.contact.owner_id,
+                organization_id: reply.organizationId,
+                title: `${contactName} replied`,
+                message: `"${sequenceName}" was stopped for this contact.`,
+                type: 'email',
+                link_url: `/dashboard/contacts/${enrollment.contact_id}`,
+                metadata: { email_id: reply.emailId, enrollment_id: enrollment.id }
+            });
+        }
+    }
+
+    return stopped;
+}
@@ -0,0 +1,98 @@
+import { createClient } from '@supabase/supabase-js';
+import { normalizeEmailAddress } from '@/lib/email-address';
+
+const getSupabaseAdmin = () => createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { persistSession: false } }
+);
+
+/**
+ * The addresses, among those given, that the organization must not email. Lowercased.
+ */
+export async function getSuppressedEmails(organizationId: string, emails: string[]): Promise<Set<string>> {
+    const normalized = Array.from(new Set(emails.map(normalizeEmailAddress).filter(Boolean)));
+    if (normalized.length === 0) return new Set();
+
+    const { data, error } = await getSupabaseAdmin()
+        .from('suppressions')
+        .select('email')
+        .eq('organization_id', organizationId)
+        .in('email', normalized);
+    if (error) throw error;
+
+    return new Set((data || []).map(row => row.email as string));
+}
+
+export async function isEmailSuppressed(organizationId: string, email: string): Promise<boolean> {
+    return (await getSuppressedEmails(organizationId, [email])).size > 0;
+}
+
+/**
+ * Records a recipient's unsubscribe: suppresses the address and stops the sequences of
+ * the contacts with it. Unsubscribing twice changes nothing.
+ */
+export async function unsubscribeEmail(organizationId: string, email: string): Promise<void> {
+    const admin = getSupabaseAdmin();
+    const address = normalizeEmailAddress(email);
+
+    const { data: contacts } = await admin
+        .from('contacts')
+        .select('id')
+        .eq('organization_id', organizationId)
+        .ilike('email', address);
+    const contactIds = (contacts || []).map(c => c.id as string);
+
+    const { data: inserted, error } = await admin
+        .from('suppressions')
+        .upsert({
+            organization_id: organizationId,
+            email: address,
+            reason: 'unsubscribed',
+            contact_id: contactIds[0] || null
+        }, { onConflict: 'organization_id, email', ignoreDuplicates: true })
+        .select('id');
+    if (error) throw error;
+
+    if (contactIds.length === 0) return;
+
+    const now = new Date().toISOString();
+    const { error: enrollmentError } = await admin
+        .from('sequence_enrollments')
+        .update({ status: 'unsubscribed', next_send_at: null, unsubscribed_at: now, updated_at: now })
+        .in('contact_id', contactIds)
+        .in('status', ['active', 'paused']);
+    if (enrollmentError) throw enrollmentError;
+
+    // Only the first unsubscribe is logged
+    if (inserted && inserted.length > 0) {
+        await admin.from('activities').insert(contactIds.map(contactId => ({
+            organization_id: organizationId,
+            contact_id: contactId,
+            type: 'email',
+            title: 'Unsubscribed from emails',
+            description: `${address} opted out of marketing email`
+        })));
+    }
+}
+
+/**
+ * Undoes the recipient's own unsubscribe. Addresses suppressed by the organization
+ * (manually, imported, bounces) stay suppressed.
+ *
+ * Returns whether the address can be emailed again.
+ */
+export async function resubscribeEmail(organizationId: string, email: string): Promise<boolean> {
+    const admin = getSupabaseAdmin();
+    const address = normalizeEmailAddress(email);
+
+    const { error } = await admin
+        .from('suppressions')
+        .delete()
+        .eq('organization_id', organizationId)
+        .eq('email', address)
+        .eq('reason', 'unsubscribed');
+    if (error) throw error;
+
+    return !(await isEmailSuppressed(organizationId, address));
+}
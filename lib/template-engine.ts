@@ -0,0 +1,203 @@
+/**
+ * The `{{...}}` template language shared by email templates, sequences, bulk and
+ * composed emails and workflow nodes.
+ *
+ * - `{{contact.company}}`, `{{contact.custom_fields.plan}}`, `{{owner.full_name}}`: nested paths
+ * - `{{first_name|there}}`: a fallback used when the value is empty
+ * - `{{#if deal}}...{{else}}...{{/if}}` and `{{#unless ...}}`: conditionals
+ * - `{{#each contact.tags}}{{this}}{{/each}}`: loops; `{{@index}}` is the position and
+ *   the fields of object items can be used directly (`{{#each deals}}{{name}}{{/each}}`)
+ *
+ * Missing values render as empty text, never as the raw placeholder.
+ */
+
+export interface RenderOptions {
+    escapeHtml?: boolean; // Escape substituted values (not the template itself) for HTML bodies
+    onMissing?: (path: string) => void; // Called for placeholders left empty without a fallback
+}
+
+export const TEMPLATE_SYNTAX_EXAMPLES = [
+    '{{first_name|there}}',
+    '{{contact.custom_fields.plan}}',
+    '{{owner.full_name}}',
+    '{{#if deal}}...{{else}}...{{/if}}',
+    '{{#each contact.tags}}{{this}}{{/each}}',
+];
+
+type BlockKind = 'if' | 'unless' | 'each';
+
+type TemplateNode =
+    | { type: 'text'; value: string }
+    | { type: 'value'; path: string; fallback: string | null }
+    | { type: 'block'; kind: BlockKind; path: string; body: TemplateNode[]; inverse: TemplateNode[] };
+
+interface ParsedTemplate {
+    nodes: TemplateNode[];
+    errors: string[];
+}
+
+const TAG = /{{\s*([^{}]*?)\s*}}/g;
+const OPEN_BLOCK = /^#(if|unless|each)\s+([\w.@-]+)$/;
+const CLOSE_BLOCK = /^\/(if|unless|each)$/;
+const VALUE = /^([\w.@-]+)\s*(?:\|\s*(.*))?$/;
+
+function parseTemplate(template: string): ParsedTemplate {
+    const root: TemplateNode[] = [];
+    const errors: string[] = [];
+    // Open blocks, innermost last; `target` is where their content currently goes
+    const stack: { block: Extract<TemplateNode, { type: 'block' }>; target: TemplateNode[] }[] = [];
+    let target = root;
+    let last = 0;
+
+    for (const match of template.matchAll(TAG)) {
+        if (match.index! > last) target.push({ type: 'text', value: template.slice(last, match.index) });
+        last = match.index! + match[0].length;
+
+        const tag = match[1];
+        const open = tag.match(OPEN_BLOCK);
+        const close = tag.match(CLOSE_BLOCK);
+
+        if (open) {
+            const block: Extract<TemplateNode, { type: 'block' }> = { type: 'block', kind: open[1] as BlockKind, path: open[2], body: [], inverse: [] };
+            target.push(block);
+            stack.push({ block, target });
+            target = block.body;
+        } else if (tag === 'else' && stack.length > 0) {
+            target = stack[stack.length - 1].block.inverse;
+        } else if (close) {
+            const current = stack[stack.length - 1];
+            if (current?.block.kind === close[1]) {
+                stack.pop();
+                target = current.target;
+            } else {
+                errors.push(`Unexpected {{/${close[1]}}}`);
+                target.push({ type: 'text', value: match[0] });
+            }
+        } else {
+            const value = tag.match(VALUE);
+            if (value) {
+                target.push({ type: 'value', path: value[1], fallback: value[2] !== undefined ? unquote(value[2].trim()) : null });
+            } else {
+                errors.push(`Unrecognised tag ${match[0]}`);
+                target.push({ type: 'text', value: match[0] });
+            }
+        }
+    }
+
+    if (last < template.length) target.push({ type: 'text', value: template.slice(last) });
+    stack.forEach(({ block }) => errors.push(`{{#${block.kind} ${block.path}}} is never closed with {{/${block.kind}}}`));
+
+    return { nodes: root, errors };
+}
+
+const unquote = (value: string) => value.replace(/^(["'])(.*)\1$/, '$2');
+
+export function resolveTemplatePath(context: Record<string, unknown>, path: string): unknown {
+    return path.split('.').reduce<unknown>((value, key) => {
+        if (value && typeof value === 'object') return (value as Record<string, unknown>)[key];
+        return undefined;
+    }, context);
+}
+
+export function formatTemplateValue(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (Array.isArray(value)) return value.map(formatTemplateValue).join(', ');
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
+
+export const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const isTruthy = (value: unknown) => {
+    if (Array.isArray(value)) return value.length > 0;
+    if (value && typeof value === 'object') return Object.keys(value).length > 0;
+    return !!value && value !== 'false';
+};
+
+/**
+ * Looks the path up in the innermost loop scope that has its first segment, else
+ * in the template context.
+ */
+function lookup(scopes: Record<string, unknown>[], path: string): unknown {
+    const head = path.split('.')[0];
+    const scope = [...scopes].reverse().find(s => head in s) || scopes[0];
+    return resolveTemplatePath(scope, path);
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Record<string, unknown>[], options: RenderOptions): string {
+    return nodes.map(node => {
+        if (node.type === 'text') return node.value;
+
+        if (node.type === 'value') {
+            let value = formatTemplateValue(lookup(scopes, node.path));
+            if (value === '') {
+                if (node.fallback !== null) value = node.fallback;
+                else options.onMissing?.(node.path);
+            }
+            return options.escapeHtml ? escapeHtml(value) : value;
+        }
+
+        const value = lookup(scopes, node.path);
+        if (node.kind === 'each') {
+            const items = Array.isArray(value) ? value : [];
+            if (items.length === 0) return renderNodes(node.inverse, scopes, options);
+            return items.map((item, index) => {
+                const fields = item && typeof item === 'object' && !Array.isArray(item) ? item as Record<string, unknown> : {};
+                return renderNodes(node.body, [...scopes, { ...fields, this: item, '@index': index }], options);
+            }).join('');
+        }
+
+        const show = node.kind === 'if' ? isTruthy(value) : !isTruthy(value);
+        return renderNodes(show ? node.body : node.inverse, scopes, options);
+    }).join('');
+}
+
+/**
+ * Renders the template against the context.
+ */
+export function renderTemplate(template: string, context: Record<string, unknown>, options: RenderOptions = {}): string {
+    return renderNodes(parseTemplate(template).nodes, [context], options);
+}
+
+/**
+ * Syntax problems in the template, e.g. a block that is never closed. Rendering
+ * still works; unknown tags are left as text.
+ */
+export function validateTemplate(template: string): string[] {
+    return parseTemplate(template).errors;
+}
+
+/**
+ * Whether any of the texts uses the template language at all.
+ */
+export function hasPlaceholders(...texts: unknown[]): boolean {
+    return texts.some(text => typeof text === 'string' && new RegExp(TAG.source).test(text));
+}
+
+/**
+ * The context emails are rendered with. The contact's name, email and company are
+ * also available at the top level (`{{first_name}}`), as older templates use them.
+ */
+export function buildTemplateContext(sources: {
+    contact?: Record<string, unknown> | null;
+    owner?: Record<string, unknown> | null;
+    deal?: Record<string, unknown> | null;
+    [root: string]: unknown;
+}): Record<string, unknown> {
+    const contact = sources.contact || {};
+    return {
+        first_name: contact.first_name,
+        last_name: contact.last_name,
+        email: contact.email,
+        company: contact.company,
+        ...sources,
+        contact,
+        owner: sources.owner || null,
+        deal: sources.deal || null,
+    };
+}
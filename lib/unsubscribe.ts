@@ -0,0 +1,94 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { normalizeEmailAddress } from '@/lib/email-address';
+
+/**
+ * Signed unsubscribe links and the List-Unsubscribe headers for marketing email.
+ *
+ * A token names the organization and the recipient's address and is signed, so the
+ * public unsubscribe endpoints need no login and can't be used to unsubscribe others.
+ */
+
+// Set UNSUBSCRIBE_SECRET in .env. With no secret configured no links are issued and
+// none are accepted: a known default would let anyone forge them.
+const getUnsubscribeSecret = (): string | null => process.env.UNSUBSCRIBE_SECRET || process.env.EMAIL_ENCRYPTION_KEY || null;
+
+export interface UnsubscribeTarget {
+    organizationId: string;
+    email: string;
+}
+
+const sign = (payload: string, secret: string) => createHmac('sha256', secret).update(payload).digest('base64url');
+
+export function createUnsubscribeToken({ organizationId, email }: UnsubscribeTarget, secret: string | null = getUnsubscribeSecret()): string {
+    if (!secret) throw new Error('UNSUBSCRIBE_SECRET is not configured');
+    const payload = Buffer.from(`${organizationId}:${normalizeEmailAddress(email)}`).toString('base64url');
+    return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * The organization and address a token was issued for, or null when it was tampered
+ * with or is malformed.
+ */
+export function verifyUnsubscribeToken(token: string | null | undefined, secret: string | null = getUnsubscribeSecret()): UnsubscribeTarget | null {
+    if (!secret) return null;
+    const [payload, signature, ...rest] = (token || '').split('.');
+    if (!payload || !signature || rest.length > 0) return null;
+
+    const expected = Buffer.from(sign(payload, secret));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    const decoded = Buffer.from(payload, 'base64url').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator <= 0) return null;
+
+    const email = decoded.slice(separator + 1);
+    if (!email.includes('@')) return null;
+    return { organizationId: decoded.slice(0, separator), email };
+}
+
+/**
+ * The preference page (for people) and the one-click endpoint (for mail clients).
+ */
+export function buildUnsubscribeUrls(baseUrl: string, token: string) {
+    const base = baseUrl.replace(/\/+$/, '');
+    return {
+        pageUrl: `${base}/unsubscribe/${token}`,
+        oneClickUrl: `${base}/api/public/unsubscribe/${token}`,
+    };
+}
+
+/**
+ * RFC 8058 one-click unsubscribe headers.
+ */
+export function buildUnsubscribeHeaders(oneClickUrl: string): Record<string, string> {
+    return {
+        'List-Unsubscribe': `<${oneClickUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    };
+}
+
+/**
+ * Appends the unsubscribe footer inside the body of the email.
+ */
+export function appendUnsubscribeFooter(html: string, pageUrl: string): string {
+    const footer = `<p style="margin-top:24px;font-size:12px;color:#888">Don't want these emails? <a href="${pageUrl}" style="color:#888">Unsubscribe</a></p>`;
+    return html.includes('</body>') ? html.replace('</body>', `${footer}</body>`) : `${html}${footer}`;
+}
+
+/**
+ * The marketing extras for one recipient: the body with its footer and the headers.
+ * Without a configured secret the email goes out as it is, with neither.
+ */
+export function withUnsubscribe(html: string, target: UnsubscribeTarget, baseUrl: string): { html: string; headers?: Record<string, string> } {
+    if (!getUnsubscribeSecret()) {
+        console.warn('[Unsubscribe] UNSUBSCRIBE_SECRET is not set; sending without unsubscribe links');
+        return { html };
+    }
+
+    const { pageUrl, oneClickUrl } = buildUnsubscribeUrls(baseUrl, createUnsubscribeToken(target));
+    return {
+        html: appendUnsubscribeFooter(html, pageUrl),
+        headers: buildUnsubscribeHeaders(oneClickUrl),
+    };
+}
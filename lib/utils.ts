@@ -53,3 +53,14 @@ export function debounce<T extends (...args: unknown[]) => unknown>(
     timeout = setTimeout(() => func(...args), wait);
   };
 }
+
+const CONTACT_SEARCH_COLUMNS = ["first_name", "last_name", "email", "company"];
+
+/**
+ * PostgREST `or` filter matching contacts whose name, email or company contains the
+ * search. Values are quoted, so commas and parentheses in a search stay part of it.
+ */
+export function contactSearchFilter(search: string): string {
+  const quoted = `"%${search.replace(/[\\"]/g, (c) => `\\${c}`)}%"`;
+  return CONTACT_SEARCH_COLUMNS.map((column) => `${column}.ilike.${quoted}`).join(",");
+}
@@ -0,0 +1,26 @@
+-- Migration: Emit workflow triggers from the application
+-- deal_stage_changed, email_opened, email_clicked and tag_added are now evaluated by
+-- lib/automations/engine.ts, which applies the trigger node filters (stage, link, tag).
+
+-- 1. Link sent emails to their recipient contact so open/click events can start runs
+ALTER TABLE public.emails
+ADD COLUMN IF NOT EXISTS contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_emails_contact_id ON public.emails(contact_id);
+
+-- Backfill sequence emails from their enrollment
+UPDATE public.emails e
+SET contact_id = se.contact_id
+FROM public.sequence_enrollments se
+WHERE e.enrollment_id = se.id
+  AND e.contact_id IS NULL;
+
+-- 2. Drop the database-level deal stage trigger.
+-- It enrolled contacts into every deal_stage_changed workflow on any stage change,
+-- ignoring from/to filters, and would duplicate the runs created by the engine.
+-- The engine fires the event for new deals too (from no stage), in the deal API and
+-- the create_deal action.
+DROP TRIGGER IF EXISTS tr_deal_stage_changed_workflow ON public.deals;
+
+-- Notify PostgREST to reload schema cache
+NOTIFY pgrst, 'reload schema';
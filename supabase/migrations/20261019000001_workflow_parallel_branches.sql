@@ -0,0 +1,12 @@
+-- Migration: Parallel branches for workflow runs
+-- A node with several outgoing edges forks the run: the original row follows the first
+-- edge and every other edge gets its own workflow_runs row pointing at the root run.
+
+ALTER TABLE public.workflow_runs
+ADD COLUMN IF NOT EXISTS parent_run_id UUID REFERENCES public.workflow_runs(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS branch_id TEXT; -- ID of the edge that started the branch (NULL for the root run)
+
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_parent_run_id ON public.workflow_runs(parent_run_id);
+
+-- Notify PostgREST to reload schema cache
+NOTIFY pgrst, 'reload schema';
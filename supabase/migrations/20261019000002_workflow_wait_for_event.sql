@@ -0,0 +1,14 @@
+-- Migration: "Wait for event" workflow node
+-- Emails sent by a workflow remember the (root) run that sent them, so a run can wait
+-- for one of its own emails to be opened. Waiting state lives in workflow_runs.metadata.
+
+ALTER TABLE public.emails
+ADD COLUMN IF NOT EXISTS workflow_run_id UUID REFERENCES public.workflow_runs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_emails_workflow_run_id ON public.emails(workflow_run_id);
+
+-- Speeds up resuming the runs a contact is waiting in
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_contact_status ON public.workflow_runs(contact_id, status);
+
+-- Notify PostgREST to reload schema cache
+NOTIFY pgrst, 'reload schema';
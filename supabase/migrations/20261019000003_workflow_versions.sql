@@ -0,0 +1,92 @@
+-- Migration: Published workflow versions
+-- The builder edits a draft (workflows.nodes / edges). Publishing snapshots the draft
+-- into an immutable workflow_versions row; runs are pinned to the version they started on.
+
+-- 1. Versions table
+CREATE TABLE IF NOT EXISTS public.workflow_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    workflow_id UUID NOT NULL REFERENCES public.workflows(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    nodes JSONB NOT NULL DEFAULT '[]',
+    edges JSONB NOT NULL DEFAULT '[]',
+    published_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (workflow_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_versions_workflow_id ON public.workflow_versions(workflow_id);
+
+-- 2. Pointers from workflows and runs
+ALTER TABLE public.workflows
+ADD COLUMN IF NOT EXISTS published_version_id UUID REFERENCES public.workflow_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.workflow_runs
+ADD COLUMN IF NOT EXISTS workflow_version_id UUID REFERENCES public.workflow_versions(id) ON DELETE SET NULL;
+
+-- 3. Backfill: every existing workflow gets version 1 from its current graph,
+-- and in-flight runs are pinned to it
+INSERT INTO public.workflow_versions (organization_id, workflow_id, version, nodes, edges, published_by)
+SELECT w.organization_id, w.id, 1, w.nodes, w.edges, w.created_by
+FROM public.workflows w
+WHERE NOT EXISTS (SELECT 1 FROM public.workflow_versions v WHERE v.workflow_id = w.id);
+
+UPDATE public.workflows w
+SET published_version_id = v.id
+FROM public.workflow_versions v
+WHERE v.workflow_id = w.id AND v.version = 1 AND w.published_version_id IS NULL;
+
+UPDATE public.workflow_runs r
+SET workflow_version_id = w.published_version_id
+FROM public.workflows w
+WHERE r.workflow_id = w.id AND r.workflow_version_id IS NULL;
+
+-- 4. Publish: snapshot the draft as the next version and make it live
+CREATE OR REPLACE FUNCTION public.publish_workflow(p_workflow_id UUID)
+RETURNS public.workflow_versions AS $$
+DECLARE
+    wf public.workflows;
+    publisher public.profiles;
+    new_version public.workflow_versions;
+BEGIN
+    SELECT * INTO publisher FROM public.profiles WHERE user_id = auth.uid();
+
+    IF publisher.role IS NULL OR publisher.role NOT IN ('admin', 'manager') THEN
+        RAISE EXCEPTION 'Only admins and managers can publish workflows';
+    END IF;
+
+    SELECT * INTO wf
+    FROM public.workflows
+    WHERE id = p_workflow_id AND organization_id = publisher.organization_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Workflow % not found', p_workflow_id;
+    END IF;
+
+    INSERT INTO public.workflow_versions (organization_id, workflow_id, version, nodes, edges, published_by)
+    VALUES (
+        wf.organization_id,
+        wf.id,
+        COALESCE((SELECT MAX(version) FROM public.workflow_versions WHERE workflow_id = wf.id), 0) + 1,
+        wf.nodes,
+        wf.edges,
+        publisher.id
+    )
+    RETURNING * INTO new_version;
+
+    UPDATE public.workflows SET published_version_id = new_version.id WHERE id = wf.id;
+
+    RETURN new_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 5. RLS: versions are read-only for users; rows are only written by publish_workflow
+ALTER TABLE public.workflow_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "workflow_versions_select" ON public.workflow_versions;
+CREATE POLICY "workflow_versions_select" ON public.workflow_versions FOR SELECT TO authenticated
+    USING (organization_id = get_user_org_id());
+
+-- Notify PostgREST to reload schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,118 @@
+-- Migration: Leased execution queue for workflow runs
+-- Workers claim due runs with FOR UPDATE SKIP LOCKED and hold a time-limited lease
+-- while executing, so overlapping cron invocations never process the same run.
+
+-- 1. Lease and retry state on runs
+ALTER TABLE public.workflow_runs
+ADD COLUMN IF NOT EXISTS locked_by TEXT,
+ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_due ON public.workflow_runs(status, next_execution_at)
+WHERE status IN ('running', 'waiting');
+
+-- 2. Completed side-effecting steps, so a retried step is never executed twice
+CREATE TABLE IF NOT EXISTS public.workflow_step_executions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    run_id UUID NOT NULL REFERENCES public.workflow_runs(id) ON DELETE CASCADE,
+    node_id TEXT NOT NULL,
+    completed_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (run_id, node_id)
+);
+
+ALTER TABLE public.workflow_step_executions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "workflow_step_executions_select" ON public.workflow_step_executions;
+CREATE POLICY "workflow_step_executions_select" ON public.workflow_step_executions FOR SELECT TO authenticated
+    USING (organization_id = get_user_org_id());
+
+-- 3. Runs the previous engine left 'running' (its recursion depth cutoff) sit on a
+-- node it already executed, while a 'running' run is now positioned on the node still
+-- to execute. Park them on that node instead, so the queue continues after it rather
+-- than executing it again (e.g. resending an email). Runs that never left the trigger
+-- (no current node) start the same way under both engines.
+UPDATE public.workflow_runs
+SET status = 'waiting',
+    next_execution_at = NOW()
+WHERE status = 'running'
+  AND current_node_id IS NOT NULL;
+
+-- 4. Claim a batch of due runs for one worker.
+-- Running runs are due once next_execution_at passes (or is unset); waiting runs only
+-- when their delay or wait timeout elapses. Runs parked at a merge have no
+-- next_execution_at until the branch that releases them makes them due.
+CREATE OR REPLACE FUNCTION public.claim_workflow_runs(p_worker TEXT, p_limit INTEGER DEFAULT 20, p_lease_seconds INTEGER DEFAULT 300)
+RETURNS SETOF UUID AS $$
+    UPDATE public.workflow_runs r
+    SET locked_by = p_worker,
+        locked_until = NOW() + make_interval(secs => p_lease_seconds)
+    WHERE r.id IN (
+        SELECT id
+        FROM public.workflow_runs
+        WHERE (
+                (status = 'running' AND (next_execution_at IS NULL OR next_execution_at <= NOW()))
+                OR (status = 'waiting' AND next_execution_at <= NOW())
+            )
+            AND (locked_until IS NULL OR locked_until < NOW())
+        ORDER BY next_execution_at ASC NULLS FIRST
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING r.id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- 5. Claim (or renew) the lease on a single run. Succeeds when the run is unleased,
+-- the lease expired, or this worker already holds it.
+CREATE OR REPLACE FUNCTION public.claim_workflow_run(p_run_id UUID, p_worker TEXT, p_lease_seconds INTEGER DEFAULT 300)
+RETURNS BOOLEAN AS $$
+    WITH claimed AS (
+        UPDATE public.workflow_runs
+        SET locked_by = p_worker,
+            locked_until = NOW() + make_interval(secs => p_lease_seconds)
+        WHERE id = p_run_id
+          AND (locked_until IS NULL OR locked_until < NOW() OR locked_by = p_worker)
+        RETURNING id
+    )
+    SELECT EXISTS (SELECT 1 FROM claimed);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Only the service role (cron endpoints and the engine) may lease runs
+REVOKE EXECUTE ON FUNCTION public.claim_workflow_runs(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_workflow_run(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_workflow_runs(TEXT, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_workflow_run(UUID, TEXT, INTEGER) TO service_role;
+
+-- 6. contact_created runs are still inserted by the database trigger; start them on
+-- the published version like the runs created by the engine
+CREATE OR REPLACE FUNCTION public.handle_contact_created_workflow()
+RETURNS TRIGGER AS $$
+DECLARE
+    wf RECORD;
+BEGIN
+    FOR wf IN
+        SELECT w.id, v.id AS version_id
+        FROM workflows w
+        JOIN workflow_versions v ON v.id = w.published_version_id
+        WHERE w.organization_id = NEW.organization_id
+          AND w.is_active = TRUE
+          AND EXISTS (
+              SELECT 1
+              FROM jsonb_array_elements(v.nodes) AS n
+              WHERE n->>'type' = 'trigger'
+                AND n->'data'->>'triggerType' = 'contact_created'
+          )
+    LOOP
+        INSERT INTO workflow_runs (
+            organization_id, workflow_id, workflow_version_id, contact_id, status, current_node_id, next_execution_at
+        ) VALUES (
+            NEW.organization_id, wf.id, wf.version_id, NEW.id, 'running', NULL, NOW()
+        );
+    END LOOP;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Notify PostgREST to reload schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,24 @@
+-- Migration: Workflow enrollment policies and goals
+-- enrollment_policy controls whether a contact can be enrolled again; the goal is a
+-- condition tree (same shape as condition nodes) that ends a contact's run once met.
+
+-- 1. Per-workflow settings
+ALTER TABLE public.workflows
+ADD COLUMN IF NOT EXISTS enrollment_policy TEXT NOT NULL DEFAULT 'multiple'
+    CHECK (enrollment_policy IN ('multiple', 'once', 'one_at_a_time', 'after_days')),
+ADD COLUMN IF NOT EXISTS reentry_days INTEGER,
+ADD COLUMN IF NOT EXISTS goal JSONB;
+
+-- 2. Why a run ended early
+ALTER TABLE public.workflow_runs
+ADD COLUMN IF NOT EXISTS exit_reason TEXT,
+ADD COLUMN IF NOT EXISTS goal_reached_at TIMESTAMPTZ;
+
+-- Enrollment checks look up a contact's previous runs of a workflow
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_workflow_contact ON public.workflow_runs(workflow_id, contact_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_goal_reached ON public.workflow_runs(workflow_id)
+WHERE goal_reached_at IS NOT NULL;
+
+-- Notify PostgREST to reload schema cache
+NOTIFY pgrst, 'reload schema';
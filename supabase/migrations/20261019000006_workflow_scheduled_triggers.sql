@@ -0,0 +1,133 @@
+-- Migration: Scheduled workflow triggers
+-- "date_based" and "inactivity" triggers are evaluated by the workflow cron rather than
+-- by events. Every firing is recorded so a contact is triggered once per date (or per
+-- spell of inactivity) instead of on every cron tick.
+
+-- 1. Firings of scheduled triggers
+CREATE TABLE IF NOT EXISTS public.workflow_trigger_fires (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    workflow_id UUID NOT NULL REFERENCES public.workflows(id) ON DELETE CASCADE,
+    contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+    fire_key TEXT NOT NULL,
+    run_id UUID REFERENCES public.workflow_runs(id) ON DELETE SET NULL, -- NULL when the enrollment policy blocked the run
+    fired_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (workflow_id, contact_id, fire_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_trigger_fires_contact ON public.workflow_trigger_fires(workflow_id, contact_id, fired_at DESC);
+
+ALTER TABLE public.workflow_trigger_fires ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "workflow_trigger_fires_select" ON public.workflow_trigger_fires;
+CREATE POLICY "workflow_trigger_fires_select" ON public.workflow_trigger_fires FOR SELECT TO authenticated
+    USING (organization_id = get_user_org_id());
+
+-- 2. Custom fields are free-form JSON; values that are not dates are ignored
+CREATE OR REPLACE FUNCTION public.try_parse_date(p_value TEXT)
+RETURNS DATE AS $$
+BEGIN
+    IF p_value IS NULL OR p_value !~ '^\d{4}-\d{2}-\d{2}' THEN
+        RETURN NULL;
+    END IF;
+    RETURN left(p_value, 10)::DATE;
+EXCEPTION WHEN others THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 3. Contacts whose date falls between p_from and p_to and have not fired for it yet.
+-- Deal close dates only count while the deal is open; anniversaries repeat yearly on
+-- the day the contact was created.
+CREATE OR REPLACE FUNCTION public.get_date_trigger_contacts(
+    p_workflow_id UUID,
+    p_source TEXT,
+    p_field_path TEXT[],
+    p_from DATE,
+    p_to DATE,
+    p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (contact_id UUID, deal_id UUID, target_date DATE, fire_key TEXT) AS $$
+    WITH wf AS (
+        SELECT organization_id FROM public.workflows WHERE id = p_workflow_id
+    ),
+    candidates AS (
+        SELECT d.contact_id, d.id AS deal_id, d.expected_close_date AS target_date
+        FROM public.deals d, wf
+        WHERE p_source = 'deal_close_date'
+          AND d.organization_id = wf.organization_id
+          AND d.contact_id IS NOT NULL
+          AND d.expected_close_date BETWEEN p_from AND p_to
+          AND d.stage !~* '^closed[-_]'
+
+        UNION ALL
+
+        SELECT c.id, NULL::UUID, public.try_parse_date(c.custom_fields #>> p_field_path)
+        FROM public.contacts c, wf
+        WHERE p_source = 'custom_field'
+          AND c.organization_id = wf.organization_id
+          AND public.try_parse_date(c.custom_fields #>> p_field_path) BETWEEN p_from AND p_to
+
+        UNION ALL
+
+        SELECT c.id, NULL::UUID, day::DATE
+        FROM public.contacts c, wf, generate_series(p_from, p_to, INTERVAL '1 day') AS day
+        WHERE p_source = 'contact_anniversary'
+          AND c.organization_id = wf.organization_id
+          AND to_char(c.created_at, 'MM-DD') = to_char(day, 'MM-DD')
+          AND c.created_at::DATE < day::DATE
+    ),
+    keyed AS (
+        SELECT cand.*, p_source || ':' || COALESCE(cand.deal_id::TEXT || ':', '') || cand.target_date::TEXT AS fire_key
+        FROM candidates cand
+    )
+    SELECT k.contact_id, k.deal_id, k.target_date, k.fire_key
+    FROM keyed k
+    WHERE NOT EXISTS (
+        SELECT 1 FROM public.workflow_trigger_fires f
+        WHERE f.workflow_id = p_workflow_id
+          AND f.contact_id = k.contact_id
+          AND f.fire_key = k.fire_key
+    )
+    ORDER BY k.target_date
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 4. Contacts with no activity, call or creation in the last p_days days that have not
+-- fired since their last activity. New activity starts a new spell.
+CREATE OR REPLACE FUNCTION public.get_inactive_contacts(
+    p_workflow_id UUID,
+    p_days INTEGER,
+    p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (contact_id UUID, last_activity_at TIMESTAMPTZ, fire_key TEXT) AS $$
+    SELECT c.id, la.last_activity_at, 'inactive:' || floor(extract(epoch FROM la.last_activity_at))::BIGINT::TEXT
+    FROM public.workflows w
+    JOIN public.contacts c ON c.organization_id = w.organization_id
+    CROSS JOIN LATERAL (
+        SELECT GREATEST(
+            c.created_at,
+            c.last_call_at,
+            (SELECT MAX(a.created_at) FROM public.activities a WHERE a.contact_id = c.id)
+        ) AS last_activity_at
+    ) la
+    WHERE w.id = p_workflow_id
+      AND la.last_activity_at < NOW() - make_interval(days => p_days)
+      AND NOT EXISTS (
+          SELECT 1 FROM public.workflow_trigger_fires f
+          WHERE f.workflow_id = p_workflow_id
+            AND f.contact_id = c.id
+            AND f.fired_at >= la.last_activity_at
+      )
+    ORDER BY la.last_activity_at
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Only the service role (the workflow cron) may scan contacts across an organization
+REVOKE EXECUTE ON FUNCTION public.get_date_trigger_contacts(UUID, TEXT, TEXT[], DATE, DATE, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_inactive_contacts(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_date_trigger_contacts(UUID, TEXT, TEXT[], DATE, DATE, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_inactive_contacts(UUID, INTEGER, INTEGER) TO service_role;
+
+-- Notify PostgREST to reload schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,131 @@
+-- Migration: Per-node workflow analytics
+-- Aggregates workflow_logs and workflow_runs for the builder's analytics overlay.
+-- Both functions run with the caller's rights, so RLS limits them to the caller's organization.
+
+CREATE INDEX IF NOT EXISTS idx_workflow_logs_workflow_created ON public.workflow_logs(workflow_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_workflow_created ON public.workflow_runs(workflow_id, created_at);
+
+-- 1. Per node: runs that reached it in the range, runs sitting on it now, runs that
+-- failed on it, branch counts out of it and the median time until the run moved on
+CREATE OR REPLACE FUNCTION public.get_workflow_node_stats(p_workflow_id UUID, p_from TIMESTAMPTZ, p_to TIMESTAMPTZ)
+RETURNS TABLE (
+    node_id TEXT,
+    reached BIGINT,
+    waiting BIGINT,
+    failed BIGINT,
+    branches JSONB,
+    median_seconds DOUBLE PRECISION
+) AS $$
+    WITH range_logs AS (
+        SELECT l.*
+        FROM public.workflow_logs l
+        WHERE l.workflow_id = p_workflow_id
+          AND l.created_at >= p_from
+          AND l.created_at < p_to
+          AND l.node_id IS NOT NULL
+    ),
+    entries AS (
+        -- First time each run entered each node; logs written before node events were
+        -- recorded are recognised by their message
+        SELECT run_id, node_id, MIN(created_at) AS entered_at
+        FROM range_logs
+        WHERE data->>'event' = 'node_entered'
+           OR message LIKE 'Executing node type:%'
+           OR message LIKE 'Workflow started via%'
+        GROUP BY run_id, node_id
+    ),
+    timed AS (
+        SELECT e.node_id,
+               EXTRACT(EPOCH FROM COALESCE(
+                   LEAD(e.entered_at) OVER (PARTITION BY e.run_id ORDER BY e.entered_at),
+                   CASE WHEN r.status = 'completed' THEN r.last_executed_at END
+               ) - e.entered_at) AS seconds
+        FROM entries e
+        JOIN public.workflow_runs r ON r.id = e.run_id
+    ),
+    reach AS (
+        SELECT node_id, COUNT(DISTINCT run_id) AS reached
+        FROM entries
+        GROUP BY node_id
+    ),
+    medians AS (
+        SELECT node_id, percentile_cont(0.5) WITHIN GROUP (ORDER BY seconds) AS median_seconds
+        FROM timed
+        WHERE seconds IS NOT NULL
+        GROUP BY node_id
+    ),
+    branch_counts AS (
+        SELECT node_id, jsonb_object_agg(branch, total) AS branches
+        FROM (
+            SELECT node_id,
+                   COALESCE(
+                       data->>'branch',
+                       CASE substring(message FROM '^Condition evaluated to: (\w+)$')
+                           WHEN 'true' THEN 'yes'
+                           WHEN 'false' THEN 'no'
+                       END
+                   ) AS branch,
+                   COUNT(*) AS total
+            FROM range_logs
+            WHERE data ? 'branch' OR message LIKE 'Condition evaluated to:%'
+            GROUP BY 1, 2
+        ) b
+        WHERE branch IS NOT NULL
+        GROUP BY node_id
+    ),
+    failures AS (
+        SELECT node_id, COUNT(DISTINCT run_id) AS failed
+        FROM range_logs
+        WHERE level = 'error'
+        GROUP BY node_id
+    ),
+    waiting_now AS (
+        SELECT current_node_id AS node_id, COUNT(*) AS waiting
+        FROM public.workflow_runs
+        WHERE workflow_id = p_workflow_id
+          AND status IN ('running', 'waiting')
+          AND current_node_id IS NOT NULL
+        GROUP BY current_node_id
+    ),
+    all_nodes AS (
+        SELECT node_id FROM reach
+        UNION SELECT node_id FROM failures
+        UNION SELECT node_id FROM waiting_now
+    )
+    SELECT n.node_id,
+           COALESCE(rc.reached, 0),
+           COALESCE(w.waiting, 0),
+           COALESCE(f.failed, 0),
+           COALESCE(b.branches, '{}'::JSONB),
+           m.median_seconds
+    FROM all_nodes n
+    LEFT JOIN reach rc ON rc.node_id = n.node_id
+    LEFT JOIN medians m ON m.node_id = n.node_id
+    LEFT JOIN waiting_now w ON w.node_id = n.node_id
+    LEFT JOIN failures f ON f.node_id = n.node_id
+    LEFT JOIN branch_counts b ON b.node_id = n.node_id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- 2. Enrollments (root runs) started in the range and how they ended
+CREATE OR REPLACE FUNCTION public.get_workflow_run_summary(p_workflow_id UUID, p_from TIMESTAMPTZ, p_to TIMESTAMPTZ)
+RETURNS TABLE (
+    started BIGINT,
+    active BIGINT,
+    completed BIGINT,
+    failed BIGINT,
+    goal_reached BIGINT
+) AS $$
+    SELECT COUNT(*),
+           COUNT(*) FILTER (WHERE status IN ('running', 'waiting')),
+           COUNT(*) FILTER (WHERE status = 'completed'),
+           COUNT(*) FILTER (WHERE status = 'failed'),
+           COUNT(*) FILTER (WHERE goal_reached_at IS NOT NULL)
+    FROM public.workflow_runs
+    WHERE workflow_id = p_workflow_id
+      AND parent_run_id IS NULL
+      AND created_at >= p_from
+      AND created_at < p_to;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Notify PostgREST to reload schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,10 @@
+-- Migration: Convert legacy automation rules to workflows
+-- automation_rules were stored but never executed. Each rule can be converted once
+-- into an equivalent workflow; the rule then points at it and is switched off.
+
+ALTER TABLE public.automation_rules
+ADD COLUMN IF NOT EXISTS converted_workflow_id UUID REFERENCES public.workflows(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS converted_at TIMESTAMPTZ;
+
+-- Notify PostgREST to reload schema cache
+NOTIFY pgrst, 'reload schema';
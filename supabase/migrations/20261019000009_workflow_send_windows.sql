@@ -0,0 +1,44 @@
+-- Migration: Timezones and quiet hours for workflows
+-- Workflow delays and emails are scheduled in the contact's timezone, falling back
+-- to the organization default. Organizations can hold emails during quiet hours
+-- and on weekends.
+
+ALTER TABLE public.contacts
+ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+CREATE TABLE IF NOT EXISTS public.workflow_send_settings (
+    organization_id UUID PRIMARY KEY REFERENCES public.organizations(id) ON DELETE CASCADE,
+    timezone TEXT NOT NULL DEFAULT 'UTC',
+    quiet_hours_enabled BOOLEAN NOT NULL DEFAULT false,
+    quiet_hours_start TEXT NOT NULL DEFAULT '20:00' CHECK (quiet_hours_start ~ '^[0-2][0-9]:[0-5][0-9]$'),
+    quiet_hours_end TEXT NOT NULL DEFAULT '08:00' CHECK (quiet_hours_end ~ '^[0-2][0-9]:[0-5][0-9]$'),
+    skip_weekends BOOLEAN NOT NULL DEFAULT false,
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.workflow_send_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "workflow_send_settings_select" ON public.workflow_send_settings;
+CREATE POLICY "workflow_send_settings_select" ON public.workflow_send_settings FOR SELECT
+  USING (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "workflow_send_settings_insert" ON public.workflow_send_settings;
+CREATE POLICY "workflow_send_settings_insert" ON public.workflow_send_settings FOR INSERT
+  WITH CHECK (
+    organization_id = get_user_org_id() AND
+    EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role IN ('admin', 'manager'))
+  );
+
+DROP POLICY IF EXISTS "workflow_send_settings_update" ON public.workflow_send_settings;
+CREATE POLICY "workflow_send_settings_update" ON public.workflow_send_settings FOR UPDATE
+  USING (
+    organization_id = get_user_org_id() AND
+    EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role IN ('admin', 'manager'))
+  );
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.workflow_send_settings;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.workflow_send_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Notify PostgREST to reload schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,63 @@
+-- Migration: A/B split node
+-- Each enrollment (root run) is assigned one branch per split node, once, so retries
+-- and parallel branches agree on it. Outcomes are compared per branch for reporting.
+
+-- 1. Branch assignments
+CREATE TABLE IF NOT EXISTS public.workflow_split_assignments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    workflow_id UUID NOT NULL REFERENCES public.workflows(id) ON DELETE CASCADE,
+    run_id UUID NOT NULL REFERENCES public.workflow_runs(id) ON DELETE CASCADE, -- Root run
+    contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+    node_id TEXT NOT NULL,
+    branch_id TEXT NOT NULL,
+    assigned_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (run_id, node_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_split_assignments_workflow ON public.workflow_split_assignments(workflow_id, assigned_at);
+
+ALTER TABLE public.workflow_split_assignments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "workflow_split_assignments_select" ON public.workflow_split_assignments;
+CREATE POLICY "workflow_split_assignments_select" ON public.workflow_split_assignments FOR SELECT TO authenticated
+    USING (organization_id = get_user_org_id());
+
+-- 2. Per split node and branch: enrollments assigned in the range, how many opened a
+-- workflow email or got a new deal after the split, and how many reached the goal.
+-- Runs with the caller's rights, so RLS limits it to the caller's organization.
+CREATE OR REPLACE FUNCTION public.get_workflow_split_stats(p_workflow_id UUID, p_from TIMESTAMPTZ, p_to TIMESTAMPTZ)
+RETURNS TABLE (
+    node_id TEXT,
+    branch_id TEXT,
+    runs BIGINT,
+    emails_opened BIGINT,
+    deals_created BIGINT,
+    goal_reached BIGINT
+) AS $$
+    SELECT a.node_id,
+           a.branch_id,
+           COUNT(*),
+           COUNT(*) FILTER (WHERE EXISTS (
+               SELECT 1 FROM public.emails e
+               WHERE e.workflow_run_id = a.run_id
+                 AND e.opened_at IS NOT NULL
+                 AND e.created_at >= a.assigned_at
+           )),
+           COUNT(*) FILTER (WHERE EXISTS (
+               SELECT 1 FROM public.deals d
+               WHERE d.contact_id = a.contact_id
+                 AND d.organization_id = a.organization_id
+                 AND d.created_at >= a.assigned_at
+           )),
+           COUNT(*) FILTER (WHERE r.goal_reached_at IS NOT NULL)
+    FROM public.workflow_split_assignments a
+    JOIN public.workflow_runs r ON r.id = a.run_id
+    WHERE a.workflow_id = p_workflow_id
+      AND a.assigned_at >= p_from
+      AND a.assigned_at < p_to
+    GROUP BY a.node_id, a.branch_id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Notify PostgREST to reload schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,83 @@
+-- Migration: Bulk enrollment of contacts into a workflow
+-- Admins start a workflow with a "manual" trigger for a selection of contacts. The
+-- contact ids are resolved when the job is created and enrolled in throttled batches
+-- by the workflow cron, so a large segment does not flood the run queue at once.
+
+CREATE TABLE IF NOT EXISTS public.workflow_enrollment_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    workflow_id UUID NOT NULL REFERENCES public.workflows(id) ON DELETE CASCADE,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'cancelled', 'failed')),
+    contact_ids UUID[] NOT NULL,
+    total INTEGER NOT NULL,
+    processed INTEGER NOT NULL DEFAULT 0, -- Position in contact_ids
+    enrolled INTEGER NOT NULL DEFAULT 0,
+    skipped INTEGER NOT NULL DEFAULT 0, -- Blocked by the workflow's re-entry rules
+    failed INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_batch_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    locked_by TEXT,
+    locked_until TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_enrollment_jobs_due ON public.workflow_enrollment_jobs(next_batch_at)
+WHERE status IN ('queued', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_workflow_enrollment_jobs_workflow ON public.workflow_enrollment_jobs(workflow_id, created_at DESC);
+
+ALTER TABLE public.workflow_enrollment_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "workflow_enrollment_jobs_select" ON public.workflow_enrollment_jobs;
+CREATE POLICY "workflow_enrollment_jobs_select" ON public.workflow_enrollment_jobs FOR SELECT
+  USING (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "workflow_enrollment_jobs_insert" ON public.workflow_enrollment_jobs;
+CREATE POLICY "workflow_enrollment_jobs_insert" ON public.workflow_enrollment_jobs FOR INSERT
+  WITH CHECK (
+    organization_id = get_user_org_id() AND
+    EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role IN ('admin', 'manager'))
+  );
+
+-- Admins may only cancel; progress is written by the service role
+DROP POLICY IF EXISTS "workflow_enrollment_jobs_update" ON public.workflow_enrollment_jobs;
+CREATE POLICY "workflow_enrollment_jobs_update" ON public.workflow_enrollment_jobs FOR UPDATE
+  USING (
+    organization_id = get_user_org_id() AND
+    EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role IN ('admin', 'manager'))
+  )
+  WITH CHECK (status = 'cancelled');
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.workflow_enrollment_jobs;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.workflow_enrollment_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Claim the next job with a batch due (or the given job) for one worker
+CREATE OR REPLACE FUNCTION public.claim_workflow_enrollment_job(p_worker TEXT, p_job_id UUID DEFAULT NULL, p_lease_seconds INTEGER DEFAULT 120)
+RETURNS UUID AS $$
+    UPDATE public.workflow_enrollment_jobs j
+    SET locked_by = p_worker,
+        locked_until = NOW() + make_interval(secs => p_lease_seconds),
+        status = 'running'
+    WHERE j.id = (
+        SELECT id
+        FROM public.workflow_enrollment_jobs
+        WHERE status IN ('queued', 'running')
+            AND next_batch_at <= NOW()
+            AND (locked_until IS NULL OR locked_until < NOW())
+            AND (p_job_id IS NULL OR id = p_job_id)
+        ORDER BY next_batch_at ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_workflow_enrollment_job(TEXT, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_workflow_enrollment_job(TEXT, UUID, INTEGER) TO service_role;
+
+-- Notify PostgREST to reload schema cache
+NOTIFY pgrst, 'reload schema';
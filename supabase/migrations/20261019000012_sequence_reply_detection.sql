@@ -0,0 +1,21 @@
+-- Migration: Reply detection for email sequences
+-- Sent emails carry a Message-ID we generate, and synced mail keeps its In-Reply-To and
+-- References headers, so a reply can be traced back to the sequence email it answers.
+-- A reply marks the enrollment "replied", which stops its remaining steps.
+
+-- 1. Threading headers on emails
+ALTER TABLE public.emails
+    ADD COLUMN IF NOT EXISTS in_reply_to TEXT,
+    ADD COLUMN IF NOT EXISTS reference_ids TEXT[]; -- Message-IDs from the References header
+
+-- Replies are matched by Message-ID across all of the organization's accounts
+CREATE INDEX IF NOT EXISTS idx_emails_org_message_id ON public.emails(organization_id, message_id)
+WHERE message_id IS NOT NULL;
+
+-- 2. When and with which email an enrollment was replied to
+ALTER TABLE public.sequence_enrollments
+    ADD COLUMN IF NOT EXISTS replied_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS reply_email_id UUID REFERENCES public.emails(id) ON DELETE SET NULL;
+
+-- Notify PostgREST to reload schema cache
+NOTIFY pgrst, 'reload schema';
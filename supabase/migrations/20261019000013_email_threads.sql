@@ -0,0 +1,182 @@
+-- Migration: Threaded conversations in the email inbox
+-- Every email belongs to a thread, identified by the id of the thread's first email.
+-- A new email joins the thread of the message its In-Reply-To/References headers
+-- name, else a recent thread with the same subject (ignoring "Re:"/"Fwd:") and the
+-- same correspondent. Emails are also linked to the contact they were exchanged with.
+
+ALTER TABLE public.emails ADD COLUMN IF NOT EXISTS thread_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_emails_thread ON public.emails(thread_id, received_at);
+
+-- 1. Subject without reply/forward prefixes, for the fallback match
+CREATE OR REPLACE FUNCTION public.normalize_email_subject(p_subject TEXT)
+RETURNS TEXT AS $$
+    SELECT lower(trim(regexp_replace(COALESCE(p_subject, ''), '^(\s*((re|fw|fwd|aw|sv)(\[\d+\])?\s*:\s*))+', '', 'i')));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 2. The other party of an email: the recipient when one of our accounts sent it
+CREATE OR REPLACE FUNCTION public.email_counterparty(p_account_id UUID, p_from TEXT, p_to TEXT)
+RETURNS TEXT AS $$
+    SELECT lower(trim(CASE
+        WHEN EXISTS (SELECT 1 FROM public.smtp_configs WHERE id = p_account_id AND lower(email_addr) = lower(p_from))
+            THEN split_part(p_to, ',', 1)
+        ELSE p_from
+    END));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 3. The thread an email belongs to, or NULL when it starts a new one
+CREATE OR REPLACE FUNCTION public.resolve_email_thread(
+    p_organization_id UUID,
+    p_email_id UUID,
+    p_in_reply_to TEXT,
+    p_reference_ids TEXT[],
+    p_subject TEXT,
+    p_counterparty TEXT,
+    p_received_at TIMESTAMPTZ
+)
+RETURNS UUID AS $$
+DECLARE
+    v_thread UUID;
+    v_subject TEXT := public.normalize_email_subject(p_subject);
+BEGIN
+    -- Headers first: the message this one replies to, else any earlier one it references
+    IF p_in_reply_to IS NOT NULL OR COALESCE(array_length(p_reference_ids, 1), 0) > 0 THEN
+        SELECT thread_id INTO v_thread
+        FROM public.emails
+        WHERE organization_id = p_organization_id
+            AND id <> p_email_id
+            AND thread_id IS NOT NULL
+            AND message_id = ANY(array_remove(array_prepend(p_in_reply_to, COALESCE(p_reference_ids, '{}')), NULL))
+        ORDER BY (message_id = p_in_reply_to) DESC NULLS LAST, received_at DESC
+        LIMIT 1;
+
+        IF v_thread IS NOT NULL THEN
+            RETURN v_thread;
+        END IF;
+    END IF;
+
+    -- Fallback: same subject with the same correspondent in the last 30 days
+    IF v_subject <> '' AND p_counterparty IS NOT NULL AND p_counterparty <> '' THEN
+        SELECT thread_id INTO v_thread
+        FROM public.emails
+        WHERE organization_id = p_organization_id
+            AND id <> p_email_id
+            AND thread_id IS NOT NULL
+            AND received_at BETWEEN p_received_at - INTERVAL '30 days' AND p_received_at
+            AND public.normalize_email_subject(subject) = v_subject
+            AND (lower(from_addr) = p_counterparty OR lower(split_part(to_addr, ',', 1)) = p_counterparty)
+        ORDER BY received_at DESC
+        LIMIT 1;
+    END IF;
+
+    RETURN v_thread;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 4. Assign the thread and contact on every insert, whichever path stored the email
+CREATE OR REPLACE FUNCTION public.assign_email_thread()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_counterparty TEXT := public.email_counterparty(NEW.account_id, NEW.from_addr, NEW.to_addr);
+BEGIN
+    IF NEW.thread_id IS NULL THEN
+        NEW.thread_id := COALESCE(
+            public.resolve_email_thread(NEW.organization_id, NEW.id, NEW.in_reply_to, NEW.reference_ids, NEW.subject, v_counterparty, COALESCE(NEW.received_at, NOW())),
+            NEW.id
+        );
+    END IF;
+
+    IF NEW.contact_id IS NULL AND v_counterparty <> '' THEN
+        SELECT id INTO NEW.contact_id
+        FROM public.contacts
+        WHERE organization_id = NEW.organization_id AND lower(email) = v_counterparty
+        ORDER BY created_at
+        LIMIT 1;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The helpers read any organization's mail, so only the trigger (running as their
+-- owner) and the service role may call them
+REVOKE EXECUTE ON FUNCTION public.email_counterparty(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.resolve_email_thread(UUID, UUID, TEXT, TEXT[], TEXT, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.email_counterparty(UUID, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.resolve_email_thread(UUID, UUID, TEXT, TEXT[], TEXT, TEXT, TIMESTAMPTZ) TO service_role;
+
+DROP TRIGGER IF EXISTS assign_email_thread ON public.emails;
+CREATE TRIGGER assign_email_thread BEFORE INSERT ON public.emails
+    FOR EACH ROW EXECUTE FUNCTION public.assign_email_thread();
+
+-- 5. Thread the existing mail, oldest first so replies find their thread
+DO $$
+DECLARE
+    r RECORD;
+    v_counterparty TEXT;
+BEGIN
+    FOR r IN SELECT * FROM public.emails WHERE thread_id IS NULL ORDER BY received_at, created_at LOOP
+        v_counterparty := public.email_counterparty(r.account_id, r.from_addr, r.to_addr);
+        UPDATE public.emails
+        SET thread_id = COALESCE(
+                public.resolve_email_thread(r.organization_id, r.id, r.in_reply_to, r.reference_ids, r.subject, v_counterparty, r.received_at),
+                r.id
+            ),
+            contact_id = COALESCE(r.contact_id, (
+                SELECT id FROM public.contacts
+                WHERE organization_id = r.organization_id AND lower(email) = v_counterparty
+                ORDER BY created_at
+                LIMIT 1
+            ))
+        WHERE id = r.id;
+    END LOOP;
+END $$;
+
+-- 6. One row per thread with mail in the folder: its latest message and counts.
+-- Trash only counts when listing the trash. Runs with the caller's rights, so RLS
+-- limits it to the caller's organization.
+CREATE OR REPLACE FUNCTION public.get_email_threads(p_folder TEXT, p_limit INTEGER DEFAULT 20, p_offset INTEGER DEFAULT 0)
+RETURNS TABLE (
+    thread_id UUID,
+    latest_email_id UUID,
+    subject TEXT,
+    snippet TEXT,
+    from_name TEXT,
+    from_addr TEXT,
+    to_addr TEXT,
+    last_message_at TIMESTAMPTZ,
+    message_count BIGINT,
+    unread_count BIGINT,
+    contact_id UUID,
+    total_count BIGINT
+) AS $$
+    WITH messages AS (
+        SELECT e.*
+        FROM public.emails e
+        WHERE e.thread_id IN (SELECT f.thread_id FROM public.emails f WHERE f.folder = p_folder)
+            AND (e.folder <> 'trash' OR p_folder = 'trash')
+    ),
+    stats AS (
+        SELECT m.thread_id,
+            COUNT(*) AS message_count,
+            COUNT(*) FILTER (WHERE NOT COALESCE(m.is_read, FALSE)) AS unread_count,
+            (array_agg(m.contact_id ORDER BY m.received_at DESC) FILTER (WHERE m.contact_id IS NOT NULL))[1] AS contact_id
+        FROM messages m
+        GROUP BY m.thread_id
+    ),
+    latest AS (
+        SELECT DISTINCT ON (m.thread_id) m.*
+        FROM messages m
+        ORDER BY m.thread_id, m.received_at DESC
+    )
+    SELECT l.thread_id, l.id, l.subject, left(COALESCE(l.body_text, ''), 200), l.from_name, l.from_addr, l.to_addr,
+        l.received_at, s.message_count, s.unread_count, s.contact_id,
+        COUNT(*) OVER ()
+    FROM latest l
+    JOIN stats s ON s.thread_id = l.thread_id
+    ORDER BY l.received_at DESC
+    LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+-- Notify PostgREST to reload schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,85 @@
+-- Migration: Email attachments
+-- Attachment content lives in the private "attachments" Storage bucket and is recorded in
+-- the existing files table, so it also shows among the contact's files. Emails link to
+-- their files through email_attachments; templates list the files they always attach.
+
+-- 1. Whether an email has attachments (used by the inbox listing)
+ALTER TABLE public.emails ADD COLUMN IF NOT EXISTS has_attachment BOOLEAN DEFAULT FALSE;
+
+-- 2. Files attached to an email, sent or received
+CREATE TABLE IF NOT EXISTS public.email_attachments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    email_id UUID NOT NULL REFERENCES public.emails(id) ON DELETE CASCADE,
+    file_id UUID NOT NULL REFERENCES public.files(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (email_id, file_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_attachments_file ON public.email_attachments(file_id);
+
+ALTER TABLE public.email_attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "email_attachments_select" ON public.email_attachments;
+CREATE POLICY "email_attachments_select" ON public.email_attachments FOR SELECT TO authenticated
+    USING (organization_id = get_user_org_id());
+
+-- 3. Files a template attaches to every email sent with it
+ALTER TABLE public.email_templates ADD COLUMN IF NOT EXISTS attachment_ids UUID[] DEFAULT '{}';
+
+-- 4. Private bucket; objects are only read and written by the server, which checks
+-- access through the files table and hands out short-lived signed URLs
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('attachments', 'attachments', FALSE, 10485760)
+ON CONFLICT (id) DO UPDATE SET public = FALSE, file_size_limit = EXCLUDED.file_size_limit;
+
+-- 5. Thread listing flags conversations with attachments. The return type changes,
+-- so the function is recreated.
+DROP FUNCTION IF EXISTS public.get_email_threads(TEXT, INTEGER, INTEGER);
+CREATE OR REPLACE FUNCTION public.get_email_threads(p_folder TEXT, p_limit INTEGER DEFAULT 20, p_offset INTEGER DEFAULT 0)
+RETURNS TABLE (
+    thread_id UUID,
+    latest_email_id UUID,
+    subject TEXT,
+    snippet TEXT,
+    from_name TEXT,
+    from_addr TEXT,
+    to_addr TEXT,
+    last_message_at TIMESTAMPTZ,
+    message_count BIGINT,
+    unread_count BIGINT,
+    contact_id UUID,
+    has_attachment BOOLEAN,
+    total_count BIGINT
+) AS $$
+    WITH messages AS (
+        SELECT e.*
+        FROM public.emails e
+        WHERE e.thread_id IN (SELECT f.thread_id FROM public.emails f WHERE f.folder = p_folder)
+            AND (e.folder <> 'trash' OR p_folder = 'trash')
+    ),
+    stats AS (
+        SELECT m.thread_id,
+            COUNT(*) AS message_count,
+            COUNT(*) FILTER (WHERE NOT COALESCE(m.is_read, FALSE)) AS unread_count,
+            (array_agg(m.contact_id ORDER BY m.received_at DESC) FILTER (WHERE m.contact_id IS NOT NULL))[1] AS contact_id,
+            bool_or(COALESCE(m.has_attachment, FALSE)) AS has_attachment
+        FROM messages m
+        GROUP BY m.thread_id
+    ),
+    latest AS (
+        SELECT DISTINCT ON (m.thread_id) m.*
+        FROM messages m
+        ORDER BY m.thread_id, m.received_at DESC
+    )
+    SELECT l.thread_id, l.id, l.subject, left(COALESCE(l.body_text, ''), 200), l.from_name, l.from_addr, l.to_addr,
+        l.received_at, s.message_count, s.unread_count, s.contact_id, s.has_attachment,
+        COUNT(*) OVER ()
+    FROM latest l
+    JOIN stats s ON s.thread_id = l.thread_id
+    ORDER BY l.received_at DESC
+    LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+-- Notify PostgREST to reload schema cache
+NOTIFY pgrst, 'reload schema';
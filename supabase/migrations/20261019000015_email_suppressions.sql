@@ -0,0 +1,49 @@
+-- Migration: Unsubscribes and the suppression list
+-- Every sending path skips addresses on the organization's suppression list. Addresses
+-- get there by unsubscribing (link or List-Unsubscribe), or by being added or imported
+-- in settings. Addresses are stored lowercased, one row per address per organization.
+
+-- 1. Suppression list
+CREATE TABLE IF NOT EXISTS public.suppressions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    email TEXT NOT NULL CHECK (email = lower(email)),
+    reason TEXT NOT NULL DEFAULT 'manual' CHECK (reason IN ('unsubscribed', 'manual', 'imported', 'bounced', 'complained')),
+    note TEXT,
+    contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL, -- NULL when the recipient unsubscribed
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (organization_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_suppressions_org_created ON public.suppressions(organization_id, created_at DESC);
+
+ALTER TABLE public.suppressions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "suppressions_select" ON public.suppressions;
+CREATE POLICY "suppressions_select" ON public.suppressions FOR SELECT
+  USING (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "suppressions_insert" ON public.suppressions;
+CREATE POLICY "suppressions_insert" ON public.suppressions FOR INSERT
+  WITH CHECK (
+    organization_id = get_user_org_id() AND
+    EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role IN ('admin', 'manager'))
+  );
+
+DROP POLICY IF EXISTS "suppressions_delete" ON public.suppressions;
+CREATE POLICY "suppressions_delete" ON public.suppressions FOR DELETE
+  USING (
+    organization_id = get_user_org_id() AND
+    EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role IN ('admin', 'manager'))
+  );
+
+-- 2. Sequence enrollments of unsubscribed contacts are stopped with their own status
+ALTER TABLE public.sequence_enrollments ADD COLUMN IF NOT EXISTS unsubscribed_at TIMESTAMPTZ;
+
+ALTER TABLE public.sequence_enrollments DROP CONSTRAINT IF EXISTS sequence_enrollments_status_check;
+ALTER TABLE public.sequence_enrollments ADD CONSTRAINT sequence_enrollments_status_check
+    CHECK (status IN ('active', 'paused', 'completed', 'replied', 'unsubscribed'));
+
+-- Notify PostgREST to reload schema cache
+NOTIFY pgrst, 'reload schema';
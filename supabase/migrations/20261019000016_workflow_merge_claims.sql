@@ -0,0 +1,61 @@
+-- Migration: Atomic merge claims for parallel workflow branches
+-- Branches reaching a merge at the same time each saw the other parked and both went
+-- on, running every node after the merge twice. Claims now lock the root run, so the
+-- branches of one run claim their merges one at a time.
+
+-- Returns how many parked branches were completed into the caller, or NULL when the
+-- caller must keep waiting (other branches are still running, or it was itself merged
+-- into a branch that claimed first).
+CREATE OR REPLACE FUNCTION public.claim_workflow_merge(p_run_id UUID, p_node_id TEXT, p_merge_node_ids TEXT[])
+RETURNS INTEGER AS $$
+DECLARE
+    v_root_id UUID;
+    v_status TEXT;
+    v_merged INTEGER;
+BEGIN
+    SELECT COALESCE(parent_run_id, id) INTO v_root_id
+    FROM workflow_runs
+    WHERE id = p_run_id;
+
+    IF v_root_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    -- Serializes the merge claims of the run family
+    PERFORM 1 FROM workflow_runs WHERE id = v_root_id FOR UPDATE;
+
+    SELECT status INTO v_status FROM workflow_runs WHERE id = p_run_id;
+    IF v_status NOT IN ('running', 'waiting') THEN
+        RETURN NULL;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM workflow_runs
+        WHERE (id = v_root_id OR parent_run_id = v_root_id)
+          AND id <> p_run_id
+          AND status IN ('running', 'waiting')
+          AND NOT (status = 'waiting' AND current_node_id = ANY (p_merge_node_ids))
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE workflow_runs
+    SET status = 'completed',
+        last_executed_at = NOW()
+    WHERE (id = v_root_id OR parent_run_id = v_root_id)
+      AND id <> p_run_id
+      AND status = 'waiting'
+      AND current_node_id = p_node_id;
+    GET DIAGNOSTICS v_merged = ROW_COUNT;
+
+    RETURN v_merged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the service role (the engine) may claim merges
+REVOKE EXECUTE ON FUNCTION public.claim_workflow_merge(UUID, TEXT, TEXT[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_workflow_merge(UUID, TEXT, TEXT[]) TO service_role;
+
+-- Notify PostgREST to reload schema cache
+NOTIFY pgrst, 'reload schema';
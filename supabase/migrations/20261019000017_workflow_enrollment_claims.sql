@@ -0,0 +1,64 @@
+-- Migration: Atomic workflow enrollments
+-- The enrollment policy was checked and the run inserted in separate requests, so two
+-- trigger events arriving together could both pass a "once" policy. Enrollments now
+-- check and insert in one call that locks the workflow/contact pair.
+
+-- 1. Enroll a contact unless the workflow's enrollment policy refuses it.
+-- Returns the new run's id, or NULL when the policy refused the contact.
+CREATE OR REPLACE FUNCTION public.enroll_workflow_run(p_workflow_id UUID, p_version_id UUID, p_contact_id UUID, p_metadata JSONB DEFAULT '{}'::jsonb)
+RETURNS UUID AS $$
+DECLARE
+    v_workflow RECORD;
+    v_run_id UUID;
+BEGIN
+    SELECT organization_id, enrollment_policy, reentry_days INTO v_workflow
+    FROM workflows
+    WHERE id = p_workflow_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Workflow % not found', p_workflow_id;
+    END IF;
+
+    -- Serializes the enrollments of one contact into one workflow
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_workflow_id::text || ':' || p_contact_id::text, 0));
+
+    IF v_workflow.enrollment_policy <> 'multiple' AND EXISTS (
+        SELECT 1
+        FROM workflow_runs
+        WHERE workflow_id = p_workflow_id
+          AND contact_id = p_contact_id
+          AND parent_run_id IS NULL
+          AND (
+              v_workflow.enrollment_policy = 'once'
+              OR (v_workflow.enrollment_policy = 'one_at_a_time' AND status IN ('running', 'waiting'))
+              OR (v_workflow.enrollment_policy = 'after_days'
+                  AND created_at >= NOW() - make_interval(days => COALESCE(v_workflow.reentry_days, 0)))
+          )
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    -- Due immediately; the queue picks it up if the caller does not process it
+    INSERT INTO workflow_runs (
+        organization_id, workflow_id, workflow_version_id, contact_id, status, metadata
+    ) VALUES (
+        v_workflow.organization_id, p_workflow_id, p_version_id, p_contact_id, 'running', COALESCE(p_metadata, '{}'::jsonb)
+    )
+    RETURNING id INTO v_run_id;
+
+    RETURN v_run_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the service role (the engine) may enroll contacts
+REVOKE EXECUTE ON FUNCTION public.enroll_workflow_run(UUID, UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.enroll_workflow_run(UUID, UUID, UUID, JSONB) TO service_role;
+
+-- 2. contact_created runs were inserted by a database trigger that skipped the
+-- enrollment policies and stored no trigger payload. Every path that creates contacts
+-- now fires contact_created through the engine instead.
+DROP TRIGGER IF EXISTS tr_contact_created_workflow ON public.contacts;
+DROP FUNCTION IF EXISTS public.handle_contact_created_workflow();
+
+-- Notify PostgREST to reload schema cache
+NOTIFY pgrst, 'reload schema';
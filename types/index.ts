@@ -44,6 +44,7 @@ export interface Contact {
     owner_id?: string | null;
     last_call_status?: string | null;
     last_call_at?: string | null;
+    timezone?: string | null; // IANA name; workflow steps fall back to the organization's
     created_at: string;
     updated_at: string;
 }
@@ -231,6 +232,8 @@ export interface Email {
     id: string;
     account_id: string;
     organization_id: string;
+    contact_id?: string | null;
+    workflow_run_id?: string | null;
     from_name?: string;
     from_addr: string;
     to_addr: string;
@@ -244,10 +247,42 @@ export interface Email {
     clicked_at?: string;
     open_count?: number;
     click_count?: number;
+    message_id?: string | null; // Generated for emails we send, from the headers for synced mail
+    in_reply_to?: string | null;
+    reference_ids?: string[] | null;
+    enrollment_id?: string | null; // Sequence enrollment the email was sent for
+    thread_id?: string | null; // Id of the thread's first email; assigned by the database
+    attachments?: FileAttachment[]; // Loaded with the thread
     received_at: string;
     created_at: string;
 }
 
+// A stored file (files table) as attached to emails and templates
+export interface FileAttachment {
+    id: string;
+    name: string;
+    mime_type: string | null;
+    size_bytes: number;
+    contact_id: string | null;
+    created_at: string;
+}
+
+// One conversation in a folder listing: its latest message and counts
+export interface EmailThread {
+    thread_id: string;
+    latest_email_id: string;
+    subject?: string | null;
+    snippet: string;
+    from_name?: string | null;
+    from_addr: string;
+    to_addr: string;
+    last_message_at: string;
+    message_count: number;
+    unread_count: number;
+    contact_id?: string | null;
+    has_attachment: boolean;
+}
+
 export interface EmailTrackingEvent {
     id: string;
     email_id: string;
@@ -265,6 +300,7 @@ export interface EmailTemplate {
     subject: string;
     body_html: string;
     body_text?: string;
+    attachment_ids?: string[]; // Files attached to every email sent with the template
     created_at: string;
     updated_at: string;
 }
@@ -296,9 +332,12 @@ export interface SequenceEnrollment {
     organization_id: string;
     sequence_id: string;
     contact_id: string;
-    status: "active" | "paused" | "completed" | "replied";
+    status: "active" | "paused" | "completed" | "replied" | "unsubscribed"; // "replied" and "unsubscribed" stop the steps
     current_step: number;
     next_send_at?: string;
+    replied_at?: string | null;
+    reply_email_id?: string | null;
+    unsubscribed_at?: string | null;
     created_at: string;
     updated_at: string;
     // Joined relations
@@ -314,7 +353,37 @@ export interface SequenceEnrollment {
     } | null;
 }
 
+export type SuppressionReason = "unsubscribed" | "manual" | "imported" | "bounced" | "complained";
+
+// An address the organization must not email (suppressions table)
+export interface Suppression {
+    id: string;
+    organization_id: string;
+    email: string;
+    reason: SuppressionReason;
+    note?: string | null;
+    contact_id?: string | null;
+    created_by?: string | null;
+    created_at: string;
+}
+
 // Automation
+export type WorkflowTriggerType =
+    | "contact_created"
+    | "lead_created"
+    | "deal_stage_changed"
+    | "email_opened"
+    | "email_clicked"
+    | "tag_added"
+    // Scheduled: evaluated by the workflow cron, never emitted as events
+    | "date_based"
+    | "inactivity"
+    // Started by bulk enrollment from the contacts page, never emitted as an event
+    | "manual";
+
+// Events that can resume a run parked on a "Wait for event" node
+export type WorkflowEventType = WorkflowTriggerType | "email_replied";
+
 export interface Workflow {
     id: string;
     organization_id: string;
@@ -323,11 +392,28 @@ export interface Workflow {
     nodes: unknown[]; // React Flow nodes
     edges: unknown[]; // React Flow edges
     is_active: boolean;
+    published_version_id?: string | null; // Version new runs start on; nodes/edges above are the draft
+    enrollment_policy?: WorkflowEnrollmentPolicy;
+    reentry_days?: number | null; // For "after_days": minimum days between enrollments
+    goal?: Record<string, unknown> | null; // Condition group (lib/automations/conditions) that ends runs early
     created_by?: string;
     created_at: string;
     updated_at: string;
 }
 
+export type WorkflowEnrollmentPolicy = "multiple" | "once" | "one_at_a_time" | "after_days";
+
+export interface WorkflowVersion {
+    id: string;
+    organization_id: string;
+    workflow_id: string;
+    version: number;
+    nodes: unknown[]; // Immutable snapshot of the draft at publish time
+    edges: unknown[];
+    published_by?: string | null;
+    created_at: string;
+}
+
 export interface WorkflowRun {
     id: string;
     organization_id: string;
@@ -335,11 +421,38 @@ export interface WorkflowRun {
     contact_id: string;
     status: 'running' | 'completed' | 'failed' | 'waiting';
     current_node_id?: string;
+    parent_run_id?: string | null; // Root run when this row is a parallel branch
+    branch_id?: string | null; // Edge that started the branch
+    workflow_version_id?: string | null; // Published version the run executes
+    attempts?: number; // Failed attempts of the current node, reset when the run moves on
+    last_error?: string | null;
+    exit_reason?: string | null; // "goal_reached" when the workflow goal ended the run
+    goal_reached_at?: string | null;
     last_executed_at: string;
     metadata?: Record<string, unknown>;
     created_at: string;
 }
 
+export type WorkflowEnrollmentJobStatus = "queued" | "running" | "completed" | "cancelled" | "failed";
+
+export interface WorkflowEnrollmentJob {
+    id: string;
+    organization_id: string;
+    workflow_id: string;
+    created_by?: string | null;
+    status: WorkflowEnrollmentJobStatus;
+    total: number;
+    processed: number;
+    enrolled: number;
+    skipped: number; // Blocked by the workflow's re-entry rules
+    failed: number;
+    last_error?: string | null;
+    next_batch_at: string;
+    created_at: string;
+    updated_at: string;
+    completed_at?: string | null;
+}
+
 export interface AutomationRule {
     id: string;
     organization_id: string;
@@ -348,6 +461,8 @@ export interface AutomationRule {
     trigger_config: Record<string, unknown>;
     actions: AutomationAction[];
     is_active: boolean;
+    converted_workflow_id?: string | null; // Workflow the rule was converted into; rules never run themselves
+    converted_at?: string | null;
     created_at: string;
 }
 